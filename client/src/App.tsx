@@ -5,6 +5,11 @@ import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider } from "@/contexts/AuthContext";
 import AuthPage from "@/pages/AuthPage";
 import Dashboard from "@/pages/Dashboard";
+import Transactions from "@/pages/Transactions";
+import Categories from "@/pages/Categories";
+import Recurring from "@/pages/Recurring";
+import Subscriptions from "@/pages/Subscriptions";
+import Bills from "@/pages/Bills";
 import NotFound from "@/pages/not-found";
 
 const ProtectedRoute = ({ component: Component, ...rest }: any) => {
@@ -19,6 +24,11 @@ function Router() {
       <Route path="/" component={() => <Redirect to="/dashboard" />} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/dashboard" component={() => <ProtectedRoute component={Dashboard} />} />
+      <Route path="/transactions" component={() => <ProtectedRoute component={Transactions} />} />
+      <Route path="/categories" component={() => <ProtectedRoute component={Categories} />} />
+      <Route path="/recurring" component={() => <ProtectedRoute component={Recurring} />} />
+      <Route path="/subscriptions" component={() => <ProtectedRoute component={Subscriptions} />} />
+      <Route path="/bills" component={() => <ProtectedRoute component={Bills} />} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,158 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCreateAccount, useUpdateAccount } from '@/hooks/use-accounts';
+import { ACCOUNT_TYPES } from '@/lib/accounts';
+import type { Account } from '@/lib/types';
+import { accountTypes, createAccountSchema, type CreateAccountInput } from '@shared/validation';
+
+interface AccountFormProps {
+  // When given, the form edits this account instead of creating one
+  account?: Account;
+  onSuccess?: () => void;
+}
+
+export const AccountForm = ({ account, onSuccess }: AccountFormProps) => {
+  const createAccount = useCreateAccount();
+  const updateAccount = useUpdateAccount();
+  const isPending = createAccount.isPending || updateAccount.isPending;
+
+  const form = useForm<CreateAccountInput>({
+    resolver: zodResolver(createAccountSchema),
+    defaultValues: account
+      ? {
+          name: account.name,
+          type: account.type,
+          currency: account.currency,
+          openingBalance: account.openingBalance,
+          creditLimit: account.creditLimit ?? null
+        }
+      : { name: '', type: 'bank', currency: 'USD', openingBalance: 0, creditLimit: null }
+  });
+  const type = form.watch('type');
+
+  const onSubmit = (values: CreateAccountInput) => {
+    // Only credit cards have a limit
+    const data = { ...values, creditLimit: values.type === 'credit_card' ? values.creditLimit : null };
+    const options = {
+      onSuccess: () => {
+        if (!account) form.reset();
+        if (onSuccess) onSuccess();
+      }
+    };
+    if (account) {
+      updateAccount.mutate({ id: account.id, data }, options);
+    } else {
+      createAccount.mutate(data, options);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Checking" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {accountTypes.map(accountType => (
+                      <SelectItem key={accountType} value={accountType}>{ACCOUNT_TYPES[accountType].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <FormControl>
+                  <Input placeholder="USD" maxLength={3} className="uppercase" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="openingBalance"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Opening balance</FormLabel>
+              <FormControl>
+                <Input type="number" placeholder="0.00" step="0.01" {...field} />
+              </FormControl>
+              <FormDescription>
+                {type === 'credit_card'
+                  ? 'Enter what you owe as a negative amount'
+                  : 'The balance before your first recorded transaction'}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {type === 'credit_card' && (
+          <FormField
+            control={form.control}
+            name="creditLimit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Credit limit</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    placeholder="0.00"
+                    step="0.01"
+                    min="0"
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => field.onChange(e.target.value === '' ? null : e.target.value)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <Button type="submit" disabled={isPending} className="w-full">
+          {isPending ? 'Saving...' : account ? 'Save Changes' : 'Add Account'}
+        </Button>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { ArrowLeftRight, Archive, ArchiveRestore, List, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { AccountForm } from '@/components/accounts/AccountForm';
+import { AccountRegisterDialog } from '@/components/accounts/AccountRegisterDialog';
+import { TransferForm } from '@/components/accounts/TransferForm';
+import { useAccounts, useDeleteAccount, useUpdateAccount } from '@/hooks/use-accounts';
+import { ACCOUNT_TYPES, formatMoney } from '@/lib/accounts';
+import type { AccountBalance } from '@/lib/types';
+
+// Every account with its current balance; archived ones are listed last
+export const AccountList = () => {
+  const { data, accounts, isLoading, error } = useAccounts();
+  const updateAccount = useUpdateAccount();
+  const deleteAccount = useDeleteAccount();
+  const [creating, setCreating] = useState(false);
+  const [editing, setEditing] = useState<AccountBalance | null>(null);
+  const [deleting, setDeleting] = useState<AccountBalance | null>(null);
+  const [viewing, setViewing] = useState<AccountBalance | null>(null);
+  const [transferring, setTransferring] = useState(false);
+
+  const sorted = [...accounts].sort((a, b) => Number(!!a.archived) - Number(!!b.archived));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Accounts</CardTitle>
+          <CardDescription>Balances of your bank accounts, cards, cash and wallets</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {accounts.filter(account => !account.archived).length > 1 && (
+            <Button size="sm" variant="outline" onClick={() => setTransferring(true)}>
+              <ArrowLeftRight className="mr-1 h-4 w-4" />
+              Transfer
+            </Button>
+          )}
+          <Button size="sm" onClick={() => setCreating(true)}>
+            <Plus className="mr-1 h-4 w-4" />
+            New account
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-red-500 p-2">Could not load accounts. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="space-y-4 animate-pulse">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No accounts yet. Add one to track where your money is held.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {sorted.map(account => {
+              const { label, icon: Icon } = ACCOUNT_TYPES[account.type];
+              return (
+                <div key={account.id} className={`flex items-center gap-3 py-3 ${account.archived ? 'opacity-60' : ''}`}>
+                  <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 font-medium">
+                      <span className="truncate">{account.name}</span>
+                      {account.archived && <Badge variant="outline">Archived</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {label} · {account.transactionCount} transaction{account.transactionCount === 1 ? '' : 's'}
+                      {account.availableCredit !== null && ` · ${formatMoney(account.availableCredit, account.currency)} available`}
+                    </div>
+                  </div>
+                  <div className={`text-right font-medium ${account.balance < 0 ? 'text-red-600' : ''}`}>
+                    {formatMoney(account.balance, account.currency)}
+                  </div>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Account transactions"
+                      onClick={() => setViewing(account)}
+                    >
+                      <List className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Edit account"
+                      onClick={() => setEditing(account)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label={account.archived ? 'Restore account' : 'Archive account'}
+                      onClick={() => updateAccount.mutate({ id: account.id, data: { archived: !account.archived } })}
+                    >
+                      {account.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-600 hover:text-red-700"
+                      aria-label="Delete account"
+                      onClick={() => setDeleting(account)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            {data && data.unassignedCount > 0 && (
+              <div className="flex items-center gap-3 py-3 text-sm text-muted-foreground">
+                <div className="flex-1">
+                  {data.unassignedCount} transaction{data.unassignedCount === 1 ? ' is' : 's are'} not in any account
+                </div>
+                <div>{formatMoney(data.unassigned)}</div>
+                <div className="w-32"></div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={creating || !!editing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreating(false);
+            setEditing(null);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit account' : 'New account'}</DialogTitle>
+            <DialogDescription>Balances start from the opening balance and follow the account's transactions</DialogDescription>
+          </DialogHeader>
+          {/* Keyed so the form starts from the selected account's values */}
+          <AccountForm
+            key={editing?.id ?? 'new'}
+            account={editing ?? undefined}
+            onSuccess={() => {
+              setCreating(false);
+              setEditing(null);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={transferring} onOpenChange={setTransferring}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Transfer between accounts</DialogTitle>
+            <DialogDescription>Transfers change both balances but are not counted as income or spending</DialogDescription>
+          </DialogHeader>
+          {transferring && <TransferForm onSuccess={() => setTransferring(false)} />}
+        </DialogContent>
+      </Dialog>
+
+      <AccountRegisterDialog account={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only accounts without transactions can be deleted. Archive an account to hide it and keep its history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleting && deleteAccount.mutate(deleting.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
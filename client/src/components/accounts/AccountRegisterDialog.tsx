@@ -0,0 +1,94 @@
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useAccountRegister, useAccounts } from '@/hooks/use-accounts';
+import { useCategories } from '@/hooks/use-categories';
+import { ACCOUNT_TYPES, formatMoney } from '@/lib/accounts';
+import type { AccountBalance } from '@/lib/types';
+
+interface AccountRegisterDialogProps {
+  account: AccountBalance | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// An account's transactions, newest first, with the balance after each
+export const AccountRegisterDialog = ({ account, onOpenChange }: AccountRegisterDialogProps) => {
+  const { categoryName } = useCategories();
+  const { accountName } = useAccounts();
+  const { data: entries = [], isLoading, error } = useAccountRegister(account?.id ?? null);
+  const currency = account?.currency;
+
+  return (
+    <Dialog open={!!account} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{account?.name}</DialogTitle>
+          <DialogDescription>
+            {account && `${ACCOUNT_TYPES[account.type].label} · Opening balance ${formatMoney(account.openingBalance, currency)}`}
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <div className="text-red-500 p-2">Could not load this account's transactions. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="space-y-2 animate-pulse">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-8 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No transactions in this account yet.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(entry.date), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      <div>{entry.description}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {entry.type !== 'transfer'
+                          ? categoryName(entry.category)
+                          : entry.change < 0
+                            ? `Transfer to ${accountName(entry.transferAccountId)}`
+                            : `Transfer from ${accountName(entry.accountId)}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className={`text-right ${entry.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {entry.change >= 0 ? '+' : '-'}{formatMoney(Math.abs(entry.change), currency)}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${entry.runningBalance < 0 ? 'text-red-600' : ''}`}>
+                      {formatMoney(entry.runningBalance, currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
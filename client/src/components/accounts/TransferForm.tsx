@@ -0,0 +1,177 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { CalendarIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useCreateTransfer, useUpdateTransfer } from '@/hooks/use-transaction-mutations';
+import { formatMoney } from '@/lib/accounts';
+import { cn } from '@/lib/utils';
+import type { Transaction } from '@/lib/types';
+import { createTransferSchema, type CreateTransferInput } from '@shared/validation';
+
+interface TransferFormProps {
+  // When given, the form edits this transfer instead of creating one
+  transfer?: Transaction;
+  // Preselected source account for new transfers
+  fromAccountId?: string;
+  onSuccess?: () => void;
+}
+
+// Move money between two of the user's accounts
+export const TransferForm = ({ transfer, fromAccountId, onSuccess }: TransferFormProps) => {
+  const { accounts } = useAccounts();
+  const createTransfer = useCreateTransfer();
+  const updateTransfer = useUpdateTransfer();
+  const isPending = createTransfer.isPending || updateTransfer.isPending;
+
+  const form = useForm<CreateTransferInput>({
+    resolver: zodResolver(createTransferSchema),
+    defaultValues: transfer
+      ? {
+          description: transfer.description,
+          amount: transfer.amount,
+          date: new Date(transfer.date),
+          fromAccountId: transfer.accountId ?? '',
+          toAccountId: transfer.transferAccountId ?? ''
+        }
+      : { description: 'Transfer', amount: undefined, date: new Date(), fromAccountId: fromAccountId ?? '', toAccountId: '' }
+  });
+  const from = accounts.find(account => account.id === form.watch('fromAccountId'));
+
+  const onSubmit = (data: CreateTransferInput) => {
+    const options = {
+      onSuccess: () => {
+        if (!transfer) form.reset();
+        if (onSuccess) onSuccess();
+      }
+    };
+    if (transfer) {
+      updateTransfer.mutate({ id: transfer.id, data }, options);
+    } else {
+      createTransfer.mutate(data, options);
+    }
+  };
+
+  // Archived accounts are only listed when the transfer already uses them.
+  // Both sides must share a currency, so the destination follows the source.
+  const accountOptions = (selected: string, currency?: string) =>
+    accounts
+      .filter(account => !account.archived || account.id === selected)
+      .filter(account => !currency || account.currency === currency)
+      .map(account => (
+        <SelectItem key={account.id} value={account.id}>
+          {account.name} ({formatMoney(account.balance, account.currency)})
+        </SelectItem>
+      ));
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="fromAccountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>From</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>{accountOptions(field.value)}</SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="toAccountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>To</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>{accountOptions(field.value, from?.currency)}</SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Amount</FormLabel>
+              <FormControl>
+                <Input type="number" placeholder="0.00" step="0.01" min="0" {...field} value={field.value ?? ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Credit card payment" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="date"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Date</FormLabel>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <FormControl>
+                    <Button
+                      variant="outline"
+                      className={cn('pl-3 text-left font-normal', !field.value && 'text-muted-foreground')}
+                    >
+                      {field.value ? format(field.value, 'PPP') : <span>Pick a date</span>}
+                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                    </Button>
+                  </FormControl>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar mode="single" selected={field.value} onSelect={field.onChange} initialFocus />
+                </PopoverContent>
+              </Popover>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isPending} className="w-full">
+          {isPending ? 'Saving...' : transfer ? 'Save Changes' : 'Transfer'}
+        </Button>
+      </form>
+    </Form>
+  );
+};
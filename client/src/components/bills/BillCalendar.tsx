@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { format, isSameDay, isSameMonth } from 'date-fns';
+import { Check, RotateCcw, Zap } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useBillCalendar, useMarkBillPaid, useMarkBillUnpaid } from '@/hooks/use-bills';
+import type { BillOccurrence } from '@/lib/types';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+// Due dates are calendar days, so they are read in local time
+const dueDay = (occurrence: BillOccurrence) => new Date(`${occurrence.dueDate}T00:00:00`);
+
+const STATUS_STYLES: Record<BillOccurrence['status'], { label: string; className: string }> = {
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-800' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800' },
+  upcoming: { label: 'Upcoming', className: 'bg-amber-100 text-amber-800' }
+};
+
+interface BillOccurrenceRowProps {
+  occurrence: BillOccurrence;
+}
+
+const BillOccurrenceRow = ({ occurrence }: BillOccurrenceRowProps) => {
+  const markPaid = useMarkBillPaid();
+  const markUnpaid = useMarkBillUnpaid();
+  const isPending = markPaid.isPending || markUnpaid.isPending;
+  const { billId: id, dueDate, status, payment } = occurrence;
+
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-3 py-3">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2 font-medium">
+          {occurrence.name}
+          {occurrence.autopay && <Zap className="h-3 w-3 text-muted-foreground" aria-label="Autopay" />}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Due {format(dueDay(occurrence), 'EEE, MMM d')}
+          {payment && ` · Paid ${format(new Date(payment.paidAt), 'MMM d')}${payment.transactionId ? ' by a matching transaction' : ''}`}
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <span className="font-medium">
+          {occurrence.estimated && 'About '}{formatCurrency(occurrence.amount)}
+        </span>
+        <Badge variant="outline" className={`border-transparent ${STATUS_STYLES[status].className}`}>
+          {STATUS_STYLES[status].label}
+        </Badge>
+        {status !== 'paid' ? (
+          <Button variant="outline" size="sm" disabled={isPending} onClick={() => markPaid.mutate({ id, data: { dueDate } })}>
+            <Check className="mr-1 h-4 w-4" />
+            Mark paid
+          </Button>
+        ) : !payment?.transactionId && (
+          <Button variant="ghost" size="sm" disabled={isPending} onClick={() => markUnpaid.mutate({ id, dueDate })}>
+            <RotateCcw className="mr-1 h-4 w-4" />
+            Unpaid
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+};
+
+// A month of bill due dates, colored by whether they are paid, overdue or
+// still to come, with the selected day's bills listed below
+export const BillCalendar = () => {
+  const [month, setMonth] = useState(() => new Date());
+  const [selected, setSelected] = useState<Date | undefined>();
+  const { data: occurrences, isLoading, error } = useBillCalendar(format(month, 'yyyy-MM'));
+
+  const daysWith = (status: BillOccurrence['status']) =>
+    occurrences.filter(occurrence => occurrence.status === status).map(dueDay);
+  const listed = selected
+    ? occurrences.filter(occurrence => isSameDay(dueDay(occurrence), selected))
+    : occurrences;
+  const unpaid = occurrences
+    .filter(occurrence => occurrence.status !== 'paid')
+    .reduce((total, occurrence) => total + occurrence.amount, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bill Calendar</CardTitle>
+        <CardDescription>
+          Bills are marked paid when a matching payment is posted.
+          {!isLoading && !error && ` ${formatCurrency(unpaid)} left to pay in ${format(month, 'MMMM')}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-[auto_1fr]">
+        <div>
+          <Calendar
+            mode="single"
+            month={month}
+            onMonthChange={(next) => {
+              setMonth(next);
+              setSelected(undefined);
+            }}
+            selected={selected}
+            onSelect={(date) => {
+              setSelected(date);
+              if (date && !isSameMonth(date, month)) setMonth(date);
+            }}
+            modifiers={{ paid: daysWith('paid'), overdue: daysWith('overdue'), upcoming: daysWith('upcoming') }}
+            modifiersClassNames={{
+              paid: 'font-semibold text-green-700 underline decoration-green-600 decoration-2 underline-offset-4',
+              upcoming: 'font-semibold text-amber-700 underline decoration-amber-500 decoration-2 underline-offset-4',
+              overdue: 'font-semibold text-red-700 underline decoration-red-600 decoration-2 underline-offset-4'
+            }}
+          />
+          <div className="flex gap-3 px-3 text-xs text-muted-foreground">
+            <span className="text-green-700">● Paid</span>
+            <span className="text-amber-700">● Upcoming</span>
+            <span className="text-red-700">● Overdue</span>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium">
+            {selected ? format(selected, 'EEEE, MMMM d') : `All of ${format(month, 'MMMM yyyy')}`}
+          </h3>
+          {error ? (
+            <div className="text-red-500 p-2">Could not load bills. Please try again later.</div>
+          ) : isLoading ? (
+            <div className="space-y-3 animate-pulse pt-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-12 w-full bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          ) : listed.length === 0 ? (
+            <p className="py-3 text-sm text-muted-foreground">{selected ? 'No bills due this day.' : 'No bills due this month.'}</p>
+          ) : (
+            <ul className="divide-y">
+              {listed.map(occurrence => (
+                <BillOccurrenceRow key={`${occurrence.billId}:${occurrence.dueDate}`} occurrence={occurrence} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
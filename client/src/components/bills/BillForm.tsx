@@ -0,0 +1,312 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useAccounts } from '@/hooks/use-accounts';
+import { usePayees } from '@/hooks/use-payees';
+import { useCreateBill, useUpdateBill } from '@/hooks/use-bills';
+import { cn } from '@/lib/utils';
+import type { Bill } from '@/lib/types';
+import { createBillSchema, type BillFrequency, type CreateBillInput } from '@shared/validation';
+
+// Select items cannot have an empty value
+const NONE = 'none';
+
+const FREQUENCY_LABELS: Record<BillFrequency, string> = {
+  once: 'Once',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+interface DateFieldProps {
+  value: Date | null | undefined;
+  onChange: (date: Date | null) => void;
+  placeholder: string;
+}
+
+const DateField = ({ value, onChange, placeholder }: DateFieldProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <FormControl>
+        <Button variant="outline" className={cn('pl-3 text-left font-normal', !value && 'text-muted-foreground')}>
+          {value ? format(value, 'PPP') : <span>{placeholder}</span>}
+          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+        </Button>
+      </FormControl>
+    </PopoverTrigger>
+    <PopoverContent className="w-auto p-0" align="start">
+      <Calendar
+        mode="single"
+        selected={value ?? undefined}
+        onSelect={(date) => onChange(date ?? null)}
+        initialFocus
+      />
+    </PopoverContent>
+  </Popover>
+);
+
+interface BillFormProps {
+  // When given, the form edits this bill instead of creating one
+  bill?: Bill;
+  onSuccess?: () => void;
+}
+
+export const BillForm = ({ bill, onSuccess }: BillFormProps) => {
+  const { accounts } = useAccounts();
+  const { payees } = usePayees();
+  const createBill = useCreateBill();
+  const updateBill = useUpdateBill();
+  const isPending = createBill.isPending || updateBill.isPending;
+
+  const form = useForm<CreateBillInput>({
+    resolver: zodResolver(createBillSchema),
+    defaultValues: bill
+      ? {
+          name: bill.name,
+          amount: bill.amount,
+          estimated: bill.estimated,
+          accountId: bill.accountId ?? null,
+          payeeId: bill.payeeId ?? null,
+          autopay: bill.autopay,
+          frequency: bill.frequency,
+          dueDate: new Date(bill.dueDate),
+          endDate: bill.endDate ? new Date(bill.endDate) : null,
+          reminderDays: bill.reminderDays
+        }
+      : {
+          name: '',
+          amount: undefined,
+          estimated: false,
+          accountId: null,
+          payeeId: null,
+          autopay: false,
+          frequency: 'monthly',
+          dueDate: new Date(),
+          endDate: null,
+          reminderDays: 3
+        }
+  });
+
+  const frequency = form.watch('frequency');
+
+  const onSubmit = (data: CreateBillInput) => {
+    const options = {
+      onSuccess: () => {
+        if (!bill) form.reset();
+        if (onSuccess) onSuccess();
+      }
+    };
+    const values = frequency === 'once' ? { ...data, endDate: null } : data;
+    if (bill) {
+      updateBill.mutate({ id: bill.id, data: values }, options);
+    } else {
+      createBill.mutate(values, options);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Electricity" {...field} />
+              </FormControl>
+              <FormDescription>Payments whose description contains the name are matched to the bill</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input type="number" placeholder="0.00" step="0.01" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="estimated"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>Estimated</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+                <FormDescription>The amount changes from bill to bill</FormDescription>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {payees.length > 0 && (
+          <FormField
+            control={form.control}
+            name="payeeId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payee</FormLabel>
+                <Select onValueChange={(value) => field.onChange(value === NONE ? null : value)} value={field.value ?? NONE}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select payee" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No payee</SelectItem>
+                    {payees.map(payee => (
+                      <SelectItem key={payee.id} value={payee.id}>{payee.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Payments to this payee are matched to the bill too</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {accounts.length > 0 && (
+          <FormField
+            control={form.control}
+            name="accountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Paid from</FormLabel>
+                <Select onValueChange={(value) => field.onChange(value === NONE ? null : value)} value={field.value ?? NONE}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Any account</SelectItem>
+                    {accounts
+                      .filter(account => !account.archived || account.id === field.value)
+                      .map(account => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="frequency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Due</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select frequency" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="reminderDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Remind days before</FormLabel>
+                <FormControl>
+                  <Input type="number" step="1" min="0" max="30" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="dueDate"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>{frequency === 'once' ? 'Due date' : 'First due date'}</FormLabel>
+                <DateField value={field.value} onChange={(date) => date && field.onChange(date)} placeholder="Pick a date" />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {frequency !== 'once' && (
+            <FormField
+              control={form.control}
+              name="endDate"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Last due date</FormLabel>
+                  <DateField value={field.value} onChange={field.onChange} placeholder="Never" />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+        {(frequency === 'monthly' || frequency === 'yearly') && (
+          <p className="text-sm text-muted-foreground">
+            Due on the first due date's day of the month, or the last day in shorter months.
+          </p>
+        )}
+
+        <FormField
+          control={form.control}
+          name="autopay"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Autopay</FormLabel>
+                <FormDescription>The bill is paid automatically on its due date</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isPending} className="w-full">
+          {isPending ? 'Saving...' : bill ? 'Save Bill' : 'Add Bill'}
+        </Button>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Pencil, Plus, Trash2, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { BillForm } from '@/components/bills/BillForm';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useBills, useDeleteBill } from '@/hooks/use-bills';
+import type { Bill } from '@/lib/types';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const FREQUENCY_LABELS: Record<Bill['frequency'], string> = {
+  once: 'One-off',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+// "Due Oct 21", "Overdue since Oct 1" or "All paid"
+const nextDueSummary = (bill: Bill) => {
+  if (!bill.nextDue) return 'All paid';
+  const date = format(new Date(`${bill.nextDue.dueDate}T00:00:00`), 'MMM d');
+  return bill.nextDue.status === 'overdue' ? `Overdue since ${date}` : `Due ${date}`;
+};
+
+interface BillRowProps {
+  bill: Bill;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+const BillRow = ({ bill, onEdit, onDelete }: BillRowProps) => {
+  const { accountName } = useAccounts();
+
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-3 py-3">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2 font-medium">
+          {bill.name}
+          {bill.autopay && <Zap className="h-3 w-3 text-muted-foreground" aria-label="Autopay" />}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {FREQUENCY_LABELS[bill.frequency]}
+          {bill.accountId && ` · ${accountName(bill.accountId)}`}
+          {` · Reminder ${bill.reminderDays === 0 ? 'on the day' : `${bill.reminderDays} days before`}`}
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <span className="font-medium">
+          {bill.estimated && 'About '}{formatCurrency(bill.amount)}
+        </span>
+        <span className={`w-36 text-sm ${bill.nextDue?.status === 'overdue' ? 'text-red-600' : 'text-muted-foreground'}`}>
+          {nextDueSummary(bill)}
+        </span>
+        <div className="flex">
+          <Button variant="ghost" size="icon" aria-label="Edit" onClick={onEdit}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" aria-label="Delete" onClick={onDelete}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+// Bills with their next due date and edit actions
+export const BillList = () => {
+  const { data: bills, isLoading, error } = useBills();
+  const deleteBill = useDeleteBill();
+  const [creating, setCreating] = useState(false);
+  const [editing, setEditing] = useState<Bill | null>(null);
+  const [deleting, setDeleting] = useState<Bill | null>(null);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Bills</CardTitle>
+          <CardDescription>Rent, utilities and other bills you are reminded of before they are due</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreating(true)}>
+          <Plus className="mr-1 h-4 w-4" />
+          New bill
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-red-500 p-2">Could not load bills. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="space-y-3 animate-pulse">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : bills.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No bills yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {bills.map(bill => (
+              <BillRow key={bill.id} bill={bill} onEdit={() => setEditing(bill)} onDelete={() => setDeleting(bill)} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={creating || !!editing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreating(false);
+            setEditing(null);
+          }
+        }}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit bill' : 'New bill'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'Due dates already paid stay paid.'
+                : 'Expenses for about this amount close to a due date mark it paid.'}
+            </DialogDescription>
+          </DialogHeader>
+          {/* Keyed so the form starts from the selected bill's values */}
+          <BillForm
+            key={editing?.id ?? 'new'}
+            bill={editing ?? undefined}
+            onSuccess={() => {
+              setCreating(false);
+              setEditing(null);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this bill?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its reminders stop. Transactions that paid it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleting && deleteBill.mutate(deleting.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,175 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategoriesByType } from '@/hooks/use-categories';
+import { useCreateBudget, useUpdateBudget } from '@/hooks/use-budgets';
+import { ROLLOVER_LABELS } from '@/lib/budget-progress';
+import type { Budget } from '@/lib/types';
+import { createBudgetSchema, rolloverModes, type CreateBudgetInput } from '@shared/validation';
+import { flattenTree } from '@shared/category-tree';
+
+interface BudgetFormProps {
+  // When given, the form edits this budget instead of creating one
+  budget?: Budget;
+  onSuccess?: () => void;
+}
+
+export const BudgetForm = ({ budget, onSuccess }: BudgetFormProps) => {
+  const { data: categories = [] } = useCategoriesByType('expense');
+  const createBudget = useCreateBudget();
+  const updateBudget = useUpdateBudget();
+  const isPending = createBudget.isPending || updateBudget.isPending;
+
+  const form = useForm<CreateBudgetInput>({
+    resolver: zodResolver(createBudgetSchema),
+    defaultValues: budget
+      ? {
+          category: budget.category,
+          amount: budget.amount,
+          period: budget.period,
+          rollover: budget.rollover ?? 'none',
+          rolloverCap: budget.rolloverCap ?? null
+        }
+      : { category: '', amount: undefined, period: 'monthly', rollover: 'none', rolloverCap: null }
+  });
+  const rollover = form.watch('rollover');
+
+  const onSubmit = (values: CreateBudgetInput) => {
+    // The cap only applies to capped rollover
+    const data = { ...values, rolloverCap: values.rollover === 'capped' ? values.rolloverCap : null };
+    const options = {
+      onSuccess: () => {
+        if (!budget) form.reset();
+        if (onSuccess) onSuccess();
+      }
+    };
+    if (budget) {
+      updateBudget.mutate({ id: budget.id, data }, options);
+    } else {
+      createBudget.mutate(data, options);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {flattenTree(categories).map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={category.id} style={{ paddingLeft: `${2 + depth}rem` }}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Amount</FormLabel>
+              <FormControl>
+                <Input type="number" placeholder="0.00" step="0.01" min="0" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="period"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Period</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select period" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="yearly">Yearly</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="rollover"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>At the end of each period</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select rollover" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {rolloverModes.map(mode => (
+                    <SelectItem key={mode} value={mode}>{ROLLOVER_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {rollover === 'capped' && (
+          <FormField
+            control={form.control}
+            name="rolloverCap"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Carry at most</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    placeholder="0.00"
+                    step="0.01"
+                    min="0"
+                    {...field}
+                    value={field.value ?? ''}
+                    onChange={(e) => field.onChange(e.target.value === '' ? null : e.target.value)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <Button type="submit" disabled={isPending} className="w-full">
+          {isPending ? 'Saving...' : budget ? 'Save Changes' : 'Add Budget'}
+        </Button>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,95 @@
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useBudgetHistory } from '@/hooks/use-budgets';
+import { useCategories } from '@/hooks/use-categories';
+import { ROLLOVER_LABELS } from '@/lib/budget-progress';
+import type { Budget, BudgetPeriodRecord } from '@/lib/types';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const periodLabel = (record: BudgetPeriodRecord) => {
+  const start = new Date(record.periodStart);
+  const end = new Date(record.periodEnd);
+  return start.toDateString() === end.toDateString()
+    ? format(start, 'MMM d, yyyy')
+    : `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+};
+
+interface BudgetHistoryDialogProps {
+  budget: Budget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Period-by-period amounts of one budget, newest first
+export const BudgetHistoryDialog = ({ budget, onOpenChange }: BudgetHistoryDialogProps) => {
+  const { categoryName } = useCategories();
+  const { data, isLoading, error } = useBudgetHistory(budget?.id ?? null);
+  const periods = [...(data?.periods ?? [])].reverse();
+
+  return (
+    <Dialog open={!!budget} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{budget ? categoryName(budget.category) : 'Budget'} history</DialogTitle>
+          <DialogDescription>{ROLLOVER_LABELS[budget?.rollover ?? 'none']}</DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <div className="text-red-500 p-2">Could not load budget history. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="space-y-2 animate-pulse">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-8 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Budgeted</TableHead>
+                  <TableHead className="text-right">Carried in</TableHead>
+                  <TableHead className="text-right">Spent</TableHead>
+                  <TableHead className="text-right">Carried out</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.map(record => (
+                  <TableRow key={record.periodStart}>
+                    <TableCell>{periodLabel(record)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(record.budgeted)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(record.carriedIn)}</TableCell>
+                    <TableCell className={`text-right ${record.spent > record.available ? 'text-red-600' : ''}`}>
+                      {formatCurrency(record.spent)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(record.carriedOut)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
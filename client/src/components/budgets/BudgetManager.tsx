@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { History, Pencil, Plus, Trash2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { BudgetForm } from '@/components/budgets/BudgetForm';
+import { BudgetHistoryDialog } from '@/components/budgets/BudgetHistoryDialog';
+import { BudgetPlannerWizard } from '@/components/budgets/BudgetPlannerWizard';
+import { BudgetProgressRow } from '@/components/budgets/BudgetProgressRow';
+import { useBudgetStatus, useDeleteBudget } from '@/hooks/use-budgets';
+import type { BudgetStatus } from '@/lib/types';
+
+// Create, edit and delete budgets, each with its progress this period
+export const BudgetManager = () => {
+  const { data: budgets, isLoading, error } = useBudgetStatus();
+  const deleteBudget = useDeleteBudget();
+  const [creating, setCreating] = useState(false);
+  const [planning, setPlanning] = useState(false);
+  const [editing, setEditing] = useState<BudgetStatus | null>(null);
+  const [deleting, setDeleting] = useState<BudgetStatus | null>(null);
+  const [viewingHistory, setViewingHistory] = useState<BudgetStatus | null>(null);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Budgets</CardTitle>
+          <CardDescription>Spending this period against each budget</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setPlanning(true)}>
+            <Wand2 className="mr-1 h-4 w-4" />
+            Plan budgets
+          </Button>
+          <Button size="sm" onClick={() => setCreating(true)}>
+            <Plus className="mr-1 h-4 w-4" />
+            New budget
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-red-500 p-2">Could not load budgets. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="space-y-4 animate-pulse">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : budgets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No budgets yet. Add one to start tracking your spending.</p>
+        ) : (
+          <div className="space-y-6">
+            {budgets.map(budget => (
+              <BudgetProgressRow
+                key={budget.id}
+                budget={budget}
+                actions={(
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Budget history"
+                      onClick={() => setViewingHistory(budget)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Edit budget"
+                      onClick={() => setEditing(budget)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-600 hover:text-red-700"
+                      aria-label="Delete budget"
+                      onClick={() => setDeleting(budget)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={creating || !!editing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreating(false);
+            setEditing(null);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit budget' : 'New budget'}</DialogTitle>
+            <DialogDescription>Set how much you plan to spend in a category each period</DialogDescription>
+          </DialogHeader>
+          {/* Keyed so the form starts from the selected budget's values */}
+          <BudgetForm
+            key={editing?.id ?? 'new'}
+            budget={editing ?? undefined}
+            onSuccess={() => {
+              setCreating(false);
+              setEditing(null);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <BudgetPlannerWizard open={planning} onOpenChange={setPlanning} />
+
+      <BudgetHistoryDialog budget={viewingHistory} onOpenChange={(open) => !open && setViewingHistory(null)} />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this budget?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your transactions are kept; only the budget is removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleting && deleteBudget.mutate(deleting.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
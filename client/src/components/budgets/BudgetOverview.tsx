@@ -0,0 +1,45 @@
+import { BudgetProgressRow } from '@/components/budgets/BudgetProgressRow';
+import { useBudgetStatus } from '@/hooks/use-budgets';
+import { budgetLevel } from '@/lib/budget-progress';
+
+// Order to surface budgets in need of attention first
+const LEVEL_ORDER = { over: 0, warning: 1, under: 2 };
+
+interface BudgetOverviewProps {
+  limit?: number;
+}
+
+// Compact budget progress for the Dashboard, most urgent first
+export const BudgetOverview = ({ limit = 5 }: BudgetOverviewProps) => {
+  const { data: budgets, isLoading, error } = useBudgetStatus();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4 animate-pulse">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-10 w-full bg-gray-200 rounded"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-500">Could not load budgets. Please try again later.</p>;
+  }
+
+  if (budgets.length === 0) {
+    return <p className="text-sm text-muted-foreground">No budgets found. Add your first budget to start tracking.</p>;
+  }
+
+  const sorted = [...budgets].sort((a, b) =>
+    LEVEL_ORDER[budgetLevel(a)] - LEVEL_ORDER[budgetLevel(b)] || b.percentUsed - a.percentUsed
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      {sorted.slice(0, limit).map(budget => (
+        <BudgetProgressRow key={budget.id} budget={budget} />
+      ))}
+    </div>
+  );
+};
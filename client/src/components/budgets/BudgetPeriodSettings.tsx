@@ -0,0 +1,66 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBudgetSettings, useUpdateBudgetSettings } from '@/hooks/use-budgets';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const ordinal = (day: number) => {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st'
+    : day % 10 === 2 && day !== 12 ? 'nd'
+    : day % 10 === 3 && day !== 13 ? 'rd'
+    : 'th';
+  return `${day}${suffix}`;
+};
+
+// When weekly and monthly budget periods begin, e.g. to match a payday
+export const BudgetPeriodSettings = () => {
+  const { data: settings } = useBudgetSettings();
+  const updateSettings = useUpdateBudgetSettings();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Budget periods</CardTitle>
+        <CardDescription>Choose when weekly and monthly budgets start over</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-6">
+        <div className="space-y-2">
+          <Label htmlFor="week-starts-on">Weeks start on</Label>
+          <Select
+            value={settings ? String(settings.weekStartsOn) : undefined}
+            onValueChange={(value) => updateSettings.mutate({ weekStartsOn: Number(value) })}
+            disabled={!settings || updateSettings.isPending}
+          >
+            <SelectTrigger id="week-starts-on" className="w-[160px]">
+              <SelectValue placeholder="Weekday" />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAYS.map((weekday, index) => (
+                <SelectItem key={weekday} value={String(index)}>{weekday}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="month-start-day">Months start on the</Label>
+          <Select
+            value={settings ? String(settings.monthStartDay) : undefined}
+            onValueChange={(value) => updateSettings.mutate({ monthStartDay: Number(value) })}
+            disabled={!settings || updateSettings.isPending}
+          >
+            <SelectTrigger id="month-start-day" className="w-[160px]">
+              <SelectValue placeholder="Day" />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 28 }, (_, i) => i + 1).map(day => (
+                <SelectItem key={day} value={String(day)}>{ordinal(day)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,300 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useBudgetPlan, useCreateBudgets } from '@/hooks/use-budgets';
+import { useCategories } from '@/hooks/use-categories';
+import type { BudgetPlan } from '@/lib/types';
+import type { PlanRule } from '@shared/validation';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const RULES: { value: PlanRule; label: string; description: string }[] = [
+  { value: '50_30_20', label: '50/30/20', description: 'Half of income for needs, 30% for wants and 20% saved' },
+  { value: '70_20_10', label: '70/20/10', description: '70% for needs, 20% for wants and 10% saved' },
+  { value: 'historical', label: 'Past spending', description: 'Your average monthly spending, trimmed to fit your income' }
+];
+
+const STEPS = ['Income and savings', 'Planning rule', 'Review'];
+
+// Optional number fields: blank means "let the planner decide"
+const optionalNumber = (value: string) => {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+interface BudgetPlannerWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Generate monthly budgets from income, a savings target and past spending,
+// then create them together once reviewed
+export const BudgetPlannerWizard = ({ open, onOpenChange }: BudgetPlannerWizardProps) => {
+  const { categoryName } = useCategories();
+  const createBudgets = useCreateBudgets();
+  const [step, setStep] = useState(0);
+  const [income, setIncome] = useState('');
+  const [savingsTarget, setSavingsTarget] = useState('');
+  const [months, setMonths] = useState(3);
+  const [rule, setRule] = useState<PlanRule>('50_30_20');
+  const [needs, setNeeds] = useState<string[]>();
+  // Amounts edited during review, by category
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [prefilled, setPrefilled] = useState(false);
+
+  // Earlier steps only need the history averages, so typing does not refetch
+  const { data: plan, isLoading, error } = useBudgetPlan(
+    step === STEPS.length - 1
+      ? { rule, months, income: optionalNumber(income), savingsTarget: optionalNumber(savingsTarget), needs }
+      : { rule, months },
+    open
+  );
+
+  // Start from the average income of the history window
+  useEffect(() => {
+    if (!plan || prefilled) return;
+    setPrefilled(true);
+    if (income === '' && plan.historicalIncome > 0) setIncome(String(plan.historicalIncome));
+  }, [plan, prefilled, income]);
+
+  // A new plan replaces any amounts edited for the previous one
+  useEffect(() => setAmounts({}), [plan]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setStep(0);
+      setNeeds(undefined);
+      setAmounts({});
+    }
+    onOpenChange(next);
+  };
+
+  const amountOf = (budget: BudgetPlan['budgets'][number]) => amounts[budget.category] ?? String(budget.amount);
+  const planned = (plan?.budgets ?? [])
+    .map(budget => ({ ...budget, amount: Number(amountOf(budget)) }))
+    .filter(budget => Number.isFinite(budget.amount) && budget.amount > 0);
+  const plannedTotal = planned.reduce((total, budget) => total + budget.amount, 0);
+
+  const toggleGroup = (category: string, group: 'needs' | 'wants') => {
+    const current = needs ?? (plan?.budgets ?? []).filter(b => b.group === 'needs').map(b => b.category);
+    setNeeds(group === 'needs' ? [...current, category] : current.filter(id => id !== category));
+  };
+
+  const handleCreate = () => {
+    createBudgets.mutate(
+      {
+        budgets: planned.map(budget => ({
+          category: budget.category,
+          amount: budget.amount,
+          period: 'monthly'
+        }))
+      },
+      { onSuccess: () => handleOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Plan your budgets</DialogTitle>
+          <DialogDescription>Step {step + 1} of {STEPS.length}: {STEPS[step]}</DialogDescription>
+        </DialogHeader>
+
+        {step === 0 && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan-income">Monthly income</Label>
+              <Input
+                id="plan-income"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={income}
+                onChange={(e) => setIncome(e.target.value)}
+              />
+              {plan && plan.historicalIncome > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  You earned {formatCurrency(plan.historicalIncome)} a month on average recently.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-savings">Monthly savings target</Label>
+              <Input
+                id="plan-savings"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Leave blank to follow the rule"
+                value={savingsTarget}
+                onChange={(e) => setSavingsTarget(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-months">Spending history to learn from</Label>
+              <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+                <SelectTrigger id="plan-months">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 3, 6, 12].map(count => (
+                    <SelectItem key={count} value={String(count)}>
+                      Last {count === 1 ? 'month' : `${count} months`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {step === 1 && (
+          <RadioGroup value={rule} onValueChange={(value) => setRule(value as PlanRule)} className="space-y-2">
+            {RULES.map(option => (
+              <Label
+                key={option.value}
+                htmlFor={`plan-rule-${option.value}`}
+                className="flex cursor-pointer items-start gap-3 rounded-md border p-3 font-normal"
+              >
+                <RadioGroupItem id={`plan-rule-${option.value}`} value={option.value} className="mt-0.5" />
+                <div>
+                  <div className="font-medium">{option.label}</div>
+                  <div className="text-sm text-muted-foreground">{option.description}</div>
+                </div>
+              </Label>
+            ))}
+          </RadioGroup>
+        )}
+
+        {step === 2 && (
+          error ? (
+            <div className="text-red-500 p-2">Could not plan your budgets. Please try again later.</div>
+          ) : isLoading || !plan ? (
+            <div className="space-y-2 animate-pulse">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-8 w-full bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <div className="text-xs text-muted-foreground">Income</div>
+                  <div className="font-medium">{formatCurrency(plan.income)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Savings</div>
+                  <div className="font-medium">{formatCurrency(plan.savingsTarget)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Planned spending</div>
+                  <div className={`font-medium ${plannedTotal > plan.spendable ? 'text-red-600' : ''}`}>
+                    {formatCurrency(plannedTotal)} of {formatCurrency(plan.spendable)}
+                  </div>
+                </div>
+              </div>
+
+              <div className="max-h-[45vh] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Avg. spent</TableHead>
+                      <TableHead className="text-right">Budget</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.budgets.map(budget => (
+                      <TableRow key={budget.category}>
+                        <TableCell>
+                          <div className="font-medium">{categoryName(budget.category)}</div>
+                          {budget.existingAmount !== null && (
+                            <div className="text-xs text-muted-foreground">
+                              Replaces {formatCurrency(budget.existingAmount)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={budget.group}
+                            disabled={rule === 'historical'}
+                            onValueChange={(group) => toggleGroup(budget.category, group as 'needs' | 'wants')}
+                          >
+                            <SelectTrigger className="w-[100px]" aria-label="Need or want">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="needs">Need</SelectItem>
+                              <SelectItem value="wants">Want</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(budget.historicalAverage)}</TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            className="ml-auto w-28 text-right"
+                            aria-label={`Budget for ${categoryName(budget.category)}`}
+                            value={amountOf(budget)}
+                            onChange={(e) => setAmounts({ ...amounts, [budget.category]: e.target.value })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Categories left at zero get no budget. Existing monthly budgets are updated to the new amounts.
+              </p>
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          {step > 0 && (
+            <Button variant="outline" onClick={() => setStep(step - 1)}>Back</Button>
+          )}
+          {step < STEPS.length - 1 ? (
+            <Button disabled={step === 0 && !optionalNumber(income)} onClick={() => setStep(step + 1)}>
+              Next
+            </Button>
+          ) : (
+            <Button disabled={planned.length === 0 || createBudgets.isPending} onClick={handleCreate}>
+              {createBudgets.isPending ? 'Creating...' : `Create ${planned.length} budget${planned.length === 1 ? '' : 's'}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,60 @@
+import type { ReactNode } from 'react';
+import { Progress } from '@/components/ui/progress';
+import { useCategories } from '@/hooks/use-categories';
+import { budgetLevel, LEVEL_COLORS, PERIOD_LABELS } from '@/lib/budget-progress';
+import type { BudgetStatus } from '@/lib/types';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+interface BudgetProgressRowProps {
+  budget: BudgetStatus;
+  // Extra controls shown beside the title, e.g. edit and delete buttons
+  actions?: ReactNode;
+}
+
+// Spent vs. budgeted for the current period, colored by status
+export const BudgetProgressRow = ({ budget, actions }: BudgetProgressRowProps) => {
+  const { categoryName } = useCategories();
+  const { spent, available, carriedIn, remaining, percentUsed, projected, daysLeft, safeToSpendPerDay } = budget;
+  const colors = LEVEL_COLORS[budgetLevel(budget)];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="font-medium">{categoryName(budget.category)}</div>
+          <div className="text-xs text-muted-foreground">{PERIOD_LABELS[budget.period]}</div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`text-sm font-medium ${colors.text}`}>{Math.round(percentUsed)}%</span>
+          {actions}
+        </div>
+      </div>
+      <Progress value={Math.min(percentUsed, 100)} className="h-2" indicatorClassName={colors.indicator} />
+      <div className="flex flex-wrap justify-between gap-x-4 text-xs text-muted-foreground">
+        <span>{formatCurrency(spent)} of {formatCurrency(available)}</span>
+        <span className={remaining < 0 ? colors.text : undefined}>
+          {remaining >= 0 ? `${formatCurrency(remaining)} left` : `${formatCurrency(-remaining)} over`}
+        </span>
+        <span>Projected {formatCurrency(projected)}</span>
+      </div>
+      {carriedIn !== 0 && (
+        <div className="text-xs text-muted-foreground">
+          {carriedIn > 0
+            ? `Includes ${formatCurrency(carriedIn)} carried over`
+            : `Reduced by ${formatCurrency(-carriedIn)} overspent last period`}
+        </div>
+      )}
+      {remaining > 0 && (
+        <div className="text-xs text-muted-foreground">
+          {formatCurrency(safeToSpendPerDay)}/day safe to spend · {daysLeft} day{daysLeft === 1 ? '' : 's'} left
+        </div>
+      )}
+    </div>
+  );
+};
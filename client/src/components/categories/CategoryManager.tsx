@@ -0,0 +1,296 @@
+import { useEffect, useState } from 'react';
+import { Merge, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CategoryReplaceDialog } from '@/components/categories/CategoryReplaceDialog';
+import { CATEGORY_ICONS, categoryIcon } from '@/lib/category-icons';
+import {
+  useCategories,
+  useCreateCategory,
+  useUpdateCategory
+} from '@/hooks/use-categories';
+import type { Category } from '@/lib/types';
+import { categoryIcons, type CategoryIcon } from '@shared/validation';
+import { descendantIds, flattenTree } from '@shared/category-tree';
+
+type TreeRow = { category: Category; depth: number };
+
+const DEFAULT_COLOR = '#64748b';
+
+interface IconSelectProps {
+  value?: string;
+  onChange: (icon: CategoryIcon) => void;
+}
+
+const IconSelect = ({ value, onChange }: IconSelectProps) => (
+  <Select value={value} onValueChange={(icon) => onChange(icon as CategoryIcon)}>
+    <SelectTrigger className="w-[72px]" aria-label="Icon">
+      <SelectValue placeholder="Icon" />
+    </SelectTrigger>
+    <SelectContent>
+      {categoryIcons.map(name => {
+        const Icon = CATEGORY_ICONS[name];
+        return (
+          <SelectItem key={name} value={name}>
+            <Icon className="h-4 w-4" />
+          </SelectItem>
+        );
+      })}
+    </SelectContent>
+  </Select>
+);
+
+// Sentinel select value for "no parent", since Radix selects reject ''
+const TOP_LEVEL = 'top-level';
+
+interface ParentSelectProps {
+  value?: string | null;
+  // Categories that may become the parent, in tree order
+  options: TreeRow[];
+  onChange: (parentId: string | null) => void;
+}
+
+const ParentSelect = ({ value, options, onChange }: ParentSelectProps) => (
+  <Select
+    value={value ?? TOP_LEVEL}
+    onValueChange={(parentId) => onChange(parentId === TOP_LEVEL ? null : parentId)}
+  >
+    <SelectTrigger className="w-[180px]" aria-label="Parent category">
+      <SelectValue placeholder="Parent" />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+      {options.map(({ category, depth }) => (
+        <SelectItem key={category.id} value={category.id} style={{ paddingLeft: `${2 + depth}rem` }}>
+          {category.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface CategoryRowProps {
+  category: Category;
+  depth: number;
+  // All categories of the same type, in tree order
+  tree: TreeRow[];
+}
+
+const CategoryRow = ({ category, depth, tree }: CategoryRowProps) => {
+  const updateCategory = useUpdateCategory();
+  const [replaceMode, setReplaceMode] = useState<'delete' | 'merge' | null>(null);
+  const [name, setName] = useState(category.name);
+  const Icon = categoryIcon(category.icon);
+
+  useEffect(() => setName(category.name), [category.name]);
+
+  // Records can move to any other category; the parent cannot be this
+  // category or anything nested below it
+  const candidates = tree.map(row => row.category).filter(other => other.id !== category.id);
+  const nested = descendantIds(tree.map(row => row.category), category.id);
+  const parentOptions = tree.filter(row => !nested.has(row.category.id));
+
+  // Renames are saved when the field loses focus or Enter is pressed
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(category.name);
+    } else if (trimmed !== category.name) {
+      updateCategory.mutate({ id: category.id, data: { name: trimmed } });
+    }
+  };
+
+  return (
+    <li
+      className={`flex flex-wrap items-center gap-2 py-2 ${category.archived ? 'opacity-60' : ''}`}
+      style={{ paddingLeft: `${depth * 1.5}rem` }}
+    >
+      <span
+        className="flex h-8 w-8 items-center justify-center rounded-full text-white"
+        style={{ backgroundColor: category.color ?? DEFAULT_COLOR }}
+      >
+        <Icon className="h-4 w-4" />
+      </span>
+      <Input
+        className="w-[200px]"
+        value={name}
+        aria-label="Category name"
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitName();
+        }}
+      />
+      <Input
+        type="color"
+        className="h-9 w-12 p-1"
+        aria-label="Category color"
+        value={category.color ?? DEFAULT_COLOR}
+        onChange={(e) => updateCategory.mutate({ id: category.id, data: { color: e.target.value } })}
+      />
+      <IconSelect
+        value={category.icon}
+        onChange={(icon) => updateCategory.mutate({ id: category.id, data: { icon } })}
+      />
+      <ParentSelect
+        value={category.parentId}
+        options={parentOptions}
+        onChange={(parentId) => updateCategory.mutate({ id: category.id, data: { parentId } })}
+      />
+      <div className="flex items-center gap-2 ml-2">
+        <Switch
+          id={`archived-${category.id}`}
+          checked={!!category.archived}
+          onCheckedChange={(archived) => updateCategory.mutate({ id: category.id, data: { archived } })}
+        />
+        <Label htmlFor={`archived-${category.id}`} className="text-sm">Archived</Label>
+      </div>
+
+      <div className="ml-auto flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          aria-label={`Merge ${category.name}`}
+          disabled={candidates.length === 0}
+          onClick={() => setReplaceMode('merge')}
+        >
+          <Merge className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-red-600 hover:text-red-700"
+          aria-label={`Delete ${category.name}`}
+          onClick={() => setReplaceMode('delete')}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {replaceMode && (
+        <CategoryReplaceDialog
+          mode={replaceMode}
+          category={category}
+          candidates={candidates}
+          open
+          onOpenChange={(open) => !open && setReplaceMode(null)}
+        />
+      )}
+    </li>
+  );
+};
+
+interface NewCategoryFormProps {
+  type: 'income' | 'expense';
+  tree: TreeRow[];
+}
+
+const NewCategoryForm = ({ type, tree }: NewCategoryFormProps) => {
+  const createCategory = useCreateCategory();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [icon, setIcon] = useState<CategoryIcon>('tag');
+  const [parentId, setParentId] = useState<string | null>(null);
+
+  return (
+    <form
+      className="flex flex-wrap items-end gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        createCategory.mutate(
+          { name: name.trim(), type, color, icon, parentId },
+          { onSuccess: () => setName('') }
+        );
+      }}
+    >
+      <div className="space-y-1">
+        <Label htmlFor={`new-category-${type}`}>New {type} category</Label>
+        <Input
+          id={`new-category-${type}`}
+          className="w-[200px]"
+          placeholder="e.g. Groceries"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <Input
+        type="color"
+        className="h-9 w-12 p-1"
+        aria-label="New category color"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+      />
+      <IconSelect value={icon} onChange={setIcon} />
+      <ParentSelect value={parentId} options={tree} onChange={setParentId} />
+      <Button type="submit" disabled={!name.trim() || createCategory.isPending}>
+        <Plus className="mr-1 h-4 w-4" />
+        Add
+      </Button>
+    </form>
+  );
+};
+
+export const CategoryManager = () => {
+  const { categories, isLoading, error } = useCategories();
+
+  const renderList = (type: 'income' | 'expense') => {
+    const tree = flattenTree(categories.filter(category => category.type === type));
+
+    return (
+      <div className="space-y-4">
+        <NewCategoryForm type={type} tree={tree} />
+        {tree.length === 0 ? (
+          <div className="text-center text-muted-foreground py-6">No {type} categories yet.</div>
+        ) : (
+          <ul className="divide-y">
+            {tree.map(({ category, depth }) => (
+              <CategoryRow key={category.id} category={category} depth={depth} tree={tree} />
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  const archivedCount = categories.filter(category => category.archived).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Categories</CardTitle>
+        <CardDescription>
+          Rename, recolor, nest and archive the categories used to organize your transactions
+          {archivedCount > 0 && <Badge variant="outline" className="ml-2">{archivedCount} archived</Badge>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-red-500 p-2">Could not load categories. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-8 w-full bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : (
+          <Tabs defaultValue="expense">
+            <TabsList>
+              <TabsTrigger value="expense">Expenses</TabsTrigger>
+              <TabsTrigger value="income">Income</TabsTrigger>
+            </TabsList>
+            <TabsContent value="expense" className="pt-4">{renderList('expense')}</TabsContent>
+            <TabsContent value="income" className="pt-4">{renderList('income')}</TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
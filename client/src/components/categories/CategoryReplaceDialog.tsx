@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDeleteCategory, useMergeCategory } from '@/hooks/use-categories';
+import type { Category } from '@/lib/types';
+import { UNCATEGORIZED } from '@shared/validation';
+
+interface CategoryReplaceDialogProps {
+  // Deleting may send records to Uncategorized; merging needs a real category
+  mode: 'delete' | 'merge';
+  category: Category;
+  // Other categories of the same type
+  candidates: Category[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pick where a category's transactions and budgets go before it is removed
+export const CategoryReplaceDialog = ({ mode, category, candidates, open, onOpenChange }: CategoryReplaceDialogProps) => {
+  const deleteCategory = useDeleteCategory();
+  const mergeCategory = useMergeCategory();
+  const [targetId, setTargetId] = useState('');
+  const isDelete = mode === 'delete';
+  const isPending = deleteCategory.isPending || mergeCategory.isPending;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setTargetId('');
+    onOpenChange(next);
+  };
+
+  const handleConfirm = () => {
+    const options = { onSuccess: () => handleOpenChange(false) };
+    if (isDelete) {
+      deleteCategory.mutate({ id: category.id, reassignTo: targetId }, options);
+    } else {
+      mergeCategory.mutate({ id: category.id, targetId }, options);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isDelete ? `Delete "${category.name}"?` : `Merge "${category.name}"`}</DialogTitle>
+          <DialogDescription>
+            {isDelete
+              ? 'Its transactions and budgets will be moved to the category you choose.'
+              : 'All of its transactions and budgets will be moved into the chosen category, then it will be removed.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor={`replace-${category.id}`}>{isDelete ? 'Move records to' : 'Merge into'}</Label>
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger id={`replace-${category.id}`}>
+              <SelectValue placeholder="Select category" />
+            </SelectTrigger>
+            <SelectContent>
+              {isDelete && <SelectItem value={UNCATEGORIZED}>Uncategorized</SelectItem>}
+              {candidates.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.name}{candidate.archived ? ' (archived)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button
+            className={isDelete ? 'bg-red-600 hover:bg-red-700' : undefined}
+            disabled={!targetId || isPending}
+            onClick={handleConfirm}
+          >
+            {isPending ? 'Working...' : isDelete ? 'Delete' : 'Merge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
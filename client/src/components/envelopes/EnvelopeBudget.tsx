@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { addMonths, format } from 'date-fns';
+import { ArrowLeftRight, ChevronLeft, ChevronRight, ListChecks } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { EnvelopeMoveDialog } from '@/components/envelopes/EnvelopeMoveDialog';
+import { useBudgetStatus } from '@/hooks/use-budgets';
+import { useCategories } from '@/hooks/use-categories';
+import { useAssignEnvelopes, useEnvelopeMonth } from '@/hooks/use-envelopes';
+import type { EnvelopeRecord } from '@/lib/types';
+import { flattenTree } from '@shared/category-tree';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const monthDate = (month: string) => new Date(`${month}-01T00:00:00`);
+const shiftMonth = (month: string, months: number) => format(addMonths(monthDate(month), months), 'yyyy-MM');
+
+interface AssignedInputProps {
+  envelope: EnvelopeRecord;
+  onAssign: (amount: number) => void;
+}
+
+// Assigned amounts are saved when the field loses focus or Enter is pressed
+const AssignedInput = ({ envelope, onAssign }: AssignedInputProps) => {
+  const [value, setValue] = useState(String(envelope.assigned));
+
+  useEffect(() => setValue(String(envelope.assigned)), [envelope.assigned]);
+
+  const commit = () => {
+    const amount = Number(value);
+    if (value.trim() === '' || !Number.isFinite(amount) || amount < 0) {
+      setValue(String(envelope.assigned));
+    } else if (amount !== envelope.assigned) {
+      onAssign(amount);
+    }
+  };
+
+  return (
+    <Input
+      type="number"
+      step="0.01"
+      min="0"
+      className="ml-auto w-28 text-right"
+      aria-label="Assigned this month"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+    />
+  );
+};
+
+type MoveState = { mode: 'move' | 'cover'; to?: string };
+
+// Zero-based monthly plan: give every dollar of income an envelope, move
+// money between envelopes and cover the ones that were overspent
+export const EnvelopeBudget = () => {
+  const [month, setMonth] = useState<string>();
+  const { data, isLoading, error } = useEnvelopeMonth(month);
+  const { categories, categoryName } = useCategories();
+  const { data: budgets } = useBudgetStatus();
+  const assignEnvelopes = useAssignEnvelopes();
+  const [moving, setMoving] = useState<MoveState | null>(null);
+
+  const current = data?.month;
+  const envelopes = data?.envelopes ?? [];
+  const byCategory = new Map(envelopes.map(envelope => [envelope.category, envelope]));
+
+  // Envelopes in category tree order, then any without a category record
+  const tree = flattenTree(categories.filter(category => byCategory.has(category.id)));
+  const rows = [
+    ...tree.map(({ category, depth }) => ({ envelope: byCategory.get(category.id)!, depth })),
+    ...envelopes
+      .filter(envelope => !categories.some(category => category.id === envelope.category))
+      .map(envelope => ({ envelope, depth: 0 }))
+  ];
+
+  const assign = (assignments: { category: string; amount: number }[]) => {
+    if (current && assignments.length > 0) assignEnvelopes.mutate({ month: current, assignments });
+  };
+
+  // Give each envelope its monthly budget's amount
+  const budgetAssignments = budgets
+    .filter(budget => budget.period === 'monthly' && byCategory.has(budget.category))
+    .filter(budget => byCategory.get(budget.category)!.assigned !== budget.amount)
+    .map(budget => ({ category: budget.category, amount: budget.amount }));
+
+  const toBeBudgeted = data?.toBeBudgeted ?? 0;
+  const toBeBudgetedColor = toBeBudgeted < 0 ? 'text-red-600' : toBeBudgeted > 0 ? 'text-amber-600' : 'text-green-600';
+  const overspentCount = envelopes.filter(envelope => envelope.available < 0).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Envelopes</CardTitle>
+          <CardDescription>Assign this month's income until nothing is left to budget</CardDescription>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Previous month"
+            disabled={!current}
+            onClick={() => current && setMonth(shiftMonth(current, -1))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="w-32 text-center text-sm font-medium">
+            {current ? format(monthDate(current), 'MMMM yyyy') : ''}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Next month"
+            disabled={!current}
+            onClick={() => current && setMonth(shiftMonth(current, 1))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <div className="text-red-500 p-2">Could not load envelopes. Please try again later.</div>
+        ) : isLoading || !data ? (
+          <div className="space-y-4 animate-pulse">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-10 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div>
+                <div className="text-xs text-muted-foreground">To be budgeted</div>
+                <div className={`text-2xl font-bold ${toBeBudgetedColor}`}>{formatCurrency(toBeBudgeted)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Income this month</div>
+                <div className="text-lg font-medium">{formatCurrency(data.income)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Assigned this month</div>
+                <div className="text-lg font-medium">{formatCurrency(data.assigned)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Overspent last month</div>
+                <div className={`text-lg font-medium ${data.uncoveredOverspending > 0 ? 'text-red-600' : ''}`}>
+                  {formatCurrency(data.uncoveredOverspending)}
+                </div>
+              </div>
+            </div>
+
+            {overspentCount > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {overspentCount === 1 ? '1 envelope is' : `${overspentCount} envelopes are`} overspent
+                  by {formatCurrency(data.overspent)} in total. Cover {overspentCount === 1 ? 'it' : 'them'} from
+                  another envelope, or the shortfall comes out of next month's money.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMoving({ mode: 'move' })}>
+                <ArrowLeftRight className="mr-1 h-4 w-4" />
+                Move money
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={budgetAssignments.length === 0 || assignEnvelopes.isPending}
+                onClick={() => assign(budgetAssignments)}
+              >
+                <ListChecks className="mr-1 h-4 w-4" />
+                Assign monthly budget amounts
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Envelope</TableHead>
+                  <TableHead className="text-right">Assigned</TableHead>
+                  <TableHead className="text-right">Activity</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                  <TableHead className="w-[90px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ envelope, depth }) => (
+                  <TableRow key={envelope.category}>
+                    <TableCell style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                      <div className="font-medium">{categoryName(envelope.category)}</div>
+                      {(envelope.carriedIn !== 0 || envelope.moved !== 0) && (
+                        <div className="text-xs text-muted-foreground">
+                          {envelope.carriedIn !== 0 && `${formatCurrency(envelope.carriedIn)} from last month`}
+                          {envelope.carriedIn !== 0 && envelope.moved !== 0 && ' · '}
+                          {envelope.moved !== 0 && `${formatCurrency(envelope.moved)} moved`}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <AssignedInput
+                        envelope={envelope}
+                        onAssign={(amount) => assign([{ category: envelope.category, amount }])}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(-envelope.activity)}</TableCell>
+                    <TableCell className={`text-right font-medium ${envelope.available < 0 ? 'text-red-600' : envelope.available > 0 ? 'text-green-600' : ''}`}>
+                      {formatCurrency(envelope.available)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {envelope.available < 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setMoving({ mode: 'cover', to: envelope.category })}
+                        >
+                          Cover
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+
+      {moving && current && (
+        <EnvelopeMoveDialog
+          key={`${moving.mode}-${moving.to ?? ''}`}
+          mode={moving.mode}
+          month={current}
+          envelopes={envelopes}
+          to={moving.to}
+          open
+          onOpenChange={(open) => !open && setMoving(null)}
+        />
+      )}
+    </Card>
+  );
+};
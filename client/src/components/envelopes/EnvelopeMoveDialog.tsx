@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategories } from '@/hooks/use-categories';
+import { useCoverOverspending, useMoveEnvelopeMoney } from '@/hooks/use-envelopes';
+import type { EnvelopeRecord } from '@/lib/types';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+interface EnvelopeMoveDialogProps {
+  // Covering starts from an overspent envelope and defaults to its shortfall
+  mode: 'move' | 'cover';
+  month: string;
+  envelopes: EnvelopeRecord[];
+  // Envelope receiving the money, fixed when covering
+  to?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Move money between two envelopes of a month
+export const EnvelopeMoveDialog = ({ mode, month, envelopes, to, open, onOpenChange }: EnvelopeMoveDialogProps) => {
+  const { categoryName } = useCategories();
+  const moveMoney = useMoveEnvelopeMoney();
+  const coverOverspending = useCoverOverspending();
+  const target = envelopes.find(envelope => envelope.category === to);
+  const shortfall = target ? Math.max(-target.available, 0) : 0;
+  const [from, setFrom] = useState('');
+  const [toCategory, setToCategory] = useState(to ?? '');
+  const [amount, setAmount] = useState(shortfall > 0 ? String(shortfall) : '');
+  const isCover = mode === 'cover';
+  const isPending = moveMoney.isPending || coverOverspending.isPending;
+  const value = Number(amount);
+
+  // Only envelopes holding money can give it away
+  const sources = envelopes.filter(envelope => envelope.available > 0 && envelope.category !== toCategory);
+
+  const handleConfirm = () => {
+    const options = { onSuccess: () => onOpenChange(false) };
+    if (isCover) {
+      coverOverspending.mutate({ month, from, to: toCategory, amount: value }, options);
+    } else {
+      moveMoney.mutate({ month, from, to: toCategory, amount: value }, options);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isCover ? `Cover ${categoryName(toCategory)}` : 'Move money'}</DialogTitle>
+          <DialogDescription>
+            {isCover
+              ? `This envelope is ${formatCurrency(shortfall)} overspent. Take the money from another envelope.`
+              : 'Take money out of one envelope and put it in another.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="envelope-from">From</Label>
+            <Select value={from} onValueChange={setFrom}>
+              <SelectTrigger id="envelope-from">
+                <SelectValue placeholder="Select envelope" />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map(envelope => (
+                  <SelectItem key={envelope.category} value={envelope.category}>
+                    {categoryName(envelope.category)} ({formatCurrency(envelope.available)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!isCover && (
+            <div className="space-y-2">
+              <Label htmlFor="envelope-to">To</Label>
+              <Select value={toCategory} onValueChange={setToCategory}>
+                <SelectTrigger id="envelope-to">
+                  <SelectValue placeholder="Select envelope" />
+                </SelectTrigger>
+                <SelectContent>
+                  {envelopes.filter(envelope => envelope.category !== from).map(envelope => (
+                    <SelectItem key={envelope.category} value={envelope.category}>
+                      {categoryName(envelope.category)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="envelope-amount">Amount</Label>
+            <Input
+              id="envelope-amount"
+              type="number"
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!from || !toCategory || !(value > 0) || isPending} onClick={handleConfirm}>
+            {isPending ? 'Moving...' : isCover ? 'Cover' : 'Move'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,92 @@
+import { format } from 'date-fns';
+import { Pencil, PiggyBank, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useCategories } from '@/hooks/use-categories';
+import { useAccounts } from '@/hooks/use-accounts';
+import type { SavingsGoal } from '@/lib/types';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const STATUS_STYLES: Record<SavingsGoal['status'], { label: string; indicator: string; badge: string }> = {
+  active: { label: 'On the way', indicator: 'bg-primary', badge: 'bg-blue-100 text-blue-700' },
+  completed: { label: 'Reached', indicator: 'bg-green-600', badge: 'bg-green-100 text-green-700' },
+  overdue: { label: 'Past deadline', indicator: 'bg-red-600', badge: 'bg-red-100 text-red-700' }
+};
+
+interface GoalCardProps {
+  goal: SavingsGoal;
+  onContribute: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+// Progress toward one goal and what it takes to reach it in time
+export const GoalCard = ({ goal, onContribute, onEdit, onDelete }: GoalCardProps) => {
+  const { categoryName } = useCategories();
+  const { accountName } = useAccounts();
+  const style = STATUS_STYLES[goal.status];
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium">{goal.name}</div>
+          <div className="text-xs text-muted-foreground">
+            {goal.deadline ? `By ${format(new Date(goal.deadline), 'MMM d, yyyy')}` : 'No deadline'}
+            {goal.categoryId && ` · Tracks ${categoryName(goal.categoryId)}`}
+            {goal.accountId && ` · Tracks ${accountName(goal.accountId)}`}
+          </div>
+        </div>
+        <Badge variant="outline" className={`border-transparent ${style.badge}`}>{style.label}</Badge>
+      </div>
+
+      <Progress value={Math.min(goal.percent, 100)} className="h-2" indicatorClassName={style.indicator} />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatCurrency(goal.saved)} of {formatCurrency(goal.targetAmount)}</span>
+        <span>{Math.round(goal.percent)}%</span>
+      </div>
+
+      {goal.status === 'active' && goal.requiredPerMonth !== null && (
+        <div className="text-sm">
+          <div>{formatCurrency(goal.requiredPerMonth)}/month for {goal.monthsLeft} month{goal.monthsLeft === 1 ? '' : 's'}</div>
+          <div className={`text-xs ${goal.neededThisMonth ? 'text-amber-600' : 'text-green-600'}`}>
+            {goal.neededThisMonth
+              ? `You're ${formatCurrency(goal.neededThisMonth)} away this month`
+              : "You're on track this month"}
+          </div>
+        </div>
+      )}
+      {goal.status === 'overdue' && (
+        <div className="text-xs text-red-600">{formatCurrency(goal.remaining)} still to save</div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button size="sm" variant="outline" onClick={onContribute}>
+          <PiggyBank className="mr-1 h-4 w-4" />
+          Contribute
+        </Button>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Edit goal" onClick={onEdit}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-red-600 hover:text-red-700"
+            aria-label="Delete goal"
+            onClick={onDelete}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
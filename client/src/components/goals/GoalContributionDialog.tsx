@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAddContribution, useDeleteContribution, useGoalContributions } from '@/hooks/use-goals';
+import type { SavingsGoal } from '@/lib/types';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+interface GoalContributionDialogProps {
+  goal: SavingsGoal | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Add money to a goal or take some out, and review what went into it
+export const GoalContributionDialog = ({ goal, onOpenChange }: GoalContributionDialogProps) => {
+  const { data: contributions = [], isLoading } = useGoalContributions(goal?.id ?? null);
+  const addContribution = useAddContribution();
+  const deleteContribution = useDeleteContribution();
+  const [direction, setDirection] = useState<'deposit' | 'withdrawal'>('deposit');
+  const [amount, setAmount] = useState(goal?.neededThisMonth ? String(goal.neededThisMonth) : '');
+  const [note, setNote] = useState('');
+  const value = Number(amount);
+
+  const handleAdd = () => {
+    if (!goal) return;
+    addContribution.mutate(
+      {
+        id: goal.id,
+        data: { amount: direction === 'deposit' ? value : -value, note: note.trim() || undefined }
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={!!goal} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{goal?.name}</DialogTitle>
+          <DialogDescription>
+            {goal && `${formatCurrency(goal.saved)} saved of ${formatCurrency(goal.targetAmount)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={direction}
+            onValueChange={(next) => setDirection(next as 'deposit' | 'withdrawal')}
+            className="flex gap-4"
+          >
+            <Label htmlFor="contribution-deposit" className="flex items-center gap-2 font-normal">
+              <RadioGroupItem id="contribution-deposit" value="deposit" />
+              Add money
+            </Label>
+            <Label htmlFor="contribution-withdrawal" className="flex items-center gap-2 font-normal">
+              <RadioGroupItem id="contribution-withdrawal" value="withdrawal" />
+              Withdraw
+            </Label>
+          </RadioGroup>
+          <div className="space-y-2">
+            <Label htmlFor="contribution-amount">Amount</Label>
+            <Input
+              id="contribution-amount"
+              type="number"
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="contribution-note">Note</Label>
+            <Input
+              id="contribution-note"
+              placeholder="Optional"
+              maxLength={200}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Contributions</div>
+            {isLoading ? (
+              <div className="h-16 w-full animate-pulse rounded bg-gray-200"></div>
+            ) : contributions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing saved toward this goal yet.</p>
+            ) : (
+              <ScrollArea className="h-40 rounded-md border">
+                <ul className="divide-y">
+                  {contributions.map(contribution => (
+                    <li key={`${contribution.source}-${contribution.id}`} className="flex items-center gap-2 px-3 py-2 text-sm">
+                      <div className="flex-1">
+                        <div>{contribution.note || (contribution.source === 'transaction' ? 'Linked transaction' : 'Contribution')}</div>
+                        <div className="text-xs text-muted-foreground">{format(new Date(contribution.date), 'MMM d, yyyy')}</div>
+                      </div>
+                      <span className={contribution.amount < 0 ? 'text-red-600' : 'text-green-600'}>
+                        {formatCurrency(contribution.amount)}
+                      </span>
+                      {contribution.source === 'manual' && goal && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-red-600 hover:text-red-700"
+                          aria-label="Remove contribution"
+                          disabled={deleteContribution.isPending}
+                          onClick={() => deleteContribution.mutate({ goalId: goal.id, id: contribution.id })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!(value > 0) || addContribution.isPending} onClick={handleAdd}>
+            {addContribution.isPending ? 'Saving...' : direction === 'deposit' ? 'Add money' : 'Withdraw'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,202 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategories } from '@/hooks/use-categories';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useCreateGoal, useUpdateGoal } from '@/hooks/use-goals';
+import { cn } from '@/lib/utils';
+import type { SavingsGoal } from '@/lib/types';
+import { createGoalSchema, type CreateGoalInput } from '@shared/validation';
+import { flattenTree } from '@shared/category-tree';
+
+// Select items cannot have an empty value
+const NONE = 'none';
+
+interface GoalFormProps {
+  // When given, the form edits this goal instead of creating one
+  goal?: SavingsGoal;
+  onSuccess?: () => void;
+}
+
+export const GoalForm = ({ goal, onSuccess }: GoalFormProps) => {
+  const { categories } = useCategories();
+  const { accounts } = useAccounts();
+  const createGoal = useCreateGoal();
+  const updateGoal = useUpdateGoal();
+  const isPending = createGoal.isPending || updateGoal.isPending;
+
+  const form = useForm<CreateGoalInput>({
+    resolver: zodResolver(createGoalSchema),
+    defaultValues: goal
+      ? {
+          name: goal.name,
+          targetAmount: goal.targetAmount,
+          deadline: goal.deadline ? new Date(goal.deadline) : null,
+          categoryId: goal.categoryId ?? null,
+          accountId: goal.accountId ?? null
+        }
+      : { name: '', targetAmount: undefined, deadline: null, categoryId: null, accountId: null }
+  });
+
+  const onSubmit = (data: CreateGoalInput) => {
+    const options = {
+      onSuccess: () => {
+        if (!goal) form.reset();
+        if (onSuccess) onSuccess();
+      }
+    };
+    if (goal) {
+      updateGoal.mutate({ id: goal.id, data }, options);
+    } else {
+      createGoal.mutate(data, options);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Emergency fund" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="targetAmount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Target amount</FormLabel>
+              <FormControl>
+                <Input type="number" placeholder="0.00" step="0.01" min="0" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="deadline"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Deadline</FormLabel>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <FormControl>
+                    <Button
+                      variant="outline"
+                      className={cn('pl-3 text-left font-normal', !field.value && 'text-muted-foreground')}
+                    >
+                      {field.value ? format(field.value, 'PPP') : <span>No deadline</span>}
+                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                    </Button>
+                  </FormControl>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={field.value ?? undefined}
+                    onSelect={(date) => field.onChange(date ?? null)}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <FormDescription>Sets how much you need to save each month</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="categoryId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Linked category</FormLabel>
+              <Select
+                onValueChange={(value) => {
+                  field.onChange(value === NONE ? null : value);
+                  // A goal follows a category or an account, not both
+                  if (value !== NONE) form.setValue('accountId', null);
+                }}
+                value={field.value ?? NONE}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {flattenTree(categories.filter(category => !category.archived || category.id === field.value))
+                    .map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.id} style={{ paddingLeft: `${2 + depth}rem` }}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Transactions in this category count toward the goal</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {accounts.length > 0 && (
+          <FormField
+            control={form.control}
+            name="accountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Linked account</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value === NONE ? null : value);
+                    if (value !== NONE) form.setValue('categoryId', null);
+                  }}
+                  value={field.value ?? NONE}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None</SelectItem>
+                    {accounts
+                      .filter(account => !account.archived || account.id === field.value)
+                      .map(account => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Money moved in and out of this account counts toward the goal</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <Button type="submit" disabled={isPending} className="w-full">
+          {isPending ? 'Saving...' : goal ? 'Save Changes' : 'Add Goal'}
+        </Button>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { GoalCard } from '@/components/goals/GoalCard';
+import { GoalContributionDialog } from '@/components/goals/GoalContributionDialog';
+import { GoalForm } from '@/components/goals/GoalForm';
+import { useDeleteGoal, useGoals } from '@/hooks/use-goals';
+import type { SavingsGoal } from '@/lib/types';
+
+// Savings goals with their progress, contributions and edit actions
+export const SavingsGoals = () => {
+  const { data: goals, isLoading, error } = useGoals();
+  const deleteGoal = useDeleteGoal();
+  const [creating, setCreating] = useState(false);
+  const [editing, setEditing] = useState<SavingsGoal | null>(null);
+  const [deleting, setDeleting] = useState<SavingsGoal | null>(null);
+  const [contributing, setContributing] = useState<SavingsGoal | null>(null);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Savings Goals</CardTitle>
+          <CardDescription>What you are saving for and how far along you are</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreating(true)}>
+          <Plus className="mr-1 h-4 w-4" />
+          New goal
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-red-500 p-2">Could not load savings goals. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3 animate-pulse">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-40 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : goals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No savings goals yet. Add one to start saving toward it.</p>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {goals.map(goal => (
+              <GoalCard
+                key={goal.id}
+                goal={goal}
+                onContribute={() => setContributing(goal)}
+                onEdit={() => setEditing(goal)}
+                onDelete={() => setDeleting(goal)}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={creating || !!editing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreating(false);
+            setEditing(null);
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit goal' : 'New goal'}</DialogTitle>
+            <DialogDescription>Set a target and, optionally, when you want to reach it</DialogDescription>
+          </DialogHeader>
+          {/* Keyed so the form starts from the selected goal's values */}
+          <GoalForm
+            key={editing?.id ?? 'new'}
+            goal={editing ?? undefined}
+            onSuccess={() => {
+              setCreating(false);
+              setEditing(null);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Keyed so the amount starts from the selected goal's monthly shortfall */}
+      <GoalContributionDialog
+        key={contributing?.id ?? 'none'}
+        goal={contributing}
+        onOpenChange={(open) => !open && setContributing(null)}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this goal?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its contributions are deleted too. Linked transactions are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleting && deleteGoal.mutate(deleting.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -1,5 +1,6 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
+import { NotificationMenu } from '@/components/layout/NotificationMenu';
 import { Wallet, LogOut } from 'lucide-react';
 import { Link } from 'wouter';
 
@@ -27,6 +28,25 @@ const Navbar: React.FC = () => {
           
           {currentUser && (
             <div className="flex items-center space-x-4">
+              <Link href="/dashboard" className="text-sm text-gray-600 hover:text-primary">
+                Dashboard
+              </Link>
+              <Link href="/transactions" className="text-sm text-gray-600 hover:text-primary">
+                Transactions
+              </Link>
+              <Link href="/categories" className="text-sm text-gray-600 hover:text-primary">
+                Categories
+              </Link>
+              <Link href="/recurring" className="text-sm text-gray-600 hover:text-primary">
+                Recurring
+              </Link>
+              <Link href="/subscriptions" className="text-sm text-gray-600 hover:text-primary">
+                Subscriptions
+              </Link>
+              <Link href="/bills" className="text-sm text-gray-600 hover:text-primary">
+                Bills
+              </Link>
+              <NotificationMenu />
               <span className="text-sm text-gray-700">{currentUser.email}</span>
               <Button 
                 variant="ghost" 
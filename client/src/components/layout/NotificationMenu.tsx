@@ -0,0 +1,79 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useMarkNotificationsRead, useNotifications } from '@/hooks/use-notifications';
+import type { Notification } from '@/lib/types';
+
+// Bell in the navbar listing recent notifications, unread ones first marked
+export const NotificationMenu = () => {
+  const { data: notifications, unread } = useNotifications();
+  const markRead = useMarkNotificationsRead();
+  const [, navigate] = useLocation();
+
+  const open = (notification: Notification) => {
+    if (!notification.read) markRead.mutate([notification.id]);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative text-gray-600 hover:text-primary"
+          aria-label={unread > 0 ? `${unread} unread notifications` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-medium text-white">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unread > 0 && (
+            <Button variant="link" size="sm" className="h-auto px-2 text-xs" onClick={() => markRead.mutate(undefined)}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-4 text-center text-sm text-muted-foreground">You're all caught up.</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex cursor-pointer flex-col items-start gap-0.5"
+                onSelect={() => open(notification)}
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!notification.read && <span className="h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  <span className={notification.read ? 'text-gray-600' : 'font-medium'}>{notification.title}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">{notification.message}</span>
+                <span className="text-[10px] text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategories } from '@/hooks/use-categories';
+import { useCreatePayee, useDeletePayee, usePayees, useUpdatePayee } from '@/hooks/use-payees';
+import type { Category, Payee } from '@/lib/types';
+
+// Sentinel select value for "no default category", since Radix selects reject ''
+const NO_DEFAULT = 'none';
+
+interface DefaultCategorySelectProps {
+  value?: string | null;
+  categories: Category[];
+  onChange: (categoryId: string | null) => void;
+}
+
+const DefaultCategorySelect = ({ value, categories, onChange }: DefaultCategorySelectProps) => (
+  <Select
+    value={value ?? NO_DEFAULT}
+    onValueChange={(categoryId) => onChange(categoryId === NO_DEFAULT ? null : categoryId)}
+  >
+    <SelectTrigger className="w-[200px]" aria-label="Default category">
+      <SelectValue placeholder="Default category" />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={NO_DEFAULT}>No default category</SelectItem>
+      {categories.map(category => (
+        <SelectItem key={category.id} value={category.id}>
+          {category.name} ({category.type})
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface PayeeRowProps {
+  payee: Payee;
+  categories: Category[];
+}
+
+const PayeeRow = ({ payee, categories }: PayeeRowProps) => {
+  const updatePayee = useUpdatePayee();
+  const deletePayee = useDeletePayee();
+  const [name, setName] = useState(payee.name);
+
+  useEffect(() => setName(payee.name), [payee.name]);
+
+  // Renames are saved when the field loses focus or Enter is pressed
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setName(payee.name);
+    } else if (trimmed !== payee.name) {
+      updatePayee.mutate({ id: payee.id, data: { name: trimmed } }, { onError: () => setName(payee.name) });
+    }
+  };
+
+  return (
+    <li className="flex flex-wrap items-center gap-2 py-2">
+      <Input
+        className="w-[220px]"
+        value={name}
+        aria-label="Payee name"
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitName();
+        }}
+      />
+      <DefaultCategorySelect
+        value={payee.defaultCategory}
+        categories={categories}
+        onChange={(defaultCategory) => updatePayee.mutate({ id: payee.id, data: { defaultCategory } })}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="ml-auto h-8 w-8 text-red-600 hover:text-red-700"
+        aria-label={`Delete ${payee.name}`}
+        disabled={deletePayee.isPending}
+        onClick={() => deletePayee.mutate(payee.id)}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </li>
+  );
+};
+
+const NewPayeeForm = ({ categories }: { categories: Category[] }) => {
+  const createPayee = useCreatePayee();
+  const [name, setName] = useState('');
+  const [defaultCategory, setDefaultCategory] = useState<string | null>(null);
+
+  return (
+    <form
+      className="flex flex-wrap items-end gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        createPayee.mutate(
+          { name: name.trim(), defaultCategory },
+          { onSuccess: () => setName('') }
+        );
+      }}
+    >
+      <div className="space-y-1">
+        <Label htmlFor="new-payee">New payee</Label>
+        <Input
+          id="new-payee"
+          className="w-[220px]"
+          placeholder="e.g. Corner Grocery"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <DefaultCategorySelect value={defaultCategory} categories={categories} onChange={setDefaultCategory} />
+      <Button type="submit" disabled={!name.trim() || createPayee.isPending}>
+        <Plus className="mr-1 h-4 w-4" />
+        Add
+      </Button>
+    </form>
+  );
+};
+
+export const PayeeManager = () => {
+  const { payees, isLoading, error } = usePayees();
+  const { categories } = useCategories();
+  const activeCategories = categories.filter(category => !category.archived);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payees</CardTitle>
+        <CardDescription>
+          Merchants and people you pay or get paid by. A default category is filled in when you pick the payee.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <NewPayeeForm categories={activeCategories} />
+        {error ? (
+          <div className="text-red-500 p-2">Could not load payees. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-8 w-full bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : payees.length === 0 ? (
+          <div className="text-center text-muted-foreground py-6">No payees yet.</div>
+        ) : (
+          <ul className="divide-y">
+            {payees.map(payee => (
+              <PayeeRow key={payee.id} payee={payee} categories={activeCategories} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
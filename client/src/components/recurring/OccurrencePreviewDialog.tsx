@@ -0,0 +1,74 @@
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useOccurrences, useRestoreOccurrence, useSkipOccurrence } from '@/hooks/use-recurring';
+import type { RecurringRule } from '@/lib/types';
+
+interface OccurrencePreviewDialogProps {
+  rule: RecurringRule | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The rule's next occurrences, where single ones can be skipped or restored
+export const OccurrencePreviewDialog = ({ rule, onOpenChange }: OccurrencePreviewDialogProps) => {
+  const { data: occurrences = [], isLoading } = useOccurrences(rule?.id ?? null);
+  const skipOccurrence = useSkipOccurrence();
+  const restoreOccurrence = useRestoreOccurrence();
+  const isPending = skipOccurrence.isPending || restoreOccurrence.isPending;
+
+  return (
+    <Dialog open={!!rule} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Upcoming: {rule?.description}</DialogTitle>
+          <DialogDescription>
+            Skipping an occurrence leaves the rest of the schedule as it is.
+            {rule?.paused && ' This rule is paused, so nothing posts until it is resumed.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2 animate-pulse">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-8 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : occurrences.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This rule has no more occurrences.</p>
+        ) : (
+          <ul className="max-h-[60vh] divide-y overflow-y-auto">
+            {occurrences.map(({ occurrence, date, skipped }) => (
+              <li key={occurrence} className="flex items-center justify-between py-2">
+                <div className={skipped ? 'text-muted-foreground line-through' : ''}>
+                  <div className="text-sm">{format(new Date(date), 'EEE, MMM d, yyyy')}</div>
+                  {/* Weekend adjustment moved it off its scheduled date */}
+                  {occurrence !== format(new Date(date), 'yyyy-MM-dd') && (
+                    <div className="text-xs text-muted-foreground">
+                      Scheduled for {format(new Date(`${occurrence}T00:00:00`), 'EEE, MMM d')}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => rule && (skipped
+                    ? restoreOccurrence.mutate({ id: rule.id, occurrence })
+                    : skipOccurrence.mutate({ id: rule.id, occurrence }))}
+                >
+                  {skipped ? 'Restore' : 'Skip'}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,334 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategoriesByType } from '@/hooks/use-categories';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useCreateRecurringRule, useUpdateRecurringRule } from '@/hooks/use-recurring';
+import { cn } from '@/lib/utils';
+import type { RecurringRule } from '@/lib/types';
+import { createRecurringRuleSchema, type CreateRecurringRuleInput, type RecurringFrequency } from '@shared/validation';
+import { flattenTree } from '@shared/category-tree';
+
+// Select items cannot have an empty value
+const NONE = 'none';
+
+const FREQUENCY_UNITS: Record<RecurringFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  yearly: 'year(s)'
+};
+
+interface DateFieldProps {
+  value: Date | null | undefined;
+  onChange: (date: Date | null) => void;
+  placeholder: string;
+}
+
+const DateField = ({ value, onChange, placeholder }: DateFieldProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <FormControl>
+        <Button variant="outline" className={cn('pl-3 text-left font-normal', !value && 'text-muted-foreground')}>
+          {value ? format(value, 'PPP') : <span>{placeholder}</span>}
+          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+        </Button>
+      </FormControl>
+    </PopoverTrigger>
+    <PopoverContent className="w-auto p-0" align="start">
+      <Calendar
+        mode="single"
+        selected={value ?? undefined}
+        onSelect={(date) => onChange(date ?? null)}
+        initialFocus
+      />
+    </PopoverContent>
+  </Popover>
+);
+
+interface RecurringRuleFormProps {
+  // When given, the form edits this rule instead of creating one. Edits
+  // apply to all future occurrences.
+  rule?: RecurringRule;
+  onSuccess?: () => void;
+}
+
+export const RecurringRuleForm = ({ rule, onSuccess }: RecurringRuleFormProps) => {
+  const { accounts } = useAccounts();
+  const createRule = useCreateRecurringRule();
+  const updateRule = useUpdateRecurringRule();
+  const isPending = createRule.isPending || updateRule.isPending;
+
+  const form = useForm<CreateRecurringRuleInput>({
+    resolver: zodResolver(createRecurringRuleSchema),
+    defaultValues: rule
+      ? {
+          description: rule.description,
+          amount: rule.amount,
+          type: rule.type,
+          category: rule.category,
+          accountId: rule.accountId ?? null,
+          frequency: rule.frequency,
+          interval: rule.interval,
+          startDate: new Date(rule.startDate),
+          endDate: rule.endDate ? new Date(rule.endDate) : null,
+          weekendAdjustment: rule.weekendAdjustment,
+          paused: rule.paused
+        }
+      : {
+          description: '',
+          amount: undefined,
+          type: 'expense',
+          category: '',
+          accountId: null,
+          frequency: 'monthly',
+          interval: 1,
+          startDate: new Date(),
+          endDate: null,
+          weekendAdjustment: 'none',
+          paused: false
+        }
+  });
+
+  const type = form.watch('type');
+  const frequency = form.watch('frequency');
+  const { data: categories = [] } = useCategoriesByType(type);
+
+  const onSubmit = (data: CreateRecurringRuleInput) => {
+    const options = {
+      onSuccess: () => {
+        if (!rule) form.reset();
+        if (onSuccess) onSuccess();
+      }
+    };
+    if (rule) {
+      updateRule.mutate({ id: rule.id, data }, options);
+    } else {
+      createRule.mutate(data, options);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    // Categories belong to one type
+                    form.setValue('category', '');
+                  }}
+                  value={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input type="number" placeholder="0.00" step="0.01" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Rent" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {flattenTree(categories.filter(category => !category.archived || category.id === field.value))
+                    .map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.id} style={{ paddingLeft: `${2 + depth}rem` }}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {accounts.length > 0 && (
+          <FormField
+            control={form.control}
+            name="accountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Account</FormLabel>
+                <Select onValueChange={(value) => field.onChange(value === NONE ? null : value)} value={field.value ?? NONE}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No account</SelectItem>
+                    {accounts
+                      .filter(account => !account.archived || account.id === field.value)
+                      .map(account => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="interval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Every</FormLabel>
+                <FormControl>
+                  <Input type="number" step="1" min="1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="frequency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>&nbsp;</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger aria-label="Frequency">
+                      <SelectValue placeholder="Select frequency" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(FREQUENCY_UNITS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="startDate"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>Starts</FormLabel>
+                <DateField value={field.value} onChange={(date) => date && field.onChange(date)} placeholder="Pick a date" />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="endDate"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>Ends</FormLabel>
+                <DateField value={field.value} onChange={field.onChange} placeholder="Never" />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {(frequency === 'monthly' || frequency === 'yearly') && (
+          <p className="text-sm text-muted-foreground">
+            Repeats on the start date's day of the month, or the last day in shorter months.
+          </p>
+        )}
+
+        <FormField
+          control={form.control}
+          name="weekendAdjustment"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>On weekends</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select weekend handling" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="none">Post on the weekend</SelectItem>
+                  <SelectItem value="previous">Move to the Friday before</SelectItem>
+                  <SelectItem value="next">Move to the Monday after</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>For occurrences that fall on a Saturday or Sunday</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isPending} className="w-full">
+          {isPending ? 'Saving...' : rule ? 'Save for all future occurrences' : 'Add Recurring Transaction'}
+        </Button>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { OccurrencePreviewDialog } from '@/components/recurring/OccurrencePreviewDialog';
+import { RecurringRuleForm } from '@/components/recurring/RecurringRuleForm';
+import { useCategories } from '@/hooks/use-categories';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useDeleteRecurringRule, useRecurringRules, useUpdateRecurringRule } from '@/hooks/use-recurring';
+import type { RecurringRule } from '@/lib/types';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const UNITS: Record<RecurringRule['frequency'], [string, string]> = {
+  daily: ['Daily', 'days'],
+  weekly: ['Weekly', 'weeks'],
+  monthly: ['Monthly', 'months'],
+  yearly: ['Yearly', 'years']
+};
+
+// e.g. "Monthly" or "Every 2 weeks", with the end date when there is one
+const scheduleSummary = (rule: RecurringRule) => {
+  const [single, plural] = UNITS[rule.frequency];
+  const every = rule.interval === 1 ? single : `Every ${rule.interval} ${plural}`;
+  return rule.endDate ? `${every} until ${format(new Date(rule.endDate), 'MMM d, yyyy')}` : every;
+};
+
+interface RecurringRuleRowProps {
+  rule: RecurringRule;
+  onPreview: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+const RecurringRuleRow = ({ rule, onPreview, onEdit, onDelete }: RecurringRuleRowProps) => {
+  const { categoryName } = useCategories();
+  const { accountName } = useAccounts();
+  const updateRule = useUpdateRecurringRule();
+
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-3 py-3">
+      <div className="min-w-0">
+        <div className="font-medium">{rule.description}</div>
+        <div className="text-xs text-muted-foreground">
+          {scheduleSummary(rule)} · {categoryName(rule.category)}
+          {rule.accountId && ` · ${accountName(rule.accountId)}`}
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <span className={rule.type === 'income' ? 'text-green-600' : 'text-red-600'}>
+          {rule.type === 'income' ? '+' : '-'}{formatCurrency(rule.amount)}
+        </span>
+        <span className="w-28 text-sm text-muted-foreground">
+          {rule.paused ? 'Paused' : rule.nextDate ? `Next ${format(new Date(rule.nextDate), 'MMM d')}` : 'Ended'}
+        </span>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id={`active-${rule.id}`}
+            checked={!rule.paused}
+            disabled={updateRule.isPending}
+            onCheckedChange={(active) => updateRule.mutate({ id: rule.id, data: { paused: !active } })}
+          />
+          <Label htmlFor={`active-${rule.id}`} className="text-sm">Active</Label>
+        </div>
+        <div className="flex">
+          <Button variant="ghost" size="icon" aria-label="Upcoming occurrences" onClick={onPreview}>
+            <CalendarClock className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" aria-label="Edit" onClick={onEdit}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" aria-label="Delete" onClick={onDelete}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+// Recurring transactions with their schedule, next date and edit actions
+export const RecurringRules = () => {
+  const { data: rules, isLoading, error } = useRecurringRules();
+  const deleteRule = useDeleteRecurringRule();
+  const [creating, setCreating] = useState(false);
+  const [editing, setEditing] = useState<RecurringRule | null>(null);
+  const [deleting, setDeleting] = useState<RecurringRule | null>(null);
+  const [previewing, setPreviewing] = useState<RecurringRule | null>(null);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Recurring Transactions</CardTitle>
+          <CardDescription>Bills, salaries and subscriptions that are added for you when they come due</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreating(true)}>
+          <Plus className="mr-1 h-4 w-4" />
+          New recurring
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-red-500 p-2">Could not load recurring transactions. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="space-y-3 animate-pulse">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No recurring transactions yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {rules.map(rule => (
+              <RecurringRuleRow
+                key={rule.id}
+                rule={rule}
+                onPreview={() => setPreviewing(rule)}
+                onEdit={() => setEditing(rule)}
+                onDelete={() => setDeleting(rule)}
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={creating || !!editing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreating(false);
+            setEditing(null);
+          }
+        }}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit recurring transaction' : 'New recurring transaction'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'Changes apply to all future occurrences. Transactions already added are kept as they are.'
+                : 'Occurrences are added as transactions on their date, starting today at the earliest.'}
+            </DialogDescription>
+          </DialogHeader>
+          {/* Keyed so the form starts from the selected rule's values */}
+          <RecurringRuleForm
+            key={editing?.id ?? 'new'}
+            rule={editing ?? undefined}
+            onSuccess={() => {
+              setCreating(false);
+              setEditing(null);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <OccurrencePreviewDialog
+        rule={previewing && (rules.find(rule => rule.id === previewing.id) ?? previewing)}
+        onOpenChange={(open) => !open && setPreviewing(null)}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this recurring transaction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No more occurrences are added. Transactions it already added are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleting && deleteRule.mutate(deleting.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
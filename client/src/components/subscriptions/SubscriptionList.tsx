@@ -0,0 +1,168 @@
+import { format } from 'date-fns';
+import { Check, EyeOff, Repeat, RotateCcw, TrendingDown, TrendingUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useCategories } from '@/hooks/use-categories';
+import { useConvertSubscription, useReviewSubscription, useSubscriptions } from '@/hooks/use-subscriptions';
+import type { Subscription } from '@/lib/types';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const CADENCE_LABELS: Record<Subscription['cadence'], string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+interface SubscriptionRowProps {
+  subscription: Subscription;
+}
+
+const SubscriptionRow = ({ subscription }: SubscriptionRowProps) => {
+  const { categoryName } = useCategories();
+  const reviewSubscription = useReviewSubscription();
+  const convertSubscription = useConvertSubscription();
+  const isPending = reviewSubscription.isPending || convertSubscription.isPending;
+  const { key, status } = subscription;
+  const latestChange = subscription.priceChanges[subscription.priceChanges.length - 1];
+
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-3 py-3">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2 font-medium">
+          {subscription.name}
+          {subscription.recurringRuleId && <Repeat className="h-3 w-3 text-muted-foreground" aria-label="Recurring" />}
+          {subscription.lapsed && (
+            <Badge variant="outline" className="border-transparent bg-gray-100 text-gray-600">Possibly cancelled</Badge>
+          )}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {CADENCE_LABELS[subscription.cadence]} · {categoryName(subscription.category)} · {subscription.chargeCount} charges
+          since {format(new Date(subscription.firstCharge), 'MMM yyyy')}
+        </div>
+        {latestChange && (
+          <div className={`flex items-center gap-1 text-xs ${latestChange.to > latestChange.from ? 'text-amber-600' : 'text-green-600'}`}>
+            {latestChange.to > latestChange.from ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+            {formatCurrency(latestChange.from)} → {formatCurrency(latestChange.to)} on {format(new Date(latestChange.date), 'MMM d, yyyy')}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <div className="text-right">
+          <div className="font-medium">{formatCurrency(subscription.amount)}</div>
+          <div className="text-xs text-muted-foreground">{formatCurrency(subscription.annualCost)}/year</div>
+        </div>
+        <div className="w-28 text-sm text-muted-foreground">
+          {subscription.lapsed
+            ? `Last ${format(new Date(subscription.lastCharge), 'MMM d')}`
+            : `Next ${format(new Date(subscription.nextCharge), 'MMM d')}`}
+        </div>
+        <div className="flex gap-1">
+          {status === 'detected' ? (
+            <>
+              <Button variant="outline" size="sm" disabled={isPending} onClick={() => reviewSubscription.mutate({ key, status: 'confirmed' })}>
+                <Check className="mr-1 h-4 w-4" />
+                Confirm
+              </Button>
+              <Button variant="ghost" size="sm" disabled={isPending} onClick={() => reviewSubscription.mutate({ key, status: 'ignored' })}>
+                <EyeOff className="mr-1 h-4 w-4" />
+                Ignore
+              </Button>
+            </>
+          ) : !(status === 'confirmed' && subscription.recurringRuleId) && (
+            <Button variant="ghost" size="sm" disabled={isPending} onClick={() => reviewSubscription.mutate({ key, status: null })}>
+              <RotateCcw className="mr-1 h-4 w-4" />
+              Undo
+            </Button>
+          )}
+          {status !== 'ignored' && !subscription.recurringRuleId && !subscription.lapsed && (
+            <Button variant="ghost" size="sm" disabled={isPending} onClick={() => convertSubscription.mutate(key)}>
+              <Repeat className="mr-1 h-4 w-4" />
+              Make recurring
+            </Button>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+};
+
+interface SubscriptionGroupProps {
+  subscriptions: Subscription[];
+  empty: string;
+}
+
+const SubscriptionGroup = ({ subscriptions, empty }: SubscriptionGroupProps) =>
+  subscriptions.length === 0 ? (
+    <p className="py-3 text-sm text-muted-foreground">{empty}</p>
+  ) : (
+    <ul className="divide-y">
+      {subscriptions.map(subscription => (
+        <SubscriptionRow key={subscription.key} subscription={subscription} />
+      ))}
+    </ul>
+  );
+
+// Subscriptions found in the transaction history, to confirm, ignore or
+// turn into recurring transactions
+export const SubscriptionList = () => {
+  const { data: subscriptions, isLoading, error } = useSubscriptions();
+  const withStatus = (status: Subscription['status']) => subscriptions.filter(s => s.status === status);
+  const detected = withStatus('detected');
+  const confirmed = withStatus('confirmed');
+  const ignored = withStatus('ignored');
+  const annualCost = subscriptions
+    .filter(s => s.status !== 'ignored' && !s.lapsed)
+    .reduce((total, s) => total + s.annualCost, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Subscriptions</CardTitle>
+        <CardDescription>
+          Charges that repeat every week, month or year, found in your transactions.
+          {!isLoading && !error && ` Active ones cost about ${formatCurrency(annualCost)} a year.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-red-500 p-2">Could not load subscriptions. Please try again later.</div>
+        ) : isLoading ? (
+          <div className="space-y-3 animate-pulse">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 w-full bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <Tabs defaultValue="detected">
+            <TabsList>
+              <TabsTrigger value="detected">To review ({detected.length})</TabsTrigger>
+              <TabsTrigger value="confirmed">Confirmed ({confirmed.length})</TabsTrigger>
+              <TabsTrigger value="ignored">Ignored ({ignored.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="detected">
+              <SubscriptionGroup
+                subscriptions={detected}
+                empty="Nothing new. Subscriptions show up here after a few charges."
+              />
+            </TabsContent>
+            <TabsContent value="confirmed">
+              <SubscriptionGroup subscriptions={confirmed} empty="No confirmed subscriptions yet." />
+            </TabsContent>
+            <TabsContent value="ignored">
+              <SubscriptionGroup subscriptions={ignored} empty="No ignored subscriptions." />
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,147 @@
+import { useRef } from 'react';
+import { FileText, Paperclip, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  attachmentUrl,
+  useAttachments,
+  useDeleteAttachment,
+  useObjectUrl,
+  useUploadAttachment
+} from '@/hooks/use-attachments';
+import { apiBlob } from '@/lib/queryClient';
+import type { Attachment } from '@/lib/types';
+import { attachmentTypes, MAX_ATTACHMENT_BYTES, MAX_ATTACHMENTS_PER_TRANSACTION } from '@shared/validation';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Opens the full file in a new tab. The tab is opened before the download
+// starts so popup blockers treat it as part of the click.
+const openAttachment = async (attachment: Attachment) => {
+  const tab = window.open('', '_blank');
+  try {
+    const blob = await apiBlob(attachmentUrl(attachment));
+    const url = URL.createObjectURL(blob);
+    if (tab) {
+      tab.location.href = url;
+    }
+    // Give the tab time to load the file before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  } catch {
+    tab?.close();
+  }
+};
+
+interface AttachmentTileProps {
+  attachment: Attachment;
+  onDelete: () => void;
+  deleting: boolean;
+}
+
+const AttachmentTile = ({ attachment, onDelete, deleting }: AttachmentTileProps) => {
+  const thumbnail = useObjectUrl(attachment.hasThumbnail ? `${attachmentUrl(attachment)}/thumbnail` : null);
+
+  return (
+    <li className="group relative">
+      <button
+        type="button"
+        className="flex h-24 w-full items-center justify-center overflow-hidden rounded-md border bg-muted"
+        title={attachment.fileName}
+        onClick={() => openAttachment(attachment)}
+      >
+        {thumbnail ? (
+          <img src={thumbnail} alt={attachment.fileName} className="h-full w-full object-cover" />
+        ) : (
+          <FileText className="h-8 w-8 text-muted-foreground" />
+        )}
+      </button>
+      <div className="mt-1 truncate text-xs" title={attachment.fileName}>{attachment.fileName}</div>
+      <div className="text-xs text-muted-foreground">{formatSize(attachment.size)}</div>
+      <Button
+        type="button"
+        variant="secondary"
+        size="icon"
+        className="absolute right-1 top-1 h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100"
+        aria-label={`Delete ${attachment.fileName}`}
+        disabled={deleting}
+        onClick={onDelete}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </li>
+  );
+};
+
+interface AttachmentGalleryProps {
+  transactionId: string;
+}
+
+// Receipts and documents of a transaction, with upload and delete
+export const AttachmentGallery = ({ transactionId }: AttachmentGalleryProps) => {
+  const { data: attachments = [], isLoading } = useAttachments(transactionId);
+  const uploadAttachment = useUploadAttachment(transactionId);
+  const deleteAttachment = useDeleteAttachment(transactionId);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const full = attachments.length >= MAX_ATTACHMENTS_PER_TRANSACTION;
+
+  // The server checks these too; checking here saves uploading a file that
+  // would be rejected
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!(attachmentTypes as readonly string[]).includes(file.type)) {
+      toast({ title: 'Error', description: 'Only images and PDF files can be attached.', variant: 'destructive' });
+    } else if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast({ title: 'Error', description: `Files must be at most ${formatSize(MAX_ATTACHMENT_BYTES)}.`, variant: 'destructive' });
+    } else {
+      uploadAttachment.mutate(file);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Attachments</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={full || uploadAttachment.isPending}
+          onClick={() => inputRef.current?.click()}
+        >
+          <Paperclip className="mr-1 h-4 w-4" />
+          {uploadAttachment.isPending ? 'Uploading...' : 'Attach file'}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          accept={attachmentTypes.join(',')}
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="h-24 w-full rounded-md bg-gray-200 animate-pulse"></div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No receipts or documents attached.</p>
+      ) : (
+        <ul className="grid grid-cols-3 gap-3">
+          {attachments.map(attachment => (
+            <AttachmentTile
+              key={attachment.id}
+              attachment={attachment}
+              deleting={deleteAttachment.isPending}
+              onDelete={() => deleteAttachment.mutate(attachment)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
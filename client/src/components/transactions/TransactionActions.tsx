@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { TransactionForm } from '@/components/transactions/TransactionForm';
+import { TransferForm } from '@/components/accounts/TransferForm';
+import { AttachmentGallery } from '@/components/transactions/AttachmentGallery';
+import { useDeleteTransaction } from '@/hooks/use-transaction-mutations';
+import type { Transaction } from '@/lib/types';
+
+interface TransactionActionsProps {
+  transaction: Transaction;
+}
+
+// Edit and delete buttons for a single transaction row
+export const TransactionActions = ({ transaction }: TransactionActionsProps) => {
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const deleteTransaction = useDeleteTransaction();
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        aria-label="Edit transaction"
+        onClick={() => setEditOpen(true)}
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-red-600 hover:text-red-700"
+        aria-label="Delete transaction"
+        onClick={() => setDeleteOpen(true)}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+
+      {/* Transfers have their own form since they have two accounts and no category */}
+      <Dialog open={editOpen && transaction.type === 'transfer'} onOpenChange={setEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit transfer</DialogTitle>
+            <DialogDescription>Update the accounts, amount or date of this transfer</DialogDescription>
+          </DialogHeader>
+          {editOpen && <TransferForm transfer={transaction} onSuccess={() => setEditOpen(false)} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editOpen && transaction.type !== 'transfer'} onOpenChange={setEditOpen}>
+        <DialogContent className="p-0 max-h-[90vh] overflow-y-auto">
+          <DialogTitle className="sr-only">Edit transaction</DialogTitle>
+          <DialogDescription className="sr-only">Update the details of this transaction</DialogDescription>
+          {/* Mount the form only while open so it starts from the latest values */}
+          {editOpen && (
+            <>
+              <TransactionForm
+                transaction={transaction}
+                className="border-0 shadow-none"
+                onSuccess={() => setEditOpen(false)}
+              />
+              <div className="px-6 pb-6">
+                <AttachmentGallery transactionId={transaction.id} />
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this transaction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{transaction.description}" will be permanently removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleteTransaction.mutate(transaction.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { CalendarClock, Landmark, Tag, Tags, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useBatchTransactions } from '@/hooks/use-transaction-mutations';
+import { useCategories } from '@/hooks/use-categories';
+import { useAccounts } from '@/hooks/use-accounts';
+import type { BatchOperation } from '@shared/validation';
+
+interface TransactionBulkBarProps {
+  selectedIds: string[];
+  onClear: () => void;
+}
+
+// Actions applied to every selected transaction in one request
+export const TransactionBulkBar = ({ selectedIds, onClear }: TransactionBulkBarProps) => {
+  const batch = useBatchTransactions();
+  const { categories } = useCategories();
+  const { accounts } = useAccounts();
+  const [tags, setTags] = useState('');
+  const [days, setDays] = useState('');
+
+  const count = selectedIds.length;
+
+  const run = (operation: BatchOperation) => {
+    batch.mutate({ ids: selectedIds, operations: [operation] }, { onSuccess: onClear });
+  };
+
+  const parsedTags = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  const parsedDays = Number.parseInt(days, 10);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-2">
+      <span className="text-sm font-medium px-2">
+        {count} selected
+      </span>
+
+      {/* Recategorize */}
+      <Select
+        value=""
+        onValueChange={(value) => run({ action: 'recategorize', category: value })}
+        disabled={batch.isPending}
+      >
+        <SelectTrigger className="h-9 w-[160px]">
+          <Tag className="mr-1 h-4 w-4" />
+          <SelectValue placeholder="Set category" />
+        </SelectTrigger>
+        <SelectContent>
+          {categories.filter(item => !item.archived).map(item => (
+            <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Change type */}
+      <Select
+        value=""
+        onValueChange={(value) => run({ action: 'setType', type: value as 'income' | 'expense' })}
+        disabled={batch.isPending}
+      >
+        <SelectTrigger className="h-9 w-[130px]">
+          <SelectValue placeholder="Set type" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="expense">Expense</SelectItem>
+          <SelectItem value="income">Income</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {/* Move to account */}
+      {accounts.length > 0 && (
+        <Select
+          value=""
+          onValueChange={(value) => run({ action: 'setAccount', accountId: value === 'none' ? null : value })}
+          disabled={batch.isPending}
+        >
+          <SelectTrigger className="h-9 w-[160px]">
+            <Landmark className="mr-1 h-4 w-4" />
+            <SelectValue placeholder="Set account" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No account</SelectItem>
+            {accounts.filter(account => !account.archived).map(account => (
+              <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {/* Add tags */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={batch.isPending}>
+            <Tags className="mr-1 h-4 w-4" />
+            Add tags
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64" align="start">
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (parsedTags.length > 0) run({ action: 'addTags', tags: parsedTags });
+            }}
+          >
+            <Label htmlFor="bulk-tags">Tags (comma separated)</Label>
+            <Input
+              id="bulk-tags"
+              placeholder="e.g. vacation-2026, reimbursable"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+            <Button type="submit" size="sm" className="w-full" disabled={parsedTags.length === 0}>Apply</Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+
+      {/* Shift dates */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={batch.isPending}>
+            <CalendarClock className="mr-1 h-4 w-4" />
+            Shift dates
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64" align="start">
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (parsedDays) run({ action: 'shiftDates', days: parsedDays });
+            }}
+          >
+            <Label htmlFor="bulk-days">Days (negative moves earlier)</Label>
+            <Input
+              id="bulk-days"
+              type="number"
+              step="1"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+            />
+            <Button type="submit" size="sm" className="w-full" disabled={!parsedDays}>Apply</Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+
+      {/* Delete */}
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size="sm" className="text-red-600" disabled={batch.isPending}>
+            <Trash2 className="mr-1 h-4 w-4" />
+            Delete
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {count} transaction{count === 1 ? '' : 's'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected transactions will be permanently removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={() => run({ action: 'delete' })}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Button variant="ghost" size="sm" className="ml-auto" onClick={onClear}>
+        <X className="mr-1 h-4 w-4" />
+        Clear selection
+      </Button>
+    </div>
+  );
+};
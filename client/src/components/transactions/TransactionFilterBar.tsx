@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarIcon, Search, SlidersHorizontal, X } from 'lucide-react';
+import type { DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { TransactionFilters } from '@/hooks/use-transaction-filters';
+import { useCategories } from '@/hooks/use-categories';
+import { useAccounts } from '@/hooks/use-accounts';
+import { usePayees, useTags } from '@/hooks/use-payees';
+import { UNCATEGORIZED } from '@shared/validation';
+
+// Delay before a search box change is written to the URL
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface TransactionFilterBarProps {
+  filters: TransactionFilters;
+  onChange: (patch: Partial<TransactionFilters>) => void;
+  onReset: () => void;
+}
+
+export const TransactionFilterBar = ({ filters, onChange, onReset }: TransactionFilterBarProps) => {
+  const { categories } = useCategories();
+  const { accounts } = useAccounts();
+  const { payees } = usePayees();
+  const { data: tags = [] } = useTags();
+  const [search, setSearch] = useState(filters.q ?? '');
+  const [minAmount, setMinAmount] = useState(filters.minAmount ?? '');
+  const [maxAmount, setMaxAmount] = useState(filters.maxAmount ?? '');
+
+  // Keep local inputs in sync when the URL changes (e.g. reset or back button)
+  useEffect(() => setSearch(filters.q ?? ''), [filters.q]);
+  useEffect(() => {
+    setMinAmount(filters.minAmount ?? '');
+    setMaxAmount(filters.maxAmount ?? '');
+  }, [filters.minAmount, filters.maxAmount]);
+
+  // Debounce search so typing doesn't refetch on every keystroke
+  useEffect(() => {
+    if (search === (filters.q ?? '')) return;
+    const timeout = setTimeout(() => onChange({ q: search.trim() || undefined }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, filters.q, onChange]);
+
+  const dateRange: DateRange | undefined = filters.from || filters.to
+    ? {
+        from: filters.from ? parseISO(filters.from) : undefined,
+        to: filters.to ? parseISO(filters.to) : undefined
+      }
+    : undefined;
+
+  const handleDateRange = (range: DateRange | undefined) => {
+    onChange({
+      from: range?.from ? format(range.from, 'yyyy-MM-dd') : undefined,
+      to: range?.to ? format(range.to, 'yyyy-MM-dd') : undefined
+    });
+  };
+
+  const dateLabel = dateRange?.from
+    ? dateRange.to
+      ? `${format(dateRange.from, 'MMM d, yyyy')} – ${format(dateRange.to, 'MMM d, yyyy')}`
+      : `From ${format(dateRange.from, 'MMM d, yyyy')}`
+    : 'Any date';
+
+  const amountLabel = filters.minAmount || filters.maxAmount
+    ? `${filters.minAmount ?? '0'} – ${filters.maxAmount ?? '∞'}`
+    : 'Any amount';
+
+  const hasFilters = Boolean(
+    filters.q || filters.type || filters.category || filters.accountId || filters.tag || filters.payeeId
+      || filters.minAmount
+      || filters.maxAmount || filters.from || filters.to
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {/* Search */}
+      <div className="relative flex-grow min-w-[200px]">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search descriptions..."
+          className="pl-8"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      {/* Date range */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="font-normal">
+            <CalendarIcon className="mr-2 h-4 w-4 opacity-50" />
+            {dateLabel}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            selected={dateRange}
+            onSelect={handleDateRange}
+            numberOfMonths={2}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+
+      {/* Type */}
+      <Select
+        value={filters.type ?? 'all'}
+        onValueChange={(value) => onChange({ type: value === 'all' ? undefined : value as 'income' | 'expense' | 'transfer' })}
+      >
+        <SelectTrigger className="w-[140px]">
+          <SelectValue placeholder="Type" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All types</SelectItem>
+          <SelectItem value="expense">Expense</SelectItem>
+          <SelectItem value="income">Income</SelectItem>
+          <SelectItem value="transfer">Transfer</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {/* Category */}
+      <Select
+        value={filters.category ?? 'all'}
+        onValueChange={(value) => onChange({ category: value === 'all' ? undefined : value })}
+      >
+        <SelectTrigger className="w-[160px]">
+          <SelectValue placeholder="Category" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All categories</SelectItem>
+          <SelectItem value={UNCATEGORIZED}>Uncategorized</SelectItem>
+          {categories.map(item => (
+            <SelectItem key={item.id} value={item.id}>
+              {item.name}{item.archived ? ' (archived)' : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Account */}
+      {accounts.length > 0 && (
+        <Select
+          value={filters.accountId ?? 'all'}
+          onValueChange={(value) => onChange({ accountId: value === 'all' ? undefined : value })}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Account" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All accounts</SelectItem>
+            {accounts.map(account => (
+              <SelectItem key={account.id} value={account.id}>
+                {account.name}{account.archived ? ' (archived)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {/* Payee */}
+      {payees.length > 0 && (
+        <Select
+          value={filters.payeeId ?? 'all'}
+          onValueChange={(value) => onChange({ payeeId: value === 'all' ? undefined : value })}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Payee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All payees</SelectItem>
+            {payees.map(payee => (
+              <SelectItem key={payee.id} value={payee.id}>{payee.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {/* Tag */}
+      {(tags.length > 0 || filters.tag) && (
+        <Select
+          value={filters.tag ?? 'all'}
+          onValueChange={(value) => onChange({ tag: value === 'all' ? undefined : value })}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Tag" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All tags</SelectItem>
+            {filters.tag && !tags.some(({ tag }) => tag === filters.tag) && (
+              <SelectItem value={filters.tag}>{filters.tag}</SelectItem>
+            )}
+            {tags.map(({ tag, count }) => (
+              <SelectItem key={tag} value={tag}>{tag} ({count})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {/* Amount range */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="font-normal">
+            <SlidersHorizontal className="mr-2 h-4 w-4 opacity-50" />
+            {amountLabel}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64" align="start">
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              onChange({ minAmount: minAmount || undefined, maxAmount: maxAmount || undefined });
+            }}
+          >
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="min-amount">Min</Label>
+                <Input
+                  id="min-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={minAmount}
+                  onChange={(e) => setMinAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="max-amount">Max</Label>
+                <Input
+                  id="max-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={maxAmount}
+                  onChange={(e) => setMaxAmount(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button type="submit" size="sm" className="w-full">Apply</Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" onClick={onReset}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -1,67 +1,111 @@
 import { useState } from 'react';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
-import { z } from 'zod';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { CalendarIcon } from 'lucide-react';
+import { CalendarIcon, Split } from 'lucide-react';
 import { format } from 'date-fns';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { useUpdateTransaction } from '@/hooks/use-transaction-mutations';
+import { useCategoriesByType } from '@/hooks/use-categories';
+import { useAccounts } from '@/hooks/use-accounts';
+import { usePayees } from '@/hooks/use-payees';
+import { TransactionSplitEditor } from '@/components/transactions/TransactionSplitEditor';
+import type { Transaction } from '@/lib/types';
+import { createTransactionSchema, SPLIT, type CreateTransactionInput } from '@shared/validation';
+import { flattenTree } from '@shared/category-tree';
 
-// Form schema using zod
-const transactionSchema = z.object({
-  description: z.string().min(3, { message: "Description must be at least 3 characters" }),
-  amount: z.coerce.number().positive({ message: "Amount must be positive" }),
-  category: z.string().min(1, { message: "Please select a category" }),
-  date: z.date(),
-  type: z.enum(['income', 'expense'], { message: "Please select a transaction type" })
-});
+type TransactionFormValues = CreateTransactionInput;
 
-type TransactionFormValues = z.infer<typeof transactionSchema>;
+// Select items cannot have an empty value
+const NO_ACCOUNT = 'none';
+const NO_PAYEE = 'none';
+
+// Tags are typed as one comma-separated list
+const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
 
 interface TransactionFormProps {
+  // When given, the form edits this transaction instead of creating one
+  transaction?: Transaction;
   onSuccess?: () => void;
+  className?: string;
 }
 
-export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess }) => {
+export const TransactionForm: React.FC<TransactionFormProps> = ({ transaction, onSuccess, className }) => {
   const { currentUser } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
+  const updateTransaction = useUpdateTransaction();
+  const isEdit = !!transaction;
   
-  // Mock categories for now - later we'll fetch from API
-  const categories = [
-    { id: 'food', name: 'Food', type: 'expense' },
-    { id: 'transportation', name: 'Transportation', type: 'expense' },
-    { id: 'entertainment', name: 'Entertainment', type: 'expense' },
-    { id: 'utilities', name: 'Utilities', type: 'expense' },
-    { id: 'rent', name: 'Rent', type: 'expense' },
-    { id: 'salary', name: 'Salary', type: 'income' },
-    { id: 'investment', name: 'Investment', type: 'income' },
-    { id: 'gift', name: 'Gift', type: 'income' }
-  ];
-
   const form = useForm<TransactionFormValues>({
-    resolver: zodResolver(transactionSchema),
-    defaultValues: {
-      description: '',
-      amount: undefined,
-      category: '',
-      date: new Date(),
-      type: 'expense'
-    }
+    resolver: zodResolver(createTransactionSchema),
+    defaultValues: transaction
+      ? {
+          description: transaction.description,
+          amount: transaction.amount,
+          category: transaction.category,
+          date: new Date(transaction.date),
+          // Transfers are edited with TransferForm
+          type: transaction.type as TransactionFormValues['type'],
+          accountId: transaction.accountId ?? null,
+          splits: transaction.splits ?? null,
+          payeeId: transaction.payeeId ?? null,
+          tags: transaction.tags ?? []
+        }
+      : {
+          description: '',
+          amount: undefined,
+          category: '',
+          date: new Date(),
+          type: 'expense',
+          accountId: null,
+          splits: null,
+          payeeId: null,
+          tags: []
+        }
   });
 
   const transactionType = form.watch('type');
+  const splitting = !!form.watch('splits');
+  const { data: filteredCategories = [] } = useCategoriesByType(transactionType);
+  const { accounts } = useAccounts();
+  const { payees, byId: payeesById } = usePayees();
+  const [tagText, setTagText] = useState(transaction?.tags?.join(', ') ?? '');
+
+  // A payee's default category fills in the category when none is picked yet
+  const selectPayee = (payeeId: string | null) => {
+    form.setValue('payeeId', payeeId);
+    const defaultCategory = payeeId && payeesById.get(payeeId)?.defaultCategory;
+    if (defaultCategory && !form.getValues('category')
+      && filteredCategories.some(category => category.id === defaultCategory)) {
+      form.setValue('category', defaultCategory, { shouldValidate: true });
+    }
+  };
 
-  // Filter categories based on selected transaction type
-  const filteredCategories = categories.filter(category => category.type === transactionType);
+  // Splitting starts with the whole amount in the current category and an
+  // empty second line; a split transaction's own category is "split"
+  const toggleSplit = () => {
+    if (splitting) {
+      form.setValue('splits', null);
+      form.setValue('category', '');
+      return;
+    }
+    const category = form.getValues('category');
+    form.setValue('splits', [
+      { category: category === SPLIT ? '' : category, amount: Number(form.getValues('amount')) || 0 },
+      { category: '', amount: 0 }
+    ]);
+    form.setValue('category', SPLIT);
+  };
 
   const onSubmit = async (data: TransactionFormValues) => {
     if (!currentUser) {
@@ -73,6 +117,13 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess }) =
       return;
     }
 
+    // Edits are applied to the cache immediately and rolled back on failure
+    if (transaction) {
+      updateTransaction.mutate({ id: transaction.id, data });
+      if (onSuccess) onSuccess();
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -93,6 +144,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess }) =
 
       // Reset form
       form.reset();
+      setTagText('');
       
       // Show success toast
       toast({
@@ -115,10 +167,12 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess }) =
   };
 
   return (
-    <Card>
+    <Card className={className}>
       <CardHeader>
-        <CardTitle>Add New Transaction</CardTitle>
-        <CardDescription>Record your income or expense</CardDescription>
+        <CardTitle>{isEdit ? 'Edit Transaction' : 'Add New Transaction'}</CardTitle>
+        <CardDescription>
+          {isEdit ? 'Update the details of this transaction' : 'Record your income or expense'}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <Form {...form}>
@@ -130,7 +184,19 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess }) =
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Transaction Type</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      // Categories belong to one type, so the old picks no longer apply
+                      const splits = form.getValues('splits');
+                      if (splits) {
+                        form.setValue('splits', splits.map(line => ({ ...line, category: '' })));
+                      } else {
+                        form.setValue('category', '');
+                      }
+                    }}
+                    defaultValue={field.value}
+                  >
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select type" />
@@ -161,6 +227,36 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess }) =
               )}
             />
 
+            {/* Payee */}
+            {payees.length > 0 && (
+              <FormField
+                control={form.control}
+                name="payeeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payee</FormLabel>
+                    <Select
+                      onValueChange={(value) => selectPayee(value === NO_PAYEE ? null : value)}
+                      value={field.value ?? NO_PAYEE}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select payee" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PAYEE}>No payee</SelectItem>
+                        {payees.map(payee => (
+                          <SelectItem key={payee.id} value={payee.id}>{payee.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Amount */}
             <FormField
               control={form.control}
@@ -182,22 +278,25 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess }) =
               )}
             />
 
-            {/* Category */}
+            {/* Category, or split lines each with their own */}
+            {splitting ? (
+              <TransactionSplitEditor form={form} categories={filteredCategories} />
+            ) : (
             <FormField
               control={form.control}
               name="category"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Category</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select category" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {filteredCategories.map(category => (
-                        <SelectItem key={category.id} value={category.id}>
+                      {flattenTree(filteredCategories).map(({ category, depth }) => (
+                        <SelectItem key={category.id} value={category.id} style={{ paddingLeft: `${2 + depth}rem` }}>
                           {category.name}
                         </SelectItem>
                       ))}
@@ -207,6 +306,66 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess }) =
                 </FormItem>
               )}
             />
+            )}
+            <Button type="button" variant="link" size="sm" className="h-auto px-0" onClick={toggleSplit}>
+              <Split className="mr-1 h-4 w-4" />
+              {splitting ? 'Use a single category' : 'Split across categories'}
+            </Button>
+
+            {/* Account */}
+            {accounts.length > 0 && (
+              <FormField
+                control={form.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === NO_ACCOUNT ? null : value)}
+                      value={field.value ?? NO_ACCOUNT}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select account" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                        {accounts
+                          .filter(account => !account.archived || account.id === field.value)
+                          .map(account => (
+                            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Tags */}
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g., vacation-2026, reimbursable"
+                      value={tagText}
+                      onChange={(e) => {
+                        setTagText(e.target.value);
+                        field.onChange(parseTags(e.target.value));
+                      }}
+                    />
+                  </FormControl>
+                  <FormDescription>Separate tags with commas</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
             {/* Date */}
             <FormField
@@ -249,7 +408,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onSuccess }) =
             />
 
             <Button type="submit" disabled={isSubmitting} className="w-full mt-6">
-              {isSubmitting ? "Saving..." : "Add Transaction"}
+              {isSubmitting ? "Saving..." : isEdit ? "Save Changes" : "Add Transaction"}
             </Button>
           </form>
         </Form>
@@ -1,21 +1,16 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { format } from 'date-fns';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { Link } from 'wouter';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { TransactionActions } from '@/components/transactions/TransactionActions';
+import { useCategories } from '@/hooks/use-categories';
+import { TYPE_STYLES } from '@/lib/transactions';
+import type { TransactionPage } from '@/lib/types';
 
-// Transaction interface
-interface Transaction {
-  id: string;
-  userId: string;
-  amount: number;
-  category: string;
-  description: string;
-  date: string; // ISO date string
-  type: 'income' | 'expense';
-  createdAt: string;
-}
+const PAGE_SIZE = 25;
 
 interface TransactionListProps {
   limit?: number;
@@ -23,11 +18,20 @@ interface TransactionListProps {
 
 export const TransactionList = ({ limit }: TransactionListProps) => {
   const { currentUser } = useAuth();
-  const queryClient = useQueryClient();
+  const { categoryName } = useCategories();
 
-  // Use TanStack Query for data fetching
-  const { data: transactions, isLoading, error } = useQuery({
-    queryKey: ['/api/transactions'],
+  // Fetch transactions a page at a time; with a limit only the first page is shown
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/transactions', { limit: limit ?? PAGE_SIZE }],
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage: TransactionPage) => lastPage.nextCursor,
     enabled: !!currentUser,
   });
 
@@ -39,10 +43,8 @@ export const TransactionList = ({ limit }: TransactionListProps) => {
     }).format(amount);
   };
 
-  // Show transactions - apply limit if provided
-  const displayTransactions = limit && transactions && Array.isArray(transactions)
-    ? transactions.slice(0, limit) 
-    : (transactions && Array.isArray(transactions) ? transactions : []);
+  // Show transactions from every loaded page
+  const displayTransactions = data?.pages.flatMap(page => page.items) ?? [];
 
   // Loading state
   if (isLoading) {
@@ -117,20 +119,36 @@ export const TransactionList = ({ limit }: TransactionListProps) => {
               <div className="flex flex-col gap-1">
                 <span className="font-medium">{transaction.description}</span>
                 <span className="text-xs text-muted-foreground">
-                  {format(new Date(transaction.date), 'MMM d, yyyy')}
+                  {format(new Date(transaction.date), 'MMM d, yyyy')} · {categoryName(transaction.category)}
                 </span>
               </div>
               <div className="flex items-center gap-3">
-                <Badge variant={transaction.type === 'income' ? 'default' : 'destructive'}>
+                <Badge variant={TYPE_STYLES[transaction.type].badge}>
                   {transaction.type}
                 </Badge>
-                <span className={transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}>
-                  {transaction.type === 'income' ? '+' : '-'}{formatCurrency(transaction.amount)}
+                <span className={TYPE_STYLES[transaction.type].amount}>
+                  {TYPE_STYLES[transaction.type].sign}{formatCurrency(transaction.amount)}
                 </span>
+                <TransactionActions transaction={transaction} />
               </div>
             </div>
           ))}
         </div>
+        {!limit && (
+          <Link href="/transactions" className="block text-sm text-primary hover:underline mt-4">
+            Search, filter and sort in the full transactions view
+          </Link>
+        )}
+        {!limit && hasNextPage && (
+          <Button
+            variant="outline"
+            className="w-full mt-4"
+            disabled={isFetchingNextPage}
+            onClick={() => fetchNextPage()}
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load more'}
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
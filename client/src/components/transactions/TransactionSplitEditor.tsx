@@ -0,0 +1,119 @@
+import { useFieldArray, type UseFormReturn } from 'react-hook-form';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Category } from '@/lib/types';
+import type { CreateTransactionInput } from '@shared/validation';
+import { flattenTree } from '@shared/category-tree';
+
+interface TransactionSplitEditorProps {
+  form: UseFormReturn<CreateTransactionInput>;
+  // Categories of the transaction's type
+  categories: Category[];
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+// Split lines of a transaction, each with its own category, amount and memo.
+// Shows how much of the transaction amount is still unassigned.
+export const TransactionSplitEditor = ({ form, categories }: TransactionSplitEditorProps) => {
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'splits' });
+  const amount = Number(form.watch('amount')) || 0;
+  const lines = form.watch('splits') ?? [];
+  const remaining = Math.round((amount - lines.reduce((total, line) => total + (Number(line.amount) || 0), 0)) * 100) / 100;
+  const error = form.formState.errors.splits;
+
+  return (
+    <div className="space-y-3">
+      <Label>Split lines</Label>
+      {fields.map((line, index) => (
+        <div key={line.id} className="flex items-start gap-2">
+          <FormField
+            control={form.control}
+            name={`splits.${index}.category`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {flattenTree(categories).map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.id} style={{ paddingLeft: `${2 + depth}rem` }}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`splits.${index}.amount`}
+            render={({ field }) => (
+              <FormItem className="w-28">
+                <FormControl>
+                  <Input type="number" placeholder="0.00" step="0.01" min="0" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`splits.${index}.memo`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input placeholder="Memo" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-10 w-10 shrink-0"
+            aria-label="Remove line"
+            disabled={fields.length <= 2}
+            onClick={() => remove(index)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ category: '', amount: Math.max(remaining, 0) })}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add line
+        </Button>
+        <span className={`text-sm ${remaining === 0 ? 'text-muted-foreground' : 'text-red-600'}`}>
+          {remaining === 0 ? 'Fully split' : `${formatCurrency(remaining)} left to split`}
+        </span>
+      </div>
+      {(error?.message || error?.root?.message) && (
+        <p className="text-sm font-medium text-destructive">{error.message ?? error.root?.message}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,282 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, ArrowUpDown, Repeat } from 'lucide-react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { TransactionActions } from '@/components/transactions/TransactionActions';
+import { TransactionBulkBar } from '@/components/transactions/TransactionBulkBar';
+import { TransactionFilterBar } from '@/components/transactions/TransactionFilterBar';
+import { toTransactionQuery, useTransactionFilters } from '@/hooks/use-transaction-filters';
+import { useCategories } from '@/hooks/use-categories';
+import { useAccounts } from '@/hooks/use-accounts';
+import { usePayees } from '@/hooks/use-payees';
+import { TYPE_STYLES } from '@/lib/transactions';
+import type { TransactionPage } from '@/lib/types';
+
+const PAGE_SIZE = 50;
+
+type SortField = 'date' | 'amount' | 'category' | 'type';
+
+// Numbers and dates default to newest/largest first, text columns to A–Z
+const DEFAULT_DIRECTION: Record<SortField, 'asc' | 'desc'> = {
+  date: 'desc',
+  amount: 'desc',
+  category: 'asc',
+  type: 'asc'
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+interface SortableHeadProps {
+  field: SortField;
+  label: string;
+  sortField: SortField;
+  sortDirection: 'asc' | 'desc';
+  onSort: (field: SortField) => void;
+  className?: string;
+}
+
+const SortableHead = ({ field, label, sortField, sortDirection, onSort, className }: SortableHeadProps) => {
+  const active = field === sortField;
+  const Icon = !active ? ArrowUpDown : sortDirection === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead className={className} aria-sort={active ? (sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => onSort(field)}>
+        {label}
+        <Icon className={`ml-2 h-4 w-4 ${active ? '' : 'opacity-40'}`} />
+      </Button>
+    </TableHead>
+  );
+};
+
+export const TransactionTable = () => {
+  const { currentUser } = useAuth();
+  const { filters, setFilters, resetFilters } = useTransactionFilters();
+  const { categoryName } = useCategories();
+  const { accountName } = useAccounts();
+  const { payeeName } = usePayees();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const sortField = filters.sort.replace(/^-/, '') as SortField;
+  const sortDirection = filters.sort.startsWith('-') ? 'desc' : 'asc';
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/transactions', { limit: PAGE_SIZE, ...toTransactionQuery(filters) }],
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage: TransactionPage) => lastPage.nextCursor,
+    enabled: !!currentUser,
+  });
+
+  const transactions = data?.pages.flatMap(page => page.items) ?? [];
+
+  // A new filter or sort shows different rows, so start a fresh selection
+  useEffect(() => setSelected(new Set()), [filters]);
+
+  const allSelected = transactions.length > 0 && transactions.every(t => selected.has(t.id));
+  const someSelected = selected.size > 0 && !allSelected;
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(transactions.map(t => t.id)));
+  };
+
+  const toggleOne = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Load the next page when the sentinel below the table scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Clicking the active column flips direction; a new column starts at its default
+  const handleSort = (field: SortField) => {
+    const direction = field === sortField
+      ? (sortDirection === 'asc' ? 'desc' : 'asc')
+      : DEFAULT_DIRECTION[field];
+    setFilters({ sort: direction === 'desc' ? `-${field}` : field });
+  };
+
+  const sortProps = { sortField, sortDirection, onSort: handleSort } as const;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>All Transactions</CardTitle>
+        <CardDescription>
+          {isLoading
+            ? 'Loading your transactions...'
+            : `Showing ${transactions.length}${hasNextPage ? '+' : ''} transactions`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <TransactionFilterBar filters={filters} onChange={setFilters} onReset={resetFilters} />
+
+        {selected.size > 0 && (
+          <TransactionBulkBar selectedIds={Array.from(selected)} onClear={() => setSelected(new Set())} />
+        )}
+
+        {error ? (
+          <div className="text-red-500 p-2">
+            Could not load transactions. Please try again later.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allSelected ? true : someSelected ? 'indeterminate' : false}
+                    onCheckedChange={toggleAll}
+                    aria-label="Select all transactions"
+                  />
+                </TableHead>
+                <SortableHead field="date" label="Date" {...sortProps} />
+                <TableHead>Description</TableHead>
+                <SortableHead field="category" label="Category" {...sortProps} />
+                <SortableHead field="type" label="Type" {...sortProps} />
+                <SortableHead field="amount" label="Amount" className="text-right" {...sortProps} />
+                <TableHead className="w-[88px]"><span className="sr-only">Actions</span></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && [...Array(5)].map((_, i) => (
+                <TableRow key={i} className="animate-pulse">
+                  <TableCell colSpan={7}>
+                    <div className="h-4 w-full bg-gray-200 rounded"></div>
+                  </TableCell>
+                </TableRow>
+              ))}
+
+              {!isLoading && transactions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    No transactions match these filters.
+                  </TableCell>
+                </TableRow>
+              )}
+
+              {transactions.map((transaction) => (
+                <TableRow key={transaction.id} data-state={selected.has(transaction.id) ? 'selected' : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(transaction.id)}
+                      onCheckedChange={() => toggleOne(transaction.id)}
+                      aria-label={`Select ${transaction.description}`}
+                    />
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(transaction.date), 'MMM d, yyyy')}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1 font-medium">
+                      {transaction.description}
+                      {transaction.recurringRuleId && (
+                        <Repeat className="h-3 w-3 text-muted-foreground" aria-label="Recurring" />
+                      )}
+                    </div>
+                    {payeeName(transaction.payeeId) && (
+                      <div className="text-xs text-muted-foreground">{payeeName(transaction.payeeId)}</div>
+                    )}
+                    {transaction.type === 'transfer' ? (
+                      <div className="text-xs text-muted-foreground">
+                        {accountName(transaction.accountId)} → {accountName(transaction.transferAccountId)}
+                      </div>
+                    ) : transaction.accountId && (
+                      <div className="text-xs text-muted-foreground">{accountName(transaction.accountId)}</div>
+                    )}
+                    {transaction.tags && transaction.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {transaction.tags.map(tag => (
+                          <Badge key={tag} variant="outline" className="text-xs font-normal">{tag}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {transaction.splits?.length ? (
+                      <div className="space-y-0.5 text-sm">
+                        {transaction.splits.map((line, index) => (
+                          <div key={index} className="flex justify-between gap-3" title={line.memo}>
+                            <span>{categoryName(line.category)}</span>
+                            <span className="text-muted-foreground">{formatCurrency(line.amount)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : categoryName(transaction.category)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={TYPE_STYLES[transaction.type].badge}>
+                      {transaction.type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className={`text-right ${TYPE_STYLES[transaction.type].amount}`}>
+                    {TYPE_STYLES[transaction.type].sign}{formatCurrency(transaction.amount)}
+                  </TableCell>
+                  <TableCell>
+                    <TransactionActions transaction={transaction} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div ref={sentinelRef} />
+        {hasNextPage && (
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={isFetchingNextPage}
+            onClick={() => fetchNextPage()}
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load more'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { AccountOverview, RegisterEntry } from "@/lib/types";
+import type { CreateAccountInput, UpdateAccountInput } from "@shared/validation";
+
+// Balances and registers depend on every transaction of an account, so any
+// account or transaction change refetches all of them
+export const isAccountQuery = (queryKey: readonly unknown[]) =>
+  typeof queryKey[0] === "string" && queryKey[0].startsWith("/api/accounts");
+
+// Accounts with their balances and the aggregate across accounts
+export function useAccounts() {
+  const { currentUser } = useAuth();
+  const query = useQuery<AccountOverview>({
+    queryKey: ["/api/accounts"],
+    enabled: !!currentUser,
+  });
+  const accounts = query.data?.accounts ?? [];
+  return {
+    ...query,
+    accounts,
+    accountName: (id: string | null | undefined) =>
+      (id && accounts.find((account) => account.id === id)?.name) || "No account",
+  };
+}
+
+// An account's transactions with the running balance after each
+export function useAccountRegister(id: string | null) {
+  const { currentUser } = useAuth();
+  return useQuery<RegisterEntry[]>({
+    queryKey: [`/api/accounts/${id}/register`],
+    enabled: !!currentUser && !!id,
+  });
+}
+
+function useAccountMutation<T>(mutationFn: (variables: T) => Promise<unknown>, success: string, failure: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, failure), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ predicate: (query) => isAccountQuery(query.queryKey) });
+      // Goals linked to an account follow its balance
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+  });
+}
+
+export function useCreateAccount() {
+  return useAccountMutation(
+    (data: CreateAccountInput) => apiRequest({ url: "/api/accounts", method: "POST", data }),
+    "Account created",
+    "Failed to create account.",
+  );
+}
+
+export function useUpdateAccount() {
+  return useAccountMutation(
+    ({ id, data }: { id: string; data: UpdateAccountInput }) =>
+      apiRequest({ url: `/api/accounts/${id}`, method: "PUT", data }),
+    "Account updated",
+    "Failed to update account.",
+  );
+}
+
+export function useDeleteAccount() {
+  return useAccountMutation(
+    (id: string) => apiRequest({ url: `/api/accounts/${id}`, method: "DELETE" }),
+    "Account deleted",
+    "Failed to delete account.",
+  );
+}
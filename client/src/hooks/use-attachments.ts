@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiBlob, apiErrorMessage, apiRequest, apiUpload } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Attachment } from "@/lib/types";
+
+export const attachmentsUrl = (transactionId: string) => `/api/transactions/${transactionId}/attachments`;
+
+export const attachmentUrl = (attachment: Attachment) =>
+  `${attachmentsUrl(attachment.transactionId)}/${attachment.id}`;
+
+// Attachments of one transaction, oldest first
+export function useAttachments(transactionId: string) {
+  const { currentUser } = useAuth();
+  return useQuery<Attachment[]>({
+    queryKey: [attachmentsUrl(transactionId)],
+    enabled: !!currentUser,
+  });
+}
+
+// An object URL for an authorized download, revoked when the URL changes or
+// the component unmounts. null until loaded or when the download fails.
+export function useObjectUrl(url: string | null) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    let created: string | null = null;
+    let cancelled = false;
+
+    apiBlob(url)
+      .then((blob) => {
+        if (cancelled) return;
+        created = URL.createObjectURL(blob);
+        setObjectUrl(created);
+      })
+      .catch(() => setObjectUrl(null));
+
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+      setObjectUrl(null);
+    };
+  }, [url]);
+
+  return objectUrl;
+}
+
+function useAttachmentMutation<T>(
+  transactionId: string,
+  mutationFn: (variables: T) => Promise<unknown>,
+  success: string,
+  failure: string,
+) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, failure), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [attachmentsUrl(transactionId)] });
+    },
+  });
+}
+
+export function useUploadAttachment(transactionId: string) {
+  return useAttachmentMutation(
+    transactionId,
+    (file: File): Promise<Attachment> => apiUpload(attachmentsUrl(transactionId), file),
+    "Attachment uploaded",
+    "Failed to upload attachment.",
+  );
+}
+
+export function useDeleteAttachment(transactionId: string) {
+  return useAttachmentMutation(
+    transactionId,
+    (attachment: Attachment) => apiRequest({ url: attachmentUrl(attachment), method: "DELETE" }),
+    "Attachment deleted",
+    "Failed to delete attachment.",
+  );
+}
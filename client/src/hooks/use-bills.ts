@@ -0,0 +1,91 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Bill, BillOccurrence } from "@/lib/types";
+import type { CreateBillInput, CreateBillPaymentInput, UpdateBillInput } from "@shared/validation";
+
+// Bills with their next unpaid due date
+export function useBills() {
+  const { currentUser } = useAuth();
+  const query = useQuery<Bill[]>({
+    queryKey: ["/api/bills"],
+    enabled: !!currentUser,
+  });
+  return { ...query, data: query.data ?? [] };
+}
+
+// Every bill's due dates in a month (yyyy-MM)
+export function useBillCalendar(month: string) {
+  const { currentUser } = useAuth();
+  const query = useQuery<BillOccurrence[]>({
+    queryKey: ["/api/bills/calendar", { month }],
+    enabled: !!currentUser,
+  });
+  return { ...query, data: query.data ?? [] };
+}
+
+// Bill changes show in the list, the calendar and the reminders
+function useBillMutation<T>(mutationFn: (variables: T) => Promise<unknown>, success: string, failure: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, failure), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bills/calendar"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+}
+
+export function useCreateBill() {
+  return useBillMutation(
+    (data: CreateBillInput) => apiRequest({ url: "/api/bills", method: "POST", data }),
+    "Bill created",
+    "Failed to create bill.",
+  );
+}
+
+export function useUpdateBill() {
+  return useBillMutation(
+    ({ id, data }: { id: string; data: UpdateBillInput }) =>
+      apiRequest({ url: `/api/bills/${id}`, method: "PUT", data }),
+    "Bill updated",
+    "Failed to update bill.",
+  );
+}
+
+export function useDeleteBill() {
+  return useBillMutation(
+    (id: string) => apiRequest({ url: `/api/bills/${id}`, method: "DELETE" }),
+    "Bill deleted",
+    "Failed to delete bill.",
+  );
+}
+
+// For bills paid outside the tracked accounts
+export function useMarkBillPaid() {
+  return useBillMutation(
+    ({ id, data }: { id: string; data: CreateBillPaymentInput }) =>
+      apiRequest({ url: `/api/bills/${id}/payments`, method: "POST", data }),
+    "Bill marked paid",
+    "Failed to mark bill paid.",
+  );
+}
+
+export function useMarkBillUnpaid() {
+  return useBillMutation(
+    ({ id, dueDate }: { id: string; dueDate: string }) =>
+      apiRequest({ url: `/api/bills/${id}/payments/${dueDate}`, method: "DELETE" }),
+    "Bill marked unpaid",
+    "Failed to mark bill unpaid.",
+  );
+}
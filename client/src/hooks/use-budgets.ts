@@ -0,0 +1,124 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { BudgetHistoryResponse, BudgetPlan, BudgetSettings, BudgetStatusResponse } from "@/lib/types";
+import type {
+  CreateBudgetInput,
+  CreateBudgetsInput,
+  PlanRule,
+  UpdateBudgetInput,
+  UpdateBudgetSettingsInput,
+} from "@shared/validation";
+
+// Status and history are derived from the budgets, so they refresh together
+const isBudgetQuery = (queryKey: readonly unknown[]) =>
+  typeof queryKey[0] === "string" && queryKey[0].startsWith("/api/budgets");
+
+// Budgets with spending for their current period, computed by the server
+// from the user's week and month start settings
+export function useBudgetStatus() {
+  const { currentUser } = useAuth();
+  const query = useQuery<BudgetStatusResponse>({
+    queryKey: ["/api/budgets/status"],
+    enabled: !!currentUser,
+  });
+  return { ...query, data: query.data?.budgets ?? [] };
+}
+
+// Every period of one budget from its first to the current one, with the
+// amount carried between them
+export function useBudgetHistory(id: string | null) {
+  const { currentUser } = useAuth();
+  return useQuery<BudgetHistoryResponse>({
+    queryKey: [`/api/budgets/${id}/history`],
+    enabled: !!currentUser && !!id,
+  });
+}
+
+export interface BudgetPlanParams {
+  rule: PlanRule;
+  months: number;
+  income?: number;
+  savingsTarget?: number;
+  // Categories treated as needs; left to the server's guess when omitted
+  needs?: string[];
+}
+
+// Proposed monthly budgets; nothing is saved until useCreateBudgets runs
+export function useBudgetPlan(params: BudgetPlanParams, enabled = true) {
+  const { currentUser } = useAuth();
+  // An empty list is sent as "," so the server does not fall back to guessing
+  const needs = params.needs && (params.needs.length ? params.needs.join(",") : ",");
+  return useQuery<BudgetPlan>({
+    queryKey: ["/api/budgets/plan", { ...params, needs }],
+    enabled: !!currentUser && enabled,
+  });
+}
+
+export function useBudgetSettings() {
+  const { currentUser } = useAuth();
+  return useQuery<BudgetSettings>({
+    queryKey: ["/api/budgets/settings"],
+    enabled: !!currentUser,
+  });
+}
+
+function useBudgetMutation<T>(mutationFn: (variables: T) => Promise<unknown>, success: string, failure: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: () => {
+      toast({ title: "Error", description: failure, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ predicate: (query) => isBudgetQuery(query.queryKey) });
+    },
+  });
+}
+
+export function useCreateBudget() {
+  return useBudgetMutation(
+    (data: CreateBudgetInput) => apiRequest({ url: "/api/budgets", method: "POST", data }),
+    "Budget created",
+    "Failed to create budget.",
+  );
+}
+
+export function useCreateBudgets() {
+  return useBudgetMutation(
+    (data: CreateBudgetsInput) => apiRequest({ url: "/api/budgets/bulk", method: "POST", data }),
+    "Budgets created from your plan",
+    "Failed to create budgets.",
+  );
+}
+
+export function useUpdateBudget() {
+  return useBudgetMutation(
+    ({ id, data }: { id: string; data: UpdateBudgetInput }) =>
+      apiRequest({ url: `/api/budgets/${id}`, method: "PUT", data }),
+    "Budget updated",
+    "Failed to update budget.",
+  );
+}
+
+export function useDeleteBudget() {
+  return useBudgetMutation(
+    (id: string) => apiRequest({ url: `/api/budgets/${id}`, method: "DELETE" }),
+    "Budget deleted",
+    "Failed to delete budget.",
+  );
+}
+
+export function useUpdateBudgetSettings() {
+  return useBudgetMutation(
+    (data: UpdateBudgetSettingsInput) => apiRequest({ url: "/api/budgets/settings", method: "PUT", data }),
+    "Budget periods updated",
+    "Failed to update budget periods.",
+  );
+}
@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Category, CategoryReassignment } from "@/lib/types";
+import { SPLIT, TRANSFER, UNCATEGORIZED, type CreateCategoryInput, type UpdateCategoryInput } from "@shared/validation";
+
+// Matches /api/categories and /api/categories/type/:type
+const isCategoryQuery = (queryKey: readonly unknown[]) =>
+  typeof queryKey[0] === "string" && queryKey[0].startsWith("/api/categories");
+
+// Labels for category values that are not user categories
+const RESERVED_NAMES: Record<string, string> = {
+  [UNCATEGORIZED]: "Uncategorized",
+  [TRANSFER]: "Transfer",
+  [SPLIT]: "Split",
+};
+
+// All of the user's categories, with a lookup from id to category. Older
+// transactions may hold a plain name instead of an id, so labels fall back
+// to the stored value.
+export function useCategories() {
+  const { currentUser } = useAuth();
+  const query = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    enabled: !!currentUser,
+  });
+
+  const categories = query.data ?? [];
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const categoryName = (value: string) => RESERVED_NAMES[value] ?? byId.get(value)?.name ?? value;
+
+  return { ...query, categories, byId, categoryName };
+}
+
+// Active categories of one type, for pickers
+export function useCategoriesByType(type: "income" | "expense") {
+  const { currentUser } = useAuth();
+  return useQuery<Category[]>({
+    queryKey: [`/api/categories/type/${type}`],
+    enabled: !!currentUser,
+    select: (categories) => categories.filter((category) => !category.archived),
+  });
+}
+
+function useCategoryMutation<T>(mutationFn: (variables: T) => Promise<unknown>, failure: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onError: () => {
+      toast({ title: "Error", description: failure, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ predicate: (query) => isCategoryQuery(query.queryKey) });
+    },
+  });
+}
+
+export function useCreateCategory() {
+  return useCategoryMutation(
+    (data: CreateCategoryInput) => apiRequest({ url: "/api/categories", method: "POST", data }),
+    "Failed to create category.",
+  );
+}
+
+export function useUpdateCategory() {
+  return useCategoryMutation(
+    ({ id, data }: { id: string; data: UpdateCategoryInput }) =>
+      apiRequest({ url: `/api/categories/${id}`, method: "PUT", data }),
+    "Failed to update category.",
+  );
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// Deleting or merging rewrites transactions and budgets, so every cached
+// finance query is refetched afterwards
+function useReassignCategory<T>(
+  mutationFn: (variables: T) => Promise<CategoryReassignment>,
+  title: string,
+  failure: string,
+) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: (summary) => {
+      const merged = summary.budgetsMerged ? `, ${plural(summary.budgetsMerged, "budget")} combined` : "";
+      toast({
+        title,
+        description: `Moved ${plural(summary.transactionsMoved, "transaction")} and `
+          + `${plural(summary.budgetsMoved, "budget")}${merged}`,
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: failure, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+}
+
+export function useDeleteCategory() {
+  return useReassignCategory(
+    ({ id, reassignTo }: { id: string; reassignTo: string }) =>
+      apiRequest({
+        url: `/api/categories/${id}?reassignTo=${encodeURIComponent(reassignTo)}`,
+        method: "DELETE",
+      }),
+    "Category deleted",
+    "Failed to delete category. Please try again.",
+  );
+}
+
+export function useMergeCategory() {
+  return useReassignCategory(
+    ({ id, targetId }: { id: string; targetId: string }) =>
+      apiRequest({ url: `/api/categories/${id}/merge`, method: "POST", data: { targetId } }),
+    "Categories merged",
+    "Failed to merge categories. Please try again.",
+  );
+}
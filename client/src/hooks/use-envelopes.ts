@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { EnvelopeMonth } from "@/lib/types";
+import type { AssignEnvelopesInput, CoverOverspendingInput, MoveEnvelopeInput } from "@shared/validation";
+
+const ENVELOPES_KEY = "/api/envelopes";
+
+// Envelope balances for a YYYY-MM month, or the current one when omitted
+export function useEnvelopeMonth(month?: string) {
+  const { currentUser } = useAuth();
+  return useQuery<EnvelopeMonth>({
+    queryKey: month ? [ENVELOPES_KEY, { month }] : [ENVELOPES_KEY],
+    enabled: !!currentUser,
+  });
+}
+
+// Every ledger change affects later months too, so all of them are refetched
+function useEnvelopeMutation<T>(mutationFn: (variables: T) => Promise<EnvelopeMonth>, success: string, failure: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, failure), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [ENVELOPES_KEY] });
+    },
+  });
+}
+
+export function useAssignEnvelopes() {
+  return useEnvelopeMutation(
+    (data: AssignEnvelopesInput) => apiRequest({ url: "/api/envelopes/assignments", method: "PUT", data }),
+    "Envelopes updated",
+    "Failed to assign money.",
+  );
+}
+
+export function useMoveEnvelopeMoney() {
+  return useEnvelopeMutation(
+    (data: MoveEnvelopeInput) => apiRequest({ url: "/api/envelopes/moves", method: "POST", data }),
+    "Money moved",
+    "Failed to move money.",
+  );
+}
+
+export function useCoverOverspending() {
+  return useEnvelopeMutation(
+    (data: CoverOverspendingInput) => apiRequest({ url: "/api/envelopes/cover", method: "POST", data }),
+    "Overspending covered",
+    "Failed to cover overspending.",
+  );
+}
@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { GoalContribution, SavingsGoal } from "@/lib/types";
+import type { CreateContributionInput, CreateGoalInput, UpdateGoalInput } from "@shared/validation";
+
+// Goal changes can reach a milestone, which adds a notification
+const isGoalQuery = (queryKey: readonly unknown[]) =>
+  typeof queryKey[0] === "string"
+  && (queryKey[0].startsWith("/api/goals") || queryKey[0] === "/api/notifications");
+
+// Savings goals with progress, computed by the server
+export function useGoals() {
+  const { currentUser } = useAuth();
+  const query = useQuery<SavingsGoal[]>({
+    queryKey: ["/api/goals"],
+    enabled: !!currentUser,
+  });
+  return { ...query, data: query.data ?? [] };
+}
+
+export function useGoalContributions(id: string | null) {
+  const { currentUser } = useAuth();
+  return useQuery<GoalContribution[]>({
+    queryKey: [`/api/goals/${id}/contributions`],
+    enabled: !!currentUser && !!id,
+  });
+}
+
+function useGoalMutation<T>(mutationFn: (variables: T) => Promise<unknown>, success: string, failure: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, failure), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ predicate: (query) => isGoalQuery(query.queryKey) });
+    },
+  });
+}
+
+export function useCreateGoal() {
+  return useGoalMutation(
+    (data: CreateGoalInput) => apiRequest({ url: "/api/goals", method: "POST", data }),
+    "Savings goal created",
+    "Failed to create savings goal.",
+  );
+}
+
+export function useUpdateGoal() {
+  return useGoalMutation(
+    ({ id, data }: { id: string; data: UpdateGoalInput }) =>
+      apiRequest({ url: `/api/goals/${id}`, method: "PUT", data }),
+    "Savings goal updated",
+    "Failed to update savings goal.",
+  );
+}
+
+export function useDeleteGoal() {
+  return useGoalMutation(
+    (id: string) => apiRequest({ url: `/api/goals/${id}`, method: "DELETE" }),
+    "Savings goal deleted",
+    "Failed to delete savings goal.",
+  );
+}
+
+export function useAddContribution() {
+  return useGoalMutation(
+    ({ id, data }: { id: string; data: CreateContributionInput }) =>
+      apiRequest({ url: `/api/goals/${id}/contributions`, method: "POST", data }),
+    "Contribution added",
+    "Failed to add contribution.",
+  );
+}
+
+export function useDeleteContribution() {
+  return useGoalMutation(
+    ({ goalId, id }: { goalId: string; id: string }) =>
+      apiRequest({ url: `/api/goals/${goalId}/contributions/${id}`, method: "DELETE" }),
+    "Contribution removed",
+    "Failed to remove contribution.",
+  );
+}
@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Notification } from "@/lib/types";
+
+// Checked every minute so milestones reached elsewhere show up
+const POLL_INTERVAL = 60_000;
+
+export function useNotifications() {
+  const { currentUser } = useAuth();
+  const query = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    enabled: !!currentUser,
+    refetchInterval: POLL_INTERVAL,
+  });
+  const notifications = query.data ?? [];
+  return { ...query, data: notifications, unread: notifications.filter((n) => !n.read).length };
+}
+
+// Mark the given notifications, or all of them, as read
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids?: string[]) =>
+      apiRequest({ url: "/api/notifications/read", method: "POST", data: ids ? { ids } : {} }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+}
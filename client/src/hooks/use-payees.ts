@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Payee, TagUsage } from "@/lib/types";
+import type { CreatePayeeInput, UpdatePayeeInput } from "@shared/validation";
+
+// All of the user's payees, with a lookup from id to name
+export function usePayees() {
+  const { currentUser } = useAuth();
+  const query = useQuery<Payee[]>({
+    queryKey: ["/api/payees"],
+    enabled: !!currentUser,
+  });
+
+  const payees = query.data ?? [];
+  const byId = new Map(payees.map((payee) => [payee.id, payee]));
+  const payeeName = (id: string | null | undefined) => (id && byId.get(id)?.name) || null;
+
+  return { ...query, payees, byId, payeeName };
+}
+
+// Tags in use across the user's transactions, most used first
+export function useTags() {
+  const { currentUser } = useAuth();
+  return useQuery<TagUsage[]>({
+    queryKey: ["/api/tags"],
+    enabled: !!currentUser,
+  });
+}
+
+function usePayeeMutation<T>(
+  mutationFn: (variables: T) => Promise<unknown>,
+  success: string,
+  failure: string,
+  refreshTransactions = false,
+) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, failure), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payees"] });
+      if (refreshTransactions) queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    },
+  });
+}
+
+export function useCreatePayee() {
+  return usePayeeMutation(
+    (data: CreatePayeeInput): Promise<Payee> => apiRequest({ url: "/api/payees", method: "POST", data }),
+    "Payee created",
+    "Failed to create payee.",
+  );
+}
+
+export function useUpdatePayee() {
+  return usePayeeMutation(
+    ({ id, data }: { id: string; data: UpdatePayeeInput }) =>
+      apiRequest({ url: `/api/payees/${id}`, method: "PUT", data }),
+    "Payee updated",
+    "Failed to update payee.",
+  );
+}
+
+// Deleting a payee clears it from its transactions
+export function useDeletePayee() {
+  return usePayeeMutation(
+    (id: string) => apiRequest({ url: `/api/payees/${id}`, method: "DELETE" }),
+    "Payee deleted",
+    "Failed to delete payee.",
+    true,
+  );
+}
@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Occurrence, RecurringRule } from "@/lib/types";
+import type { CreateRecurringRuleInput, UpdateRecurringRuleInput } from "@shared/validation";
+
+// Recurring rules with their next posting date
+export function useRecurringRules() {
+  const { currentUser } = useAuth();
+  const query = useQuery<RecurringRule[]>({
+    queryKey: ["/api/recurring"],
+    enabled: !!currentUser,
+  });
+  return { ...query, data: query.data ?? [] };
+}
+
+// The next `count` occurrences of a rule, skipped ones included
+export function useOccurrences(id: string | null, count = 12) {
+  const { currentUser } = useAuth();
+  return useQuery<Occurrence[]>({
+    queryKey: [`/api/recurring/${id}/occurrences`, { count }],
+    enabled: !!currentUser && !!id,
+  });
+}
+
+// Saving a rule can post its due occurrences, which touches transactions,
+// balances and budgets alike, so everything is refetched
+function useRecurringMutation<T>(mutationFn: (variables: T) => Promise<unknown>, success: string, failure: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, failure), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+}
+
+export function useCreateRecurringRule() {
+  return useRecurringMutation(
+    (data: CreateRecurringRuleInput) => apiRequest({ url: "/api/recurring", method: "POST", data }),
+    "Recurring transaction created",
+    "Failed to create recurring transaction.",
+  );
+}
+
+// Changes apply to every occurrence that has not been posted yet
+export function useUpdateRecurringRule() {
+  return useRecurringMutation(
+    ({ id, data }: { id: string; data: UpdateRecurringRuleInput }) =>
+      apiRequest({ url: `/api/recurring/${id}`, method: "PUT", data }),
+    "Recurring transaction updated",
+    "Failed to update recurring transaction.",
+  );
+}
+
+export function useDeleteRecurringRule() {
+  return useRecurringMutation(
+    (id: string) => apiRequest({ url: `/api/recurring/${id}`, method: "DELETE" }),
+    "Recurring transaction deleted",
+    "Failed to delete recurring transaction.",
+  );
+}
+
+export function useSkipOccurrence() {
+  return useRecurringMutation(
+    ({ id, occurrence }: { id: string; occurrence: string }) =>
+      apiRequest({ url: `/api/recurring/${id}/skips`, method: "POST", data: { occurrence } }),
+    "Occurrence skipped",
+    "Failed to skip occurrence.",
+  );
+}
+
+export function useRestoreOccurrence() {
+  return useRecurringMutation(
+    ({ id, occurrence }: { id: string; occurrence: string }) =>
+      apiRequest({ url: `/api/recurring/${id}/skips/${occurrence}`, method: "DELETE" }),
+    "Occurrence restored",
+    "Failed to restore occurrence.",
+  );
+}
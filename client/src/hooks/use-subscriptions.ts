@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Subscription } from "@/lib/types";
+import type { SubscriptionStatus } from "@shared/validation";
+
+const subscriptionUrl = (key: string) => `/api/subscriptions/${encodeURIComponent(key)}`;
+
+// Subscriptions detected in the transaction history, most expensive first
+export function useSubscriptions() {
+  const { currentUser } = useAuth();
+  const query = useQuery<Subscription[]>({
+    queryKey: ["/api/subscriptions"],
+    enabled: !!currentUser,
+  });
+  return { ...query, data: query.data ?? [] };
+}
+
+// Converting a subscription creates a recurring rule, which can post a
+// charge right away, so everything is refetched
+function useSubscriptionMutation<T>(mutationFn: (variables: T) => Promise<unknown>, success: string, failure: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, failure), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+}
+
+// Confirm or ignore a subscription; null undoes that
+export function useReviewSubscription() {
+  return useSubscriptionMutation(
+    ({ key, status }: { key: string; status: SubscriptionStatus | null }) =>
+      apiRequest({ url: subscriptionUrl(key), method: "PUT", data: { status } }),
+    "Subscription updated",
+    "Failed to update subscription.",
+  );
+}
+
+export function useConvertSubscription() {
+  return useSubscriptionMutation(
+    (key: string) => apiRequest({ url: `${subscriptionUrl(key)}/recurring`, method: "POST" }),
+    "Recurring transaction created",
+    "Failed to create recurring transaction.",
+  );
+}
@@ -0,0 +1,95 @@
+import { useCallback, useMemo } from "react";
+import { useLocation, useSearch } from "wouter";
+import { endOfDay, parseISO, startOfDay } from "date-fns";
+
+// Transaction list filters as they appear in the URL. Dates are yyyy-MM-dd
+// and amounts are kept as strings so the inputs round-trip unchanged.
+export interface TransactionFilters {
+  sort: string;
+  type?: "income" | "expense" | "transfer";
+  category?: string;
+  accountId?: string;
+  tag?: string;
+  payeeId?: string;
+  minAmount?: string;
+  maxAmount?: string;
+  from?: string;
+  to?: string;
+  q?: string;
+}
+
+const FILTER_KEYS = ["sort", "type", "category", "accountId", "tag", "payeeId", "minAmount", "maxAmount", "from", "to", "q"] as const;
+
+export const DEFAULT_SORT = "-date";
+
+const parseFilters = (search: string): TransactionFilters => {
+  const params = new URLSearchParams(search);
+  const type = params.get("type");
+
+  return {
+    sort: params.get("sort") || DEFAULT_SORT,
+    type: type === "income" || type === "expense" || type === "transfer" ? type : undefined,
+    category: params.get("category") || undefined,
+    accountId: params.get("accountId") || undefined,
+    tag: params.get("tag") || undefined,
+    payeeId: params.get("payeeId") || undefined,
+    minAmount: params.get("minAmount") || undefined,
+    maxAmount: params.get("maxAmount") || undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    q: params.get("q") || undefined,
+  };
+};
+
+// Convert URL filters into GET /api/transactions query params. Date filters
+// cover whole days in the user's timezone.
+export const toTransactionQuery = (filters: TransactionFilters) => ({
+  sort: filters.sort,
+  type: filters.type,
+  category: filters.category,
+  accountId: filters.accountId,
+  tag: filters.tag,
+  payeeId: filters.payeeId,
+  minAmount: filters.minAmount,
+  maxAmount: filters.maxAmount,
+  from: filters.from ? startOfDay(parseISO(filters.from)) : undefined,
+  to: filters.to ? endOfDay(parseISO(filters.to)) : undefined,
+  q: filters.q,
+});
+
+// Read and write transaction filters in the URL query string so filtered
+// views can be shared and bookmarked
+export function useTransactionFilters() {
+  const search = useSearch();
+  const [location, setLocation] = useLocation();
+
+  const filters = useMemo(() => parseFilters(search), [search]);
+
+  const setFilters = useCallback(
+    (patch: Partial<TransactionFilters>) => {
+      const next = { ...filters, ...patch };
+      const params = new URLSearchParams();
+
+      FILTER_KEYS.forEach((key) => {
+        const value = next[key];
+        if (!value || (key === "sort" && value === DEFAULT_SORT)) return;
+        params.set(key, value);
+      });
+
+      const queryString = params.toString();
+      setLocation(queryString ? `${location}?${queryString}` : location, { replace: true });
+    },
+    [filters, location, setLocation],
+  );
+
+  // Clear every filter but keep the current sort order
+  const resetFilters = useCallback(() => {
+    const params = new URLSearchParams();
+    if (filters.sort !== DEFAULT_SORT) params.set("sort", filters.sort);
+
+    const queryString = params.toString();
+    setLocation(queryString ? `${location}?${queryString}` : location, { replace: true });
+  }, [filters.sort, location, setLocation]);
+
+  return { filters, setFilters, resetFilters };
+}
@@ -0,0 +1,162 @@
+import { useMutation, useQueryClient, type InfiniteData, type QueryKey } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isAccountQuery } from "@/hooks/use-accounts";
+import type { BatchResult, Transaction, TransactionPage } from "@/lib/types";
+import type {
+  BatchTransactionsInput,
+  CreateTransferInput,
+  UpdateTransactionInput,
+  UpdateTransferInput,
+} from "@shared/validation";
+
+type TransactionPages = InfiniteData<TransactionPage, string | null>;
+type Snapshot = [QueryKey, TransactionPages | undefined][];
+
+// Every paginated transaction query, whatever its filters
+const TRANSACTIONS_KEY = ["/api/transactions"];
+
+// Apply a change to every cached transaction page and return the previous
+// cache entries so the change can be rolled back
+function useOptimisticPages() {
+  const queryClient = useQueryClient();
+
+  const apply = async (update: (items: Transaction[]) => Transaction[]): Promise<Snapshot> => {
+    await queryClient.cancelQueries({ queryKey: TRANSACTIONS_KEY });
+    const snapshot = queryClient.getQueriesData<TransactionPages>({ queryKey: TRANSACTIONS_KEY });
+
+    queryClient.setQueriesData<TransactionPages>({ queryKey: TRANSACTIONS_KEY }, (data) =>
+      data && {
+        ...data,
+        pages: data.pages.map((page) => ({ ...page, items: update(page.items) })),
+      },
+    );
+
+    return snapshot;
+  };
+
+  const rollback = (snapshot: Snapshot | undefined) => {
+    snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData<TransactionPages>(queryKey, data));
+  };
+
+  // Refetch so sort order, filters and totals reflect the server state
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: TRANSACTIONS_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/summary"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/budgets/status"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/envelopes"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({ predicate: (query) => isAccountQuery(query.queryKey) });
+  };
+
+  return { apply, rollback, refresh };
+}
+
+export function useUpdateTransaction() {
+  const { apply, rollback, refresh } = useOptimisticPages();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateTransactionInput }) =>
+      apiRequest({ url: `/api/transactions/${id}`, method: "PUT", data }),
+    onMutate: ({ id, data }) =>
+      apply((items) =>
+        items.map((item) =>
+          item.id === id
+            ? { ...item, ...data, date: data.date ? data.date.toISOString() : item.date }
+            : item,
+        ),
+      ),
+    onError: (_error, _variables, snapshot) => {
+      rollback(snapshot);
+      toast({
+        title: "Error",
+        description: "Failed to update transaction. Your changes were reverted.",
+        variant: "destructive",
+      });
+    },
+    onSettled: refresh,
+  });
+}
+
+export function useDeleteTransaction() {
+  const { apply, rollback, refresh } = useOptimisticPages();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (id: string) => apiRequest({ url: `/api/transactions/${id}`, method: "DELETE" }),
+    onMutate: (id) => apply((items) => items.filter((item) => item.id !== id)),
+    onError: (_error, _id, snapshot) => {
+      rollback(snapshot);
+      toast({
+        title: "Error",
+        description: "Failed to delete transaction. It has been restored.",
+        variant: "destructive",
+      });
+    },
+    onSettled: refresh,
+  });
+}
+
+// Apply bulk operations on the server, then refetch. Not optimistic: the
+// server decides per item whether the change applies.
+export function useBatchTransactions() {
+  const { refresh } = useOptimisticPages();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (batch: BatchTransactionsInput): Promise<BatchResult> =>
+      apiRequest({ url: "/api/transactions/batch", method: "POST", data: batch }),
+    onSuccess: (result) => {
+      const changed = result.updated + result.deleted;
+      toast({
+        title: "Bulk update complete",
+        description: `${changed} transaction${changed === 1 ? "" : "s"} ${result.deleted ? "deleted" : "updated"}`
+          + (result.failed ? `, ${result.failed} skipped` : ""),
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Bulk update failed. No transactions were changed.",
+        variant: "destructive",
+      });
+    },
+    onSettled: refresh,
+  });
+}
+
+// Transfers are not optimistic: the server checks both accounts first
+function useTransferMutation<T>(mutationFn: (variables: T) => Promise<unknown>, success: string, failure: string) {
+  const { refresh } = useOptimisticPages();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      toast({ title: "Success", description: success });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, failure), variant: "destructive" });
+    },
+    onSettled: refresh,
+  });
+}
+
+export function useCreateTransfer() {
+  return useTransferMutation(
+    (data: CreateTransferInput) => apiRequest({ url: "/api/transfers", method: "POST", data }),
+    "Transfer recorded",
+    "Failed to record transfer.",
+  );
+}
+
+export function useUpdateTransfer() {
+  return useTransferMutation(
+    ({ id, data }: { id: string; data: UpdateTransferInput }) =>
+      apiRequest({ url: `/api/transfers/${id}`, method: "PUT", data }),
+    "Transfer updated",
+    "Failed to update transfer.",
+  );
+}
@@ -0,0 +1,18 @@
+import { Banknote, CreditCard, Landmark, PiggyBank, Wallet, type LucideIcon } from 'lucide-react';
+import type { Account } from '@/lib/types';
+
+export const ACCOUNT_TYPES: Record<Account['type'], { label: string; icon: LucideIcon }> = {
+  bank: { label: 'Bank account', icon: Landmark },
+  savings: { label: 'Savings', icon: PiggyBank },
+  credit_card: { label: 'Credit card', icon: CreditCard },
+  cash: { label: 'Cash', icon: Banknote },
+  wallet: { label: 'Wallet', icon: Wallet }
+};
+
+// Amounts are shown in the currency of the account they belong to
+export const formatMoney = (amount: number, currency = 'USD') => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency
+  }).format(amount);
+};
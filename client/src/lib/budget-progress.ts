@@ -0,0 +1,35 @@
+import type { BudgetStatus } from '@/lib/types';
+
+export type BudgetLevel = 'under' | 'warning' | 'over';
+
+// Warn once this share of the budget is gone
+const WARNING_PERCENT = 80;
+
+// Color band for a budget: over once spending passes what is available
+// (including rollover), a warning when most of it is used or the current
+// pace would overshoot
+export const budgetLevel = (status: BudgetStatus): BudgetLevel => {
+  if (status.spent > status.available) return 'over';
+  if (status.percentUsed >= WARNING_PERCENT || status.projected > status.available) return 'warning';
+  return 'under';
+};
+
+export const LEVEL_COLORS: Record<BudgetLevel, { indicator: string; text: string }> = {
+  under: { indicator: 'bg-green-600', text: 'text-green-600' },
+  warning: { indicator: 'bg-amber-500', text: 'text-amber-600' },
+  over: { indicator: 'bg-red-600', text: 'text-red-600' }
+};
+
+export const PERIOD_LABELS: Record<BudgetStatus['period'], string> = {
+  daily: 'Today',
+  weekly: 'This week',
+  monthly: 'This month',
+  yearly: 'This year'
+};
+
+export const ROLLOVER_LABELS: Record<NonNullable<BudgetStatus['rollover']>, string> = {
+  none: 'No rollover',
+  surplus: 'Carry unspent money forward',
+  surplus_and_deficit: 'Carry surplus and overspending forward',
+  capped: 'Carry unspent money up to a cap'
+};
@@ -0,0 +1,45 @@
+import {
+  Briefcase,
+  Car,
+  Coffee,
+  Film,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  PiggyBank,
+  Plane,
+  ShoppingBag,
+  ShoppingCart,
+  Tag,
+  TrendingUp,
+  Utensils,
+  Wallet,
+  Zap,
+  type LucideIcon
+} from 'lucide-react';
+import type { CategoryIcon } from '@shared/validation';
+
+export const CATEGORY_ICONS: Record<CategoryIcon, LucideIcon> = {
+  'utensils': Utensils,
+  'shopping-cart': ShoppingCart,
+  'car': Car,
+  'film': Film,
+  'zap': Zap,
+  'home': Home,
+  'shopping-bag': ShoppingBag,
+  'heart-pulse': HeartPulse,
+  'graduation-cap': GraduationCap,
+  'plane': Plane,
+  'coffee': Coffee,
+  'gift': Gift,
+  'briefcase': Briefcase,
+  'trending-up': TrendingUp,
+  'wallet': Wallet,
+  'piggy-bank': PiggyBank,
+  'tag': Tag
+};
+
+// Unknown or missing icon names fall back to a plain tag
+export const categoryIcon = (name?: string): LucideIcon =>
+  (name && CATEGORY_ICONS[name as CategoryIcon]) || Tag;
@@ -37,12 +37,78 @@ export async function apiRequest(
   return res.json();
 }
 
+// Send a file as multipart form data under the field name "file"
+export async function apiUpload(url: string, file: File): Promise<any> {
+  const auth = getAuth();
+  const token = auth.currentUser ? await auth.currentUser.getIdToken() : null;
+
+  const body = new FormData();
+  body.append("file", file);
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res.json();
+}
+
+// Download a file that needs the auth header, which <img> and <a> tags
+// cannot send
+export async function apiBlob(url: string): Promise<Blob> {
+  const auth = getAuth();
+  const token = auth.currentUser ? await auth.currentUser.getIdToken() : null;
+
+  const res = await fetch(url, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res.blob();
+}
+
+// The `message` of a failed apiRequest's JSON body, such as a validation
+// error worth showing to the user, or the fallback when there is none
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  const body = error instanceof Error ? error.message.replace(/^\d{3}: /, "") : "";
+  try {
+    const { message } = JSON.parse(body);
+    return typeof message === "string" ? message : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Build a request URL from a query key of the form [path, params?]. Params
+// become the query string, and infinite queries pass their page cursor.
+export function buildQueryUrl(queryKey: readonly unknown[], cursor?: unknown): string {
+  const [path, params] = queryKey;
+  const search = new URLSearchParams();
+
+  if (params && typeof params === "object") {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === "") return;
+      search.set(key, value instanceof Date ? value.toISOString() : String(value));
+    });
+  }
+  if (cursor) {
+    search.set("cursor", String(cursor));
+  }
+
+  const queryString = search.toString();
+  return queryString ? `${path}?${queryString}` : (path as string);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
-  async ({ queryKey }) => {
+  async ({ queryKey, pageParam }) => {
     // Get the current user's token
     const auth = getAuth();
     const token = auth.currentUser ? await auth.currentUser.getIdToken() : null;
@@ -53,7 +119,7 @@ export const getQueryFn: <T>(options: {
       headers['Authorization'] = `Bearer ${token}`;
     }
     
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(buildQueryUrl(queryKey, pageParam), {
       credentials: "include",
       headers
     });
@@ -0,0 +1,13 @@
+import type { Transaction } from '@/lib/types';
+
+// How each transaction type is shown in lists. Transfers only move money
+// between accounts, so their amount has no sign.
+export const TYPE_STYLES: Record<Transaction['type'], {
+  badge: 'default' | 'destructive' | 'secondary';
+  amount: string;
+  sign: string;
+}> = {
+  income: { badge: 'default', amount: 'text-green-600', sign: '+' },
+  expense: { badge: 'destructive', amount: 'text-red-600', sign: '-' },
+  transfer: { badge: 'secondary', amount: 'text-muted-foreground', sign: '' }
+};
@@ -0,0 +1,368 @@
+// Shapes of finance API responses as received by the client (dates are ISO strings)
+
+import type { BillFrequency, NotificationKind, RecurringFrequency, SubscriptionStatus, WeekendAdjustment } from '@shared/validation';
+
+export interface Transaction {
+  id: string;
+  userId: string;
+  amount: number;
+  category: string;
+  description: string;
+  date: string;
+  type: 'income' | 'expense' | 'transfer';
+  tags?: string[];
+  // Source account for transfers
+  accountId?: string | null;
+  // Destination account of a transfer
+  transferAccountId?: string | null;
+  // Lines of a split transaction, whose own category is then "split"
+  splits?: { category: string; amount: number; memo?: string }[] | null;
+  payeeId?: string | null;
+  // Set when posted by a recurring rule, with the occurrence's unadjusted date
+  recurringRuleId?: string | null;
+  occurrence?: string | null;
+  createdAt: string;
+}
+
+// A recurring rule, from GET /api/recurring
+export interface RecurringRule {
+  id: string;
+  userId: string;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
+  category: string;
+  accountId?: string | null;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string | null;
+  weekendAdjustment: WeekendAdjustment;
+  paused: boolean;
+  skippedOccurrences: string[];
+  nextOccurrence: string | null;
+  // Posting date of the next occurrence that is not skipped, null when
+  // paused or ended
+  nextDate: string | null;
+  createdAt: string;
+}
+
+// An upcoming occurrence of a recurring rule
+export interface Occurrence {
+  // Unadjusted date as yyyy-MM-dd, used to skip it
+  occurrence: string;
+  // Posting date after weekend adjustment
+  date: string;
+  skipped: boolean;
+}
+
+// A subscription detected in the transaction history, from GET /api/subscriptions
+export interface Subscription {
+  key: string;
+  name: string;
+  payeeId: string | null;
+  category: string;
+  accountId: string | null;
+  cadence: 'weekly' | 'monthly' | 'yearly';
+  // The latest charge's amount
+  amount: number;
+  annualCost: number;
+  chargeCount: number;
+  firstCharge: string;
+  lastCharge: string;
+  nextCharge: string;
+  // The expected charge never came, so it was probably cancelled
+  lapsed: boolean;
+  priceChanges: { date: string; from: number; to: number }[];
+  transactionIds: string[];
+  status: SubscriptionStatus | 'detected';
+  recurringRuleId: string | null;
+}
+
+// A due date marked paid, by a matching transaction or by hand
+export interface BillPayment {
+  // The due date it pays, as yyyy-MM-dd
+  dueDate: string;
+  transactionId: string | null;
+  amount: number;
+  paidAt: string;
+}
+
+// One due date of a bill
+export interface BillOccurrence {
+  billId: string;
+  name: string;
+  // As yyyy-MM-dd, used to mark it paid
+  dueDate: string;
+  date: string;
+  amount: number;
+  estimated: boolean;
+  autopay: boolean;
+  status: 'paid' | 'overdue' | 'upcoming';
+  payment: BillPayment | null;
+}
+
+// A bill, from GET /api/bills
+export interface Bill {
+  id: string;
+  userId: string;
+  name: string;
+  amount: number;
+  estimated: boolean;
+  accountId?: string | null;
+  payeeId?: string | null;
+  autopay: boolean;
+  frequency: BillFrequency;
+  dueDate: string;
+  endDate?: string | null;
+  reminderDays: number;
+  payments: BillPayment[];
+  // Earliest due date still to pay, null once every one is paid
+  nextDue: BillOccurrence | null;
+  createdAt: string;
+}
+
+// A receipt or document attached to a transaction
+export interface Attachment {
+  id: string;
+  userId: string;
+  transactionId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  hasThumbnail: boolean;
+  createdAt: string;
+}
+
+export interface Payee {
+  id: string;
+  userId: string;
+  name: string;
+  normalizedName: string;
+  defaultCategory?: string | null;
+  createdAt: string;
+}
+
+// Response of GET /api/tags
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+// Responses of GET /api/analytics/tag-totals and /api/analytics/payee-totals
+export interface TagTotal {
+  tag: string;
+  total: number;
+  count: number;
+}
+
+export interface PayeeTotal {
+  payeeId: string | null;
+  name: string | null;
+  total: number;
+  count: number;
+}
+
+export interface Account {
+  id: string;
+  userId: string;
+  name: string;
+  type: 'bank' | 'savings' | 'credit_card' | 'cash' | 'wallet';
+  currency: string;
+  openingBalance: number;
+  creditLimit?: number | null;
+  archived?: boolean;
+  createdAt: string;
+}
+
+export interface AccountBalance extends Account {
+  balance: number;
+  transactionCount: number;
+  availableCredit: number | null;
+}
+
+// Response of GET /api/accounts
+export interface AccountOverview {
+  accounts: AccountBalance[];
+  // Aggregate balance per currency
+  totals: { currency: string; balance: number }[];
+  // Net of transactions outside every account
+  unassigned: number;
+  unassignedCount: number;
+}
+
+// A transaction in GET /api/accounts/:id/register
+export interface RegisterEntry extends Transaction {
+  change: number;
+  runningBalance: number;
+}
+
+// One page of GET /api/transactions
+export interface TransactionPage {
+  items: Transaction[];
+  nextCursor: string | null;
+}
+
+// Response of POST /api/transactions/batch
+export interface BatchResult {
+  results: { id: string; status: 'updated' | 'deleted' | 'not_found' | 'forbidden' | 'invalid' }[];
+  updated: number;
+  deleted: number;
+  failed: number;
+}
+
+export interface Category {
+  id: string;
+  userId: string;
+  name: string;
+  type: 'income' | 'expense';
+  color?: string;
+  icon?: string;
+  archived?: boolean;
+  parentId?: string | null;
+  createdAt: string;
+}
+
+// Response of DELETE /api/categories/:id and POST /api/categories/:id/merge
+export interface CategoryReassignment {
+  message: string;
+  transactionsMoved: number;
+  budgetsMoved: number;
+  budgetsMerged: number;
+}
+
+export interface Budget {
+  id: string;
+  userId: string;
+  category: string;
+  amount: number;
+  period: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  rollover?: 'none' | 'surplus' | 'surplus_and_deficit' | 'capped';
+  rolloverCap?: number | null;
+  amountHistory?: { effectiveFrom: string; amount: number }[];
+  createdAt: string;
+}
+
+// One period of GET /api/budgets/:id/history
+export interface BudgetPeriodRecord {
+  periodStart: string;
+  periodEnd: string;
+  budgeted: number;
+  carriedIn: number;
+  available: number;
+  spent: number;
+  carriedOut: number;
+}
+
+export interface BudgetHistoryResponse {
+  budget: Budget;
+  periods: BudgetPeriodRecord[];
+}
+
+// When budget periods begin, from /api/budgets/settings
+export interface BudgetSettings {
+  weekStartsOn: number;
+  monthStartDay: number;
+}
+
+// One budget of GET /api/budgets/status, measured over its current period
+export interface BudgetStatus extends Budget, BudgetPeriodRecord {
+  remaining: number;
+  percentUsed: number;
+  daysLeft: number;
+  safeToSpendPerDay: number;
+  projected: number;
+}
+
+export interface BudgetStatusResponse {
+  asOf: string;
+  settings: BudgetSettings;
+  budgets: BudgetStatus[];
+}
+
+// One proposed budget of GET /api/budgets/plan
+export interface PlannedBudget {
+  category: string;
+  group: 'needs' | 'wants';
+  historicalAverage: number;
+  amount: number;
+  // The category's current monthly budget, which the plan replaces
+  existingAmount: number | null;
+}
+
+export interface BudgetPlan {
+  rule: '50_30_20' | '70_20_10' | 'historical';
+  months: number;
+  income: number;
+  historicalIncome: number;
+  savingsTarget: number;
+  spendable: number;
+  budgets: PlannedBudget[];
+  unallocated: number;
+}
+
+// One envelope of GET /api/envelopes
+export interface EnvelopeRecord {
+  category: string;
+  carriedIn: number;
+  assigned: number;
+  // Net money moved in from or out to other envelopes
+  moved: number;
+  activity: number;
+  available: number;
+}
+
+export interface EnvelopeMonth {
+  month: string;
+  periodStart: string;
+  periodEnd: string;
+  income: number;
+  assigned: number;
+  uncoveredOverspending: number;
+  toBeBudgeted: number;
+  overspent: number;
+  envelopes: EnvelopeRecord[];
+}
+
+// A savings goal with its progress, from GET /api/goals
+export interface SavingsGoal {
+  id: string;
+  userId: string;
+  name: string;
+  targetAmount: number;
+  deadline?: string | null;
+  categoryId?: string | null;
+  accountId?: string | null;
+  startDate: string;
+  notifiedMilestones?: number[];
+  createdAt: string;
+  saved: number;
+  manualContributions: number;
+  automaticContributions: number;
+  remaining: number;
+  percent: number;
+  monthsLeft: number | null;
+  requiredPerMonth: number | null;
+  savedThisMonth: number;
+  neededThisMonth: number | null;
+  status: 'active' | 'completed' | 'overdue';
+}
+
+// A manual contribution or linked transaction of a goal
+export interface GoalContribution {
+  id: string;
+  source: 'manual' | 'transaction';
+  amount: number;
+  date: string;
+  note: string | null;
+}
+
+export interface Notification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  link?: string | null;
+  read: boolean;
+  createdAt: string;
+}
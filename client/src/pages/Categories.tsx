@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/layout/Navbar';
+import { CategoryManager } from '@/components/categories/CategoryManager';
+import { PayeeManager } from '@/components/payees/PayeeManager';
+
+export const Categories: React.FC = () => {
+  const { currentUser, loading } = useAuth();
+  const [, setLocation] = useLocation();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!loading && !currentUser) {
+      setLocation('/auth');
+    }
+  }, [currentUser, loading, setLocation]);
+
+  // Show loading state or nothing if redirecting
+  if (loading || !currentUser) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Categories</h1>
+          <div className="space-y-6">
+            <CategoryManager />
+            <PayeeManager />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Categories;
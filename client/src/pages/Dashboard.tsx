@@ -4,56 +4,46 @@ import { useAuth } from '@/contexts/AuthContext';
 import Navbar from '@/components/layout/Navbar';
 import { TransactionList } from '@/components/transactions/TransactionList';
 import { TransactionForm } from '@/components/transactions/TransactionForm';
+import { BudgetManager } from '@/components/budgets/BudgetManager';
+import { BudgetOverview } from '@/components/budgets/BudgetOverview';
+import { BudgetPeriodSettings } from '@/components/budgets/BudgetPeriodSettings';
+import { EnvelopeBudget } from '@/components/envelopes/EnvelopeBudget';
+import { SavingsGoals } from '@/components/goals/SavingsGoals';
+import { AccountList } from '@/components/accounts/AccountList';
+import { useAccounts, isAccountQuery } from '@/hooks/use-accounts';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { useQuery } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 
-// Interface for Transaction data
-interface Transaction {
-  id: string;
-  userId: string;
-  amount: number;
-  category: string;
-  description: string;
-  date: string;
-  type: 'income' | 'expense';
-  createdAt: string;
+// All-time totals from /api/analytics/summary
+interface TransactionSummary {
+  income: number;
+  expenses: number;
+  incomeCount: number;
+  expenseCount: number;
 }
 
 export const Dashboard: React.FC = () => {
   const { currentUser, loading } = useAuth();
   const [location, setLocation] = useLocation();
   const [activeTab, setActiveTab] = useState('overview');
-  const [totalBalance, setTotalBalance] = useState(0);
-  const [totalIncome, setTotalIncome] = useState(0);
-  const [totalExpenses, setTotalExpenses] = useState(0);
+  const queryClient = useQueryClient();
   
-  // Fetch transactions
-  const { data: transactions, isLoading: transactionsLoading, refetch } = useQuery({
-    queryKey: ['/api/transactions'],
+  // Fetch all-time totals
+  const { data: summary, isLoading: transactionsLoading } = useQuery<TransactionSummary>({
+    queryKey: ['/api/analytics/summary'],
     enabled: !!currentUser,
   });
   
-  // Calculate totals when transactions data changes
-  useEffect(() => {
-    if (transactions && Array.isArray(transactions) && transactions.length > 0) {
-      let income = 0;
-      let expenses = 0;
-      
-      transactions.forEach((transaction: Transaction) => {
-        if (transaction.type === 'income') {
-          income += transaction.amount;
-        } else {
-          expenses += transaction.amount;
-        }
-      });
-      
-      setTotalIncome(income);
-      setTotalExpenses(expenses);
-      setTotalBalance(income - expenses);
-    }
-  }, [transactions]);
+  const totalIncome = summary?.income ?? 0;
+  const totalExpenses = summary?.expenses ?? 0;
+
+  // With accounts the balance is what they hold; before any exist it falls
+  // back to lifetime income minus expenses
+  const { data: accountOverview, accounts, isLoading: accountsLoading } = useAccounts();
+  const balances = accounts.length > 0
+    ? accountOverview!.totals
+    : [{ currency: 'USD', balance: totalIncome - totalExpenses }];
   
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -64,16 +54,21 @@ export const Dashboard: React.FC = () => {
 
   // Function to refresh transaction list
   const refreshTransactions = () => {
-    // Refetch transactions when a new one is added
-    refetch();
+    // Refetch transactions and totals when a new one is added
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/analytics/summary'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/budgets/status'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/envelopes'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+    queryClient.invalidateQueries({ predicate: (query) => isAccountQuery(query.queryKey) });
     setActiveTab('transactions');
   };
 
   // Format currency
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency = 'USD') => {
     return amount.toLocaleString('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
     });
   };
 
@@ -100,9 +95,11 @@ export const Dashboard: React.FC = () => {
           </div>
 
           <Tabs defaultValue={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-3 mb-8">
+            <TabsList className="grid w-full grid-cols-5 mb-8">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="transactions">Transactions</TabsTrigger>
+              <TabsTrigger value="budgets">Budgets</TabsTrigger>
+              <TabsTrigger value="envelopes">Envelopes</TabsTrigger>
               <TabsTrigger value="add-transaction">Add Transaction</TabsTrigger>
             </TabsList>
             
@@ -111,18 +108,26 @@ export const Dashboard: React.FC = () => {
                 <Card>
                   <CardHeader className="pb-2">
                     <CardTitle className="text-sm font-medium">Total Balance</CardTitle>
-                    <CardDescription>Your net worth</CardDescription>
+                    <CardDescription>
+                      {accounts.length > 0
+                        ? `Across ${accounts.length} account${accounts.length === 1 ? '' : 's'}`
+                        : 'Your net worth'}
+                    </CardDescription>
                   </CardHeader>
                   <CardContent>
-                    {transactionsLoading ? (
+                    {transactionsLoading || accountsLoading ? (
                       <div className="text-2xl font-bold animate-pulse">Loading...</div>
                     ) : (
-                      <div className={`text-2xl font-bold ${totalBalance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                        {formatCurrency(totalBalance)}
-                      </div>
+                      balances.map(({ currency, balance }) => (
+                        <div key={currency} className={`text-2xl font-bold ${balance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(balance, currency)}
+                        </div>
+                      ))
                     )}
                     <p className="text-xs text-muted-foreground">
-                      Updated just now
+                      {accounts.length > 0 && accountOverview!.unassignedCount > 0
+                        ? `${formatCurrency(accountOverview!.unassigned)} more in transactions without an account`
+                        : 'Updated just now'}
                     </p>
                   </CardContent>
                 </Card>
@@ -141,9 +146,7 @@ export const Dashboard: React.FC = () => {
                       </div>
                     )}
                     <p className="text-xs text-muted-foreground">
-                      Total from {transactions && Array.isArray(transactions) 
-                        ? transactions.filter((t: Transaction) => t.type === 'income').length 
-                        : 0} transactions
+                      Total from {summary?.incomeCount ?? 0} transactions
                     </p>
                   </CardContent>
                 </Card>
@@ -162,9 +165,7 @@ export const Dashboard: React.FC = () => {
                       </div>
                     )}
                     <p className="text-xs text-muted-foreground">
-                      Total from {transactions && Array.isArray(transactions) 
-                        ? transactions.filter((t: Transaction) => t.type === 'expense').length 
-                        : 0} transactions
+                      Total from {summary?.expenseCount ?? 0} transactions
                     </p>
                   </CardContent>
                 </Card>
@@ -187,18 +188,30 @@ export const Dashboard: React.FC = () => {
                     <CardDescription>Your spending against budgeted amounts</CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <div className="flex flex-col gap-4">
-                      <p className="text-sm text-muted-foreground">No budgets found. Add your first budget to start tracking.</p>
-                    </div>
+                    <BudgetOverview />
                   </CardContent>
                 </Card>
               </div>
+
+              <div className="mt-6 space-y-6">
+                <AccountList />
+                <SavingsGoals />
+              </div>
             </TabsContent>
             
             <TabsContent value="transactions">
               <TransactionList />
             </TabsContent>
             
+            <TabsContent value="budgets" className="space-y-6">
+              <BudgetManager />
+              <BudgetPeriodSettings />
+            </TabsContent>
+            
+            <TabsContent value="envelopes">
+              <EnvelopeBudget />
+            </TabsContent>
+            
             <TabsContent value="add-transaction">
               <TransactionForm onSuccess={refreshTransactions} />
             </TabsContent>
@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/layout/Navbar';
+import { TransactionTable } from '@/components/transactions/TransactionTable';
+
+export const Transactions: React.FC = () => {
+  const { currentUser, loading } = useAuth();
+  const [, setLocation] = useLocation();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!loading && !currentUser) {
+      setLocation('/auth');
+    }
+  }, [currentUser, loading, setLocation]);
+
+  // Show loading state or nothing if redirecting
+  if (loading || !currentUser) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Transactions</h1>
+          <TransactionTable />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Transactions;
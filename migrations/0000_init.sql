@@ -0,0 +1,56 @@
+CREATE TABLE "budgets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"category" text NOT NULL,
+	"amount" numeric(14, 2) NOT NULL,
+	"period" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "budgets_amount_positive" CHECK ("budgets"."amount" > 0)
+);
+--> statement-breakpoint
+CREATE TABLE "categories" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"amount" numeric(14, 2) NOT NULL,
+	"category" text NOT NULL,
+	"description" text NOT NULL,
+	"date" timestamp NOT NULL,
+	"type" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "transactions_amount_positive" CHECK ("transactions"."amount" > 0)
+);
+--> statement-breakpoint
+CREATE TABLE "user_profiles" (
+	"uid" text PRIMARY KEY NOT NULL,
+	"email" text NOT NULL,
+	"display_name" text,
+	"photo_url" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"email" text NOT NULL,
+	"firebase_uid" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email"),
+	CONSTRAINT "users_firebase_uid_unique" UNIQUE("firebase_uid")
+);
+--> statement-breakpoint
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "budgets_user_id_category_idx" ON "budgets" USING btree ("user_id","category");--> statement-breakpoint
+CREATE INDEX "categories_user_id_type_idx" ON "categories" USING btree ("user_id","type");--> statement-breakpoint
+CREATE INDEX "transactions_user_id_date_idx" ON "transactions" USING btree ("user_id","date");
\ No newline at end of file
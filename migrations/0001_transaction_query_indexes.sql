@@ -0,0 +1,5 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX "transactions_user_id_amount_idx" ON "transactions" USING btree ("user_id","amount");--> statement-breakpoint
+CREATE INDEX "transactions_user_id_category_date_idx" ON "transactions" USING btree ("user_id","category","date");--> statement-breakpoint
+CREATE INDEX "transactions_user_id_type_date_idx" ON "transactions" USING btree ("user_id","type","date");--> statement-breakpoint
+CREATE INDEX "transactions_description_trgm_idx" ON "transactions" USING gin ("description" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "transactions" ADD COLUMN "tags" text[] DEFAULT '{}'::text[] NOT NULL;
\ No newline at end of file
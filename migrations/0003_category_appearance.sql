@@ -0,0 +1,3 @@
+ALTER TABLE "categories" ADD COLUMN "color" text;--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "icon" text;--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "archived" boolean DEFAULT false NOT NULL;
\ No newline at end of file
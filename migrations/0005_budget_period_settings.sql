@@ -0,0 +1,4 @@
+ALTER TABLE "user_profiles" ADD COLUMN "week_starts_on" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "month_start_day" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD CONSTRAINT "user_profiles_week_starts_on_range" CHECK ("user_profiles"."week_starts_on" between 0 and 6);--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD CONSTRAINT "user_profiles_month_start_day_range" CHECK ("user_profiles"."month_start_day" between 1 and 28);
\ No newline at end of file
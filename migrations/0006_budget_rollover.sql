@@ -0,0 +1,4 @@
+ALTER TABLE "budgets" ADD COLUMN "rollover" text DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "rollover_cap" numeric(14, 2);--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "amount_history" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_rollover_cap_positive" CHECK ("budgets"."rollover_cap" > 0);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "envelope_allocations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"month" text NOT NULL,
+	"category" text NOT NULL,
+	"from_category" text,
+	"amount" numeric(14, 2) NOT NULL,
+	"kind" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "envelope_allocations" ADD CONSTRAINT "envelope_allocations_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "envelope_allocations_user_id_month_idx" ON "envelope_allocations" USING btree ("user_id","month");
\ No newline at end of file
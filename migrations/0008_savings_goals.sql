@@ -0,0 +1,42 @@
+CREATE TABLE "goal_contributions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"goal_id" uuid NOT NULL,
+	"amount" numeric(14, 2) NOT NULL,
+	"date" timestamp NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"kind" text NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"link" text,
+	"read" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "savings_goals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"target_amount" numeric(14, 2) NOT NULL,
+	"deadline" timestamp,
+	"category_id" text,
+	"start_date" timestamp DEFAULT now() NOT NULL,
+	"notified_milestones" integer[] DEFAULT '{}'::integer[] NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "savings_goals_target_amount_positive" CHECK ("savings_goals"."target_amount" > 0)
+);
+--> statement-breakpoint
+ALTER TABLE "goal_contributions" ADD CONSTRAINT "goal_contributions_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goal_contributions" ADD CONSTRAINT "goal_contributions_goal_id_savings_goals_id_fk" FOREIGN KEY ("goal_id") REFERENCES "public"."savings_goals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "savings_goals" ADD CONSTRAINT "savings_goals_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "goal_contributions_user_id_idx" ON "goal_contributions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "goal_contributions_goal_id_idx" ON "goal_contributions" USING btree ("goal_id");--> statement-breakpoint
+CREATE INDEX "notifications_user_id_created_at_idx" ON "notifications" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "savings_goals_user_id_idx" ON "savings_goals" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "accounts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"currency" text DEFAULT 'USD' NOT NULL,
+	"opening_balance" numeric(14, 2) DEFAULT '0' NOT NULL,
+	"credit_limit" numeric(14, 2),
+	"archived" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "accounts_credit_limit_positive" CHECK ("accounts"."credit_limit" > 0)
+);
+--> statement-breakpoint
+ALTER TABLE "savings_goals" ADD COLUMN "account_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "account_id" uuid;--> statement-breakpoint
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "accounts_user_id_idx" ON "accounts" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "savings_goals" ADD CONSTRAINT "savings_goals_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transactions_account_id_date_idx" ON "transactions" USING btree ("account_id","date");
\ No newline at end of file
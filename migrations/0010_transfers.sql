@@ -0,0 +1,4 @@
+ALTER TABLE "transactions" ADD COLUMN "transfer_account_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_transfer_account_id_accounts_id_fk" FOREIGN KEY ("transfer_account_id") REFERENCES "public"."accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transactions_transfer_account_id_date_idx" ON "transactions" USING btree ("transfer_account_id","date");--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_transfer_account_only_on_transfers" CHECK ("transactions"."transfer_account_id" is null or "transactions"."type" = 'transfer');
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "transactions" ADD COLUMN "splits" jsonb;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "payees" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"normalized_name" text NOT NULL,
+	"default_category" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "payee_id" uuid;--> statement-breakpoint
+ALTER TABLE "payees" ADD CONSTRAINT "payees_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "payees_user_id_normalized_name_idx" ON "payees" USING btree ("user_id","normalized_name");--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_payee_id_payees_id_fk" FOREIGN KEY ("payee_id") REFERENCES "public"."payees"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "transactions_payee_id_date_idx" ON "transactions" USING btree ("payee_id","date");--> statement-breakpoint
+CREATE INDEX "transactions_tags_idx" ON "transactions" USING gin ("tags");
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE "recurring_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"description" text NOT NULL,
+	"amount" numeric(14, 2) NOT NULL,
+	"type" text NOT NULL,
+	"category" text NOT NULL,
+	"account_id" uuid,
+	"frequency" text NOT NULL,
+	"interval" integer DEFAULT 1 NOT NULL,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp,
+	"weekend_adjustment" text DEFAULT 'none' NOT NULL,
+	"paused" boolean DEFAULT false NOT NULL,
+	"skipped_occurrences" text[] DEFAULT '{}'::text[] NOT NULL,
+	"next_occurrence" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "recurring_rules_amount_positive" CHECK ("recurring_rules"."amount" > 0),
+	CONSTRAINT "recurring_rules_interval_positive" CHECK ("recurring_rules"."interval" > 0)
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "recurring_rule_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "occurrence" text;--> statement-breakpoint
+ALTER TABLE "recurring_rules" ADD CONSTRAINT "recurring_rules_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_rules" ADD CONSTRAINT "recurring_rules_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recurring_rules_user_id_idx" ON "recurring_rules" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "recurring_rules_next_occurrence_idx" ON "recurring_rules" USING btree ("next_occurrence");--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_recurring_rule_id_recurring_rules_id_fk" FOREIGN KEY ("recurring_rule_id") REFERENCES "public"."recurring_rules"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "transactions_recurring_rule_id_occurrence_idx" ON "transactions" USING btree ("recurring_rule_id","occurrence");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "bills" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"amount" numeric(14, 2) NOT NULL,
+	"estimated" boolean DEFAULT false NOT NULL,
+	"account_id" uuid,
+	"payee_id" uuid,
+	"autopay" boolean DEFAULT false NOT NULL,
+	"frequency" text NOT NULL,
+	"due_date" timestamp NOT NULL,
+	"end_date" timestamp,
+	"reminder_days" integer DEFAULT 3 NOT NULL,
+	"payments" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"notified_reminders" text[] DEFAULT '{}'::text[] NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "bills_amount_positive" CHECK ("bills"."amount" > 0),
+	CONSTRAINT "bills_reminder_days_range" CHECK ("bills"."reminder_days" between 0 and 30)
+);
+--> statement-breakpoint
+ALTER TABLE "bills" ADD CONSTRAINT "bills_user_id_user_profiles_uid_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bills" ADD CONSTRAINT "bills_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bills" ADD CONSTRAINT "bills_payee_id_payees_id_fk" FOREIGN KEY ("payee_id") REFERENCES "public"."payees"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bills_user_id_idx" ON "bills" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,91 @@
+import type { Account, Transaction } from './repository';
+import { roundCents } from './budget-periods';
+
+export interface AccountBalance extends Account {
+  balance: number;
+  transactionCount: number;
+  // Credit left before the limit, for accounts with one
+  availableCredit: number | null;
+}
+
+export interface CurrencyTotal {
+  currency: string;
+  balance: number;
+}
+
+export interface AccountOverview {
+  accounts: AccountBalance[];
+  // Sum of every account's balance per currency; amounts in different
+  // currencies are never added together
+  totals: CurrencyTotal[];
+  // Net of income and expenses not assigned to any account
+  unassigned: number;
+  unassignedCount: number;
+}
+
+// One line of an account register: the transaction and the balance after it
+export interface RegisterEntry extends Transaction {
+  // Signed effect on the account's balance
+  change: number;
+  runningBalance: number;
+}
+
+// How a transaction changes the balance of `accountId`. A transfer takes
+// money out of its source account and adds it to its destination.
+export const balanceChange = (transaction: Transaction, accountId: string): number => {
+  if (transaction.type === 'transfer') {
+    if (transaction.transferAccountId === accountId) return transaction.amount;
+    return transaction.accountId === accountId ? -transaction.amount : 0;
+  }
+  if (transaction.accountId !== accountId) return 0;
+  return transaction.type === 'income' ? transaction.amount : -transaction.amount;
+};
+
+const touches = (transaction: Transaction, accountId: string) =>
+  transaction.accountId === accountId || transaction.transferAccountId === accountId;
+
+// Oldest first; same-day transactions in the order they were recorded
+const chronological = (a: Transaction, b: Transaction) =>
+  a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime();
+
+export const accountBalance = (account: Account, transactions: Transaction[]): AccountBalance => {
+  const own = transactions.filter(t => touches(t, account.id!));
+  const balance = roundCents(own.reduce((total, t) => total + balanceChange(t, account.id!), account.openingBalance));
+  return {
+    ...account,
+    balance,
+    transactionCount: own.length,
+    availableCredit: account.creditLimit ? roundCents(account.creditLimit + balance) : null
+  };
+};
+
+// Balances of all accounts plus the aggregate the Dashboard shows
+export const accountOverview = (accounts: Account[], transactions: Transaction[]): AccountOverview => {
+  const balances = accounts.map(account => accountBalance(account, transactions));
+  const totals = new Map<string, number>();
+  balances.forEach(account => totals.set(account.currency, (totals.get(account.currency) ?? 0) + account.balance));
+
+  const known = new Set(accounts.map(account => account.id));
+  const unassigned = transactions.filter(t => t.type !== 'transfer' && (!t.accountId || !known.has(t.accountId)));
+
+  return {
+    accounts: balances,
+    totals: Array.from(totals, ([currency, balance]) => ({ currency, balance: roundCents(balance) })),
+    unassigned: roundCents(unassigned.reduce((total, t) => total + (t.type === 'income' ? t.amount : -t.amount), 0)),
+    unassignedCount: unassigned.length
+  };
+};
+
+// The account's transactions, newest first, each with the balance after it
+export const accountRegister = (account: Account, transactions: Transaction[]): RegisterEntry[] => {
+  let balance = account.openingBalance;
+  return transactions
+    .filter(t => touches(t, account.id!))
+    .sort(chronological)
+    .map(t => {
+      const change = balanceChange(t, account.id!);
+      balance += change;
+      return { ...t, change, runningBalance: roundCents(balance) };
+    })
+    .reverse();
+};
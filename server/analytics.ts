@@ -0,0 +1,73 @@
+import { roundCents } from './budget-periods';
+import type { Payee, Transaction } from './repository';
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+export interface TagTotal {
+  tag: string;
+  total: number;
+  count: number;
+}
+
+// Transactions without a payee are grouped under a null payeeId
+export interface PayeeTotal {
+  payeeId: string | null;
+  name: string | null;
+  total: number;
+  count: number;
+}
+
+const byTotalDesc = (a: { total: number }, b: { total: number }) => b.total - a.total;
+
+// Every tag the user has used, most used first
+export const tagUsage = (transactions: Transaction[]): TagUsage[] => {
+  const counts = new Map<string, number>();
+  for (const transaction of transactions) {
+    for (const tag of transaction.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// A transaction with several tags counts in full towards each of them, so
+// tag totals can add up to more than the period's total
+export const tagTotals = (transactions: Transaction[], type: 'income' | 'expense'): TagTotal[] => {
+  const totals = new Map<string, TagTotal>();
+  for (const transaction of transactions) {
+    if (transaction.type !== type) continue;
+    for (const tag of Array.from(new Set(transaction.tags ?? []))) {
+      const entry = totals.get(tag) ?? { tag, total: 0, count: 0 };
+      entry.total += transaction.amount;
+      entry.count += 1;
+      totals.set(tag, entry);
+    }
+  }
+
+  return Array.from(totals.values())
+    .map(entry => ({ ...entry, total: roundCents(entry.total) }))
+    .sort(byTotalDesc);
+};
+
+export const payeeTotals = (transactions: Transaction[], type: 'income' | 'expense', payees: Payee[]): PayeeTotal[] => {
+  const names = new Map(payees.map(payee => [payee.id!, payee.name]));
+  const totals = new Map<string | null, PayeeTotal>();
+  for (const transaction of transactions) {
+    if (transaction.type !== type) continue;
+    // A payee deleted since is reported with the unassigned transactions
+    const payeeId = transaction.payeeId && names.has(transaction.payeeId) ? transaction.payeeId : null;
+    const entry = totals.get(payeeId) ?? { payeeId, name: payeeId && names.get(payeeId)!, total: 0, count: 0 };
+    entry.total += transaction.amount;
+    entry.count += 1;
+    totals.set(payeeId, entry);
+  }
+
+  return Array.from(totals.values())
+    .map(entry => ({ ...entry, total: roundCents(entry.total) }))
+    .sort(byTotalDesc);
+};
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Storage } from 'firebase-admin/storage';
+
+type Bucket = ReturnType<Storage['bucket']>;
+
+// Where attachment files are kept. Keys are relative paths such as
+// "<userId>/<transactionId>/<uuid>"; metadata lives in the FinanceRepository.
+export interface AttachmentStore {
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  // null when nothing is stored under the key
+  read(key: string): Promise<Buffer | null>;
+  // Removing a missing key is not an error
+  remove(key: string): Promise<void>;
+}
+
+export type AttachmentStoreDriver = 'local' | 'firebase';
+
+// Files under a directory on the server's disk, for development and
+// single-server deployments
+export class LocalAttachmentStore implements AttachmentStore {
+  constructor(private root: string) {}
+
+  // Keys come from the server, but never let one point outside the root
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid attachment key "${key}"`);
+    }
+    return file;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Objects in the Firebase Storage bucket configured in firebaseAdmin.ts
+export class FirebaseAttachmentStore implements AttachmentStore {
+  constructor(private bucket: Bucket, private prefix = 'attachments') {}
+
+  private file(key: string) {
+    return this.bucket.file(`${this.prefix}/${key}`);
+  }
+
+  async save(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.file(key).save(data, { contentType, resumable: false });
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      const [data] = await this.file(key).download();
+      return data;
+    } catch (error: any) {
+      if (error.code === 404) return null;
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.file(key).delete({ ignoreNotFound: true });
+  }
+}
+
+export const createAttachmentStore = async (
+  driver: string = process.env.ATTACHMENT_STORE || 'local'
+): Promise<AttachmentStore> => {
+  switch (driver as AttachmentStoreDriver) {
+    case 'local':
+      return new LocalAttachmentStore(process.env.ATTACHMENT_DIR || path.resolve('uploads', 'attachments'));
+    case 'firebase': {
+      const { bucket } = await import('./firebaseAdmin');
+      return new FirebaseAttachmentStore(bucket);
+    }
+    default:
+      throw new Error(
+        `Unknown ATTACHMENT_STORE "${driver}". Expected one of: local, firebase`
+      );
+  }
+};
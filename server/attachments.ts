@@ -0,0 +1,48 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import type { Attachment } from './repository';
+import type { AttachmentType } from '@shared/validation';
+
+// Longest side of an image thumbnail, in pixels
+export const THUMBNAIL_SIZE = 256;
+
+// Leading bytes of each accepted file type. The type is taken from the file
+// contents rather than the browser's claim, so a renamed file is rejected.
+const SIGNATURES: [AttachmentType, (data: Buffer) => boolean][] = [
+  ['image/jpeg', data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff],
+  ['image/png', data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))],
+  ['image/gif', data => data.subarray(0, 6).toString('ascii') === 'GIF87a' || data.subarray(0, 6).toString('ascii') === 'GIF89a'],
+  ['image/webp', data => data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP'],
+  ['application/pdf', data => data.subarray(0, 5).toString('ascii') === '%PDF-'],
+];
+
+export const sniffContentType = (data: Buffer): AttachmentType | null =>
+  SIGNATURES.find(([, matches]) => matches(data))?.[0] ?? null;
+
+// A JPEG no larger than THUMBNAIL_SIZE on either side, upright according to
+// the photo's EXIF orientation. PDFs have no thumbnail.
+export const createThumbnail = async (data: Buffer, contentType: AttachmentType): Promise<Buffer | null> => {
+  if (!contentType.startsWith('image/')) return null;
+  return sharp(data)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 70 })
+    .toBuffer();
+};
+
+// Storage keys are never derived from the uploaded file name
+export const attachmentKey = (userId: string, transactionId: string) =>
+  `${userId}/${transactionId}/${randomUUID()}`;
+
+export const thumbnailKey = (storageKey: string) => `${storageKey}.thumb.jpg`;
+
+// Attachment as returned by the API, without the internal storage keys
+export const publicAttachment = ({ storageKey, thumbnailKey, ...attachment }: Attachment) => ({
+  ...attachment,
+  hasThumbnail: !!thumbnailKey,
+});
+
+// Header value that keeps the original file name, including non-ASCII ones
+export const contentDisposition = (fileName: string) =>
+  `inline; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
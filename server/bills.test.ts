@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { affectsBills, billReminders, matchBillPayments, recentReminders } from "./bills";
+import type { Bill, BillPayment, Transaction } from "./repository";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+const today = day(2026, 4, 20);
+
+// Due on the 15th of every month since January
+const bill = (fields: Partial<Bill> = {}): Bill => ({
+  id: "electric",
+  userId: "alice",
+  name: "Electric",
+  amount: 80,
+  estimated: false,
+  autopay: false,
+  frequency: "monthly",
+  dueDate: day(2026, 1, 15),
+  reminderDays: 3,
+  payments: [],
+  notifiedReminders: [],
+  createdAt: day(2026, 1, 1),
+  ...fields
+});
+
+const payment = (id: string, amount: number, date: Date, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  userId: "alice",
+  amount,
+  category: "utilities",
+  description: "Electric Co",
+  date,
+  type: "expense",
+  tags: [],
+  createdAt: date,
+  ...fields
+});
+
+const paidDates = (bills: Bill[], transactions: Transaction[]) =>
+  matchBillPayments(bills, transactions, today).flatMap(({ payments }) =>
+    payments.map(({ dueDate, transactionId }) => [dueDate, transactionId]));
+
+describe("matchBillPayments", () => {
+  it("pays the closest due date within a week of each payment", () => {
+    const transactions = [
+      payment("1", 80, day(2026, 3, 10)),
+      payment("2", 80, day(2026, 4, 17)),
+      payment("3", 80, day(2026, 2, 1))
+    ];
+    expect(paidDates([bill()], transactions)).toEqual([["2026-03-15", "1"], ["2026-04-15", "2"]]);
+  });
+
+  it("matches on the payee or the bill's name as whole words", () => {
+    const transactions = [
+      payment("1", 80, day(2026, 3, 15), { description: "Electricity shop" }),
+      payment("2", 80, day(2026, 4, 15), { description: "Direct debit", payeeId: "power" })
+    ];
+    expect(paidDates([bill({ payeeId: "power" })], transactions)).toEqual([["2026-04-15", "2"]]);
+  });
+
+  it("needs the exact amount unless the bill is estimated", () => {
+    const transactions = [payment("1", 95, day(2026, 3, 15)), payment("2", 101, day(2026, 4, 15))];
+    expect(paidDates([bill()], transactions)).toEqual([]);
+    expect(paidDates([bill({ estimated: true })], transactions)).toEqual([["2026-03-15", "1"]]);
+  });
+
+  it("ignores income and payments from another account than the bill's", () => {
+    const transactions = [
+      payment("1", 80, day(2026, 3, 15), { type: "income" }),
+      payment("2", 80, day(2026, 4, 15), { accountId: "savings" })
+    ];
+    expect(paidDates([bill({ accountId: "checking" })], transactions)).toEqual([]);
+  });
+
+  it("pays one due date with each transaction", () => {
+    const weekly = bill({ frequency: "weekly", dueDate: day(2026, 4, 1) });
+    expect(paidDates([weekly], [payment("1", 80, day(2026, 4, 4))])).toEqual([["2026-04-01", "1"]]);
+  });
+
+  it("drops payments whose transaction was deleted, but only inside the window", () => {
+    const payments: BillPayment[] = [
+      { dueDate: "2025-11-15", transactionId: "old", amount: 80, paidAt: day(2025, 11, 15) },
+      { dueDate: "2026-03-15", transactionId: "gone", amount: 80, paidAt: day(2026, 3, 15) },
+      { dueDate: "2026-04-15", transactionId: null, amount: 80, paidAt: day(2026, 4, 15) }
+    ];
+    const [change] = matchBillPayments([bill({ createdAt: day(2025, 11, 1), payments })], [], today);
+    expect(change.payments).toEqual([payments[0], payments[2]]);
+  });
+
+  it("reports only the bills that changed", () => {
+    const paid = bill({ payments: [{ dueDate: "2026-04-15", transactionId: "1", amount: 80, paidAt: day(2026, 4, 15) }] });
+    expect(matchBillPayments([paid], [payment("1", 80, day(2026, 4, 15))], today)).toEqual([]);
+  });
+});
+
+describe("affectsBills", () => {
+  it("is true for transactions that may pay a bill or already do", () => {
+    const paid = bill({ payments: [{ dueDate: "2026-04-15", transactionId: "7", amount: 80, paidAt: day(2026, 4, 15) }] });
+    expect(affectsBills([paid], [payment("1", 80, day(2026, 4, 15))])).toBe(true);
+    expect(affectsBills([paid], [payment("7", 12, day(2026, 4, 15), { description: "Groceries" })])).toBe(true);
+    expect(affectsBills([paid], [payment("8", 12, day(2026, 4, 15), { description: "Groceries" })])).toBe(false);
+  });
+});
+
+describe("billReminders", () => {
+  // Added in April, so only due dates from late March on are tracked
+  const recent = (fields: Partial<Bill> = {}) => bill({ createdAt: day(2026, 4, 1), ...fields });
+  const keys = (reminders: ReturnType<typeof billReminders>) => reminders.map(reminder => reminder.key);
+
+  it("reminds reminderDays before a due date and again once it is overdue", () => {
+    expect(keys(billReminders(recent(), day(2026, 4, 11)))).toEqual([]);
+
+    const [upcoming] = billReminders(recent(), day(2026, 4, 12));
+    expect(upcoming.key).toBe("bill_upcoming:2026-04-15");
+    expect(upcoming.notification.title).toBe("Electric is due in 3 days");
+
+    expect(keys(billReminders(recent(), day(2026, 4, 16)))).toEqual(["bill_overdue:2026-04-15"]);
+  });
+
+  it("sends each reminder once", () => {
+    const notified = recent({ notifiedReminders: ["bill_upcoming:2026-04-15"] });
+    expect(keys(billReminders(notified, day(2026, 4, 13)))).toEqual([]);
+    expect(keys(billReminders(notified, day(2026, 4, 16)))).toEqual(["bill_overdue:2026-04-15"]);
+  });
+
+  it("has nothing to say about paid due dates", () => {
+    const paid = recent({ payments: [{ dueDate: "2026-04-15", transactionId: "1", amount: 80, paidAt: day(2026, 4, 14) }] });
+    expect(billReminders(paid, day(2026, 4, 16))).toEqual([]);
+  });
+});
+
+describe("recentReminders", () => {
+  it("forgets reminders for due dates past the lookback", () => {
+    expect(recentReminders(["bill_overdue:2026-01-15", "bill_overdue:2026-02-15", "bill_upcoming:2026-04-15"], today))
+      .toEqual(["bill_overdue:2026-02-15", "bill_upcoming:2026-04-15"]);
+  });
+});
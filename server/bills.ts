@@ -0,0 +1,199 @@
+import { addDays, addYears, differenceInCalendarDays, endOfDay, endOfMonth, format, parseISO, startOfDay, startOfMonth, subDays } from 'date-fns';
+import { isOccurrence, occurrenceKey, occurrencesBetween, type Schedule } from './recurring';
+import type { Bill, BillPayment, Notification, Transaction } from './repository';
+import { normalizePayeeName } from '@shared/validation';
+
+// Days before or after a due date a payment may post and still count for it
+export const MATCH_WINDOW_DAYS = 7;
+
+// How far an estimated bill's payment may be from the estimate
+export const ESTIMATE_TOLERANCE = 0.25;
+
+// Unpaid due dates further back than this are no longer matched or
+// reminded about
+const LOOKBACK_DAYS = 90;
+
+export type BillStatus = 'paid' | 'overdue' | 'upcoming';
+
+// One due date of a bill
+export interface BillOccurrence {
+  billId: string;
+  name: string;
+  // As yyyy-MM-dd, the way payments refer to it
+  dueDate: string;
+  date: Date;
+  // What was paid, or the bill's amount while unpaid
+  amount: number;
+  estimated: boolean;
+  autopay: boolean;
+  status: BillStatus;
+  payment: BillPayment | null;
+}
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+// A one-off bill is a schedule that ends on its only due date
+export const billSchedule = (bill: Bill): Schedule =>
+  bill.frequency === 'once'
+    ? { frequency: 'monthly', interval: 1, startDate: bill.dueDate, endDate: bill.dueDate }
+    : { frequency: bill.frequency, interval: 1, startDate: bill.dueDate, endDate: bill.endDate ?? null };
+
+export const isDueDate = (bill: Bill, dueDate: string) => isOccurrence(billSchedule(bill), parseISO(dueDate));
+
+// Due dates from shortly before the bill was added on are tracked; earlier
+// ones are only shown once matched to a payment
+const isTracked = (bill: Bill, date: Date) => date >= subDays(startOfDay(bill.createdAt), MATCH_WINDOW_DAYS);
+
+export const billOccurrences = (bill: Bill, from: Date, to: Date, today: Date = new Date()): BillOccurrence[] => {
+  const payments = new Map(bill.payments.map(payment => [payment.dueDate, payment]));
+  return occurrencesBetween(billSchedule(bill), from, to)
+    .map((date): BillOccurrence => {
+      const dueDate = occurrenceKey(date);
+      const payment = payments.get(dueDate) ?? null;
+      return {
+        billId: bill.id!,
+        name: bill.name,
+        dueDate,
+        date,
+        amount: payment?.amount ?? bill.amount,
+        estimated: !payment && bill.estimated,
+        autopay: bill.autopay,
+        status: payment ? 'paid' : date < startOfDay(today) ? 'overdue' : 'upcoming',
+        payment
+      };
+    })
+    .filter(occurrence => occurrence.payment || isTracked(bill, occurrence.date));
+};
+
+// Every bill's due dates in a calendar month (yyyy-MM), by date
+export const billCalendar = (bills: Bill[], month: string, today: Date = new Date()): BillOccurrence[] => {
+  const start = startOfMonth(parseISO(`${month}-01`));
+  return bills
+    .flatMap(bill => billOccurrences(bill, start, endOfMonth(start), today))
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.name.localeCompare(b.name));
+};
+
+// The earliest due date still to pay, overdue ones first
+export const nextDue = (bill: Bill, today: Date = new Date()): BillOccurrence | null =>
+  billOccurrences(bill, subDays(startOfDay(today), LOOKBACK_DAYS), addYears(today, 1), today)
+    .find(occurrence => occurrence.status !== 'paid') ?? null;
+
+// Bill as returned by the API, with its next due date
+export const withNextDue = (bill: Bill, today: Date = new Date()) => ({ ...bill, nextDue: nextDue(bill, today) });
+
+// Expenses to the bill's payee, or whose description contains the bill's
+// name as whole words, for about the bill's amount. A payment from another
+// account than the bill's is not a match.
+const matchesBill = (bill: Bill, transaction: Transaction) => {
+  if (transaction.type !== 'expense') return false;
+  if (bill.accountId && transaction.accountId && bill.accountId !== transaction.accountId) return false;
+
+  const samePayee = !!bill.payeeId && transaction.payeeId === bill.payeeId;
+  const sameName = ` ${normalizePayeeName(transaction.description)} `.includes(` ${normalizePayeeName(bill.name)} `);
+  if (!samePayee && !sameName) return false;
+
+  const difference = Math.abs(transaction.amount - bill.amount);
+  return bill.estimated ? difference <= bill.amount * ESTIMATE_TOLERANCE : difference < 0.01;
+};
+
+// Whether writing these transactions can change any bill's payments: one
+// of them may pay a bill, or already does
+export const affectsBills = (bills: Bill[], transactions: Transaction[]) =>
+  transactions.some(transaction => bills.some(bill =>
+    matchesBill(bill, transaction) || bill.payments.some(payment => payment.transactionId === transaction.id)));
+
+// Dates of the transactions that can still pay a due date: within
+// MATCH_WINDOW_DAYS of the due dates matchBillPayments looks at
+export const paymentWindow = (today: Date = new Date()) => ({
+  from: subDays(startOfDay(today), LOOKBACK_DAYS + MATCH_WINDOW_DAYS),
+  to: addDays(endOfDay(today), 2 * MATCH_WINDOW_DAYS)
+});
+
+// Bills that ended before this date are past their last reminder
+export const remindersSince = (today: Date = new Date()) => subDays(startOfDay(today), LOOKBACK_DAYS);
+
+// Match the transactions in paymentWindow to the bills' unpaid due dates,
+// each to the closest due date within MATCH_WINDOW_DAYS, and drop matches
+// in the window whose transaction was deleted. A transaction pays at most
+// one due date. Returns the new payments of the bills that changed.
+export const matchBillPayments = (
+  bills: Bill[],
+  transactions: Transaction[],
+  today: Date = new Date()
+): { bill: Bill; payments: BillPayment[] }[] => {
+  const { from, to } = paymentWindow(today);
+  const existing = new Set(transactions.map(transaction => transaction.id!));
+  const gone = (payment: BillPayment) =>
+    !!payment.transactionId && payment.paidAt >= from && payment.paidAt <= to && !existing.has(payment.transactionId);
+  const used = new Set(bills.flatMap(bill => bill.payments.map(payment => payment.transactionId)));
+  const distance = (transaction: Transaction, date: Date) => Math.abs(differenceInCalendarDays(transaction.date, date));
+
+  const changes: { bill: Bill; payments: BillPayment[] }[] = [];
+  for (const bill of bills) {
+    const payments = bill.payments.filter(payment => !gone(payment));
+    let changed = payments.length !== bill.payments.length;
+
+    const candidates = transactions.filter(transaction => !used.has(transaction.id!) && matchesBill(bill, transaction));
+    const paid = new Set(payments.map(payment => payment.dueDate));
+    const unpaid = candidates.length === 0
+      ? []
+      : occurrencesBetween(billSchedule(bill), subDays(startOfDay(today), LOOKBACK_DAYS), addDays(today, MATCH_WINDOW_DAYS))
+          .filter(date => !paid.has(occurrenceKey(date)));
+
+    for (const date of unpaid) {
+      const [match] = candidates
+        .filter(transaction => !used.has(transaction.id!) && distance(transaction, date) <= MATCH_WINDOW_DAYS)
+        .sort((a, b) => distance(a, date) - distance(b, date));
+      if (!match) continue;
+
+      used.add(match.id!);
+      payments.push({ dueDate: occurrenceKey(date), transactionId: match.id!, amount: match.amount, paidAt: match.date });
+      changed = true;
+    }
+
+    if (changed) changes.push({ bill, payments });
+  }
+  return changes;
+};
+
+const dueIn = (date: Date, today: Date) => {
+  const days = differenceInCalendarDays(date, today);
+  return days === 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+};
+
+// Reminders the bill is owed: one reminderDays before each unpaid due date
+// and one once it is overdue. Keys go into notifiedReminders so each is
+// sent once.
+export const billReminders = (bill: Bill, today: Date = new Date()): { key: string; notification: Notification }[] => {
+  const start = startOfDay(today);
+  return billOccurrences(bill, subDays(start, LOOKBACK_DAYS), addDays(start, bill.reminderDays), today)
+    .filter(occurrence => occurrence.status !== 'paid')
+    .map(occurrence => {
+      const overdue = occurrence.status === 'overdue';
+      const amount = `${occurrence.estimated ? 'About ' : ''}${formatAmount(occurrence.amount)}`;
+      const due = format(occurrence.date, 'MMM d');
+      const notification: Notification = {
+        userId: bill.userId,
+        kind: overdue ? 'bill_overdue' : 'bill_upcoming',
+        title: overdue ? `${bill.name} is overdue` : `${bill.name} is due ${dueIn(occurrence.date, today)}`,
+        message: overdue
+          ? bill.autopay
+            ? `No payment was found for the autopay due ${due}. Check that it went through.`
+            : `${amount} was due on ${due} and no payment was found.`
+          : bill.autopay
+            ? `${amount} will be paid automatically on ${due}.`
+            : `${amount} is due on ${due}.`,
+        link: '/bills',
+        read: false,
+        createdAt: new Date()
+      };
+      return { key: `${notification.kind}:${occurrence.dueDate}`, notification };
+    })
+    .filter(reminder => !bill.notifiedReminders.includes(reminder.key));
+};
+
+// Sent reminders still inside the lookback, so the list stays short
+export const recentReminders = (keys: string[], today: Date = new Date()) => {
+  const oldest = occurrenceKey(subDays(startOfDay(today), LOOKBACK_DAYS));
+  return keys.filter(key => key.slice(key.indexOf(':') + 1) >= oldest);
+};
@@ -0,0 +1,248 @@
+import { describe, expect, it } from "vitest";
+import {
+  budgetHistory,
+  budgetStatus,
+  budgetedAmount,
+  carryForward,
+  changedAmountHistory,
+  historyStart,
+  periodWindow,
+  planBudgetReassignment,
+  spendingByPeriod
+} from "./budget-periods";
+import { DEFAULT_BUDGET_SETTINGS, type Budget, type Category, type Transaction } from "./repository";
+
+// Dates are built in local time, which is what periods run in
+const day = (year: number, month: number, date: number, hours = 0) => new Date(year, month - 1, date, hours);
+
+const budget = (fields: Partial<Budget> = {}): Budget => ({
+  userId: "alice",
+  category: "food",
+  amount: 300,
+  period: "monthly",
+  createdAt: day(2026, 1, 1),
+  ...fields
+});
+
+const expense = (amount: number, date: Date, fields: Partial<Transaction> = {}): Transaction => ({
+  userId: "alice",
+  amount,
+  category: "food",
+  description: "Shop",
+  date,
+  type: "expense",
+  tags: [],
+  createdAt: date,
+  ...fields
+});
+
+describe("periodWindow", () => {
+  it("covers the day of a daily budget", () => {
+    expect(periodWindow("daily", day(2026, 3, 15, 18), DEFAULT_BUDGET_SETTINGS))
+      .toEqual({ start: day(2026, 3, 15), end: day(2026, 3, 16) });
+  });
+
+  it("starts weeks on the configured weekday", () => {
+    // 2026-03-18 is a Wednesday
+    expect(periodWindow("weekly", day(2026, 3, 18), DEFAULT_BUDGET_SETTINGS).start).toEqual(day(2026, 3, 15));
+    expect(periodWindow("weekly", day(2026, 3, 18), { weekStartsOn: 1, monthStartDay: 1 }))
+      .toEqual({ start: day(2026, 3, 16), end: day(2026, 3, 23) });
+  });
+
+  it("starts months on the configured day, reaching back before it", () => {
+    const settings = { weekStartsOn: 0, monthStartDay: 25 };
+    expect(periodWindow("monthly", day(2026, 3, 26), settings)).toEqual({ start: day(2026, 3, 25), end: day(2026, 4, 25) });
+    expect(periodWindow("monthly", day(2026, 3, 24), settings)).toEqual({ start: day(2026, 2, 25), end: day(2026, 3, 25) });
+    expect(periodWindow("monthly", day(2026, 1, 10), settings).start).toEqual(day(2025, 12, 25));
+  });
+
+  it("starts budget years on the month start day of January", () => {
+    const settings = { weekStartsOn: 0, monthStartDay: 10 };
+    expect(periodWindow("yearly", day(2026, 6, 1), settings)).toEqual({ start: day(2026, 1, 10), end: day(2027, 1, 10) });
+    expect(periodWindow("yearly", day(2026, 1, 5), settings).start).toEqual(day(2025, 1, 10));
+  });
+});
+
+describe("spendingByPeriod", () => {
+  const categories: Category[] = [
+    { id: "food", name: "Food", type: "expense", userId: "alice", createdAt: day(2026, 1, 1) },
+    { id: "snacks", name: "Snacks", type: "expense", userId: "alice", parentId: "food", createdAt: day(2026, 1, 1) },
+    { id: "rent", name: "Rent", type: "expense", userId: "alice", createdAt: day(2026, 1, 1) }
+  ];
+
+  it("groups the budget's expenses by period, with subcategories and split lines", () => {
+    const spending = spendingByPeriod(budget(), [
+      expense(40, day(2026, 3, 2)),
+      expense(10, day(2026, 3, 20), { category: "snacks" }),
+      expense(100, day(2026, 3, 21), {
+        category: "split",
+        splits: [{ category: "food", amount: 30 }, { category: "rent", amount: 70 }]
+      }),
+      expense(500, day(2026, 3, 1), { category: "rent" }),
+      expense(25, day(2026, 3, 3), { type: "income" }),
+      expense(15, day(2026, 4, 1))
+    ], categories, DEFAULT_BUDGET_SETTINGS);
+
+    expect(spending).toEqual(new Map([
+      [day(2026, 3, 1).getTime(), 80],
+      [day(2026, 4, 1).getTime(), 15]
+    ]));
+  });
+});
+
+describe("budgetStatus", () => {
+  const status = (spent: number, asOf: Date) => {
+    const spending = new Map([[day(2026, 4, 1).getTime(), spent]]);
+    const records = budgetHistory(budget(), spending, DEFAULT_BUDGET_SETTINGS, asOf);
+    return budgetStatus(budget(), records[records.length - 1], asOf);
+  };
+
+  it("reports the current period's remaining money and pace", () => {
+    // April has 30 days; the 11th is a third of the way through
+    const current = status(100, day(2026, 4, 11));
+
+    expect(current.periodStart).toEqual(day(2026, 4, 1));
+    expect(current.periodEnd).toEqual(new Date(day(2026, 5, 1).getTime() - 1));
+    expect(current.remaining).toBe(200);
+    expect(current.percentUsed).toBe(33.33);
+    expect(current.daysLeft).toBe(20);
+    expect(current.safeToSpendPerDay).toBe(10);
+    expect(current.projected).toBe(300);
+  });
+
+  it("never spends below zero per day once over budget", () => {
+    const current = status(450, day(2026, 4, 30, 12));
+
+    expect(current.remaining).toBe(-150);
+    expect(current.percentUsed).toBe(150);
+    expect(current.daysLeft).toBe(1);
+    expect(current.safeToSpendPerDay).toBe(0);
+  });
+});
+
+describe("carryForward", () => {
+  it.each([
+    ["none", 40, 0],
+    ["none", -40, 0],
+    ["surplus", 40, 40],
+    ["surplus", -40, 0],
+    ["surplus_and_deficit", 40, 40],
+    ["surplus_and_deficit", -40, -40],
+    ["capped", 40, 25],
+    ["capped", 10, 10],
+    ["capped", -40, 0]
+  ] as const)("carries %s leftovers of %d as %d", (rollover, leftover, carried) => {
+    expect(carryForward(budget({ rollover, rolloverCap: 25 }), leftover)).toBe(carried);
+  });
+});
+
+describe("budgetHistory", () => {
+  // January to April 2026 spending: under, over, under, current
+  const spending = new Map([
+    [day(2026, 1, 1).getTime(), 250],
+    [day(2026, 2, 1).getTime(), 400],
+    [day(2026, 3, 1).getTime(), 200],
+    [day(2026, 4, 1).getTime(), 50]
+  ]);
+  const history = (fields: Partial<Budget>) =>
+    budgetHistory(budget(fields), spending, DEFAULT_BUDGET_SETTINGS, day(2026, 4, 11));
+
+  it("starts every period fresh without rollover", () => {
+    expect(history({}).map(record => record.available)).toEqual([300, 300, 300, 300]);
+  });
+
+  it("carries only surplus forward", () => {
+    const records = history({ rollover: "surplus" });
+    expect(records.map(record => record.carriedIn)).toEqual([0, 50, 0, 100]);
+    expect(records[3].available).toBe(400);
+  });
+
+  it("also deducts overspending from the next period", () => {
+    const records = history({ rollover: "surplus_and_deficit" });
+    expect(records.map(record => record.carriedIn)).toEqual([0, 50, -50, 50]);
+    expect(records.map(record => record.carriedOut)).toEqual([50, -50, 50, 300]);
+  });
+
+  it("carries surplus up to the cap", () => {
+    const records = history({ rollover: "capped", rolloverCap: 60 });
+    expect(records.map(record => record.carriedIn)).toEqual([0, 50, 0, 60]);
+  });
+
+  it("uses each period's own budgeted amount", () => {
+    const amountHistory = [
+      { effectiveFrom: day(2026, 1, 1), amount: 300 },
+      { effectiveFrom: day(2026, 3, 1), amount: 200 }
+    ];
+    const records = history({ amount: 200, amountHistory, rollover: "surplus" });
+    expect(records.map(record => record.budgeted)).toEqual([300, 300, 200, 200]);
+    expect(records[3].carriedIn).toBe(0);
+  });
+});
+
+describe("amount history", () => {
+  const amountHistory = [
+    { effectiveFrom: day(2026, 1, 1), amount: 300 },
+    { effectiveFrom: day(2026, 3, 1), amount: 200 }
+  ];
+
+  it("looks up the amount in force for a period", () => {
+    const tracked = budget({ amount: 200, amountHistory });
+    expect(budgetedAmount(tracked, day(2026, 2, 1))).toBe(300);
+    expect(budgetedAmount(tracked, day(2026, 3, 1))).toBe(200);
+    expect(budgetedAmount(tracked, day(2025, 12, 1))).toBe(300);
+    expect(budgetedAmount(budget({ amount: 150 }), day(2026, 2, 1))).toBe(150);
+  });
+
+  it("applies a changed amount from the current period on", () => {
+    const current = budget({ amount: 200, amountHistory });
+    expect(changedAmountHistory(current, { ...current, amount: 250 }, DEFAULT_BUDGET_SETTINGS, day(2026, 3, 20)))
+      .toEqual([amountHistory[0], { effectiveFrom: day(2026, 3, 1), amount: 250 }]);
+  });
+
+  it("starts a fresh series when the period length changes", () => {
+    const current = budget({ amount: 200, amountHistory });
+    expect(changedAmountHistory(current, { ...current, period: "weekly" }, DEFAULT_BUDGET_SETTINGS, day(2026, 3, 20)))
+      .toEqual([{ effectiveFrom: day(2026, 3, 15), amount: 200 }]);
+  });
+
+  it("begins history no more than ten years back", () => {
+    const old = budget({ period: "daily", createdAt: day(2001, 6, 1) });
+    expect(historyStart(old, DEFAULT_BUDGET_SETTINGS, day(2026, 4, 11))).toEqual(day(2016, 4, 11));
+    expect(historyStart(budget(), DEFAULT_BUDGET_SETTINGS, day(2026, 4, 11))).toEqual(day(2026, 1, 1));
+  });
+});
+
+describe("planBudgetReassignment", () => {
+  const history = (...amounts: [Date, number][]) => amounts.map(([effectiveFrom, amount]) => ({ effectiveFrom, amount }));
+
+  it("moves budgets the target has no budget for", () => {
+    const plan = planBudgetReassignment(
+      [budget({ id: "b1", category: "snacks", period: "weekly" }), budget({ id: "b2", category: "food" })],
+      "snacks",
+      "food",
+      DEFAULT_BUDGET_SETTINGS
+    );
+    expect(plan).toEqual({ moved: ["b1"], removed: [], merged: new Map() });
+  });
+
+  it("merges amounts from the current period on, keeping past periods' amounts", () => {
+    const target = budget({ id: "b1", amount: 300, amountHistory: history([day(2026, 1, 1), 300]) });
+    const plan = planBudgetReassignment(
+      [target, budget({ id: "b2", category: "snacks", amount: 50 }), budget({ id: "b3", category: "snacks", amount: 25 })],
+      "snacks",
+      "food",
+      DEFAULT_BUDGET_SETTINGS,
+      day(2026, 4, 11)
+    );
+
+    expect(plan.removed).toEqual(["b2", "b3"]);
+    const merged = { ...target, ...plan.merged.get("b1")! };
+    expect(merged.amount).toBe(375);
+    expect(merged.amountHistory).toEqual(history([day(2026, 1, 1), 300], [day(2026, 4, 1), 375]));
+
+    // Rollover from earlier periods is computed from the old amount
+    const records = budgetHistory({ ...merged, rollover: "surplus" }, new Map(), DEFAULT_BUDGET_SETTINGS, day(2026, 4, 11));
+    expect(records.map(record => record.budgeted)).toEqual([300, 300, 300, 375]);
+    expect(records[3].carriedIn).toBe(900);
+  });
+});
@@ -0,0 +1,266 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  startOfDay,
+  startOfWeek
+} from 'date-fns';
+import { categoryShares, type Budget, type BudgetAmountChange, type BudgetSettings, type Category, type Transaction } from './repository';
+import { descendantIds } from '@shared/category-tree';
+
+// A budget period from its first instant up to, not including, `end`
+export interface PeriodWindow {
+  start: Date;
+  end: Date;
+}
+
+// One period of a budget's history. `available` is what could be spent:
+// the budgeted amount plus whatever the previous period carried in.
+export interface BudgetPeriodRecord {
+  periodStart: Date;
+  periodEnd: Date;
+  budgeted: number;
+  carriedIn: number;
+  available: number;
+  spent: number;
+  carriedOut: number;
+}
+
+export interface BudgetStatus extends Budget, BudgetPeriodRecord {
+  remaining: number;
+  percentUsed: number;
+  // Days left in the period, counting the asOf day itself
+  daysLeft: number;
+  // What can be spent per remaining day without going over
+  safeToSpendPerDay: number;
+  // Spend at the end of the period if the current pace continues
+  projected: number;
+}
+
+// Start of the month-long period containing `date`, when months begin on
+// `startDay`. Days run in server local time.
+const monthPeriodStart = (date: Date, startDay: number) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), startDay);
+  return date >= start ? start : addMonths(start, -1);
+};
+
+export const periodWindow = (
+  period: Budget['period'],
+  asOf: Date,
+  settings: BudgetSettings
+): PeriodWindow => {
+  switch (period) {
+    case 'daily': {
+      const start = startOfDay(asOf);
+      return { start, end: addDays(start, 1) };
+    }
+    case 'weekly': {
+      const start = startOfWeek(asOf, { weekStartsOn: settings.weekStartsOn as 0 | 1 | 2 | 3 | 4 | 5 | 6 });
+      return { start, end: addWeeks(start, 1) };
+    }
+    case 'monthly': {
+      const start = monthPeriodStart(asOf, settings.monthStartDay);
+      return { start, end: addMonths(start, 1) };
+    }
+    case 'yearly': {
+      // Budget years begin on the month start day of January
+      let start = new Date(asOf.getFullYear(), 0, settings.monthStartDay);
+      if (asOf < start) start = addYears(start, -1);
+      return { start, end: addYears(start, 1) };
+    }
+  }
+};
+
+// Two decimals, matching how amounts are stored
+export const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// History is only walked this far back, which bounds daily budgets
+const MAX_HISTORY_YEARS = 10;
+
+// Amount budgeted for the period starting at `periodStart`. Past changes
+// come from amountHistory; from the latest change onward it is `amount`.
+export const budgetedAmount = (budget: Budget, periodStart: Date): number => {
+  const history = budget.amountHistory ?? [];
+  const next = history.findIndex(change => change.effectiveFrom > periodStart);
+  if (next === -1) return budget.amount;
+  return history[Math.max(next - 1, 0)].amount;
+};
+
+// Start of the first period in a budget's series
+export const seriesStart = (budget: Budget, settings: BudgetSettings): Date =>
+  periodWindow(budget.period, budget.amountHistory?.[0]?.effectiveFrom ?? budget.createdAt, settings).start;
+
+// amountHistory once a budget's amount or period changes. The new amount
+// applies from the current period on, keeping earlier periods' amounts.
+// A new period length starts a fresh series.
+export const changedAmountHistory = (
+  current: Budget,
+  updated: Budget,
+  settings: BudgetSettings,
+  now: Date = new Date()
+): BudgetAmountChange[] => {
+  const effectiveFrom = periodWindow(updated.period, now, settings).start;
+  // Budgets created before amounts were tracked start from their original amount
+  const history = current.amountHistory?.length
+    ? current.amountHistory
+    : [{ effectiveFrom: seriesStart(current, settings), amount: current.amount }];
+  const earlier = updated.period === current.period
+    ? history.filter(change => change.effectiveFrom < effectiveFrom)
+    : [];
+  return [...earlier, { effectiveFrom, amount: updated.amount }];
+};
+
+// How a category's budgets move onto another category. A source budget for
+// a period the target already budgets is added to that budget and removed;
+// like any amount change, the sum applies from the current period on.
+export interface BudgetReassignmentPlan {
+  moved: string[];
+  removed: string[];
+  merged: Map<string, Pick<Budget, 'amount' | 'amountHistory'>>;
+}
+
+export const planBudgetReassignment = (
+  budgets: Budget[],
+  sourceId: string,
+  targetId: string,
+  settings: BudgetSettings,
+  now: Date = new Date()
+): BudgetReassignmentPlan => {
+  const plan: BudgetReassignmentPlan = { moved: [], removed: [], merged: new Map() };
+  const byPeriod = new Map<Budget['period'], Budget>();
+
+  budgets
+    .filter(budget => budget.category === targetId)
+    .forEach(budget => byPeriod.set(budget.period, budget));
+
+  budgets
+    .filter(budget => budget.category === sourceId)
+    .forEach(budget => {
+      const existing = byPeriod.get(budget.period);
+      if (!existing) {
+        plan.moved.push(budget.id!);
+        byPeriod.set(budget.period, budget);
+        return;
+      }
+      const amount = (plan.merged.get(existing.id!)?.amount ?? existing.amount) + budget.amount;
+      const amountHistory = changedAmountHistory(existing, { ...existing, amount }, settings, now);
+      plan.merged.set(existing.id!, { amount, amountHistory });
+      plan.removed.push(budget.id!);
+    });
+
+  return plan;
+};
+
+// Where a budget's history begins: its series start, limited to
+// MAX_HISTORY_YEARS back and never after the period containing asOf
+export const historyStart = (budget: Budget, settings: BudgetSettings, asOf: Date): Date => {
+  const start = seriesStart(budget, settings);
+  const earliest = periodWindow(budget.period, addYears(asOf, -MAX_HISTORY_YEARS), settings).start;
+  const current = periodWindow(budget.period, asOf, settings).start;
+  return start < earliest ? earliest : start > current ? current : start;
+};
+
+// What a period's leftover (negative when overspent) adds to the next one
+export const carryForward = (budget: Budget, leftover: number): number => {
+  switch (budget.rollover ?? 'none') {
+    case 'none':
+      return 0;
+    case 'surplus':
+      return Math.max(leftover, 0);
+    case 'surplus_and_deficit':
+      return leftover;
+    case 'capped':
+      return Math.min(Math.max(leftover, 0), budget.rolloverCap ?? 0);
+  }
+};
+
+// Expense spending per period of the budget, keyed by period start time.
+// Transactions in subcategories count toward a parent category's budget, and
+// split transactions only with their lines in the budget's categories.
+export const spendingByPeriod = (
+  budget: Budget,
+  transactions: Transaction[],
+  categories: Category[],
+  settings: BudgetSettings
+): Map<number, number> => {
+  const tracked = descendantIds(categories, budget.category);
+  const spending = new Map<number, number>();
+
+  transactions
+    .filter(t => t.type === 'expense')
+    .forEach(t => {
+      const amount = categoryShares(t)
+        .filter(share => tracked.has(share.category))
+        .reduce((total, share) => total + share.amount, 0);
+      if (amount === 0) return;
+      const key = periodWindow(budget.period, t.date, settings).start.getTime();
+      spending.set(key, (spending.get(key) ?? 0) + amount);
+    });
+
+  return spending;
+};
+
+// Every period of a budget from `from` (default: historyStart) through the
+// period containing asOf, carrying leftovers forward
+export const budgetHistory = (
+  budget: Budget,
+  spending: Map<number, number>,
+  settings: BudgetSettings,
+  asOf: Date,
+  from: Date = historyStart(budget, settings, asOf)
+): BudgetPeriodRecord[] => {
+  const records: BudgetPeriodRecord[] = [];
+  let window = periodWindow(budget.period, from, settings);
+  let carriedIn = 0;
+
+  while (window.start <= asOf) {
+    const budgeted = budgetedAmount(budget, window.start);
+    const spent = spending.get(window.start.getTime()) ?? 0;
+    const available = budgeted + carriedIn;
+    const carriedOut = carryForward(budget, available - spent);
+
+    records.push({
+      periodStart: window.start,
+      // The last instant inside the period, as used for transaction range queries
+      periodEnd: new Date(window.end.getTime() - 1),
+      budgeted,
+      carriedIn: roundCents(carriedIn),
+      available: roundCents(available),
+      spent: roundCents(spent),
+      carriedOut: roundCents(carriedOut)
+    });
+
+    carriedIn = carriedOut;
+    window = periodWindow(budget.period, window.end, settings);
+  }
+
+  return records;
+};
+
+// Status of the period containing asOf, the last record of budgetHistory
+export const budgetStatus = (
+  budget: Budget,
+  current: BudgetPeriodRecord,
+  asOf: Date
+): BudgetStatus => {
+  const end = new Date(current.periodEnd.getTime() + 1);
+  const remaining = current.available - current.spent;
+  const daysLeft = Math.max(differenceInCalendarDays(end, asOf), 1);
+  const length = end.getTime() - current.periodStart.getTime();
+  const elapsed = Math.min(Math.max(asOf.getTime() - current.periodStart.getTime(), 0), length);
+  const percentUsed = current.available > 0
+    ? (current.spent / current.available) * 100
+    : current.spent > 0 ? 100 : 0;
+
+  return {
+    ...budget,
+    ...current,
+    remaining: roundCents(remaining),
+    percentUsed: roundCents(percentUsed),
+    daysLeft,
+    safeToSpendPerDay: roundCents(Math.max(remaining, 0) / daysLeft),
+    projected: roundCents(elapsed > 0 ? current.spent * (length / elapsed) : current.spent)
+  };
+};
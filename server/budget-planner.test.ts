@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { defaultGroup, planBudgets, type BudgetPlan } from "./budget-planner";
+import type { Budget, Category, Transaction } from "./repository";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+const category = (id: string, fields: Partial<Category> = {}): Category => ({
+  id,
+  name: id,
+  type: "expense",
+  userId: "alice",
+  createdAt: day(2026, 1, 1),
+  ...fields
+});
+
+const categories: Category[] = [
+  category("housing", { icon: "home" }),
+  category("utilities", { icon: "zap", parentId: "housing" }),
+  category("dining", { icon: "coffee" }),
+  category("hobbies", { icon: "music" }),
+  category("old", { icon: "home", archived: true }),
+  category("salary", { type: "income" })
+];
+
+const entry = (type: Transaction["type"], category: string, amount: number, date: Date): Transaction => ({
+  userId: "alice",
+  amount,
+  category,
+  description: "Entry",
+  date,
+  type,
+  tags: [],
+  createdAt: date
+});
+
+// Two months: 2000 income and 900 spending a month on average
+const history: Transaction[] = [
+  entry("income", "salary", 2000, day(2026, 1, 1)),
+  entry("income", "salary", 2000, day(2026, 2, 1)),
+  entry("expense", "housing", 600, day(2026, 1, 2)),
+  entry("expense", "housing", 600, day(2026, 2, 2)),
+  entry("expense", "utilities", 200, day(2026, 1, 15)),
+  entry("expense", "dining", 300, day(2026, 2, 10)),
+  entry("expense", "hobbies", 100, day(2026, 1, 20)),
+  entry("expense", "old", 500, day(2026, 1, 20))
+];
+
+const amounts = (plan: BudgetPlan) =>
+  Object.fromEntries(plan.budgets.map(budget => [budget.category, budget.amount]));
+
+describe("defaultGroup", () => {
+  it("treats essentials as needs and everything else as wants", () => {
+    expect(defaultGroup(category("rent", { icon: "home" }))).toBe("needs");
+    expect(defaultGroup(category("games", { icon: "gamepad" }))).toBe("wants");
+    expect(defaultGroup(category("misc"))).toBe("wants");
+  });
+});
+
+describe("planBudgets", () => {
+  it("plans active top-level expense categories from their monthly averages", () => {
+    const plan = planBudgets({ rule: "historical", months: 2 }, categories, history, []);
+
+    expect(plan.budgets.map(budget => budget.category)).toEqual(["housing", "dining", "hobbies"]);
+    expect(plan.budgets.map(budget => budget.historicalAverage)).toEqual([700, 150, 50]);
+    expect(plan.historicalIncome).toBe(2000);
+  });
+
+  it("splits spendable income between needs and wants in the rule's ratio", () => {
+    const plan = planBudgets({ rule: "50_30_20", months: 2 }, categories, history, []);
+
+    expect(plan.savingsTarget).toBe(400);
+    expect(plan.spendable).toBe(1600);
+    expect(amounts(plan)).toEqual({ housing: 1000, dining: 450, hobbies: 150 });
+    expect(plan.unallocated).toBe(0);
+  });
+
+  it("uses the categories given as needs instead of their icons", () => {
+    const plan = planBudgets({ rule: "70_20_10", months: 2, income: 1000, needs: ["dining"] }, categories, history, []);
+
+    expect(plan.budgets.map(budget => budget.group)).toEqual(["wants", "needs", "wants"]);
+    // 900 spendable: 700 to needs, 200 to wants by their 700:50 spending
+    expect(amounts(plan)).toEqual({ housing: 186, dining: 700, hobbies: 13 });
+    expect(plan.unallocated).toBe(1);
+  });
+
+  it("shares a group evenly when none of its categories has spending", () => {
+    const plan = planBudgets({ rule: "50_30_20", months: 2, income: 1000 }, categories, [], []);
+    expect(amounts(plan)).toEqual({ housing: 500, dining: 150, hobbies: 150 });
+  });
+
+  it("keeps historical plans at past spending unless it exceeds what is spendable", () => {
+    expect(amounts(planBudgets({ rule: "historical", months: 2 }, categories, history, [])))
+      .toEqual({ housing: 700, dining: 150, hobbies: 50 });
+
+    const tight = planBudgets({ rule: "historical", months: 2, income: 700, savingsTarget: 100 }, categories, history, []);
+    expect(tight.spendable).toBe(600);
+    expect(amounts(tight)).toEqual({ housing: 466, dining: 100, hobbies: 33 });
+    expect(tight.unallocated).toBe(1);
+  });
+
+  it("never saves more than the income", () => {
+    const plan = planBudgets({ rule: "50_30_20", months: 2, income: 500, savingsTarget: 800 }, categories, history, []);
+    expect(plan.savingsTarget).toBe(500);
+    expect(plan.spendable).toBe(0);
+  });
+
+  it("reports the monthly budget each planned budget replaces", () => {
+    const budget = (category: string, period: Budget["period"], amount: number): Budget =>
+      ({ userId: "alice", category, period, amount, createdAt: day(2026, 1, 1) });
+    const plan = planBudgets(
+      { rule: "historical", months: 2 },
+      categories,
+      history,
+      [budget("housing", "monthly", 650), budget("dining", "weekly", 40)]
+    );
+
+    expect(plan.budgets.map(planned => planned.existingAmount)).toEqual([650, null, null]);
+  });
+});
@@ -0,0 +1,128 @@
+import { rollUpTotals, sumByCategory, type Budget, type Category, type Transaction } from './repository';
+import { roundCents } from './budget-periods';
+import type { PlanRule } from '@shared/validation';
+
+export type SpendingGroup = 'needs' | 'wants';
+
+// Share of income each rule gives to needs, wants and savings
+const RULE_SHARES: Record<Exclude<PlanRule, 'historical'>, Record<SpendingGroup | 'savings', number>> = {
+  '50_30_20': { needs: 0.5, wants: 0.3, savings: 0.2 },
+  '70_20_10': { needs: 0.7, wants: 0.2, savings: 0.1 }
+};
+
+// Icons of the default categories that are essentials rather than choices
+const NEEDS_ICONS = new Set(['home', 'zap', 'car', 'heart-pulse', 'utensils', 'shopping-cart', 'graduation-cap']);
+
+export const defaultGroup = (category: Category): SpendingGroup =>
+  category.icon && NEEDS_ICONS.has(category.icon) ? 'needs' : 'wants';
+
+export interface PlannedBudget {
+  category: string;
+  group: SpendingGroup;
+  // Average monthly spending over the history window, subcategories included
+  historicalAverage: number;
+  amount: number;
+  // Amount of the category's current monthly budget, which the plan replaces
+  existingAmount: number | null;
+}
+
+export interface BudgetPlan {
+  rule: PlanRule;
+  months: number;
+  income: number;
+  // Average monthly income over the history window
+  historicalIncome: number;
+  savingsTarget: number;
+  // Income left for spending once savings are set aside
+  spendable: number;
+  budgets: PlannedBudget[];
+  // Spendable income no budget was given, after rounding or scaling
+  unallocated: number;
+}
+
+export interface PlanInput {
+  rule: PlanRule;
+  months: number;
+  // Defaults to the historical average income
+  income?: number;
+  // Defaults to the rule's savings share, or nothing for historical plans
+  savingsTarget?: number;
+  // Categories to treat as needs instead of guessing from their icon
+  needs?: string[];
+}
+
+// Split `total` across categories in proportion to their weights, evenly
+// when none of them has any weight. Budgets are whole currency units.
+const distribute = (total: number, weights: number[]): number[] => {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  return weights.map(weight =>
+    Math.floor(sum > 0 ? (total * weight) / sum : total / weights.length)
+  );
+};
+
+// Propose a monthly budget for every active top-level expense category
+// from `history`, the transactions of the last `months` full months
+export const planBudgets = (
+  input: PlanInput,
+  categories: Category[],
+  history: Transaction[],
+  budgets: Budget[]
+): BudgetPlan => {
+  const candidates = categories.filter(category =>
+    category.type === 'expense' && !category.archived && !category.parentId
+  );
+  const totals = rollUpTotals(sumByCategory(history, 'expense'), categories, { level: 0 });
+  const average = (category: Category) =>
+    roundCents((totals.find(total => total.category === category.id)?.total ?? 0) / input.months);
+  const historicalIncome = roundCents(
+    history.filter(t => t.type === 'income').reduce((total, t) => total + t.amount, 0) / input.months
+  );
+
+  const income = input.income ?? historicalIncome;
+  const savingsTarget = Math.min(
+    input.savingsTarget ?? (input.rule === 'historical' ? 0 : income * RULE_SHARES[input.rule].savings),
+    income
+  );
+  const spendable = roundCents(income - savingsTarget);
+
+  const needs = input.needs ? new Set(input.needs) : null;
+  const planned: PlannedBudget[] = candidates.map(category => ({
+    category: category.id!,
+    group: needs ? (needs.has(category.id!) ? 'needs' : 'wants') : defaultGroup(category),
+    historicalAverage: average(category),
+    amount: 0,
+    existingAmount: budgets.find(budget => budget.category === category.id && budget.period === 'monthly')?.amount ?? null
+  }));
+
+  if (input.rule === 'historical') {
+    // Past averages, scaled down when they add up to more than is spendable
+    const spent = planned.reduce((total, budget) => total + budget.historicalAverage, 0);
+    const scale = spent > spendable ? spendable / spent : 1;
+    planned.forEach(budget => {
+      budget.amount = Math.floor(budget.historicalAverage * scale);
+    });
+  } else {
+    // Spendable income is split between needs and wants in the rule's ratio,
+    // then across each group's categories by their past spending
+    const shares = RULE_SHARES[input.rule];
+    (['needs', 'wants'] as const).forEach(group => {
+      const members = planned.filter(budget => budget.group === group);
+      if (members.length === 0) return;
+      const total = roundCents(spendable * (shares[group] / (shares.needs + shares.wants)));
+      distribute(total, members.map(budget => budget.historicalAverage))
+        .forEach((amount, i) => { members[i].amount = amount; });
+    });
+  }
+
+  const allocated = planned.reduce((total, budget) => total + budget.amount, 0);
+  return {
+    rule: input.rule,
+    months: input.months,
+    income: roundCents(income),
+    historicalIncome,
+    savingsTarget: roundCents(savingsTarget),
+    spendable,
+    budgets: planned,
+    unallocated: roundCents(spendable - allocated)
+  };
+};
@@ -0,0 +1,79 @@
+import express from "express";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { registerRoutes } from "./routes";
+import { MemFinanceRepository } from "./memory";
+import { DevTokenVerifier } from "./token-verifier";
+import type { AttachmentStore } from "./attachment-store";
+import type { UserProfile } from "./repository";
+import { SPLIT, TRANSFER } from "@shared/validation";
+
+const noFiles: AttachmentStore = {
+  save: async () => {},
+  read: async () => null,
+  remove: async () => {}
+};
+
+// Profile reads that take a while, like a remote store, so concurrent first
+// requests all look before any of them writes
+class SlowProfileRepository extends MemFinanceRepository {
+  async getUserProfile(uid: string): Promise<UserProfile | null> {
+    const profile = await super.getUserProfile(uid);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    return profile;
+  }
+}
+
+const setUp = async (repository = new MemFinanceRepository()) => {
+  const app = express();
+  app.use(express.json());
+  await registerRoutes(app, { repository, attachmentStore: noFiles, tokenVerifier: new DevTokenVerifier() });
+  return (method: "get" | "post" | "put", path: string, body?: object) => {
+    const pending = request(app)[method](`/api${path}`).set("Authorization", "Bearer carol");
+    return body ? pending.send(body) : pending;
+  };
+};
+
+describe("default categories", () => {
+  it("are seeded once when a user's first requests arrive together", async () => {
+    const repository = new SlowProfileRepository();
+    const send = await setUp(repository);
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () => send("get", "/categories")));
+    expect(responses.map(res => res.status)).toEqual([200, 200, 200, 200, 200]);
+    expect(await repository.getCategories("carol")).toHaveLength(10);
+  });
+
+  it("are not seeded again for a profile that already exists", async () => {
+    const repository = new MemFinanceRepository();
+    await repository.createUserProfile({ uid: "carol", email: "", createdAt: new Date() });
+    const send = await setUp(repository);
+
+    expect((await send("get", "/categories")).body).toEqual([]);
+  });
+});
+
+describe("category references", () => {
+  const rule = { description: "Gym", amount: 30, frequency: "monthly", startDate: "2099-01-01" };
+
+  it.each([SPLIT, TRANSFER])("refuses the %s stand-in for budgets and recurring rules", async (category) => {
+    const send = await setUp();
+
+    expect((await send("post", "/budgets", { category, amount: 100, period: "monthly" })).status).toBe(400);
+    expect((await send("post", "/recurring", { ...rule, type: "expense", category })).status).toBe(400);
+  });
+
+  it("needs recurring rules to use a category of their type", async () => {
+    const send = await setUp();
+    const categories = (await send("get", "/categories")).body;
+    const expense = categories.find((category: { type: string }) => category.type === "expense");
+
+    const mismatched = await send("post", "/recurring", { ...rule, type: "income", category: expense.id });
+    expect(mismatched.status).toBe(400);
+    expect(mismatched.body.message).toBe("Choose an income category");
+
+    const created = await send("post", "/recurring", { ...rule, type: "expense", category: expense.id });
+    expect(created.status).toBe(201);
+    expect((await send("put", `/recurring/${created.body.id}`, { type: "income" })).status).toBe(400);
+  });
+});
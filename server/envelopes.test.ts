@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { envelopeMonth, envelopeStart, monthKey, monthWindow } from "./envelopes";
+import { DEFAULT_BUDGET_SETTINGS, type Category, type EnvelopeAllocation, type Transaction } from "./repository";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+const categories: Category[] = [
+  { id: "food", name: "Food", type: "expense", userId: "alice", createdAt: day(2026, 1, 1) },
+  { id: "fun", name: "Fun", type: "expense", userId: "alice", createdAt: day(2026, 1, 1) },
+  { id: "old", name: "Old", type: "expense", userId: "alice", archived: true, createdAt: day(2026, 1, 1) },
+  { id: "salary", name: "Salary", type: "income", userId: "alice", createdAt: day(2026, 1, 1) }
+];
+
+const entry = (month: string, category: string, amount: number, fromCategory: string | null = null): EnvelopeAllocation => ({
+  userId: "alice",
+  month,
+  category,
+  fromCategory,
+  amount,
+  kind: fromCategory ? "move" : "assign",
+  createdAt: day(2026, 1, 1)
+});
+
+const transaction = (type: Transaction["type"], category: string, amount: number, date: Date): Transaction => ({
+  userId: "alice",
+  amount,
+  category,
+  description: "Entry",
+  date,
+  type,
+  tags: [],
+  createdAt: date
+});
+
+const envelope = (month: ReturnType<typeof envelopeMonth>, category: string) =>
+  month.envelopes.find(record => record.category === category);
+
+describe("envelope months", () => {
+  it("follow the monthly budget period and are named by the month it starts in", () => {
+    const settings = { weekStartsOn: 0, monthStartDay: 25 };
+    expect(monthKey(day(2026, 3, 24), settings)).toBe("2026-02");
+    expect(monthKey(day(2026, 3, 25), settings)).toBe("2026-03");
+    expect(monthWindow("2026-03", settings)).toEqual({ start: day(2026, 3, 25), end: day(2026, 4, 25) });
+  });
+
+  it("begin with the earliest month in the ledger", () => {
+    expect(envelopeStart("2026-03", [entry("2026-01", "food", 10), entry("2026-04", "food", 10)])).toBe("2026-01");
+    expect(envelopeStart("2026-03", [])).toBe("2026-03");
+  });
+});
+
+describe("envelopeMonth", () => {
+  it("gives every active expense category an envelope", () => {
+    const month = envelopeMonth("2026-03", [], [], categories, DEFAULT_BUDGET_SETTINGS);
+    expect(month.envelopes.map(record => record.category)).toEqual(["food", "fun"]);
+    expect(month.toBeBudgeted).toBe(0);
+  });
+
+  it("brings income to zero as it is assigned, and keeps money in envelopes between months", () => {
+    const allocations = [entry("2026-01", "food", 300), entry("2026-01", "fun", 100)];
+    const transactions = [
+      transaction("income", "salary", 500, day(2026, 1, 1)),
+      transaction("expense", "food", 120, day(2026, 1, 10)),
+      transaction("expense", "food", 80, day(2026, 2, 3))
+    ];
+
+    const january = envelopeMonth("2026-01", allocations, transactions, categories, DEFAULT_BUDGET_SETTINGS);
+    expect(january.toBeBudgeted).toBe(100);
+    expect(envelope(january, "food")).toMatchObject({ assigned: 300, activity: 120, available: 180 });
+
+    const february = envelopeMonth("2026-02", allocations, transactions, categories, DEFAULT_BUDGET_SETTINGS);
+    expect(february.toBeBudgeted).toBe(100);
+    expect(envelope(february, "food")).toMatchObject({ carriedIn: 180, assigned: 0, activity: 80, available: 100 });
+    expect(envelope(february, "fun")).toMatchObject({ carriedIn: 100, available: 100 });
+  });
+
+  it("moves money between envelopes without touching income", () => {
+    const allocations = [entry("2026-01", "food", 100), entry("2026-01", "food", 40, "fun"), entry("2026-01", "fun", 50)];
+    const month = envelopeMonth("2026-01", allocations, [], categories, DEFAULT_BUDGET_SETTINGS);
+
+    expect(envelope(month, "food")).toMatchObject({ moved: 40, available: 140 });
+    expect(envelope(month, "fun")).toMatchObject({ moved: -40, available: 10 });
+    expect(month.assigned).toBe(150);
+  });
+
+  it("takes uncovered overspending out of the next month's money and starts the envelope over", () => {
+    const allocations = [entry("2026-01", "food", 100)];
+    const transactions = [
+      transaction("income", "salary", 100, day(2026, 1, 1)),
+      transaction("expense", "food", 130, day(2026, 1, 5))
+    ];
+
+    const january = envelopeMonth("2026-01", allocations, transactions, categories, DEFAULT_BUDGET_SETTINGS);
+    expect(january.overspent).toBe(30);
+
+    const february = envelopeMonth("2026-02", allocations, transactions, categories, DEFAULT_BUDGET_SETTINGS);
+    expect(february.uncoveredOverspending).toBe(30);
+    expect(february.toBeBudgeted).toBe(-30);
+    expect(envelope(february, "food")).toMatchObject({ carriedIn: 0, available: 0 });
+  });
+
+  it("spends split transactions from each line's envelope", () => {
+    const split: Transaction = {
+      ...transaction("expense", "split", 50, day(2026, 1, 5)),
+      splits: [{ category: "food", amount: 30 }, { category: "fun", amount: 20 }]
+    };
+    const month = envelopeMonth("2026-01", [entry("2026-01", "food", 30), entry("2026-01", "fun", 30)], [split], categories, DEFAULT_BUDGET_SETTINGS);
+
+    expect(envelope(month, "food")?.available).toBe(0);
+    expect(envelope(month, "fun")?.available).toBe(10);
+  });
+});
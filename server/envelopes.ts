@@ -0,0 +1,142 @@
+import { addMonths, format } from 'date-fns';
+import { categoryShares, type BudgetSettings, type Category, type EnvelopeAllocation, type Transaction } from './repository';
+import { periodWindow, roundCents, type PeriodWindow } from './budget-periods';
+
+// One envelope in one month. Money assigned or moved into an envelope stays
+// there from month to month until it is spent.
+export interface EnvelopeRecord {
+  category: string;
+  carriedIn: number;
+  assigned: number;
+  // Net money moved in from (positive) or out to (negative) other envelopes
+  moved: number;
+  activity: number;
+  available: number;
+}
+
+export interface EnvelopeMonth {
+  month: string;
+  periodStart: Date;
+  periodEnd: Date;
+  income: number;
+  assigned: number;
+  // Overspending left uncovered at the end of last month, which comes out of
+  // this month's money while the envelope starts over at zero
+  uncoveredOverspending: number;
+  // Income not yet given to an envelope; zero-based budgeting brings it to 0
+  toBeBudgeted: number;
+  // Total of envelopes below zero that still need covering
+  overspent: number;
+  envelopes: EnvelopeRecord[];
+}
+
+// Envelope months follow the user's monthly budget periods and are named
+// by the calendar month the period starts in
+export const monthKey = (date: Date, settings: BudgetSettings): string =>
+  format(periodWindow('monthly', date, settings).start, 'yyyy-MM');
+
+export const monthWindow = (month: string, settings: BudgetSettings): PeriodWindow => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return periodWindow('monthly', new Date(year, monthNumber - 1, settings.monthStartDay), settings);
+};
+
+const nextMonth = (month: string) => format(addMonths(new Date(`${month}-01T00:00:00`), 1), 'yyyy-MM');
+
+// Envelopes begin with the first month that has ledger entries, or with
+// `month` when that is earlier
+export const envelopeStart = (month: string, allocations: EnvelopeAllocation[]): string =>
+  allocations.reduce((first, allocation) => allocation.month < first ? allocation.month : first, month);
+
+const groupBy = <T>(items: T[], key: (item: T) => string) => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const group = groups.get(key(item));
+    if (group) group.push(item);
+    else groups.set(key(item), [item]);
+  });
+  return groups;
+};
+
+// Replay the ledger and spending from envelopeStart through `month`.
+// `transactions` must cover every one of those months. Every active expense
+// category has an envelope, plus any other category with money or spending.
+export const envelopeMonth = (
+  month: string,
+  allocations: EnvelopeAllocation[],
+  transactions: Transaction[],
+  categories: Category[],
+  settings: BudgetSettings
+): EnvelopeMonth => {
+  const entriesByMonth = groupBy(allocations, allocation => allocation.month);
+  const transactionsByMonth = groupBy(transactions, t => monthKey(t.date, settings));
+  // Balance of each envelope at the start of the month being replayed
+  const balances = new Map<string, number>();
+  let toBeBudgeted = 0;
+  let uncovered = 0;
+
+  for (let current = envelopeStart(month, allocations); ; current = nextMonth(current)) {
+    const records = new Map<string, EnvelopeRecord>();
+    const record = (category: string) => {
+      let existing = records.get(category);
+      if (!existing) {
+        existing = { category, carriedIn: balances.get(category) ?? 0, assigned: 0, moved: 0, activity: 0, available: 0 };
+        records.set(category, existing);
+      }
+      return existing;
+    };
+    balances.forEach((_, category) => record(category));
+
+    let income = 0;
+    let assigned = 0;
+    (entriesByMonth.get(current) ?? []).forEach(entry => {
+      if (entry.fromCategory === null) {
+        record(entry.category).assigned += entry.amount;
+        assigned += entry.amount;
+      } else {
+        record(entry.category).moved += entry.amount;
+        record(entry.fromCategory).moved -= entry.amount;
+      }
+    });
+    (transactionsByMonth.get(current) ?? []).forEach(t => {
+      if (t.type === 'income') income += t.amount;
+      else if (t.type === 'expense') categoryShares(t).forEach(share => { record(share.category).activity += share.amount; });
+    });
+
+    toBeBudgeted += income - assigned - uncovered;
+    records.forEach(r => {
+      r.available = roundCents(r.carriedIn + r.assigned + r.moved - r.activity);
+    });
+
+    if (current === month) {
+      categories
+        .filter(category => category.type === 'expense' && !category.archived)
+        .forEach(category => record(category.id!));
+      const { start, end } = monthWindow(month, settings);
+      const envelopes = Array.from(records.values()).map(r => ({
+        ...r,
+        assigned: roundCents(r.assigned),
+        moved: roundCents(r.moved),
+        activity: roundCents(r.activity)
+      }));
+
+      return {
+        month,
+        periodStart: start,
+        periodEnd: new Date(end.getTime() - 1),
+        income: roundCents(income),
+        assigned: roundCents(assigned),
+        uncoveredOverspending: roundCents(uncovered),
+        toBeBudgeted: roundCents(toBeBudgeted),
+        overspent: roundCents(envelopes.reduce((total, r) => total + Math.max(-r.available, 0), 0)),
+        envelopes
+      };
+    }
+
+    // Overspending nobody covered is taken from next month's money
+    uncovered = 0;
+    records.forEach(r => {
+      if (r.available < 0) uncovered -= r.available;
+      balances.set(r.category, Math.max(r.available, 0));
+    });
+  }
+};
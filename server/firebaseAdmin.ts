@@ -39,5 +39,7 @@ try {
 
 export const auth = admin.auth();
 export const firestore = admin.firestore();
+// Default bucket from the storageBucket option above
+export const bucket = admin.storage().bucket();
 
 export default admin;
\ No newline at end of file
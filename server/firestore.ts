@@ -1,51 +1,60 @@
 import { firestore } from './firebaseAdmin';
-import { Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { Timestamp, FieldValue, FieldPath, AggregateField, Filter, type Query, type WriteBatch } from 'firebase-admin/firestore';
+import {
+  applyBatchOperations,
+  batchItemError,
+  budgetSettings,
+  CategoryTooLargeError,
+  cursorValue,
+  isDeleteBatch,
+  matchesTransactionQuery,
+  rollUpTotals,
+  searchTerms,
+  sumByCategory,
+  toTransactionPage,
+  usesHierarchy,
+  type Account,
+  type Attachment,
+  type BatchItemResult,
+  type Bill,
+  type Budget,
+  type Category,
+  type CategoryReassignment,
+  type CategoryTotal,
+  type CategoryTotalsOptions,
+  type CategoryTypes,
+  type EnvelopeAllocation,
+  type FinanceRepository,
+  type GoalContribution,
+  type Notification,
+  type Payee,
+  type RecurringRule,
+  type SavingsGoal,
+  type SubscriptionReview,
+  type Transaction,
+  type TransactionPage,
+  type TransactionQuery,
+  type TransactionSummary,
+  type UserProfile
+} from './repository';
+import { planBudgetReassignment } from './budget-periods';
+import type { BatchOperation } from '@shared/validation';
 
 // Collection references
 const usersCollection = firestore.collection('users');
 const transactionsCollection = firestore.collection('transactions');
+const accountsCollection = firestore.collection('accounts');
+const attachmentsCollection = firestore.collection('attachments');
+const payeesCollection = firestore.collection('payees');
+const recurringRulesCollection = firestore.collection('recurringRules');
+const subscriptionReviewsCollection = firestore.collection('subscriptionReviews');
 const budgetsCollection = firestore.collection('budgets');
 const categoriesCollection = firestore.collection('categories');
-
-// User profile interface
-export interface UserProfile {
-  uid: string;
-  email: string;
-  displayName?: string;
-  photoURL?: string;
-  createdAt: Date;
-}
-
-// Transaction interface
-export interface Transaction {
-  id?: string;
-  userId: string;
-  amount: number;
-  category: string;
-  description: string;
-  date: Date;
-  type: 'income' | 'expense';
-  createdAt: Date;
-}
-
-// Budget interface
-export interface Budget {
-  id?: string;
-  userId: string;
-  category: string;
-  amount: number;
-  period: 'daily' | 'weekly' | 'monthly' | 'yearly';
-  createdAt: Date;
-}
-
-// Category interface
-export interface Category {
-  id?: string;
-  name: string;
-  type: 'income' | 'expense';
-  userId: string;
-  createdAt: Date;
-}
+const allocationsCollection = firestore.collection('envelopeAllocations');
+const goalsCollection = firestore.collection('savingsGoals');
+const billsCollection = firestore.collection('bills');
+const contributionsCollection = firestore.collection('goalContributions');
+const notificationsCollection = firestore.collection('notifications');
 
 // Helper function to convert Firestore timestamps to Date objects
 const convertTimestamps = (data: any): any => {
@@ -62,229 +71,846 @@ const convertTimestamps = (data: any): any => {
   return data;
 };
 
-// User profile operations
-export const createUserProfile = async (userProfile: UserProfile): Promise<string> => {
-  const userData = {
-    ...userProfile,
-    createdAt: FieldValue.serverTimestamp()
-  };
-  
-  const docRef = await usersCollection.doc(userProfile.uid).set(userData);
-  return userProfile.uid;
-};
+// gRPC status of a create() whose document already exists
+const ALREADY_EXISTS = 6;
 
-export const getUserProfile = async (uid: string): Promise<UserProfile | null> => {
-  const userDoc = await usersCollection.doc(uid).get();
-  
-  if (!userDoc.exists) {
-    return null;
+// Most operations a single Firestore write batch accepts
+const MAX_BATCH_WRITES = 500;
+type BatchWrite = (batch: WriteBatch) => WriteBatch;
+
+// Commit writes in as many batches as the cap requires, in order
+const commitInChunks = async (writes: BatchWrite[]) => {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const batch = firestore.batch();
+    writes.slice(start, start + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await batch.commit();
   }
-  
-  return convertTimestamps({ id: userDoc.id, ...userDoc.data() }) as UserProfile;
 };
 
-export const updateUserProfile = async (uid: string, data: Partial<UserProfile>): Promise<void> => {
-  await usersCollection.doc(uid).update(data);
+// Longest word prefix stored for search
+const MAX_KEYWORD_LENGTH = 15;
+const NON_WORD = new RegExp('[^\\p{L}\\p{N}]+', 'u');
+
+// Firestore has no substring search, so transactions store the lowercase
+// prefixes of every description word and are queried with array-contains.
+// Documents written before keywords existed only match once re-saved.
+const descriptionKeywords = (description: string): string[] => {
+  const keywords = new Set<string>();
+  description.toLowerCase().split(NON_WORD).forEach(word => {
+    for (let i = 1; i <= Math.min(word.length, MAX_KEYWORD_LENGTH); i++) {
+      keywords.add(word.slice(0, i));
+    }
+  });
+  return Array.from(keywords);
+};
+
+// Add the storage-only fields derived from a transaction's description and
+// splits. Split categories are stored flat so they can be queried with
+// array-contains.
+const withDerivedFields = <T extends Partial<Transaction>>(data: T) => ({
+  ...data,
+  ...(data.description !== undefined && { keywords: descriptionKeywords(data.description) }),
+  ...(data.splits !== undefined && { splitCategories: (data.splits ?? []).map(split => split.category) })
+});
+
+// Strip storage-only fields from a transaction document
+const toTransaction = (doc: FirebaseFirestore.DocumentSnapshot): Transaction => {
+  const { keywords, splitCategories, ...data } = convertTimestamps({ id: doc.id, ...doc.data() });
+  return data as Transaction;
 };
 
-// Transaction operations
-export const getTransactions = async (userId: string): Promise<Transaction[]> => {
-  try {
-    console.log(`[Firestore] Getting transactions for user ${userId}`);
+export class FirestoreFinanceRepository implements FinanceRepository {
+  // User profile operations
+  // create() fails instead of overwriting when the document exists
+  async createUserProfile(userProfile: UserProfile): Promise<boolean> {
+    const userData = {
+      ...userProfile,
+      createdAt: FieldValue.serverTimestamp()
+    };
+
+    try {
+      await usersCollection.doc(userProfile.uid).create(userData);
+      return true;
+    } catch (error: any) {
+      if (error?.code === ALREADY_EXISTS) return false;
+      throw error;
+    }
+  }
+
+  async getUserProfile(uid: string): Promise<UserProfile | null> {
+    const userDoc = await usersCollection.doc(uid).get();
     
-    // First get transactions by userId without sorting
-    const snapshot = await transactionsCollection
-      .where('userId', '==', userId)
-      .get();
+    if (!userDoc.exists) {
+      return null;
+    }
     
-    console.log(`[Firestore] Found ${snapshot.docs.length} transactions`);
+    return convertTimestamps({ id: userDoc.id, ...userDoc.data() }) as UserProfile;
+  }
+
+  async updateUserProfile(uid: string, data: Partial<UserProfile>): Promise<void> {
+    await usersCollection.doc(uid).update(data);
+  }
+
+  // Transaction operations
+  async getTransactions(userId: string): Promise<Transaction[]> {
+    try {
+      console.log(`[Firestore] Getting transactions for user ${userId}`);
+      
+      // First get transactions by userId without sorting
+      const snapshot = await transactionsCollection
+        .where('userId', '==', userId)
+        .get();
+      
+      console.log(`[Firestore] Found ${snapshot.docs.length} transactions`);
+      
+      // Convert to Transaction objects with proper date handling
+      const transactions = snapshot.docs.map(doc => {
+        return toTransaction(doc);
+      });
+      
+      // Sort in memory instead of in query to avoid needing a composite index
+      return transactions.sort((a, b) => {
+        // Sort by date in descending order (most recent first)
+        return b.date.getTime() - a.date.getTime();
+      });
+    } catch (error) {
+      console.error('[Firestore] Error fetching transactions:', error);
+      throw error;
+    }
+  }
+
+  async queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage> {
+    const { field, direction } = query.sort;
+    let base: Query = transactionsCollection.where('userId', '==', userId);
+
+    if (query.type) base = base.where('type', '==', query.type);
+    if (query.category) {
+      base = base.where(Filter.or(
+        Filter.where('category', '==', query.category),
+        Filter.where('splitCategories', 'array-contains', query.category)
+      ));
+    }
+    if (query.accountId) {
+      base = base.where(Filter.or(
+        Filter.where('accountId', '==', query.accountId),
+        Filter.where('transferAccountId', '==', query.accountId)
+      ));
+    }
+    if (query.payeeId) base = base.where('payeeId', '==', query.payeeId);
+    if (query.minAmount !== undefined) base = base.where('amount', '>=', query.minAmount);
+    if (query.maxAmount !== undefined) base = base.where('amount', '<=', query.maxAmount);
+    if (query.from) base = base.where('date', '>=', query.from);
+    if (query.to) base = base.where('date', '<=', query.to);
+
+    // Only one array-contains is allowed per query. A category filter uses it
+    // for split categories, then a tag, then the first search term; whatever
+    // is left is checked on the returned documents.
+    const terms = query.q ? searchTerms(query.q) : [];
+    if (query.tag && !query.category) {
+      base = base.where('tags', 'array-contains', query.tag);
+    } else if (terms.length > 0 && !query.category) {
+      base = base.where('keywords', 'array-contains', terms[0].slice(0, MAX_KEYWORD_LENGTH));
+    }
+
+    base = base
+      .orderBy(field, direction)
+      .orderBy(FieldPath.documentId(), direction)
+      .limit(query.limit + 1);
+
+    let after: [unknown, string] | undefined = query.cursor
+      ? [cursorValue(query.cursor, field), query.cursor.id]
+      : undefined;
+    const rows: Transaction[] = [];
+
+    // Keep reading batches until the page is full or the query is exhausted
+    while (rows.length <= query.limit) {
+      const snapshot = await (after ? base.startAfter(...after) : base).get();
+      const batch = snapshot.docs.map(toTransaction);
+
+      rows.push(...batch.filter(t => matchesTransactionQuery(t, query)));
+
+      if (snapshot.docs.length <= query.limit) break;
+      const last = batch[batch.length - 1];
+      after = [last[field], last.id!];
+    }
+
+    return toTransactionPage(rows.slice(0, query.limit + 1), query);
+  }
+
+  async getTransaction(id: string): Promise<Transaction | null> {
+    const doc = await transactionsCollection.doc(id).get();
     
-    // Convert to Transaction objects with proper date handling
-    const transactions = snapshot.docs.map(doc => {
-      return convertTimestamps({ id: doc.id, ...doc.data() }) as Transaction;
-    });
+    if (!doc.exists) {
+      return null;
+    }
     
+    return toTransaction(doc);
+  }
+
+  async createTransaction(transaction: Transaction): Promise<string> {
+    try {
+      console.log('[Firestore] Creating transaction:', transaction);
+      
+      const transactionData = {
+        ...withDerivedFields({ splits: null, ...transaction }),
+        createdAt: FieldValue.serverTimestamp()
+      };
+      
+      console.log('[Firestore] Processed transaction data:', transactionData);
+      const docRef = await transactionsCollection.add(transactionData);
+      console.log(`[Firestore] Transaction created with ID: ${docRef.id}`);
+      
+      return docRef.id;
+    } catch (error) {
+      console.error('[Firestore] Error creating transaction:', error);
+      throw error;
+    }
+  }
+
+  async updateTransaction(id: string, data: Partial<Transaction>): Promise<void> {
+    await transactionsCollection.doc(id).update(withDerivedFields(data));
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    await transactionsCollection.doc(id).delete();
+  }
+
+  async batchTransactions(
+    userId: string,
+    ids: string[],
+    operations: BatchOperation[],
+    categoryTypes: CategoryTypes
+  ): Promise<BatchItemResult[]> {
+    const deleting = isDeleteBatch(operations);
+
+    // Reads and writes share one Firestore transaction, so either every
+    // owned document changes or none do
+    return firestore.runTransaction(async (tx) => {
+      const docs = await tx.getAll(...ids.map(id => transactionsCollection.doc(id)));
+
+      return docs.map((doc): BatchItemResult => {
+        const transaction = doc.exists ? toTransaction(doc) : null;
+        const error = batchItemError(transaction, userId, operations, categoryTypes);
+        if (error) return { id: doc.id, status: error };
+
+        if (deleting) {
+          tx.delete(doc.ref);
+          return { id: doc.id, status: 'deleted' };
+        }
+
+        tx.update(doc.ref, withDerivedFields(applyBatchOperations(transaction!, operations)));
+        return { id: doc.id, status: 'updated' };
+      });
+    });
+  }
+
+  // Attachment operations
+  async getAttachments(transactionId: string): Promise<Attachment[]> {
+    const snapshot = await attachmentsCollection
+      .where('transactionId', '==', transactionId)
+      .get();
+
     // Sort in memory instead of in query to avoid needing a composite index
-    return transactions.sort((a, b) => {
-      // Sort by date in descending order (most recent first)
-      return b.date.getTime() - a.date.getTime();
+    return snapshot.docs
+      .map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as Attachment)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAttachment(id: string): Promise<Attachment | null> {
+    const doc = await attachmentsCollection.doc(id).get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return convertTimestamps({ id: doc.id, ...doc.data() }) as Attachment;
+  }
+
+  async createAttachment(attachment: Attachment): Promise<string> {
+    const attachmentData = {
+      ...attachment,
+      createdAt: FieldValue.serverTimestamp()
+    };
+
+    const docRef = await attachmentsCollection.add(attachmentData);
+    return docRef.id;
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    await attachmentsCollection.doc(id).delete();
+  }
+
+  // Account operations
+  async getAccounts(userId: string): Promise<Account[]> {
+    const snapshot = await accountsCollection
+      .where('userId', '==', userId)
+      .get();
+
+    // Sort in memory instead of in query to avoid needing a composite index
+    return snapshot.docs
+      .map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as Account)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAccount(id: string): Promise<Account | null> {
+    const doc = await accountsCollection.doc(id).get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return convertTimestamps({ id: doc.id, ...doc.data() }) as Account;
+  }
+
+  async createAccount(account: Account): Promise<string> {
+    const accountData = {
+      ...account,
+      createdAt: FieldValue.serverTimestamp()
+    };
+
+    const docRef = await accountsCollection.add(accountData);
+    return docRef.id;
+  }
+
+  async updateAccount(id: string, data: Partial<Account>): Promise<void> {
+    await accountsCollection.doc(id).update(data);
+  }
+
+  async deleteAccount(id: string): Promise<void> {
+    await accountsCollection.doc(id).delete();
+  }
+
+  // Payee operations
+  async getPayees(userId: string): Promise<Payee[]> {
+    const snapshot = await payeesCollection
+      .where('userId', '==', userId)
+      .get();
+
+    // Sort in memory instead of in query to avoid needing a composite index
+    return snapshot.docs
+      .map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as Payee)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPayee(id: string): Promise<Payee | null> {
+    const doc = await payeesCollection.doc(id).get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return convertTimestamps({ id: doc.id, ...doc.data() }) as Payee;
+  }
+
+  async createPayee(payee: Payee): Promise<string> {
+    const payeeData = {
+      ...payee,
+      createdAt: FieldValue.serverTimestamp()
+    };
+
+    const docRef = await payeesCollection.add(payeeData);
+    return docRef.id;
+  }
+
+  async updatePayee(id: string, data: Partial<Payee>): Promise<void> {
+    await payeesCollection.doc(id).update(data);
+  }
+
+  async deletePayee(id: string): Promise<void> {
+    const [transactionDocs, billDocs] = await Promise.all([
+      transactionsCollection.where('payeeId', '==', id).get(),
+      billsCollection.where('payeeId', '==', id).get()
+    ]);
+    await commitInChunks([
+      ...transactionDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, { payeeId: null })),
+      ...billDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, { payeeId: null })),
+      batch => batch.delete(payeesCollection.doc(id))
+    ]);
+  }
+
+  // Recurring rule operations
+  async getRecurringRules(userId: string): Promise<RecurringRule[]> {
+    const snapshot = await recurringRulesCollection
+      .where('userId', '==', userId)
+      .get();
+
+    // Sort in memory instead of in query to avoid needing a composite index
+    return snapshot.docs
+      .map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as RecurringRule)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getRecurringRule(id: string): Promise<RecurringRule | null> {
+    const doc = await recurringRulesCollection.doc(id).get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return convertTimestamps({ id: doc.id, ...doc.data() }) as RecurringRule;
+  }
+
+  async createRecurringRule(rule: RecurringRule): Promise<string> {
+    const ruleData = {
+      ...rule,
+      createdAt: FieldValue.serverTimestamp()
+    };
+
+    const docRef = await recurringRulesCollection.add(ruleData);
+    return docRef.id;
+  }
+
+  async updateRecurringRule(id: string, data: Partial<RecurringRule>): Promise<void> {
+    await recurringRulesCollection.doc(id).update(data);
+  }
+
+  async deleteRecurringRule(id: string): Promise<void> {
+    const [transactionDocs, reviewDocs] = await Promise.all([
+      transactionsCollection.where('recurringRuleId', '==', id).get(),
+      subscriptionReviewsCollection.where('recurringRuleId', '==', id).get()
+    ]);
+    await commitInChunks([
+      ...transactionDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, { recurringRuleId: null })),
+      ...reviewDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, { recurringRuleId: null })),
+      batch => batch.delete(recurringRulesCollection.doc(id))
+    ]);
+  }
+
+  // Paused rules are filtered here to keep to a single-field index
+  async getDueRecurringRules(before: Date): Promise<RecurringRule[]> {
+    const snapshot = await recurringRulesCollection
+      .where('nextOccurrence', '<=', before)
+      .get();
+
+    return snapshot.docs
+      .map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as RecurringRule)
+      .filter(rule => !rule.paused);
+  }
+
+  // Each occurrence has its own document id, so posting it twice finds the
+  // existing document instead of creating another
+  async postRecurringOccurrence(ruleId: string, transaction: Transaction, nextOccurrence: Date | null): Promise<boolean> {
+    const ref = transactionsCollection.doc(`${ruleId}_${transaction.occurrence}`);
+    return firestore.runTransaction(async (tx) => {
+      const existing = await tx.get(ref);
+      if (!existing.exists) {
+        tx.create(ref, { ...withDerivedFields({ splits: null, ...transaction }), createdAt: FieldValue.serverTimestamp() });
+      }
+      tx.update(recurringRulesCollection.doc(ruleId), { nextOccurrence });
+      return !existing.exists;
     });
-  } catch (error) {
-    console.error('[Firestore] Error fetching transactions:', error);
-    throw error;
   }
-};
 
-export const getTransaction = async (id: string): Promise<Transaction | null> => {
-  const doc = await transactionsCollection.doc(id).get();
-  
-  if (!doc.exists) {
-    return null;
+  // Subscription review operations
+  async getSubscriptionReviews(userId: string): Promise<SubscriptionReview[]> {
+    const snapshot = await subscriptionReviewsCollection
+      .where('userId', '==', userId)
+      .get();
+
+    return snapshot.docs.map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as SubscriptionReview);
   }
-  
-  return convertTimestamps({ id: doc.id, ...doc.data() }) as Transaction;
-};
 
-export const createTransaction = async (transaction: Transaction): Promise<string> => {
-  try {
-    console.log('[Firestore] Creating transaction:', transaction);
-    
-    const transactionData = {
-      ...transaction,
+  async createSubscriptionReview(review: SubscriptionReview): Promise<string> {
+    const reviewData = {
+      ...review,
       createdAt: FieldValue.serverTimestamp()
     };
+
+    const docRef = await subscriptionReviewsCollection.add(reviewData);
+    return docRef.id;
+  }
+
+  async updateSubscriptionReview(id: string, data: Partial<SubscriptionReview>): Promise<void> {
+    await subscriptionReviewsCollection.doc(id).update(data);
+  }
+
+  async deleteSubscriptionReview(id: string): Promise<void> {
+    await subscriptionReviewsCollection.doc(id).delete();
+  }
+
+  // Budget operations
+  async getBudgets(userId: string): Promise<Budget[]> {
+    const snapshot = await budgetsCollection
+      .where('userId', '==', userId)
+      .get();
     
-    console.log('[Firestore] Processed transaction data:', transactionData);
-    const docRef = await transactionsCollection.add(transactionData);
-    console.log(`[Firestore] Transaction created with ID: ${docRef.id}`);
+    return snapshot.docs.map(doc => {
+      return convertTimestamps({ id: doc.id, ...doc.data() }) as Budget;
+    });
+  }
+
+  async getBudget(id: string): Promise<Budget | null> {
+    const doc = await budgetsCollection.doc(id).get();
+    
+    if (!doc.exists) {
+      return null;
+    }
     
+    return convertTimestamps({ id: doc.id, ...doc.data() }) as Budget;
+  }
+
+  async createBudget(budget: Budget): Promise<string> {
+    const budgetData = {
+      ...budget,
+      createdAt: FieldValue.serverTimestamp()
+    };
+    
+    const docRef = await budgetsCollection.add(budgetData);
     return docRef.id;
-  } catch (error) {
-    console.error('[Firestore] Error creating transaction:', error);
-    throw error;
   }
-};
 
-export const updateTransaction = async (id: string, data: Partial<Transaction>): Promise<void> => {
-  await transactionsCollection.doc(id).update(data);
-};
+  async updateBudget(id: string, data: Partial<Budget>): Promise<void> {
+    await budgetsCollection.doc(id).update(data);
+  }
 
-export const deleteTransaction = async (id: string): Promise<void> => {
-  await transactionsCollection.doc(id).delete();
-};
+  async deleteBudget(id: string): Promise<void> {
+    await budgetsCollection.doc(id).delete();
+  }
 
-// Budget operations
-export const getBudgets = async (userId: string): Promise<Budget[]> => {
-  const snapshot = await budgetsCollection
-    .where('userId', '==', userId)
-    .get();
-  
-  return snapshot.docs.map(doc => {
-    return convertTimestamps({ id: doc.id, ...doc.data() }) as Budget;
-  });
-};
+  // Envelope operations
+  async getEnvelopeAllocations(userId: string): Promise<EnvelopeAllocation[]> {
+    const snapshot = await allocationsCollection
+      .where('userId', '==', userId)
+      .get();
 
-export const getBudget = async (id: string): Promise<Budget | null> => {
-  const doc = await budgetsCollection.doc(id).get();
-  
-  if (!doc.exists) {
-    return null;
+    // Sorted in memory to avoid a composite index
+    return snapshot.docs
+      .map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as EnvelopeAllocation)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
-  
-  return convertTimestamps({ id: doc.id, ...doc.data() }) as Budget;
-};
 
-export const createBudget = async (budget: Budget): Promise<string> => {
-  const budgetData = {
-    ...budget,
-    createdAt: FieldValue.serverTimestamp()
-  };
-  
-  const docRef = await budgetsCollection.add(budgetData);
-  return docRef.id;
-};
+  async createEnvelopeAllocations(allocations: EnvelopeAllocation[]): Promise<string[]> {
+    const batch = firestore.batch();
+    const ids = allocations.map(allocation => {
+      const docRef = allocationsCollection.doc();
+      batch.set(docRef, { ...allocation, createdAt: FieldValue.serverTimestamp() });
+      return docRef.id;
+    });
+    await batch.commit();
+    return ids;
+  }
 
-export const updateBudget = async (id: string, data: Partial<Budget>): Promise<void> => {
-  await budgetsCollection.doc(id).update(data);
-};
+  // Bill operations
+  async getBills(userId: string): Promise<Bill[]> {
+    const snapshot = await billsCollection
+      .where('userId', '==', userId)
+      .get();
 
-export const deleteBudget = async (id: string): Promise<void> => {
-  await budgetsCollection.doc(id).delete();
-};
+    // Sort in memory instead of in query to avoid needing a composite index
+    return snapshot.docs
+      .map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as Bill)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
 
-// Category operations
-export const getCategories = async (userId: string): Promise<Category[]> => {
-  const snapshot = await categoriesCollection
-    .where('userId', '==', userId)
-    .get();
-  
-  return snapshot.docs.map(doc => {
-    return convertTimestamps({ id: doc.id, ...doc.data() }) as Category;
-  });
-};
+  async getActiveBills(since: Date): Promise<Bill[]> {
+    const snapshot = await billsCollection
+      .where(Filter.or(
+        Filter.where('endDate', '==', null),
+        Filter.where('endDate', '>=', since)
+      ))
+      .get();
 
-export const getCategoriesByType = async (userId: string, type: 'income' | 'expense'): Promise<Category[]> => {
-  const snapshot = await categoriesCollection
-    .where('userId', '==', userId)
-    .where('type', '==', type)
-    .get();
-  
-  return snapshot.docs.map(doc => {
-    return convertTimestamps({ id: doc.id, ...doc.data() }) as Category;
-  });
-};
+    return snapshot.docs.map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as Bill);
+  }
 
-export const createCategory = async (category: Category): Promise<string> => {
-  const categoryData = {
-    ...category,
-    createdAt: FieldValue.serverTimestamp()
-  };
-  
-  const docRef = await categoriesCollection.add(categoryData);
-  return docRef.id;
-};
+  async getBill(id: string): Promise<Bill | null> {
+    const doc = await billsCollection.doc(id).get();
 
-export const updateCategory = async (id: string, data: Partial<Category>): Promise<void> => {
-  await categoriesCollection.doc(id).update(data);
-};
+    if (!doc.exists) {
+      return null;
+    }
 
-export const deleteCategory = async (id: string): Promise<void> => {
-  await categoriesCollection.doc(id).delete();
-};
+    return convertTimestamps({ id: doc.id, ...doc.data() }) as Bill;
+  }
+
+  async createBill(bill: Bill): Promise<string> {
+    const billData = {
+      ...bill,
+      createdAt: FieldValue.serverTimestamp()
+    };
+
+    const docRef = await billsCollection.add(billData);
+    return docRef.id;
+  }
+
+  async updateBill(id: string, data: Partial<Bill>): Promise<void> {
+    await billsCollection.doc(id).update(data);
+  }
 
-// Additional analytics operations
-export const getTransactionsByPeriod = async (
-  userId: string,
-  startDate: Date,
-  endDate: Date
-): Promise<Transaction[]> => {
-  try {
-    // Get all transactions for the user
-    const snapshot = await transactionsCollection
+  async deleteBill(id: string): Promise<void> {
+    await billsCollection.doc(id).delete();
+  }
+
+  // Savings goal operations
+  async getGoals(userId: string): Promise<SavingsGoal[]> {
+    const snapshot = await goalsCollection
+      .where('userId', '==', userId)
+      .get();
+
+    return snapshot.docs.map(doc => {
+      return convertTimestamps({ id: doc.id, ...doc.data() }) as SavingsGoal;
+    });
+  }
+
+  async getGoal(id: string): Promise<SavingsGoal | null> {
+    const doc = await goalsCollection.doc(id).get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return convertTimestamps({ id: doc.id, ...doc.data() }) as SavingsGoal;
+  }
+
+  async createGoal(goal: SavingsGoal): Promise<string> {
+    const goalData = {
+      ...goal,
+      createdAt: FieldValue.serverTimestamp()
+    };
+
+    const docRef = await goalsCollection.add(goalData);
+    return docRef.id;
+  }
+
+  async updateGoal(id: string, data: Partial<SavingsGoal>): Promise<void> {
+    await goalsCollection.doc(id).update(data);
+  }
+
+  async deleteGoal(id: string): Promise<void> {
+    const contributionDocs = await contributionsCollection.where('goalId', '==', id).get();
+    await commitInChunks([
+      ...contributionDocs.docs.map((doc): BatchWrite => batch => batch.delete(doc.ref)),
+      batch => batch.delete(goalsCollection.doc(id))
+    ]);
+  }
+
+  async getGoalContributions(userId: string): Promise<GoalContribution[]> {
+    const snapshot = await contributionsCollection
+      .where('userId', '==', userId)
+      .get();
+
+    // Sorted in memory to avoid a composite index
+    return snapshot.docs
+      .map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as GoalContribution)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async createGoalContribution(contribution: GoalContribution): Promise<string> {
+    const docRef = await contributionsCollection.add({
+      ...contribution,
+      createdAt: FieldValue.serverTimestamp()
+    });
+    return docRef.id;
+  }
+
+  async deleteGoalContribution(id: string): Promise<void> {
+    await contributionsCollection.doc(id).delete();
+  }
+
+  // Notification operations
+  async getNotifications(userId: string): Promise<Notification[]> {
+    const snapshot = await notificationsCollection
+      .where('userId', '==', userId)
+      .get();
+
+    // Sorted in memory to avoid a composite index
+    return snapshot.docs
+      .map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as Notification)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createNotification(notification: Notification): Promise<string> {
+    const docRef = await notificationsCollection.add({
+      ...notification,
+      createdAt: FieldValue.serverTimestamp()
+    });
+    return docRef.id;
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<void> {
+    const snapshot = await notificationsCollection
+      .where('userId', '==', userId)
+      .where('read', '==', false)
+      .get();
+
+    await commitInChunks(snapshot.docs
+      .filter(doc => !ids || ids.includes(doc.id))
+      .map((doc): BatchWrite => batch => batch.update(doc.ref, { read: true })));
+  }
+
+  // Category operations
+  async getCategories(userId: string): Promise<Category[]> {
+    const snapshot = await categoriesCollection
       .where('userId', '==', userId)
       .get();
     
-    // Convert to Transaction objects with proper date handling
-    const allTransactions = snapshot.docs.map(doc => {
-      return convertTimestamps({ id: doc.id, ...doc.data() }) as Transaction;
+    return snapshot.docs.map(doc => {
+      return convertTimestamps({ id: doc.id, ...doc.data() }) as Category;
     });
+  }
+
+  async getCategoriesByType(userId: string, type: 'income' | 'expense'): Promise<Category[]> {
+    const snapshot = await categoriesCollection
+      .where('userId', '==', userId)
+      .where('type', '==', type)
+      .get();
     
-    // Filter by date range in memory
-    const filteredTransactions = allTransactions.filter(transaction => {
-      const transactionDate = transaction.date;
-      return transactionDate >= startDate && transactionDate <= endDate;
+    return snapshot.docs.map(doc => {
+      return convertTimestamps({ id: doc.id, ...doc.data() }) as Category;
     });
+  }
+
+  async getCategory(id: string): Promise<Category | null> {
+    const doc = await categoriesCollection.doc(id).get();
     
-    // Sort in memory
-    return filteredTransactions.sort((a, b) => b.date.getTime() - a.date.getTime());
-  } catch (error) {
-    console.error('[Firestore] Error fetching transactions by period:', error);
-    throw error;
+    if (!doc.exists) {
+      return null;
+    }
+    
+    return convertTimestamps({ id: doc.id, ...doc.data() }) as Category;
   }
-};
 
-export const getTotalsByCategory = async (
-  userId: string,
-  type: 'income' | 'expense',
-  startDate: Date,
-  endDate: Date
-): Promise<{ category: string; total: number }[]> => {
-  const transactions = await getTransactionsByPeriod(userId, startDate, endDate);
-  
-  // Filter by type and group by category
-  const typeTransactions = transactions.filter(t => t.type === type);
-  const categoryTotals: Record<string, number> = {};
-  
-  typeTransactions.forEach(transaction => {
-    if (!categoryTotals[transaction.category]) {
-      categoryTotals[transaction.category] = 0;
+  async createCategory(category: Category): Promise<string> {
+    const categoryData = {
+      ...category,
+      createdAt: FieldValue.serverTimestamp()
+    };
+    
+    const docRef = await categoriesCollection.add(categoryData);
+    return docRef.id;
+  }
+
+  async updateCategory(id: string, data: Partial<Category>): Promise<void> {
+    await categoriesCollection.doc(id).update(data);
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    await categoriesCollection.doc(id).delete();
+  }
+
+  async reassignCategory(userId: string, sourceId: string, targetId: string): Promise<CategoryReassignment> {
+    const transactionDocs = await transactionsCollection
+      .where('userId', '==', userId)
+      .where('category', '==', sourceId)
+      .get();
+    const splitDocs = await transactionsCollection
+      .where('userId', '==', userId)
+      .where('splitCategories', 'array-contains', sourceId)
+      .get();
+    const budgetDocs = await budgetsCollection
+      .where('userId', '==', userId)
+      .where('category', 'in', [sourceId, targetId])
+      .get();
+    const childDocs = await categoriesCollection.where('parentId', '==', sourceId).get();
+    const allocationDocs = await allocationsCollection.where('userId', '==', userId).get();
+    const goalDocs = await goalsCollection
+      .where('userId', '==', userId)
+      .where('categoryId', '==', sourceId)
+      .get();
+    const payeeDocs = await payeesCollection
+      .where('userId', '==', userId)
+      .where('defaultCategory', '==', sourceId)
+      .get();
+    const ruleDocs = await recurringRulesCollection
+      .where('userId', '==', userId)
+      .where('category', '==', sourceId)
+      .get();
+    const source = await this.getCategory(sourceId);
+    const settings = budgetSettings(await this.getUserProfile(userId));
+    const plan = planBudgetReassignment(
+      budgetDocs.docs.map(doc => convertTimestamps({ id: doc.id, ...doc.data() }) as Budget),
+      sourceId,
+      targetId,
+      settings
+    );
+
+    // One batch makes the move all or nothing. Firestore caps a batch at
+    // MAX_BATCH_WRITES operations, so larger categories are refused.
+    const writes: BatchWrite[] = [
+      ...transactionDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, { category: targetId })),
+      ...splitDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, withDerivedFields({
+        splits: (toTransaction(doc).splits ?? []).map(line => line.category === sourceId ? { ...line, category: targetId } : line)
+      }))),
+      ...plan.moved.map((id): BatchWrite => batch => batch.update(budgetsCollection.doc(id), { category: targetId })),
+      ...Array.from(plan.merged).map(([id, merged]): BatchWrite => batch => batch.update(budgetsCollection.doc(id), merged)),
+      ...plan.removed.map((id): BatchWrite => batch => batch.delete(budgetsCollection.doc(id))),
+      ...allocationDocs.docs
+        .filter(doc => doc.get('category') === sourceId || doc.get('fromCategory') === sourceId)
+        .map((doc): BatchWrite => batch => batch.update(doc.ref, {
+          category: doc.get('category') === sourceId ? targetId : doc.get('category'),
+          fromCategory: doc.get('fromCategory') === sourceId ? targetId : doc.get('fromCategory')
+        })),
+      ...goalDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, { categoryId: targetId })),
+      ...payeeDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, { defaultCategory: targetId })),
+      ...ruleDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, { category: targetId })),
+      // Subcategories move up to the removed category's parent
+      ...childDocs.docs.map((doc): BatchWrite => batch => batch.update(doc.ref, { parentId: source?.parentId ?? null })),
+      batch => batch.delete(categoriesCollection.doc(sourceId))
+    ];
+    if (writes.length > MAX_BATCH_WRITES) {
+      throw new CategoryTooLargeError();
     }
-    categoryTotals[transaction.category] += transaction.amount;
-  });
-  
-  // Convert to array format
-  return Object.entries(categoryTotals).map(([category, total]) => ({
-    category,
-    total
-  }));
-};
\ No newline at end of file
+
+    const batch = firestore.batch();
+    writes.forEach(write => write(batch));
+    await batch.commit();
+
+    return {
+      transactionsMoved: transactionDocs.size + splitDocs.size,
+      budgetsMoved: plan.moved.length,
+      budgetsMerged: plan.removed.length
+    };
+  }
+
+  // Additional analytics operations
+  async getTransactionsByPeriod(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Transaction[]> {
+    try {
+      // Served by the (userId, date) composite index
+      const snapshot = await transactionsCollection
+        .where('userId', '==', userId)
+        .where('date', '>=', startDate)
+        .where('date', '<=', endDate)
+        .orderBy('date', 'desc')
+        .get();
+      return snapshot.docs.map(toTransaction);
+    } catch (error) {
+      console.error('[Firestore] Error fetching transactions by period:', error);
+      throw error;
+    }
+  }
+
+  async getTotalsByCategory(
+    userId: string,
+    type: 'income' | 'expense',
+    startDate: Date,
+    endDate: Date,
+    options: CategoryTotalsOptions = {}
+  ): Promise<CategoryTotal[]> {
+    const transactions = await this.getTransactionsByPeriod(userId, startDate, endDate);
+    const totals = sumByCategory(transactions, type);
+    return usesHierarchy(options) ? rollUpTotals(totals, await this.getCategories(userId), options) : totals;
+  }
+
+  async getTransactionSummary(userId: string): Promise<TransactionSummary> {
+    const totalsFor = async (type: 'income' | 'expense') => {
+      const snapshot = await transactionsCollection
+        .where('userId', '==', userId)
+        .where('type', '==', type)
+        .aggregate({ total: AggregateField.sum('amount'), count: AggregateField.count() })
+        .get();
+      return snapshot.data();
+    };
+
+    const [income, expense] = await Promise.all([totalsFor('income'), totalsFor('expense')]);
+    return {
+      income: income.total ?? 0,
+      expenses: expense.total ?? 0,
+      incomeCount: income.count,
+      expenseCount: expense.count
+    };
+  }
+}
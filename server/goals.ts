@@ -0,0 +1,138 @@
+import { differenceInCalendarMonths } from 'date-fns';
+import {
+  categoryShares,
+  type BudgetSettings,
+  type Category,
+  type GoalContribution,
+  type Notification,
+  type SavingsGoal,
+  type Transaction
+} from './repository';
+import { periodWindow, roundCents } from './budget-periods';
+import { balanceChange } from './accounts';
+import { descendantIds } from '@shared/category-tree';
+
+// Progress percentages the user is notified about
+export const GOAL_MILESTONES = [25, 50, 75, 100];
+
+export interface GoalProgress extends SavingsGoal {
+  saved: number;
+  manualContributions: number;
+  // Transactions in the linked category or account since startDate
+  automaticContributions: number;
+  remaining: number;
+  percent: number;
+  // Monthly periods until the deadline, counting the current one
+  monthsLeft: number | null;
+  // Even monthly share of what was left at the start of this month
+  requiredPerMonth: number | null;
+  savedThisMonth: number;
+  // What is still missing from this month's share
+  neededThisMonth: number | null;
+  status: 'active' | 'completed' | 'overdue';
+}
+
+// Transactions that count toward a goal from its start date on: those in the
+// linked category and its subcategories, or those moving money in or out of
+// the linked account, with withdrawals as negative amounts
+export const goalTransactions = (
+  goal: SavingsGoal,
+  transactions: Transaction[],
+  categories: Category[]
+): Transaction[] => {
+  const started = transactions.filter(t => t.date >= goal.startDate);
+  if (goal.accountId) {
+    const accountId = goal.accountId;
+    return started
+      .filter(t => balanceChange(t, accountId) !== 0)
+      .map(t => ({ ...t, amount: balanceChange(t, accountId) }));
+  }
+  if (!goal.categoryId) return [];
+  const tracked = descendantIds(categories, goal.categoryId);
+  // Split transactions count only with their lines in the tracked categories
+  return started
+    .map(t => ({
+      ...t,
+      amount: categoryShares(t)
+        .filter(share => tracked.has(share.category))
+        .reduce((total, share) => total + share.amount, 0)
+    }))
+    .filter(t => t.amount > 0);
+};
+
+// Progress as of `asOf` from the goal's own contributions and transactions.
+// Months follow the user's monthly budget periods.
+export const goalProgress = (
+  goal: SavingsGoal,
+  contributions: GoalContribution[],
+  transactions: Transaction[],
+  settings: BudgetSettings,
+  asOf: Date = new Date()
+): GoalProgress => {
+  const month = periodWindow('monthly', asOf, settings);
+  const inMonth = (date: Date) => date >= month.start && date < month.end;
+  const sum = <T extends { amount: number }>(items: T[]) => items.reduce((total, item) => total + item.amount, 0);
+
+  const manualContributions = sum(contributions);
+  const automaticContributions = sum(transactions);
+  const saved = manualContributions + automaticContributions;
+  const savedThisMonth = sum(contributions.filter(c => inMonth(c.date))) + sum(transactions.filter(t => inMonth(t.date)));
+  const remaining = Math.max(goal.targetAmount - saved, 0);
+
+  let monthsLeft: number | null = null;
+  let requiredPerMonth: number | null = null;
+  let neededThisMonth: number | null = null;
+  if (goal.deadline) {
+    const last = periodWindow('monthly', goal.deadline, settings);
+    monthsLeft = Math.max(differenceInCalendarMonths(last.start, month.start) + 1, 0);
+    if (monthsLeft > 0) {
+      const remainingAtMonthStart = Math.max(goal.targetAmount - (saved - savedThisMonth), 0);
+      requiredPerMonth = remainingAtMonthStart / monthsLeft;
+      neededThisMonth = Math.max(requiredPerMonth - savedThisMonth, 0);
+    }
+  }
+
+  const status = remaining === 0
+    ? 'completed'
+    : goal.deadline && goal.deadline < asOf ? 'overdue' : 'active';
+
+  return {
+    ...goal,
+    saved: roundCents(saved),
+    manualContributions: roundCents(manualContributions),
+    automaticContributions: roundCents(automaticContributions),
+    remaining: roundCents(remaining),
+    percent: roundCents(Math.max(saved, 0) / goal.targetAmount * 100),
+    monthsLeft,
+    requiredPerMonth: requiredPerMonth === null ? null : roundCents(requiredPerMonth),
+    savedThisMonth: roundCents(savedThisMonth),
+    neededThisMonth: neededThisMonth === null ? null : roundCents(neededThisMonth),
+    status
+  };
+};
+
+export const reachedMilestones = (percent: number) =>
+  GOAL_MILESTONES.filter(milestone => percent >= milestone);
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Notification for the highest milestone reached since the user was last
+// notified, or null when there is none
+export const milestoneNotification = (progress: GoalProgress): Notification | null => {
+  const notified = new Set(progress.notifiedMilestones ?? []);
+  const milestone = reachedMilestones(progress.percent).filter(m => !notified.has(m)).pop();
+  if (milestone === undefined) return null;
+
+  const nudge = progress.neededThisMonth
+    ? ` You're ${formatAmount(progress.neededThisMonth)} away from this month's target.`
+    : '';
+  return {
+    userId: progress.userId,
+    kind: 'goal_milestone',
+    title: milestone === 100 ? `${progress.name} reached!` : `${progress.name}: ${milestone}% saved`,
+    message: `You've saved ${formatAmount(progress.saved)} of ${formatAmount(progress.targetAmount)}.${milestone === 100 ? '' : nudge}`,
+    link: '/dashboard',
+    read: false,
+    createdAt: new Date()
+  };
+};
@@ -0,0 +1,595 @@
+import {
+  applyBatchOperations,
+  batchItemError,
+  budgetSettings,
+  cursorValue,
+  isDeleteBatch,
+  matchesTransactionQuery,
+  rollUpTotals,
+  sumByCategory,
+  summarize,
+  toTransactionPage,
+  usesHierarchy,
+  type Account,
+  type Attachment,
+  type BatchItemResult,
+  type Bill,
+  type Budget,
+  type Category,
+  type CategoryReassignment,
+  type CategoryTotal,
+  type CategoryTotalsOptions,
+  type CategoryTypes,
+  type EnvelopeAllocation,
+  type FinanceRepository,
+  type GoalContribution,
+  type Notification,
+  type Payee,
+  type RecurringRule,
+  type SavingsGoal,
+  type SubscriptionReview,
+  type Transaction,
+  type TransactionCursor,
+  type TransactionPage,
+  type TransactionQuery,
+  type TransactionSortField,
+  type TransactionSummary,
+  type UserProfile
+} from './repository';
+import { planBudgetReassignment } from './budget-periods';
+import type { BatchOperation } from '@shared/validation';
+
+const byDateDesc = (a: Transaction, b: Transaction) => b.date.getTime() - a.date.getTime();
+
+const compareValues = (a: Date | string | number, b: Date | string | number) => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+// Ascending order on the sort field with id as tiebreaker, matching the
+// keyset order used by the database backends
+const compareBy = (field: TransactionSortField) =>
+  (a: Transaction, b: Transaction) =>
+    compareValues(a[field], b[field]) || compareValues(a.id!, b.id!);
+
+const compareToCursor = (t: Transaction, cursor: TransactionCursor, field: TransactionSortField) =>
+  compareValues(t[field], cursorValue(cursor, field)) || compareValues(t.id!, cursor.id);
+
+// In-memory finance store for offline development and tests. Data is lost on
+// restart.
+export class MemFinanceRepository implements FinanceRepository {
+  private profiles: Map<string, UserProfile>;
+  private transactions: Map<string, Transaction>;
+  private attachments: Map<string, Attachment>;
+  private accounts: Map<string, Account>;
+  private payees: Map<string, Payee>;
+  private recurringRules: Map<string, RecurringRule>;
+  private subscriptionReviews: Map<string, SubscriptionReview>;
+  private budgets: Map<string, Budget>;
+  private categories: Map<string, Category>;
+  private allocations: Map<string, EnvelopeAllocation>;
+  private goals: Map<string, SavingsGoal>;
+  private bills: Map<string, Bill>;
+  private contributions: Map<string, GoalContribution>;
+  private notifications: Map<string, Notification>;
+  currentId: number;
+
+  constructor() {
+    this.profiles = new Map();
+    this.transactions = new Map();
+    this.attachments = new Map();
+    this.accounts = new Map();
+    this.payees = new Map();
+    this.recurringRules = new Map();
+    this.subscriptionReviews = new Map();
+    this.budgets = new Map();
+    this.categories = new Map();
+    this.allocations = new Map();
+    this.goals = new Map();
+    this.bills = new Map();
+    this.contributions = new Map();
+    this.notifications = new Map();
+    this.currentId = 1;
+  }
+
+  private nextId(): string {
+    return String(this.currentId++);
+  }
+
+  // User profile operations
+  async createUserProfile(userProfile: UserProfile): Promise<boolean> {
+    if (this.profiles.has(userProfile.uid)) return false;
+    this.profiles.set(userProfile.uid, { ...userProfile, createdAt: new Date() });
+    return true;
+  }
+
+  async getUserProfile(uid: string): Promise<UserProfile | null> {
+    return this.profiles.get(uid) ?? null;
+  }
+
+  async updateUserProfile(uid: string, data: Partial<UserProfile>): Promise<void> {
+    const profile = this.profiles.get(uid);
+    if (!profile) {
+      throw new Error(`User profile ${uid} not found`);
+    }
+    this.profiles.set(uid, { ...profile, ...data, uid });
+  }
+
+  // Transaction operations
+  async getTransactions(userId: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(t => t.userId === userId)
+      .sort(byDateDesc);
+  }
+
+  async queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage> {
+    const { field, direction } = query.sort;
+    const sign = direction === 'asc' ? 1 : -1;
+    const compare = compareBy(field);
+    const cursor = query.cursor;
+
+    const rows = Array.from(this.transactions.values())
+      .filter(t => t.userId === userId && matchesTransactionQuery(t, query))
+      .filter(t => !cursor || sign * compareToCursor(t, cursor, field) > 0)
+      .sort((a, b) => sign * compare(a, b));
+
+    return toTransactionPage(rows.slice(0, query.limit + 1), query);
+  }
+
+  async getTransaction(id: string): Promise<Transaction | null> {
+    return this.transactions.get(id) ?? null;
+  }
+
+  async createTransaction(transaction: Transaction): Promise<string> {
+    const id = this.nextId();
+    this.transactions.set(id, { ...transaction, id, createdAt: new Date() });
+    return id;
+  }
+
+  async updateTransaction(id: string, data: Partial<Transaction>): Promise<void> {
+    const transaction = this.transactions.get(id);
+    if (!transaction) {
+      throw new Error(`Transaction ${id} not found`);
+    }
+    this.transactions.set(id, { ...transaction, ...data, id });
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    this.transactions.delete(id);
+  }
+
+  async batchTransactions(
+    userId: string,
+    ids: string[],
+    operations: BatchOperation[],
+    categoryTypes: CategoryTypes
+  ): Promise<BatchItemResult[]> {
+    const deleting = isDeleteBatch(operations);
+
+    return ids.map(id => {
+      const transaction = this.transactions.get(id);
+      const error = batchItemError(transaction, userId, operations, categoryTypes);
+      if (error) return { id, status: error };
+
+      if (deleting) {
+        this.transactions.delete(id);
+        return { id, status: 'deleted' };
+      }
+
+      this.transactions.set(id, { ...transaction!, ...applyBatchOperations(transaction!, operations) });
+      return { id, status: 'updated' };
+    });
+  }
+
+  // Attachment operations
+  async getAttachments(transactionId: string): Promise<Attachment[]> {
+    return Array.from(this.attachments.values())
+      .filter(a => a.transactionId === transactionId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAttachment(id: string): Promise<Attachment | null> {
+    return this.attachments.get(id) ?? null;
+  }
+
+  async createAttachment(attachment: Attachment): Promise<string> {
+    const id = this.nextId();
+    this.attachments.set(id, { ...attachment, id, createdAt: new Date() });
+    return id;
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    this.attachments.delete(id);
+  }
+
+  // Account operations
+  async getAccounts(userId: string): Promise<Account[]> {
+    return Array.from(this.accounts.values())
+      .filter(a => a.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAccount(id: string): Promise<Account | null> {
+    return this.accounts.get(id) ?? null;
+  }
+
+  async createAccount(account: Account): Promise<string> {
+    const id = this.nextId();
+    this.accounts.set(id, { ...account, id, createdAt: new Date() });
+    return id;
+  }
+
+  async updateAccount(id: string, data: Partial<Account>): Promise<void> {
+    const account = this.accounts.get(id);
+    if (!account) {
+      throw new Error(`Account ${id} not found`);
+    }
+    this.accounts.set(id, { ...account, ...data, id });
+  }
+
+  async deleteAccount(id: string): Promise<void> {
+    this.accounts.delete(id);
+  }
+
+  // Payee operations
+  async getPayees(userId: string): Promise<Payee[]> {
+    return Array.from(this.payees.values())
+      .filter(p => p.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPayee(id: string): Promise<Payee | null> {
+    return this.payees.get(id) ?? null;
+  }
+
+  async createPayee(payee: Payee): Promise<string> {
+    const id = this.nextId();
+    this.payees.set(id, { ...payee, id, createdAt: new Date() });
+    return id;
+  }
+
+  async updatePayee(id: string, data: Partial<Payee>): Promise<void> {
+    const payee = this.payees.get(id);
+    if (!payee) {
+      throw new Error(`Payee ${id} not found`);
+    }
+    this.payees.set(id, { ...payee, ...data, id });
+  }
+
+  async deletePayee(id: string): Promise<void> {
+    this.transactions.forEach((transaction, transactionId) => {
+      if (transaction.payeeId === id) this.transactions.set(transactionId, { ...transaction, payeeId: null });
+    });
+    this.bills.forEach((bill, billId) => {
+      if (bill.payeeId === id) this.bills.set(billId, { ...bill, payeeId: null });
+    });
+    this.payees.delete(id);
+  }
+
+  // Recurring rule operations
+  async getRecurringRules(userId: string): Promise<RecurringRule[]> {
+    return Array.from(this.recurringRules.values())
+      .filter(r => r.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getRecurringRule(id: string): Promise<RecurringRule | null> {
+    return this.recurringRules.get(id) ?? null;
+  }
+
+  async createRecurringRule(rule: RecurringRule): Promise<string> {
+    const id = this.nextId();
+    this.recurringRules.set(id, { ...rule, id, createdAt: new Date() });
+    return id;
+  }
+
+  async updateRecurringRule(id: string, data: Partial<RecurringRule>): Promise<void> {
+    const rule = this.recurringRules.get(id);
+    if (!rule) {
+      throw new Error(`Recurring rule ${id} not found`);
+    }
+    this.recurringRules.set(id, { ...rule, ...data, id });
+  }
+
+  async deleteRecurringRule(id: string): Promise<void> {
+    this.transactions.forEach((transaction, transactionId) => {
+      if (transaction.recurringRuleId === id) {
+        this.transactions.set(transactionId, { ...transaction, recurringRuleId: null });
+      }
+    });
+    this.subscriptionReviews.forEach((review, reviewId) => {
+      if (review.recurringRuleId === id) {
+        this.subscriptionReviews.set(reviewId, { ...review, recurringRuleId: null });
+      }
+    });
+    this.recurringRules.delete(id);
+  }
+
+  async getDueRecurringRules(before: Date): Promise<RecurringRule[]> {
+    return Array.from(this.recurringRules.values())
+      .filter(r => !r.paused && r.nextOccurrence && r.nextOccurrence <= before);
+  }
+
+  async postRecurringOccurrence(ruleId: string, transaction: Transaction, nextOccurrence: Date | null): Promise<boolean> {
+    const posted = Array.from(this.transactions.values())
+      .some(t => t.recurringRuleId === ruleId && t.occurrence === transaction.occurrence);
+    if (!posted) await this.createTransaction(transaction);
+    await this.updateRecurringRule(ruleId, { nextOccurrence });
+    return !posted;
+  }
+
+  // Subscription review operations
+  async getSubscriptionReviews(userId: string): Promise<SubscriptionReview[]> {
+    return Array.from(this.subscriptionReviews.values()).filter(r => r.userId === userId);
+  }
+
+  async createSubscriptionReview(review: SubscriptionReview): Promise<string> {
+    const id = this.nextId();
+    this.subscriptionReviews.set(id, { ...review, id, createdAt: new Date() });
+    return id;
+  }
+
+  async updateSubscriptionReview(id: string, data: Partial<SubscriptionReview>): Promise<void> {
+    const review = this.subscriptionReviews.get(id);
+    if (!review) {
+      throw new Error(`Subscription review ${id} not found`);
+    }
+    this.subscriptionReviews.set(id, { ...review, ...data, id });
+  }
+
+  async deleteSubscriptionReview(id: string): Promise<void> {
+    this.subscriptionReviews.delete(id);
+  }
+
+  // Budget operations
+  async getBudgets(userId: string): Promise<Budget[]> {
+    return Array.from(this.budgets.values()).filter(b => b.userId === userId);
+  }
+
+  async getBudget(id: string): Promise<Budget | null> {
+    return this.budgets.get(id) ?? null;
+  }
+
+  async createBudget(budget: Budget): Promise<string> {
+    const id = this.nextId();
+    this.budgets.set(id, { ...budget, id, createdAt: new Date() });
+    return id;
+  }
+
+  async updateBudget(id: string, data: Partial<Budget>): Promise<void> {
+    const budget = this.budgets.get(id);
+    if (!budget) {
+      throw new Error(`Budget ${id} not found`);
+    }
+    this.budgets.set(id, { ...budget, ...data, id });
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    this.budgets.delete(id);
+  }
+
+  // Envelope operations
+  async getEnvelopeAllocations(userId: string): Promise<EnvelopeAllocation[]> {
+    return Array.from(this.allocations.values()).filter(a => a.userId === userId);
+  }
+
+  async createEnvelopeAllocations(allocations: EnvelopeAllocation[]): Promise<string[]> {
+    return allocations.map(allocation => {
+      const id = this.nextId();
+      this.allocations.set(id, { ...allocation, id, createdAt: new Date() });
+      return id;
+    });
+  }
+
+  // Bill operations
+  async getBills(userId: string): Promise<Bill[]> {
+    return Array.from(this.bills.values())
+      .filter(b => b.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getActiveBills(since: Date): Promise<Bill[]> {
+    return Array.from(this.bills.values())
+      .filter(b => !b.endDate || b.endDate >= since);
+  }
+
+  async getBill(id: string): Promise<Bill | null> {
+    return this.bills.get(id) ?? null;
+  }
+
+  async createBill(bill: Bill): Promise<string> {
+    const id = this.nextId();
+    this.bills.set(id, { ...bill, id, createdAt: new Date() });
+    return id;
+  }
+
+  async updateBill(id: string, data: Partial<Bill>): Promise<void> {
+    const bill = this.bills.get(id);
+    if (!bill) {
+      throw new Error(`Bill ${id} not found`);
+    }
+    this.bills.set(id, { ...bill, ...data, id });
+  }
+
+  async deleteBill(id: string): Promise<void> {
+    this.bills.delete(id);
+  }
+
+  // Savings goal operations
+  async getGoals(userId: string): Promise<SavingsGoal[]> {
+    return Array.from(this.goals.values()).filter(g => g.userId === userId);
+  }
+
+  async getGoal(id: string): Promise<SavingsGoal | null> {
+    return this.goals.get(id) ?? null;
+  }
+
+  async createGoal(goal: SavingsGoal): Promise<string> {
+    const id = this.nextId();
+    this.goals.set(id, { ...goal, id, createdAt: new Date() });
+    return id;
+  }
+
+  async updateGoal(id: string, data: Partial<SavingsGoal>): Promise<void> {
+    const goal = this.goals.get(id);
+    if (!goal) {
+      throw new Error(`Savings goal ${id} not found`);
+    }
+    this.goals.set(id, { ...goal, ...data, id });
+  }
+
+  async deleteGoal(id: string): Promise<void> {
+    this.contributions.forEach((contribution, contributionId) => {
+      if (contribution.goalId === id) this.contributions.delete(contributionId);
+    });
+    this.goals.delete(id);
+  }
+
+  async getGoalContributions(userId: string): Promise<GoalContribution[]> {
+    return Array.from(this.contributions.values()).filter(c => c.userId === userId);
+  }
+
+  async createGoalContribution(contribution: GoalContribution): Promise<string> {
+    const id = this.nextId();
+    this.contributions.set(id, { ...contribution, id, createdAt: new Date() });
+    return id;
+  }
+
+  async deleteGoalContribution(id: string): Promise<void> {
+    this.contributions.delete(id);
+  }
+
+  // Notification operations
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(n => n.userId === userId)
+      .reverse();
+  }
+
+  async createNotification(notification: Notification): Promise<string> {
+    const id = this.nextId();
+    this.notifications.set(id, { ...notification, id, createdAt: new Date() });
+    return id;
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<void> {
+    this.notifications.forEach((notification, id) => {
+      if (notification.userId !== userId || (ids && !ids.includes(id))) return;
+      this.notifications.set(id, { ...notification, read: true });
+    });
+  }
+
+  // Category operations
+  async getCategories(userId: string): Promise<Category[]> {
+    return Array.from(this.categories.values()).filter(c => c.userId === userId);
+  }
+
+  async getCategoriesByType(userId: string, type: 'income' | 'expense'): Promise<Category[]> {
+    return Array.from(this.categories.values()).filter(
+      c => c.userId === userId && c.type === type
+    );
+  }
+
+  async getCategory(id: string): Promise<Category | null> {
+    return this.categories.get(id) ?? null;
+  }
+
+  async createCategory(category: Category): Promise<string> {
+    const id = this.nextId();
+    this.categories.set(id, { ...category, id, createdAt: new Date() });
+    return id;
+  }
+
+  async updateCategory(id: string, data: Partial<Category>): Promise<void> {
+    const category = this.categories.get(id);
+    if (!category) {
+      throw new Error(`Category ${id} not found`);
+    }
+    this.categories.set(id, { ...category, ...data, id });
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    this.categories.delete(id);
+  }
+
+  async reassignCategory(userId: string, sourceId: string, targetId: string): Promise<CategoryReassignment> {
+    let transactionsMoved = 0;
+    this.transactions.forEach((transaction, id) => {
+      if (transaction.userId !== userId) return;
+      const inSplit = transaction.splits?.some(line => line.category === sourceId);
+      if (transaction.category !== sourceId && !inSplit) return;
+      this.transactions.set(id, {
+        ...transaction,
+        category: transaction.category === sourceId ? targetId : transaction.category,
+        splits: inSplit
+          ? transaction.splits!.map(line => line.category === sourceId ? { ...line, category: targetId } : line)
+          : transaction.splits
+      });
+      transactionsMoved++;
+    });
+
+    const settings = budgetSettings(await this.getUserProfile(userId));
+    const plan = planBudgetReassignment(await this.getBudgets(userId), sourceId, targetId, settings);
+    plan.moved.forEach(id => this.budgets.set(id, { ...this.budgets.get(id)!, category: targetId }));
+    plan.merged.forEach((merged, id) => this.budgets.set(id, { ...this.budgets.get(id)!, ...merged }));
+    plan.removed.forEach(id => this.budgets.delete(id));
+
+    this.allocations.forEach((allocation, id) => {
+      if (allocation.userId !== userId) return;
+      if (allocation.category === sourceId) allocation = { ...allocation, category: targetId };
+      if (allocation.fromCategory === sourceId) allocation = { ...allocation, fromCategory: targetId };
+      this.allocations.set(id, allocation);
+    });
+
+    this.goals.forEach((goal, id) => {
+      if (goal.userId === userId && goal.categoryId === sourceId) this.goals.set(id, { ...goal, categoryId: targetId });
+    });
+
+    this.payees.forEach((payee, id) => {
+      if (payee.userId === userId && payee.defaultCategory === sourceId) {
+        this.payees.set(id, { ...payee, defaultCategory: targetId });
+      }
+    });
+
+    this.recurringRules.forEach((rule, id) => {
+      if (rule.userId === userId && rule.category === sourceId) {
+        this.recurringRules.set(id, { ...rule, category: targetId });
+      }
+    });
+
+    // Subcategories move up to the removed category's parent
+    const parentId = this.categories.get(sourceId)?.parentId ?? null;
+    this.categories.forEach((category, id) => {
+      if (category.parentId === sourceId) this.categories.set(id, { ...category, parentId });
+    });
+
+    this.categories.delete(sourceId);
+    return { transactionsMoved, budgetsMoved: plan.moved.length, budgetsMerged: plan.removed.length };
+  }
+
+  // Analytics operations
+  async getTransactionsByPeriod(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Transaction[]> {
+    const transactions = await this.getTransactions(userId);
+    return transactions.filter(t => t.date >= startDate && t.date <= endDate);
+  }
+
+  async getTotalsByCategory(
+    userId: string,
+    type: 'income' | 'expense',
+    startDate: Date,
+    endDate: Date,
+    options: CategoryTotalsOptions = {}
+  ): Promise<CategoryTotal[]> {
+    const transactions = await this.getTransactionsByPeriod(userId, startDate, endDate);
+    const totals = sumByCategory(transactions, type);
+    return usesHierarchy(options) ? rollUpTotals(totals, await this.getCategories(userId), options) : totals;
+  }
+
+  async getTransactionSummary(userId: string): Promise<TransactionSummary> {
+    return summarize(await this.getTransactions(userId));
+  }
+}
@@ -0,0 +1,65 @@
+import type { Request as ExpressRequest, Response, NextFunction } from "express";
+import { z } from "zod";
+
+// Extend the Request type to include user property
+export interface Request extends ExpressRequest {
+  user?: {
+    uid: string;
+  };
+}
+
+// Validate and replace req.body with the parsed payload, responding with the
+// same 400 shape the /users route uses for a ZodError
+export const validateBody = (schema: z.ZodTypeAny) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Validation error", errors: result.error.errors });
+    }
+
+    req.body = result.data;
+    next();
+  };
+
+// Validate req.query, exposing the parsed result as res.locals.query
+export const validateQuery = (schema: z.ZodTypeAny) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: "Validation error", errors: result.error.errors });
+    }
+
+    res.locals.query = result.data;
+    next();
+  };
+
+interface OwnedResource {
+  userId: string;
+}
+
+// Load the resource named by req.params.id and only continue if it belongs to
+// the authenticated user. Missing resources are 404, other users' are 403.
+// The loaded resource is exposed to the handler as res.locals.resource.
+export const requireOwnership = <T extends OwnedResource>(
+  load: (id: string) => Promise<T | null>,
+  resourceName: string
+) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const label = resourceName.toLowerCase();
+    try {
+      const resource = await load(req.params.id);
+
+      if (!resource) {
+        return res.status(404).json({ message: `${resourceName} not found` });
+      }
+
+      if (!req.user || resource.userId !== req.user.uid) {
+        return res.status(403).json({ message: `Not authorized to access this ${label}` });
+      }
+
+      res.locals.resource = resource;
+      next();
+    } catch (error: any) {
+      res.status(500).json({ message: `Failed to fetch ${label}`, error: error.message });
+    }
+  };
@@ -0,0 +1,452 @@
+import express from "express";
+import request from "supertest";
+import { beforeAll, describe, expect, it } from "vitest";
+import { registerRoutes } from "./routes";
+import { MemFinanceRepository } from "./memory";
+import { DevTokenVerifier } from "./token-verifier";
+import type { AttachmentStore } from "./attachment-store";
+import { UNCATEGORIZED } from "@shared/validation";
+
+// Attachment files kept in a Map for the duration of the tests
+class MemAttachmentStore implements AttachmentStore {
+  private files = new Map<string, Buffer>();
+
+  async save(key: string, data: Buffer): Promise<void> {
+    this.files.set(key, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    return this.files.get(key) ?? null;
+  }
+
+  async remove(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+}
+
+type Method = "get" | "post" | "put" | "delete";
+
+// Alice owns every resource; Bob tries to reach them. Dev tokens are the
+// user id itself.
+const ALICE = "alice";
+const BOB = "bob";
+const UNKNOWN_ID = "999999";
+
+let app: express.Express;
+let repository: MemFinanceRepository;
+
+const send = (user: string, method: Method, path: string, body?: object) => {
+  const pending = request(app)[method](`/api${path}`).set("Authorization", `Bearer ${user}`);
+  return body ? pending.send(body) : pending;
+};
+
+// Ids of Alice's resources, filled in before the tests run
+const ids = {
+  transaction: "",
+  account: "",
+  otherAccount: "",
+  category: "",
+  otherCategory: "",
+  payee: "",
+  budget: "",
+  goal: "",
+  contribution: "",
+  recurringRule: "",
+  bill: "",
+  attachment: "",
+  notification: ""
+};
+
+const created = async (user: string, path: string, body: object) => {
+  const res = await send(user, "post", path, body);
+  expect(res.status).toBe(201);
+  return res.body;
+};
+
+beforeAll(async () => {
+  repository = new MemFinanceRepository();
+  app = express();
+  app.use(express.json());
+  await registerRoutes(app, {
+    repository,
+    attachmentStore: new MemAttachmentStore(),
+    tokenVerifier: new DevTokenVerifier()
+  });
+
+  // The first request seeds Alice's default categories
+  const categories = (await send(ALICE, "get", "/categories")).body;
+  const expenses = categories.filter((category: { type: string }) => category.type === "expense");
+  ids.category = expenses[0].id;
+  ids.otherCategory = expenses[1].id;
+
+  ids.account = (await created(ALICE, "/accounts", { name: "Checking", type: "bank" })).id;
+  ids.otherAccount = (await created(ALICE, "/accounts", { name: "Savings", type: "savings" })).id;
+  ids.payee = (await created(ALICE, "/payees", { name: "Corner Grocer" })).id;
+  ids.transaction = (await created(ALICE, "/transactions", {
+    description: "Weekly groceries",
+    amount: 42.5,
+    category: ids.category,
+    date: "2026-10-01",
+    type: "expense",
+    accountId: ids.account,
+    payeeId: ids.payee
+  })).id;
+  ids.budget = (await created(ALICE, "/budgets", { category: ids.category, amount: 300, period: "monthly" })).id;
+  ids.goal = (await created(ALICE, "/goals", { name: "Holiday", targetAmount: 1000 })).id;
+  await created(ALICE, `/goals/${ids.goal}/contributions`, { amount: 50 });
+  ids.contribution = (await send(ALICE, "get", `/goals/${ids.goal}/contributions`)).body[0].id;
+  ids.recurringRule = (await created(ALICE, "/recurring", {
+    description: "Monthly rent",
+    amount: 1200,
+    type: "expense",
+    category: ids.category,
+    frequency: "monthly",
+    startDate: "2099-01-01"
+  })).id;
+  ids.bill = (await created(ALICE, "/bills", {
+    name: "Electricity",
+    amount: 80,
+    frequency: "monthly",
+    dueDate: "2099-01-15"
+  })).id;
+
+  const upload = await request(app)
+    .post(`/api/transactions/${ids.transaction}/attachments`)
+    .set("Authorization", `Bearer ${ALICE}`)
+    .attach("file", Buffer.from("%PDF-1.4\n%%EOF\n"), "receipt.pdf");
+  expect(upload.status).toBe(201);
+  ids.attachment = upload.body.id;
+
+  ids.notification = await repository.createNotification({
+    userId: ALICE,
+    kind: "goal_milestone",
+    title: "Halfway there",
+    message: "Holiday is 50% funded",
+    link: "/goals",
+    read: false,
+    createdAt: new Date()
+  });
+});
+
+interface GuardedRoute {
+  method: Method;
+  path: (id: string) => string;
+  body?: object;
+}
+
+interface GuardedResource {
+  // As named in the 404 message
+  name: string;
+  id: () => string;
+  routes: GuardedRoute[];
+}
+
+const route = (method: Method, path: (id: string) => string, body?: object): GuardedRoute => ({ method, path, body });
+
+// Every route that addresses one of these resources by id
+const guarded: GuardedResource[] = [
+  {
+    name: "Transaction",
+    id: () => ids.transaction,
+    routes: [
+      route("get", id => `/transactions/${id}`),
+      route("put", id => `/transactions/${id}`, { amount: 1 }),
+      route("delete", id => `/transactions/${id}`),
+      route("put", id => `/transfers/${id}`, { amount: 1 }),
+      route("get", id => `/transactions/${id}/attachments`)
+    ]
+  },
+  {
+    name: "Category",
+    id: () => ids.category,
+    routes: [
+      route("put", id => `/categories/${id}`, { name: "Mine now" }),
+      route("delete", id => `/categories/${id}?reassignTo=${UNCATEGORIZED}`),
+      route("post", id => `/categories/${id}/merge`, { targetId: ids.otherCategory })
+    ]
+  },
+  {
+    name: "Budget",
+    id: () => ids.budget,
+    routes: [
+      route("get", id => `/budgets/${id}`),
+      route("get", id => `/budgets/${id}/history`),
+      route("put", id => `/budgets/${id}`, { amount: 1 }),
+      route("delete", id => `/budgets/${id}`)
+    ]
+  },
+  {
+    name: "Account",
+    id: () => ids.account,
+    routes: [
+      route("get", id => `/accounts/${id}/register`),
+      route("put", id => `/accounts/${id}`, { name: "Mine now" }),
+      route("delete", id => `/accounts/${id}`)
+    ]
+  },
+  {
+    name: "Savings goal",
+    id: () => ids.goal,
+    routes: [
+      route("put", id => `/goals/${id}`, { targetAmount: 1 }),
+      route("delete", id => `/goals/${id}`),
+      route("get", id => `/goals/${id}/contributions`),
+      route("post", id => `/goals/${id}/contributions`, { amount: -50 }),
+      route("delete", id => `/goals/${id}/contributions/${ids.contribution}`)
+    ]
+  },
+  {
+    name: "Payee",
+    id: () => ids.payee,
+    routes: [
+      route("put", id => `/payees/${id}`, { name: "Mine now" }),
+      route("delete", id => `/payees/${id}`)
+    ]
+  },
+  {
+    name: "Recurring rule",
+    id: () => ids.recurringRule,
+    routes: [
+      route("put", id => `/recurring/${id}`, { amount: 1 }),
+      route("delete", id => `/recurring/${id}`),
+      route("get", id => `/recurring/${id}/occurrences`),
+      route("post", id => `/recurring/${id}/skips`, { occurrence: "2099-01-01" }),
+      route("delete", id => `/recurring/${id}/skips/2099-01-01`)
+    ]
+  },
+  {
+    name: "Bill",
+    id: () => ids.bill,
+    routes: [
+      route("put", id => `/bills/${id}`, { amount: 1 }),
+      route("delete", id => `/bills/${id}`),
+      route("post", id => `/bills/${id}/payments`, { dueDate: "2099-01-15" }),
+      route("delete", id => `/bills/${id}/payments/2099-01-15`)
+    ]
+  }
+];
+
+// Everything Alice can read about her resources, to show nothing changed
+const aliceSnapshot = async () => {
+  const paths = [
+    `/transactions/${ids.transaction}`,
+    `/transactions/${ids.transaction}/attachments`,
+    `/budgets/${ids.budget}`,
+    `/goals/${ids.goal}/contributions`,
+    `/recurring/${ids.recurringRule}/occurrences`,
+    "/categories",
+    "/accounts",
+    "/payees",
+    "/goals",
+    "/recurring",
+    "/bills"
+  ];
+  const responses = await Promise.all(paths.map(path => send(ALICE, "get", path)));
+  return responses.map(res => ({ status: res.status, body: res.body }));
+};
+
+describe("resource ownership", () => {
+  let before: Awaited<ReturnType<typeof aliceSnapshot>>;
+
+  beforeAll(async () => {
+    before = await aliceSnapshot();
+  });
+
+  describe.each(guarded)("$name routes", ({ name, id, routes }) => {
+    it.each(routes)("$method $path answers 403 for another user's resource", async ({ method, path, body }) => {
+      const res = await send(BOB, method, path(id()), body);
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe(`Not authorized to access this ${name.toLowerCase()}`);
+    });
+
+    it.each(routes)("$method $path answers 404 for an unknown id", async ({ method, path, body }) => {
+      for (const user of [ALICE, BOB]) {
+        const res = await send(user, method, path(UNKNOWN_ID), body);
+        expect(res.status).toBe(404);
+        expect(res.body.message).toBe(`${name} not found`);
+      }
+    });
+  });
+
+  describe("attachments", () => {
+    const attachmentPaths = [
+      (transactionId: string, attachmentId: string) => ["get", `/transactions/${transactionId}/attachments/${attachmentId}`],
+      (transactionId: string, attachmentId: string) => ["get", `/transactions/${transactionId}/attachments/${attachmentId}/thumbnail`],
+      (transactionId: string, attachmentId: string) => ["delete", `/transactions/${transactionId}/attachments/${attachmentId}`]
+    ] as ((transactionId: string, attachmentId: string) => [Method, string])[];
+
+    it("answers 403 for another user's attachment", async () => {
+      for (const paths of attachmentPaths) {
+        const [method, path] = paths(ids.transaction, ids.attachment);
+        expect((await send(BOB, method, path)).status).toBe(403);
+      }
+      const upload = await request(app)
+        .post(`/api/transactions/${ids.transaction}/attachments`)
+        .set("Authorization", `Bearer ${BOB}`)
+        .attach("file", Buffer.from("%PDF-1.4\n%%EOF\n"), "forged.pdf");
+      expect(upload.status).toBe(403);
+    });
+
+    it("answers 404 for an unknown attachment or transaction", async () => {
+      for (const paths of attachmentPaths) {
+        const [method, path] = paths(ids.transaction, UNKNOWN_ID);
+        expect((await send(ALICE, method, path)).status).toBe(404);
+
+        const [otherMethod, otherPath] = paths(UNKNOWN_ID, ids.attachment);
+        expect((await send(BOB, otherMethod, otherPath)).status).toBe(404);
+      }
+    });
+
+    it("does not reach an attachment through another transaction", async () => {
+      const other = await created(BOB, "/transactions", {
+        description: "Bob's lunch",
+        amount: 12,
+        category: UNCATEGORIZED,
+        date: "2026-10-02",
+        type: "expense"
+      });
+      const res = await send(BOB, "get", `/transactions/${other.id}/attachments/${ids.attachment}`);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("batch endpoints", () => {
+    it("skips another user's and unknown transactions in a batch update", async () => {
+      const res = await send(BOB, "post", "/transactions/batch", {
+        ids: [ids.transaction, UNKNOWN_ID],
+        operations: [{ action: "recategorize", category: UNCATEGORIZED }, { action: "addTags", tags: ["mine"] }]
+      });
+      expect(res.status).toBe(200);
+      expect(res.body.results).toEqual([
+        { id: ids.transaction, status: "forbidden" },
+        { id: UNKNOWN_ID, status: "not_found" }
+      ]);
+      expect(res.body).toMatchObject({ updated: 0, deleted: 0, failed: 2 });
+    });
+
+    it("skips another user's transactions in a batch delete", async () => {
+      const res = await send(BOB, "post", "/transactions/batch", {
+        ids: [ids.transaction],
+        operations: [{ action: "delete" }]
+      });
+      expect(res.body.results).toEqual([{ id: ids.transaction, status: "forbidden" }]);
+      expect((await send(ALICE, "get", `/transactions/${ids.transaction}`)).status).toBe(200);
+    });
+
+    it("only marks the user's own notifications read", async () => {
+      await send(BOB, "post", "/notifications/read", { ids: [ids.notification] });
+      await send(BOB, "post", "/notifications/read", {});
+      const [notification] = await repository.getNotifications(ALICE);
+      expect(notification.read).toBe(false);
+    });
+
+    it("only updates the user's own budgets in a bulk create", async () => {
+      const bobCategories = (await send(BOB, "get", "/categories")).body;
+      const bobCategory = bobCategories.find((category: { type: string }) => category.type === "expense").id;
+      const res = await send(BOB, "post", "/budgets/bulk", {
+        budgets: [{ category: bobCategory, amount: 5, period: "monthly" }]
+      });
+      expect(res.body).toEqual({ created: 1, updated: 0 });
+    });
+  });
+
+  describe("references in request bodies", () => {
+    const transaction = { description: "Sneaky purchase", amount: 10, date: "2026-10-03", type: "expense" };
+    const rule = { description: "Sneaky rule", amount: 10, type: "expense", frequency: "monthly", startDate: "2099-01-01" };
+
+    it.each([
+      ["an account", () => ({ ...transaction, category: UNCATEGORIZED, accountId: ids.account }), "Account not found"],
+      ["a payee", () => ({ ...transaction, category: UNCATEGORIZED, payeeId: ids.payee }), "Payee not found"],
+      ["a category", () => ({ ...transaction, category: ids.category }), "Category not found"],
+      [
+        "a split line category",
+        () => ({
+          ...transaction,
+          category: UNCATEGORIZED,
+          splits: [{ category: UNCATEGORIZED, amount: 5 }, { category: ids.category, amount: 5 }]
+        }),
+        "Category not found"
+      ]
+    ])("rejects a transaction with another user's %s", async (_label, body, message) => {
+      const res = await send(BOB, "post", "/transactions", body());
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe(message);
+    });
+
+    it("rejects a transfer between another user's accounts", async () => {
+      const res = await send(BOB, "post", "/transfers", {
+        amount: 10,
+        date: "2026-10-03",
+        fromAccountId: ids.account,
+        toAccountId: ids.otherAccount
+      });
+      expect(res.status).toBe(400);
+    });
+
+    it("rejects batch recategorizing into another user's category", async () => {
+      const own = await created(BOB, "/transactions", { ...transaction, category: UNCATEGORIZED });
+      const res = await send(BOB, "post", "/transactions/batch", {
+        ids: [own.id],
+        operations: [{ action: "recategorize", category: ids.category }]
+      });
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe("Category not found");
+    });
+
+    it.each([
+      ["a budget", "/budgets", () => ({ category: ids.category, amount: 5, period: "monthly" })],
+      ["bulk budgets", "/budgets/bulk", () => ({ budgets: [{ category: ids.category, amount: 5, period: "monthly" }] })],
+      [
+        "a recurring rule",
+        "/recurring",
+        () => ({ ...rule, category: ids.category })
+      ]
+    ])("rejects %s for another user's category", async (_label, path, body) => {
+      const res = await send(BOB, "post", path, body());
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe("Category not found");
+    });
+
+    it("rejects moving a budget or recurring rule into another user's category", async () => {
+      const bobCategories = (await send(BOB, "get", "/categories")).body;
+      const bobCategory = bobCategories.find((category: { type: string }) => category.type === "expense").id;
+      const budget = await created(BOB, "/budgets", { category: bobCategory, amount: 5, period: "weekly" });
+      const ownRule = await created(BOB, "/recurring", { ...rule, category: bobCategory });
+
+      for (const path of [`/budgets/${budget.id}`, `/recurring/${ownRule.id}`]) {
+        const res = await send(BOB, "put", path, { category: ids.category });
+        expect(res.status).toBe(400);
+        expect(res.body.message).toBe("Category not found");
+      }
+    });
+
+    it("rejects a goal linked to another user's category", async () => {
+      const res = await send(BOB, "post", "/goals", { name: "Borrowed", targetAmount: 10, categoryId: ids.category });
+      expect(res.status).toBe(400);
+    });
+
+    it("rejects a bill paid from another user's account", async () => {
+      const res = await send(BOB, "post", "/bills", {
+        name: "Phone",
+        amount: 30,
+        frequency: "monthly",
+        dueDate: "2099-01-01",
+        accountId: ids.account
+      });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  it("lists none of another user's resources", async () => {
+    const transactions = await send(BOB, "get", "/transactions");
+    expect(transactions.body.items.map((t: { id: string }) => t.id)).not.toContain(ids.transaction);
+    for (const path of ["/accounts", "/payees", "/budgets", "/goals", "/recurring", "/bills", "/notifications"]) {
+      const res = await send(BOB, "get", path);
+      expect(JSON.stringify(res.body)).not.toMatch(/Checking|Corner Grocer|Holiday|Monthly rent|Electricity|Halfway there/);
+    }
+  });
+
+  it("leaves the owner's resources unchanged", async () => {
+    expect(await aliceSnapshot()).toEqual(before);
+  });
+});
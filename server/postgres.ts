@@ -0,0 +1,874 @@
+import { and, arrayContains, asc, count, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, or, sql, sum, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import {
+  accounts,
+  attachments,
+  bills,
+  budgets,
+  categories,
+  envelopeAllocations,
+  goalContributions,
+  notifications,
+  payees,
+  recurringRules,
+  savingsGoals,
+  subscriptionReviews,
+  transactions,
+  userProfiles
+} from '@shared/schema';
+import {
+  applyBatchOperations,
+  batchItemError,
+  budgetSettings,
+  cursorValue,
+  isDeleteBatch,
+  rollUpTotals,
+  searchTerms,
+  sumByCategory,
+  toTransactionPage,
+  usesHierarchy,
+  type Account,
+  type Attachment,
+  type BatchItemResult,
+  type Bill,
+  type Budget,
+  type Category,
+  type CategoryReassignment,
+  type CategoryTotal,
+  type CategoryTotalsOptions,
+  type CategoryTypes,
+  type EnvelopeAllocation,
+  type FinanceRepository,
+  type GoalContribution,
+  type Notification,
+  type Payee,
+  type RecurringRule,
+  type SavingsGoal,
+  type SubscriptionReview,
+  type Transaction,
+  type TransactionPage,
+  type TransactionQuery,
+  type TransactionSummary,
+  type UserProfile
+} from './repository';
+import { planBudgetReassignment } from './budget-periods';
+import type { BatchOperation } from '@shared/validation';
+
+type TransactionRow = typeof transactions.$inferSelect;
+type AccountRow = typeof accounts.$inferSelect;
+type BudgetRow = typeof budgets.$inferSelect;
+type ProfileRow = typeof userProfiles.$inferSelect;
+type CategoryRow = typeof categories.$inferSelect;
+type AllocationRow = typeof envelopeAllocations.$inferSelect;
+type GoalRow = typeof savingsGoals.$inferSelect;
+type RecurringRuleRow = typeof recurringRules.$inferSelect;
+type ContributionRow = typeof goalContributions.$inferSelect;
+type BillRow = typeof bills.$inferSelect;
+
+// Postgres stores amounts as numeric, which the driver returns as strings
+const toTransaction = (row: TransactionRow): Transaction => ({
+  ...row,
+  amount: Number(row.amount)
+});
+
+const toAccount = (row: AccountRow): Account => ({
+  ...row,
+  openingBalance: Number(row.openingBalance),
+  creditLimit: row.creditLimit === null ? null : Number(row.creditLimit)
+});
+
+// Serialize the account fields stored as numeric
+const toAccountColumns = ({ openingBalance, creditLimit }: Partial<Account>) => {
+  const columns: { openingBalance?: string; creditLimit?: string | null } = {};
+  if (openingBalance !== undefined) columns.openingBalance = String(openingBalance);
+  if (creditLimit !== undefined) {
+    columns.creditLimit = creditLimit === null ? null : String(creditLimit);
+  }
+  return columns;
+};
+
+const toBudget = (row: BudgetRow): Budget => ({
+  ...row,
+  amount: Number(row.amount),
+  rolloverCap: row.rolloverCap === null ? null : Number(row.rolloverCap),
+  amountHistory: row.amountHistory.map(change => ({
+    effectiveFrom: new Date(change.effectiveFrom),
+    amount: change.amount
+  }))
+});
+
+// Serialize the budget fields stored as numeric and jsonb
+const toBudgetColumns = ({ rolloverCap, amountHistory }: Partial<Budget>) => {
+  const columns: { rolloverCap?: string | null; amountHistory?: BudgetRow['amountHistory'] } = {};
+  if (rolloverCap !== undefined) {
+    columns.rolloverCap = rolloverCap === null ? null : String(rolloverCap);
+  }
+  if (amountHistory) {
+    columns.amountHistory = amountHistory.map(change => ({
+      effectiveFrom: change.effectiveFrom.toISOString(),
+      amount: change.amount
+    }));
+  }
+  return columns;
+};
+
+const toRecurringRule = (row: RecurringRuleRow): RecurringRule => ({
+  ...row,
+  amount: Number(row.amount)
+});
+
+const toBill = (row: BillRow): Bill => ({
+  ...row,
+  amount: Number(row.amount),
+  payments: row.payments.map(payment => ({ ...payment, paidAt: new Date(payment.paidAt) }))
+});
+
+// Serialize the bill payments stored as jsonb
+const toBillColumns = ({ payments }: Partial<Bill>) => {
+  const columns: { payments?: BillRow['payments'] } = {};
+  if (payments) {
+    columns.payments = payments.map(payment => ({ ...payment, paidAt: payment.paidAt.toISOString() }));
+  }
+  return columns;
+};
+
+const toEnvelopeAllocation = (row: AllocationRow): EnvelopeAllocation => ({
+  ...row,
+  amount: Number(row.amount)
+});
+
+const toSavingsGoal = (row: GoalRow): SavingsGoal => ({
+  ...row,
+  targetAmount: Number(row.targetAmount)
+});
+
+const toGoalContribution = (row: ContributionRow): GoalContribution => ({
+  ...row,
+  amount: Number(row.amount)
+});
+
+const toCategory = (row: CategoryRow): Category => ({
+  ...row,
+  color: row.color ?? undefined,
+  icon: row.icon ?? undefined
+});
+
+const toUserProfile = (row: ProfileRow): UserProfile => ({
+  uid: row.uid,
+  email: row.email,
+  displayName: row.displayName ?? undefined,
+  photoURL: row.photoURL ?? undefined,
+  weekStartsOn: row.weekStartsOn,
+  monthStartDay: row.monthStartDay,
+  createdAt: row.createdAt
+});
+
+// Strip fields the database owns and serialize amounts for numeric columns
+const toUpdateSet = <T extends { id?: string; userId?: string; createdAt?: Date; amount?: number }>(
+  data: Partial<T>
+): Record<string, unknown> => {
+  const { id, userId, createdAt, amount, ...rest } = data;
+  return amount === undefined ? rest : { ...rest, amount: String(amount) };
+};
+
+const sortColumns = {
+  date: transactions.date,
+  amount: transactions.amount,
+  category: transactions.category,
+  type: transactions.type
+};
+
+// Numeric columns are compared as strings to keep full precision
+const sqlValue = (value: Date | string | number) =>
+  typeof value === 'number' ? String(value) : value;
+
+// Ids that are not UUIDs cannot exist and would make Postgres reject the query
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Escape LIKE wildcards so search terms match literally
+const likePattern = (term: string) => `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+
+export class PgFinanceRepository implements FinanceRepository {
+  // User profile operations
+  async createUserProfile(userProfile: UserProfile): Promise<boolean> {
+    const { createdAt, ...profile } = userProfile;
+    const inserted = await db
+      .insert(userProfiles)
+      .values(profile)
+      .onConflictDoNothing()
+      .returning({ uid: userProfiles.uid });
+    return inserted.length > 0;
+  }
+
+  async getUserProfile(uid: string): Promise<UserProfile | null> {
+    const [row] = await db.select().from(userProfiles).where(eq(userProfiles.uid, uid));
+    return row ? toUserProfile(row) : null;
+  }
+
+  async updateUserProfile(uid: string, data: Partial<UserProfile>): Promise<void> {
+    const { uid: _uid, createdAt, ...set } = data;
+    if (Object.keys(set).length === 0) return;
+    await db.update(userProfiles).set(set).where(eq(userProfiles.uid, uid));
+  }
+
+  // Transaction operations
+  async getTransactions(userId: string): Promise<Transaction[]> {
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.userId, userId))
+      .orderBy(desc(transactions.date));
+    return rows.map(toTransaction);
+  }
+
+  async queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage> {
+    // Filters and cursors naming ids that cannot exist match nothing
+    const ids = [query.accountId, query.payeeId, query.cursor?.id].filter((id): id is string => !!id);
+    if (!ids.every(id => UUID_PATTERN.test(id))) return { items: [], nextCursor: null };
+
+    const column = sortColumns[query.sort.field];
+    const ascending = query.sort.direction === 'asc';
+    const conditions: (SQL | undefined)[] = [eq(transactions.userId, userId)];
+
+    if (query.type) conditions.push(eq(transactions.type, query.type));
+    if (query.category) {
+      const splitLine = JSON.stringify([{ category: query.category }]);
+      conditions.push(or(eq(transactions.category, query.category), sql`${transactions.splits} @> ${splitLine}::jsonb`));
+    }
+    if (query.accountId) {
+      conditions.push(or(eq(transactions.accountId, query.accountId), eq(transactions.transferAccountId, query.accountId)));
+    }
+    if (query.tag) conditions.push(arrayContains(transactions.tags, [query.tag]));
+    if (query.payeeId) conditions.push(eq(transactions.payeeId, query.payeeId));
+    if (query.minAmount !== undefined) conditions.push(gte(transactions.amount, String(query.minAmount)));
+    if (query.maxAmount !== undefined) conditions.push(lte(transactions.amount, String(query.maxAmount)));
+    if (query.from) conditions.push(gte(transactions.date, query.from));
+    if (query.to) conditions.push(lte(transactions.date, query.to));
+    if (query.q) {
+      searchTerms(query.q).forEach(term => {
+        conditions.push(ilike(transactions.description, likePattern(term)));
+      });
+    }
+
+    // Keyset pagination: rows strictly after the cursor in (sort field, id) order
+    if (query.cursor) {
+      const value = sqlValue(cursorValue(query.cursor, query.sort.field));
+      const after = ascending ? gt : lt;
+      conditions.push(or(
+        after(column, value),
+        and(eq(column, value), after(transactions.id, query.cursor.id))
+      ));
+    }
+
+    const order = ascending ? asc : desc;
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(and(...conditions))
+      .orderBy(order(column), order(transactions.id))
+      .limit(query.limit + 1);
+
+    return toTransactionPage(rows.map(toTransaction), query);
+  }
+
+  async getTransaction(id: string): Promise<Transaction | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    const [row] = await db.select().from(transactions).where(eq(transactions.id, id));
+    return row ? toTransaction(row) : null;
+  }
+
+  async createTransaction(transaction: Transaction): Promise<string> {
+    const { id, createdAt, ...data } = transaction;
+    const [row] = await db
+      .insert(transactions)
+      .values({ ...data, amount: String(data.amount) })
+      .returning({ id: transactions.id });
+    return row.id;
+  }
+
+  async updateTransaction(id: string, data: Partial<Transaction>): Promise<void> {
+    const set = toUpdateSet(data);
+    if (Object.keys(set).length === 0) return;
+    await db.update(transactions).set(set).where(eq(transactions.id, id));
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    await db.delete(transactions).where(eq(transactions.id, id));
+  }
+
+  async batchTransactions(
+    userId: string,
+    ids: string[],
+    operations: BatchOperation[],
+    categoryTypes: CategoryTypes
+  ): Promise<BatchItemResult[]> {
+    const deleting = isDeleteBatch(operations);
+    const validIds = ids.filter(id => UUID_PATTERN.test(id));
+
+    return db.transaction(async (tx) => {
+      const rows = validIds.length === 0 ? [] : await tx
+        .select()
+        .from(transactions)
+        .where(inArray(transactions.id, validIds))
+        .for('update');
+      const byId = new Map(rows.map(row => [row.id, toTransaction(row)]));
+
+      const results = ids.map((id): BatchItemResult => {
+        const error = batchItemError(byId.get(id), userId, operations, categoryTypes);
+        return error ? { id, status: error } : { id, status: deleting ? 'deleted' : 'updated' };
+      });
+      const ownedIds = results.filter(result => result.status === 'deleted' || result.status === 'updated')
+        .map(result => result.id);
+
+      if (deleting) {
+        if (ownedIds.length > 0) {
+          await tx.delete(transactions).where(inArray(transactions.id, ownedIds));
+        }
+        return results;
+      }
+
+      // Each row may change differently (added tags, shifted dates)
+      for (const id of ownedIds) {
+        const set = toUpdateSet(applyBatchOperations(byId.get(id)!, operations));
+        await tx.update(transactions).set(set).where(eq(transactions.id, id));
+      }
+      return results;
+    });
+  }
+
+  // Attachment operations
+  async getAttachments(transactionId: string): Promise<Attachment[]> {
+    return db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.transactionId, transactionId))
+      .orderBy(asc(attachments.createdAt));
+  }
+
+  async getAttachment(id: string): Promise<Attachment | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    const [row] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return row ?? null;
+  }
+
+  async createAttachment(attachment: Attachment): Promise<string> {
+    const { id, createdAt, ...data } = attachment;
+    const [row] = await db.insert(attachments).values(data).returning({ id: attachments.id });
+    return row.id;
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    await db.delete(attachments).where(eq(attachments.id, id));
+  }
+
+  // Account operations
+  async getAccounts(userId: string): Promise<Account[]> {
+    const rows = await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.userId, userId))
+      .orderBy(asc(accounts.createdAt));
+    return rows.map(toAccount);
+  }
+
+  async getAccount(id: string): Promise<Account | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    const [row] = await db.select().from(accounts).where(eq(accounts.id, id));
+    return row ? toAccount(row) : null;
+  }
+
+  async createAccount(account: Account): Promise<string> {
+    const { id, createdAt, openingBalance, creditLimit, ...data } = account;
+    const [row] = await db
+      .insert(accounts)
+      .values({ ...data, ...toAccountColumns({ openingBalance, creditLimit }) })
+      .returning({ id: accounts.id });
+    return row.id;
+  }
+
+  async updateAccount(id: string, data: Partial<Account>): Promise<void> {
+    const { id: _id, userId, createdAt, openingBalance, creditLimit, ...rest } = data;
+    const set = { ...rest, ...toAccountColumns({ openingBalance, creditLimit }) };
+    if (Object.keys(set).length === 0) return;
+    await db.update(accounts).set(set).where(eq(accounts.id, id));
+  }
+
+  async deleteAccount(id: string): Promise<void> {
+    await db.delete(accounts).where(eq(accounts.id, id));
+  }
+
+  // Payee operations
+  async getPayees(userId: string): Promise<Payee[]> {
+    return db.select().from(payees).where(eq(payees.userId, userId)).orderBy(asc(payees.name));
+  }
+
+  async getPayee(id: string): Promise<Payee | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    const [row] = await db.select().from(payees).where(eq(payees.id, id));
+    return row ?? null;
+  }
+
+  async createPayee(payee: Payee): Promise<string> {
+    const { id, createdAt, ...data } = payee;
+    const [row] = await db.insert(payees).values(data).returning({ id: payees.id });
+    return row.id;
+  }
+
+  async updatePayee(id: string, data: Partial<Payee>): Promise<void> {
+    const { id: _id, userId, createdAt, ...set } = data;
+    if (Object.keys(set).length === 0) return;
+    await db.update(payees).set(set).where(eq(payees.id, id));
+  }
+
+  // Transactions keep their rows; the foreign key clears payee_id
+  async deletePayee(id: string): Promise<void> {
+    await db.delete(payees).where(eq(payees.id, id));
+  }
+
+  // Recurring rule operations
+  async getRecurringRules(userId: string): Promise<RecurringRule[]> {
+    const rows = await db
+      .select()
+      .from(recurringRules)
+      .where(eq(recurringRules.userId, userId))
+      .orderBy(asc(recurringRules.createdAt));
+    return rows.map(toRecurringRule);
+  }
+
+  async getRecurringRule(id: string): Promise<RecurringRule | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    const [row] = await db.select().from(recurringRules).where(eq(recurringRules.id, id));
+    return row ? toRecurringRule(row) : null;
+  }
+
+  async createRecurringRule(rule: RecurringRule): Promise<string> {
+    const { id, createdAt, ...data } = rule;
+    const [row] = await db
+      .insert(recurringRules)
+      .values({ ...data, amount: String(data.amount) })
+      .returning({ id: recurringRules.id });
+    return row.id;
+  }
+
+  async updateRecurringRule(id: string, data: Partial<RecurringRule>): Promise<void> {
+    const set = toUpdateSet(data);
+    if (Object.keys(set).length === 0) return;
+    await db.update(recurringRules).set(set).where(eq(recurringRules.id, id));
+  }
+
+  // The foreign keys unlink the posted transactions and subscription reviews
+  async deleteRecurringRule(id: string): Promise<void> {
+    await db.delete(recurringRules).where(eq(recurringRules.id, id));
+  }
+
+  async getDueRecurringRules(before: Date): Promise<RecurringRule[]> {
+    const rows = await db
+      .select()
+      .from(recurringRules)
+      .where(and(eq(recurringRules.paused, false), lte(recurringRules.nextOccurrence, before)));
+    return rows.map(toRecurringRule);
+  }
+
+  async postRecurringOccurrence(ruleId: string, transaction: Transaction, nextOccurrence: Date | null): Promise<boolean> {
+    const { id, createdAt, ...data } = transaction;
+    return db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(transactions)
+        .values({ ...data, amount: String(data.amount) })
+        .onConflictDoNothing({ target: [transactions.recurringRuleId, transactions.occurrence] })
+        .returning({ id: transactions.id });
+      await tx.update(recurringRules).set({ nextOccurrence }).where(eq(recurringRules.id, ruleId));
+      return inserted.length > 0;
+    });
+  }
+
+  // Subscription review operations
+  async getSubscriptionReviews(userId: string): Promise<SubscriptionReview[]> {
+    return db.select().from(subscriptionReviews).where(eq(subscriptionReviews.userId, userId));
+  }
+
+  async createSubscriptionReview(review: SubscriptionReview): Promise<string> {
+    const { id, createdAt, ...data } = review;
+    const [row] = await db
+      .insert(subscriptionReviews)
+      .values(data)
+      .returning({ id: subscriptionReviews.id });
+    return row.id;
+  }
+
+  async updateSubscriptionReview(id: string, data: Partial<SubscriptionReview>): Promise<void> {
+    const set = toUpdateSet(data);
+    if (Object.keys(set).length === 0) return;
+    await db.update(subscriptionReviews).set(set).where(eq(subscriptionReviews.id, id));
+  }
+
+  async deleteSubscriptionReview(id: string): Promise<void> {
+    await db.delete(subscriptionReviews).where(eq(subscriptionReviews.id, id));
+  }
+
+  // Budget operations
+  async getBudgets(userId: string): Promise<Budget[]> {
+    const rows = await db.select().from(budgets).where(eq(budgets.userId, userId));
+    return rows.map(toBudget);
+  }
+
+  async getBudget(id: string): Promise<Budget | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    const [row] = await db.select().from(budgets).where(eq(budgets.id, id));
+    return row ? toBudget(row) : null;
+  }
+
+  async createBudget(budget: Budget): Promise<string> {
+    const { id, createdAt, rolloverCap, amountHistory, ...data } = budget;
+    const [row] = await db
+      .insert(budgets)
+      .values({ ...data, amount: String(data.amount), ...toBudgetColumns({ rolloverCap, amountHistory }) })
+      .returning({ id: budgets.id });
+    return row.id;
+  }
+
+  async updateBudget(id: string, data: Partial<Budget>): Promise<void> {
+    const { rolloverCap, amountHistory, ...rest } = data;
+    const set = { ...toUpdateSet(rest), ...toBudgetColumns({ rolloverCap, amountHistory }) };
+    if (Object.keys(set).length === 0) return;
+    await db.update(budgets).set(set).where(eq(budgets.id, id));
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    await db.delete(budgets).where(eq(budgets.id, id));
+  }
+
+  // Envelope operations
+  async getEnvelopeAllocations(userId: string): Promise<EnvelopeAllocation[]> {
+    const rows = await db
+      .select()
+      .from(envelopeAllocations)
+      .where(eq(envelopeAllocations.userId, userId))
+      .orderBy(asc(envelopeAllocations.createdAt));
+    return rows.map(toEnvelopeAllocation);
+  }
+
+  async createEnvelopeAllocations(allocations: EnvelopeAllocation[]): Promise<string[]> {
+    if (allocations.length === 0) return [];
+    const rows = await db
+      .insert(envelopeAllocations)
+      .values(allocations.map(({ id, createdAt, ...data }) => ({ ...data, amount: String(data.amount) })))
+      .returning({ id: envelopeAllocations.id });
+    return rows.map(row => row.id);
+  }
+
+  // Bill operations
+  async getBills(userId: string): Promise<Bill[]> {
+    const rows = await db
+      .select()
+      .from(bills)
+      .where(eq(bills.userId, userId))
+      .orderBy(asc(bills.createdAt));
+    return rows.map(toBill);
+  }
+
+  async getActiveBills(since: Date): Promise<Bill[]> {
+    const rows = await db
+      .select()
+      .from(bills)
+      .where(or(isNull(bills.endDate), gte(bills.endDate, since)));
+    return rows.map(toBill);
+  }
+
+  async getBill(id: string): Promise<Bill | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    const [row] = await db.select().from(bills).where(eq(bills.id, id));
+    return row ? toBill(row) : null;
+  }
+
+  async createBill(bill: Bill): Promise<string> {
+    const { id, createdAt, payments, ...data } = bill;
+    const [row] = await db
+      .insert(bills)
+      .values({ ...data, amount: String(data.amount), ...toBillColumns({ payments }) })
+      .returning({ id: bills.id });
+    return row.id;
+  }
+
+  async updateBill(id: string, data: Partial<Bill>): Promise<void> {
+    const { payments, ...rest } = data;
+    const set = { ...toUpdateSet(rest), ...toBillColumns({ payments }) };
+    if (Object.keys(set).length === 0) return;
+    await db.update(bills).set(set).where(eq(bills.id, id));
+  }
+
+  async deleteBill(id: string): Promise<void> {
+    await db.delete(bills).where(eq(bills.id, id));
+  }
+
+  // Savings goal operations
+  async getGoals(userId: string): Promise<SavingsGoal[]> {
+    const rows = await db
+      .select()
+      .from(savingsGoals)
+      .where(eq(savingsGoals.userId, userId))
+      .orderBy(asc(savingsGoals.createdAt));
+    return rows.map(toSavingsGoal);
+  }
+
+  async getGoal(id: string): Promise<SavingsGoal | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    const [row] = await db.select().from(savingsGoals).where(eq(savingsGoals.id, id));
+    return row ? toSavingsGoal(row) : null;
+  }
+
+  async createGoal(goal: SavingsGoal): Promise<string> {
+    const { id, createdAt, ...data } = goal;
+    const [row] = await db
+      .insert(savingsGoals)
+      .values({ ...data, targetAmount: String(data.targetAmount) })
+      .returning({ id: savingsGoals.id });
+    return row.id;
+  }
+
+  async updateGoal(id: string, data: Partial<SavingsGoal>): Promise<void> {
+    const { id: _id, userId, createdAt, targetAmount, ...rest } = data;
+    const set = targetAmount === undefined ? rest : { ...rest, targetAmount: String(targetAmount) };
+    if (Object.keys(set).length === 0) return;
+    await db.update(savingsGoals).set(set).where(eq(savingsGoals.id, id));
+  }
+
+  // Contributions are removed by the foreign key cascade
+  async deleteGoal(id: string): Promise<void> {
+    await db.delete(savingsGoals).where(eq(savingsGoals.id, id));
+  }
+
+  async getGoalContributions(userId: string): Promise<GoalContribution[]> {
+    const rows = await db
+      .select()
+      .from(goalContributions)
+      .where(eq(goalContributions.userId, userId))
+      .orderBy(asc(goalContributions.date));
+    return rows.map(toGoalContribution);
+  }
+
+  async createGoalContribution(contribution: GoalContribution): Promise<string> {
+    const { id, createdAt, ...data } = contribution;
+    const [row] = await db
+      .insert(goalContributions)
+      .values({ ...data, amount: String(data.amount) })
+      .returning({ id: goalContributions.id });
+    return row.id;
+  }
+
+  async deleteGoalContribution(id: string): Promise<void> {
+    await db.delete(goalContributions).where(eq(goalContributions.id, id));
+  }
+
+  // Notification operations
+  async getNotifications(userId: string): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt));
+  }
+
+  async createNotification(notification: Notification): Promise<string> {
+    const { id, createdAt, ...data } = notification;
+    const [row] = await db
+      .insert(notifications)
+      .values(data)
+      .returning({ id: notifications.id });
+    return row.id;
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<void> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (ids) {
+      const valid = ids.filter(id => UUID_PATTERN.test(id));
+      if (valid.length === 0) return;
+      conditions.push(inArray(notifications.id, valid));
+    }
+    await db.update(notifications).set({ read: true }).where(and(...conditions));
+  }
+
+  // Category operations
+  async getCategories(userId: string): Promise<Category[]> {
+    const rows = await db
+      .select()
+      .from(categories)
+      .where(eq(categories.userId, userId))
+      .orderBy(asc(categories.name));
+    return rows.map(toCategory);
+  }
+
+  async getCategoriesByType(userId: string, type: 'income' | 'expense'): Promise<Category[]> {
+    const rows = await db
+      .select()
+      .from(categories)
+      .where(and(eq(categories.userId, userId), eq(categories.type, type)))
+      .orderBy(asc(categories.name));
+    return rows.map(toCategory);
+  }
+
+  async getCategory(id: string): Promise<Category | null> {
+    if (!UUID_PATTERN.test(id)) return null;
+    const [row] = await db.select().from(categories).where(eq(categories.id, id));
+    return row ? toCategory(row) : null;
+  }
+
+  async createCategory(category: Category): Promise<string> {
+    const { id, createdAt, ...data } = category;
+    const [row] = await db
+      .insert(categories)
+      .values(data)
+      .returning({ id: categories.id });
+    return row.id;
+  }
+
+  async updateCategory(id: string, data: Partial<Category>): Promise<void> {
+    const { id: _id, userId, createdAt, ...set } = data;
+    if (Object.keys(set).length === 0) return;
+    await db.update(categories).set(set).where(eq(categories.id, id));
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    await db.delete(categories).where(eq(categories.id, id));
+  }
+
+  async reassignCategory(userId: string, sourceId: string, targetId: string): Promise<CategoryReassignment> {
+    const settings = budgetSettings(await this.getUserProfile(userId));
+    return db.transaction(async (tx) => {
+      const moved = await tx
+        .update(transactions)
+        .set({ category: targetId })
+        .where(and(eq(transactions.userId, userId), eq(transactions.category, sourceId)))
+        .returning({ id: transactions.id });
+
+      const split = await tx
+        .select({ id: transactions.id, splits: transactions.splits })
+        .from(transactions)
+        .where(and(
+          eq(transactions.userId, userId),
+          sql`${transactions.splits} @> ${JSON.stringify([{ category: sourceId }])}::jsonb`
+        ));
+      for (const row of split) {
+        const splits = row.splits!.map(line => line.category === sourceId ? { ...line, category: targetId } : line);
+        await tx.update(transactions).set({ splits }).where(eq(transactions.id, row.id));
+      }
+
+      const rows = await tx
+        .select()
+        .from(budgets)
+        .where(and(eq(budgets.userId, userId), inArray(budgets.category, [sourceId, targetId])))
+        .for('update');
+      const plan = planBudgetReassignment(rows.map(toBudget), sourceId, targetId, settings);
+
+      if (plan.moved.length > 0) {
+        await tx.update(budgets).set({ category: targetId }).where(inArray(budgets.id, plan.moved));
+      }
+      for (const [id, { amount, amountHistory }] of Array.from(plan.merged)) {
+        await tx
+          .update(budgets)
+          .set({ amount: String(amount), ...toBudgetColumns({ amountHistory }) })
+          .where(eq(budgets.id, id));
+      }
+      if (plan.removed.length > 0) {
+        await tx.delete(budgets).where(inArray(budgets.id, plan.removed));
+      }
+
+      await tx
+        .update(envelopeAllocations)
+        .set({ category: targetId })
+        .where(and(eq(envelopeAllocations.userId, userId), eq(envelopeAllocations.category, sourceId)));
+      await tx
+        .update(envelopeAllocations)
+        .set({ fromCategory: targetId })
+        .where(and(eq(envelopeAllocations.userId, userId), eq(envelopeAllocations.fromCategory, sourceId)));
+
+      await tx
+        .update(savingsGoals)
+        .set({ categoryId: targetId })
+        .where(and(eq(savingsGoals.userId, userId), eq(savingsGoals.categoryId, sourceId)));
+      await tx
+        .update(payees)
+        .set({ defaultCategory: targetId })
+        .where(and(eq(payees.userId, userId), eq(payees.defaultCategory, sourceId)));
+      await tx
+        .update(recurringRules)
+        .set({ category: targetId })
+        .where(and(eq(recurringRules.userId, userId), eq(recurringRules.category, sourceId)));
+
+      // Subcategories move up to the removed category's parent
+      const [source] = await tx.select().from(categories).where(eq(categories.id, sourceId));
+      await tx
+        .update(categories)
+        .set({ parentId: source?.parentId ?? null })
+        .where(eq(categories.parentId, sourceId));
+      await tx.delete(categories).where(eq(categories.id, sourceId));
+      return { transactionsMoved: moved.length + split.length, budgetsMoved: plan.moved.length, budgetsMerged: plan.removed.length };
+    });
+  }
+
+  // Analytics operations
+  async getTransactionsByPeriod(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Transaction[]> {
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        gte(transactions.date, startDate),
+        lte(transactions.date, endDate)
+      ))
+      .orderBy(desc(transactions.date));
+    return rows.map(toTransaction);
+  }
+
+  async getTotalsByCategory(
+    userId: string,
+    type: 'income' | 'expense',
+    startDate: Date,
+    endDate: Date,
+    options: CategoryTotalsOptions = {}
+  ): Promise<CategoryTotal[]> {
+    const inRange = and(
+      eq(transactions.userId, userId),
+      eq(transactions.type, type),
+      gte(transactions.date, startDate),
+      lte(transactions.date, endDate)
+    );
+    const [rows, splitRows] = await Promise.all([
+      db
+        .select({ category: transactions.category, total: sum(transactions.amount) })
+        .from(transactions)
+        .where(and(inRange, isNull(transactions.splits)))
+        .groupBy(transactions.category),
+      db.select().from(transactions).where(and(inRange, isNotNull(transactions.splits)))
+    ]);
+
+    // Split transactions are added line by line
+    const byCategory = new Map(rows.map(row => [row.category, Number(row.total ?? 0)]));
+    sumByCategory(splitRows.map(toTransaction), type).forEach(({ category, total }) => {
+      byCategory.set(category, (byCategory.get(category) ?? 0) + total);
+    });
+    const totals = Array.from(byCategory, ([category, total]) => ({ category, total }));
+    return usesHierarchy(options) ? rollUpTotals(totals, await this.getCategories(userId), options) : totals;
+  }
+
+  async getTransactionSummary(userId: string): Promise<TransactionSummary> {
+    const rows = await db
+      .select({ type: transactions.type, total: sum(transactions.amount), count: count() })
+      .from(transactions)
+      .where(eq(transactions.userId, userId))
+      .groupBy(transactions.type);
+
+    const income = rows.find(row => row.type === 'income');
+    const expense = rows.find(row => row.type === 'expense');
+    return {
+      income: Number(income?.total ?? 0),
+      expenses: Number(expense?.total ?? 0),
+      incomeCount: income?.count ?? 0,
+      expenseCount: expense?.count ?? 0
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+  adjustForWeekend,
+  isOccurrence,
+  nextPostingDate,
+  occurrencesBetween,
+  occurrencesFrom,
+  postDueOccurrences,
+  resumeOccurrence,
+  startRecurringScheduler,
+  upcomingOccurrences
+} from "./recurring";
+import { MemFinanceRepository } from "./memory";
+import type { RecurringRule } from "./repository";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+// Monthly on the 31st from a Saturday; 2026-05-31 is a Sunday
+const rule = (fields: Partial<RecurringRule> = {}): RecurringRule => ({
+  userId: "alice",
+  description: "Rent",
+  amount: 900,
+  type: "expense",
+  category: "housing",
+  frequency: "monthly",
+  interval: 1,
+  startDate: day(2026, 1, 31),
+  endDate: null,
+  weekendAdjustment: "none",
+  paused: false,
+  skippedOccurrences: [],
+  nextOccurrence: day(2026, 1, 31),
+  createdAt: day(2026, 1, 1),
+  ...fields
+});
+
+describe("occurrences", () => {
+  it("count from the start date, so month ends come back after shorter months", () => {
+    expect(occurrencesFrom(rule(), day(2026, 1, 1), 5))
+      .toEqual([day(2026, 1, 31), day(2026, 2, 28), day(2026, 3, 31), day(2026, 4, 30), day(2026, 5, 31)]);
+  });
+
+  it("follow the interval and stop at the end date", () => {
+    const fortnightly = rule({ frequency: "weekly", interval: 2, startDate: day(2026, 3, 2), endDate: day(2026, 4, 13) });
+    expect(occurrencesFrom(fortnightly, day(2026, 3, 10), 10))
+      .toEqual([day(2026, 3, 16), day(2026, 3, 30), day(2026, 4, 13)]);
+    expect(occurrencesBetween(fortnightly, day(2026, 3, 1), day(2026, 3, 20))).toEqual([day(2026, 3, 2), day(2026, 3, 16)]);
+  });
+
+  it("are recognized at any time of their day", () => {
+    expect(isOccurrence(rule(), new Date(2026, 2, 31, 15))).toBe(true);
+    expect(isOccurrence(rule(), day(2026, 3, 30))).toBe(false);
+  });
+
+  it("resume from today, never before the start date", () => {
+    expect(resumeOccurrence(rule(), day(2026, 3, 10))).toEqual(day(2026, 3, 31));
+    expect(resumeOccurrence(rule(), day(2025, 6, 1))).toEqual(day(2026, 1, 31));
+    expect(resumeOccurrence(rule({ endDate: day(2026, 2, 28) }), day(2026, 3, 1))).toBeNull();
+  });
+});
+
+describe("adjustForWeekend", () => {
+  it.each([
+    ["none", day(2026, 1, 31), day(2026, 1, 31)],
+    ["previous", day(2026, 1, 31), day(2026, 1, 30)],
+    ["previous", day(2026, 5, 31), day(2026, 5, 29)],
+    ["next", day(2026, 1, 31), day(2026, 2, 2)],
+    ["next", day(2026, 5, 31), day(2026, 6, 1)],
+    ["next", day(2026, 3, 31), day(2026, 3, 31)]
+  ] as const)("moves with %s from %s to %s", (adjustment, date, adjusted) => {
+    expect(adjustForWeekend(date, adjustment)).toEqual(adjusted);
+  });
+});
+
+describe("upcoming occurrences", () => {
+  it("list skipped occurrences, and post on the first one that is not skipped", () => {
+    const skipping = rule({ weekendAdjustment: "next", skippedOccurrences: ["2026-01-31", "2026-02-28"] });
+
+    expect(upcomingOccurrences(skipping, 3)).toEqual([
+      { occurrence: "2026-01-31", date: day(2026, 2, 2), skipped: true },
+      { occurrence: "2026-02-28", date: day(2026, 3, 2), skipped: true },
+      { occurrence: "2026-03-31", date: day(2026, 3, 31), skipped: false }
+    ]);
+    expect(nextPostingDate(skipping)).toEqual(day(2026, 3, 31));
+    expect(nextPostingDate({ ...skipping, paused: true })).toBeNull();
+  });
+});
+
+describe("postDueOccurrences", () => {
+  const setUp = async (fields: Partial<RecurringRule> = {}) => {
+    const repository = new MemFinanceRepository();
+    const id = await repository.createRecurringRule(rule(fields));
+    return { repository, saved: (await repository.getRecurringRule(id))! };
+  };
+
+  it("posts each due occurrence on its adjusted date, passing over skipped ones", async () => {
+    const { repository, saved } = await setUp({ weekendAdjustment: "next", skippedOccurrences: ["2026-02-28"] });
+
+    expect(await postDueOccurrences(repository, saved, day(2026, 4, 1))).toBe(2);
+    const transactions = await repository.getTransactions("alice");
+    expect(transactions.map(t => [t.occurrence, t.date]).sort()).toEqual([
+      ["2026-01-31", day(2026, 2, 2)],
+      ["2026-03-31", day(2026, 3, 31)]
+    ]);
+    expect(transactions.every(t => t.recurringRuleId === saved.id)).toBe(true);
+    expect((await repository.getRecurringRule(saved.id!))?.nextOccurrence).toEqual(day(2026, 4, 30));
+  });
+
+  it("posts an occurrence moved back before the weekend once that day arrives", async () => {
+    const { repository, saved } = await setUp({ weekendAdjustment: "previous", nextOccurrence: day(2026, 5, 31) });
+
+    expect(await postDueOccurrences(repository, saved, day(2026, 5, 28))).toBe(0);
+    expect(await postDueOccurrences(repository, saved, day(2026, 5, 29))).toBe(1);
+  });
+
+  it("never posts an occurrence twice, even from a stale copy of the rule", async () => {
+    const { repository, saved } = await setUp();
+
+    expect(await postDueOccurrences(repository, saved, day(2026, 3, 1))).toBe(2);
+    expect(await postDueOccurrences(repository, saved, day(2026, 3, 1))).toBe(0);
+    expect(await repository.getTransactions("alice")).toHaveLength(2);
+  });
+
+  it("posts nothing while the rule is paused", async () => {
+    const { repository, saved } = await setUp({ paused: true });
+
+    expect(await postDueOccurrences(repository, saved, day(2026, 3, 1))).toBe(0);
+    expect(await repository.getTransactions("alice")).toHaveLength(0);
+  });
+});
+
+describe("startRecurringScheduler", () => {
+  it("posts due occurrences right away and follows up once per user", async () => {
+    const repository = new MemFinanceRepository();
+    await repository.createRecurringRule(rule());
+    await repository.createRecurringRule(rule({ description: "Gym", amount: 30 }));
+
+    const posted: string[] = [];
+    const ran = new Promise<void>(resolve => {
+      const stop = startRecurringScheduler(repository, {
+        posted: async userId => { posted.push(userId); },
+        ran: async () => { stop(); resolve(); }
+      });
+    });
+    await ran;
+
+    expect(posted).toEqual(["alice"]);
+    expect((await repository.getTransactions("alice")).length).toBeGreaterThanOrEqual(2);
+  });
+});
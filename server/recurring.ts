@@ -0,0 +1,185 @@
+import { addDays, addMonths, addWeeks, addYears, endOfDay, format, isSaturday, isSunday, max, startOfDay } from 'date-fns';
+import type { FinanceRepository, RecurringRule, Transaction } from './repository';
+import { log } from './logger';
+import type { RecurringFrequency, WeekendAdjustment } from '@shared/validation';
+
+export type Schedule = Pick<RecurringRule, 'frequency' | 'interval' | 'startDate' | 'endDate'>;
+
+export interface Occurrence {
+  // Unadjusted date, as yyyy-MM-dd
+  occurrence: string;
+  // Date the transaction is posted with, after weekend adjustment
+  date: Date;
+  skipped: boolean;
+}
+
+// How often the scheduler looks for due occurrences
+export const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+// Weekend adjustment can move an occurrence up to two days earlier
+const MAX_ADJUSTMENT_DAYS = 2;
+
+const STEPS: Record<RecurringFrequency, (date: Date, amount: number) => Date> = {
+  daily: addDays,
+  weekly: addWeeks,
+  monthly: addMonths,
+  yearly: addYears
+};
+
+export const occurrenceKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Every occurrence is counted from the start date, so a rule starting on
+// the 31st comes back to the 31st after shorter months
+const nthOccurrence = (schedule: Schedule, n: number) =>
+  STEPS[schedule.frequency](startOfDay(schedule.startDate), n * schedule.interval);
+
+// Up to `count` unadjusted occurrences on or after `from`, in order, stopping
+// at the end date
+export const occurrencesFrom = (schedule: Schedule, from: Date, count: number): Date[] => {
+  const end = schedule.endDate ? endOfDay(schedule.endDate) : null;
+  const dates: Date[] = [];
+  for (let n = 0; dates.length < count; n++) {
+    const date = nthOccurrence(schedule, n);
+    if (end && date > end) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+};
+
+// Unadjusted occurrences from `from` through `to`, in order
+export const occurrencesBetween = (schedule: Schedule, from: Date, to: Date): Date[] => {
+  const end = schedule.endDate && endOfDay(schedule.endDate) < to ? endOfDay(schedule.endDate) : to;
+  const dates: Date[] = [];
+  for (let n = 0; ; n++) {
+    const date = nthOccurrence(schedule, n);
+    if (date > end) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+};
+
+export const firstOccurrenceFrom = (schedule: Schedule, from: Date): Date | null =>
+  occurrencesFrom(schedule, from, 1)[0] ?? null;
+
+export const isOccurrence = (schedule: Schedule, date: Date) =>
+  firstOccurrenceFrom(schedule, startOfDay(date))?.getTime() === startOfDay(date).getTime();
+
+// Saturdays and Sundays move to the Friday before or the Monday after
+export const adjustForWeekend = (date: Date, adjustment: WeekendAdjustment): Date => {
+  if (adjustment === 'none' || !(isSaturday(date) || isSunday(date))) return date;
+  if (adjustment === 'previous') return addDays(date, isSaturday(date) ? -1 : -2);
+  return addDays(date, isSaturday(date) ? 2 : 1);
+};
+
+// Where a rule picks up from when created, edited or resumed: occurrences
+// before today are not posted retroactively
+export const resumeOccurrence = (schedule: Schedule, today: Date = new Date()) =>
+  firstOccurrenceFrom(schedule, max([startOfDay(schedule.startDate), startOfDay(today)]));
+
+// The next `count` occurrences still to be posted, skipped ones included
+export const upcomingOccurrences = (rule: RecurringRule, count: number): Occurrence[] =>
+  rule.nextOccurrence
+    ? occurrencesFrom(rule, rule.nextOccurrence, count).map(date => ({
+        occurrence: occurrenceKey(date),
+        date: adjustForWeekend(date, rule.weekendAdjustment),
+        skipped: rule.skippedOccurrences.includes(occurrenceKey(date))
+      }))
+    : [];
+
+// Posting date of the next occurrence that is not skipped. Skips are
+// bounded by the upcoming list, so a year of occurrences is enough.
+export const nextPostingDate = (rule: RecurringRule): Date | null =>
+  rule.paused ? null : upcomingOccurrences(rule, 366).find(occurrence => !occurrence.skipped)?.date ?? null;
+
+// Rule as returned by the API, with the date its next transaction posts
+export const withNextDate = (rule: RecurringRule) => ({ ...rule, nextDate: nextPostingDate(rule) });
+
+const occurrenceTransaction = (rule: RecurringRule, date: Date): Transaction => ({
+  userId: rule.userId,
+  description: rule.description,
+  amount: rule.amount,
+  type: rule.type,
+  category: rule.category,
+  accountId: rule.accountId ?? null,
+  date: adjustForWeekend(date, rule.weekendAdjustment),
+  tags: [],
+  recurringRuleId: rule.id!,
+  occurrence: occurrenceKey(date),
+  createdAt: new Date()
+});
+
+// Post every occurrence of the rule whose adjusted date has arrived and
+// return how many transactions were created. Posting is idempotent per
+// occurrence, so overlapping runs cannot create duplicates.
+export const postDueOccurrences = async (
+  repository: FinanceRepository,
+  rule: RecurringRule,
+  now: Date = new Date()
+): Promise<number> => {
+  if (rule.paused) return 0;
+
+  let posted = 0;
+  let next = rule.nextOccurrence;
+  while (next && startOfDay(adjustForWeekend(next, rule.weekendAdjustment)) <= now) {
+    const following = firstOccurrenceFrom(rule, addDays(next, 1));
+    if (rule.skippedOccurrences.includes(occurrenceKey(next))) {
+      await repository.updateRecurringRule(rule.id!, { nextOccurrence: following });
+    } else if (await repository.postRecurringOccurrence(rule.id!, occurrenceTransaction(rule, next), following)) {
+      posted += 1;
+    }
+    next = following;
+  }
+  return posted;
+};
+
+// Work that runs along with the scheduler
+export interface SchedulerHooks {
+  // Once per run for each user who received transactions
+  posted?: (userId: string) => Promise<void>;
+  // At the end of each run
+  ran?: (now: Date) => Promise<void>;
+}
+
+// Post due occurrences of every user's rules now and then on an interval.
+// Runs never overlap; a rule that fails is logged and retried next run.
+export const startRecurringScheduler = (
+  repository: FinanceRepository,
+  hooks: SchedulerHooks = {},
+  intervalMs = SCHEDULER_INTERVAL_MS
+) => {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = new Date();
+      const rules = await repository.getDueRecurringRules(addDays(now, MAX_ADJUSTMENT_DAYS));
+      const users = new Set<string>();
+      for (const rule of rules) {
+        try {
+          const count = await postDueOccurrences(repository, rule, now);
+          if (count > 0) {
+            log(`Posted ${count} occurrence(s) of rule ${rule.id}`, 'recurring');
+            users.add(rule.userId);
+          }
+        } catch (error) {
+          console.error(`[Recurring] Failed to post rule ${rule.id}:`, error);
+        }
+      }
+      for (const userId of Array.from(users)) {
+        await hooks.posted?.(userId);
+      }
+      await hooks.ran?.(now);
+    } catch (error) {
+      console.error('[Recurring] Scheduler run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { MemFinanceRepository } from "./memory";
+import {
+  batchItemError,
+  cursorValue,
+  decodeCursor,
+  encodeCursor,
+  toTransactionPage,
+  type Transaction,
+  type TransactionQuery,
+  type TransactionSortField
+} from "./repository";
+
+const transaction = (fields: Partial<Transaction>): Transaction => ({
+  userId: "alice",
+  amount: 10,
+  category: "groceries",
+  description: "Corner shop",
+  date: new Date("2026-03-01T12:00:00.000Z"),
+  type: "expense",
+  tags: [],
+  createdAt: new Date("2026-03-01T12:00:00.000Z"),
+  ...fields
+});
+
+describe("transaction cursors", () => {
+  it("round-trips the sort value and id", () => {
+    const cursor = encodeCursor(transaction({ id: "7", amount: 42.5 }), "amount");
+    expect(decodeCursor(cursor)).toEqual({ value: 42.5, id: "7" });
+  });
+
+  it("stores dates as ISO strings and reads them back as dates", () => {
+    const date = new Date("2026-03-04T08:30:00.000Z");
+    const cursor = decodeCursor(encodeCursor(transaction({ id: "7", date }), "date"))!;
+    expect(cursor.value).toBe(date.toISOString());
+    expect(cursorValue(cursor, "date")).toEqual(date);
+    expect(cursorValue({ value: "expense", id: "7" }, "type")).toBe("expense");
+  });
+
+  it("rejects cursors that are not ours", () => {
+    expect(decodeCursor("not base64 json")).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ value: 1 })).toString("base64url"))).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ value: {}, id: "7" })).toString("base64url"))).toBeNull();
+  });
+});
+
+describe("batchItemError", () => {
+  const categoryTypes = new Map([["groceries", "expense"], ["salary", "income"]] as const);
+  const groceries = transaction({ id: "1" });
+
+  it("refuses a type change that leaves the category of the other type", () => {
+    expect(batchItemError(groceries, "alice", [{ action: "setType", type: "income" }], categoryTypes)).toBe("invalid");
+    expect(batchItemError(groceries, "alice", [{ action: "recategorize", category: "salary" }], categoryTypes)).toBe("invalid");
+  });
+
+  it("allows a type change together with a category of that type", () => {
+    const operations = [{ action: "setType", type: "income" }, { action: "recategorize", category: "salary" }] as const;
+    expect(batchItemError(groceries, "alice", [...operations], categoryTypes)).toBeNull();
+    expect(batchItemError(transaction({ id: "2", category: "uncategorized" }), "alice", [operations[0]], categoryTypes)).toBeNull();
+  });
+
+  it("checks ownership first and leaves other operations alone", () => {
+    expect(batchItemError(null, "alice", [{ action: "setType", type: "income" }], categoryTypes)).toBe("not_found");
+    expect(batchItemError(groceries, "bob", [{ action: "delete" }], categoryTypes)).toBe("forbidden");
+    const mismatched = transaction({ id: "3", category: "salary" });
+    expect(batchItemError(mismatched, "alice", [{ action: "delete" }], categoryTypes)).toBeNull();
+  });
+});
+
+describe("toTransactionPage", () => {
+  const query: TransactionQuery = { limit: 2, sort: { field: "date", direction: "desc" } };
+  const rows = ["1", "2", "3"].map(id => transaction({ id }));
+
+  it("returns a cursor for the last item when more rows were fetched", () => {
+    const page = toTransactionPage(rows, query);
+    expect(page.items.map(item => item.id)).toEqual(["1", "2"]);
+    expect(decodeCursor(page.nextCursor!)?.id).toBe("2");
+  });
+
+  it("ends the listing when no extra row was fetched", () => {
+    expect(toTransactionPage(rows.slice(0, 2), query).nextCursor).toBeNull();
+  });
+});
+
+describe("paging through transactions", () => {
+  // Every sort field has ties, so the id tiebreaker decides page boundaries
+  const seed = async () => {
+    const repository = new MemFinanceRepository();
+    const fields: Partial<Transaction>[] = [
+      { amount: 30, category: "rent", type: "expense", date: new Date("2026-03-01") },
+      { amount: 10, category: "groceries", type: "expense", date: new Date("2026-03-02") },
+      { amount: 30, category: "salary", type: "income", date: new Date("2026-03-02") },
+      { amount: 20, category: "groceries", type: "expense", date: new Date("2026-03-01") },
+      { amount: 10, category: "salary", type: "income", date: new Date("2026-03-03") },
+      { amount: 20, category: "rent", type: "expense", date: new Date("2026-03-03") },
+      { amount: 10, category: "groceries", type: "expense", date: new Date("2026-03-02") }
+    ];
+    for (const data of fields) {
+      await repository.createTransaction(transaction(data));
+    }
+    await repository.createTransaction(transaction({ userId: "bob" }));
+    return repository;
+  };
+
+  const readAll = async (repository: MemFinanceRepository, query: TransactionQuery) => {
+    const seen: Transaction[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await repository.queryTransactions("alice", { ...query, cursor: cursor ? decodeCursor(cursor)! : undefined });
+      expect(page.items.length).toBeLessThanOrEqual(query.limit);
+      seen.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return seen;
+  };
+
+  const fields: TransactionSortField[] = ["date", "amount", "category", "type"];
+  for (const field of fields) {
+    for (const direction of ["asc", "desc"] as const) {
+      it(`visits every transaction once sorted by ${field} ${direction}`, async () => {
+        const repository = await seed();
+        const all = await repository.queryTransactions("alice", { limit: 100, sort: { field, direction } });
+        const paged = await readAll(repository, { limit: 2, sort: { field, direction } });
+
+        expect(all.items).toHaveLength(7);
+        expect(paged.map(item => item.id)).toEqual(all.items.map(item => item.id));
+
+        const values = paged.map(item => item[field] instanceof Date ? (item[field] as Date).getTime() : item[field]);
+        const sorted = [...values].sort((a, b) => (a! < b! ? -1 : a! > b! ? 1 : 0) * (direction === "asc" ? 1 : -1));
+        expect(values).toEqual(sorted);
+      });
+    }
+  }
+
+  it("keeps filters applied across pages", async () => {
+    const repository = await seed();
+    const paged = await readAll(repository, { limit: 1, sort: { field: "amount", direction: "desc" }, category: "groceries" });
+    expect(paged.map(item => item.amount)).toEqual([20, 10, 10]);
+  });
+});
@@ -0,0 +1,711 @@
+import { addDays } from 'date-fns';
+import type {
+  BatchOperation,
+  BillFrequency,
+  NotificationKind,
+  RecurringFrequency,
+  SubscriptionStatus,
+  WeekendAdjustment
+} from '@shared/validation';
+import { ancestorPath } from '@shared/category-tree';
+
+// User profile interface
+export interface UserProfile {
+  uid: string;
+  email: string;
+  displayName?: string;
+  photoURL?: string;
+  // Budget period settings, see BudgetSettings
+  weekStartsOn?: number;
+  monthStartDay?: number;
+  createdAt: Date;
+}
+
+// When budget periods begin: the weekday (0 = Sunday) for weekly budgets and
+// the day of the month for monthly and yearly ones
+export interface BudgetSettings {
+  weekStartsOn: number;
+  monthStartDay: number;
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = { weekStartsOn: 0, monthStartDay: 1 };
+
+export const budgetSettings = (profile: UserProfile | null): BudgetSettings => ({
+  weekStartsOn: profile?.weekStartsOn ?? DEFAULT_BUDGET_SETTINGS.weekStartsOn,
+  monthStartDay: profile?.monthStartDay ?? DEFAULT_BUDGET_SETTINGS.monthStartDay
+});
+
+// Transaction interface
+export interface Transaction {
+  id?: string;
+  userId: string;
+  amount: number;
+  category: string;
+  description: string;
+  date: Date;
+  // Transfers carry the category "transfer" and are left out of income,
+  // expense and category totals
+  type: 'income' | 'expense' | 'transfer';
+  tags?: string[];
+  // Account the money moved in or out of; null when not assigned to one.
+  // For transfers this is the source account.
+  accountId?: string | null;
+  // Destination account of a transfer
+  transferAccountId?: string | null;
+  payeeId?: string | null;
+  // Split transactions carry the category "split" and these lines, which
+  // add up to amount
+  splits?: TransactionSplit[] | null;
+  // Set on transactions posted by a recurring rule, with the occurrence
+  // (yyyy-MM-dd) they were posted for
+  recurringRuleId?: string | null;
+  occurrence?: string | null;
+  createdAt: Date;
+}
+
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+  memo?: string;
+}
+
+// What a transaction contributes to each category: one share per split
+// line, or the whole amount in its own category
+export const categoryShares = (transaction: Transaction): { category: string; amount: number }[] =>
+  transaction.splits?.length
+    ? transaction.splits.map(({ category, amount }) => ({ category, amount }))
+    : [{ category: transaction.category, amount: transaction.amount }];
+
+// A merchant or person money is paid to or received from. Payees are
+// matched by normalizedName, so statement variants of a name are one payee.
+export interface Payee {
+  id?: string;
+  userId: string;
+  name: string;
+  normalizedName: string;
+  // Category suggested for new transactions with this payee
+  defaultCategory?: string | null;
+  createdAt: Date;
+}
+
+// A schedule that posts the same transaction repeatedly. Occurrences are
+// named by their unadjusted date as yyyy-MM-dd.
+export interface RecurringRule {
+  id?: string;
+  userId: string;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
+  category: string;
+  accountId?: string | null;
+  frequency: RecurringFrequency;
+  interval: number;
+  startDate: Date;
+  endDate?: Date | null;
+  weekendAdjustment: WeekendAdjustment;
+  // Paused rules post nothing; occurrences missed meanwhile are not caught up
+  paused: boolean;
+  skippedOccurrences: string[];
+  // Unadjusted date of the next occurrence to post, null once the rule ended
+  nextOccurrence: Date | null;
+  createdAt: Date;
+}
+
+// The user's decision about a detected subscription, matched to detections
+// by key
+export interface SubscriptionReview {
+  id?: string;
+  userId: string;
+  key: string;
+  status: SubscriptionStatus;
+  // Set when the subscription was converted into a recurring rule
+  recurringRuleId?: string | null;
+  createdAt: Date;
+}
+
+// A receipt or document attached to a transaction. The file itself is kept
+// in an AttachmentStore under storageKey; images also get a thumbnail.
+export interface Attachment {
+  id?: string;
+  userId: string;
+  transactionId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  storageKey: string;
+  thumbnailKey?: string | null;
+  createdAt: Date;
+}
+
+export type AccountType = 'bank' | 'savings' | 'credit_card' | 'cash' | 'wallet';
+
+// Where money is held. Balances are derived from openingBalance plus the
+// account's transactions; credit cards go negative as debt builds up.
+export interface Account {
+  id?: string;
+  userId: string;
+  name: string;
+  type: AccountType;
+  // ISO 4217 code; the account's transactions are in this currency
+  currency: string;
+  openingBalance: number;
+  // Most a credit card may owe
+  creditLimit?: number | null;
+  // Archived accounts keep their history but are hidden from pickers
+  archived?: boolean;
+  createdAt: Date;
+}
+
+// Budget interface
+export interface Budget {
+  id?: string;
+  userId: string;
+  category: string;
+  amount: number;
+  period: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  rollover?: RolloverMode;
+  // Most surplus carried forward by a 'capped' budget
+  rolloverCap?: number | null;
+  // Budgeted amount over time, oldest first; `amount` is the latest
+  amountHistory?: BudgetAmountChange[];
+  createdAt: Date;
+}
+
+// none: start every period fresh; surplus: carry unspent money forward;
+// surplus_and_deficit: also deduct overspending from the next period;
+// capped: carry surplus up to rolloverCap
+export type RolloverMode = 'none' | 'surplus' | 'surplus_and_deficit' | 'capped';
+
+export interface BudgetAmountChange {
+  // Start of the first period this amount applies to
+  effectiveFrom: Date;
+  amount: number;
+}
+
+// One entry of the envelope ledger: `amount` moves into `category` for the
+// month, out of `fromCategory` or, when that is null, out of unassigned income.
+// Assignments may be negative, returning money to be budgeted.
+export interface EnvelopeAllocation {
+  id?: string;
+  userId: string;
+  // Calendar month the envelope period starts in, as YYYY-MM
+  month: string;
+  category: string;
+  fromCategory: string | null;
+  amount: number;
+  kind: 'assign' | 'move' | 'cover';
+  createdAt: Date;
+}
+
+// A target to save toward. Money moved into the linked category, or into
+// the linked account, counts as automatic contributions from startDate on;
+// manual ones are recorded separately as GoalContributions.
+export interface SavingsGoal {
+  id?: string;
+  userId: string;
+  name: string;
+  targetAmount: number;
+  deadline?: Date | null;
+  categoryId?: string | null;
+  accountId?: string | null;
+  startDate: Date;
+  // Progress milestones (percent) the user has already been notified of
+  notifiedMilestones?: number[];
+  createdAt: Date;
+}
+
+// One due date of a bill that was paid
+export interface BillPayment {
+  // The due date paid, as yyyy-MM-dd
+  dueDate: string;
+  // The transaction matched to it, null when marked paid by hand
+  transactionId: string | null;
+  amount: number;
+  paidAt: Date;
+}
+
+// A bill due once or on a schedule starting at dueDate
+export interface Bill {
+  id?: string;
+  userId: string;
+  name: string;
+  amount: number;
+  estimated: boolean;
+  accountId?: string | null;
+  payeeId?: string | null;
+  autopay: boolean;
+  frequency: BillFrequency;
+  // The first due date
+  dueDate: Date;
+  endDate?: Date | null;
+  reminderDays: number;
+  payments: BillPayment[];
+  // Reminders already sent, as "<kind>:<due date>"
+  notifiedReminders: string[];
+  createdAt: Date;
+}
+
+// A manual deposit into a goal; negative amounts are withdrawals
+export interface GoalContribution {
+  id?: string;
+  userId: string;
+  goalId: string;
+  amount: number;
+  date: Date;
+  note?: string | null;
+  createdAt: Date;
+}
+
+// A message for the user, shown in the notification menu until read
+export interface Notification {
+  id?: string;
+  userId: string;
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  // Client route the notification opens
+  link?: string | null;
+  read: boolean;
+  createdAt: Date;
+}
+
+// Category interface
+export interface Category {
+  id?: string;
+  name: string;
+  type: 'income' | 'expense';
+  userId: string;
+  color?: string;
+  icon?: string;
+  // Archived categories stay on existing records but are hidden from pickers
+  archived?: boolean;
+  parentId?: string | null;
+  createdAt: Date;
+}
+
+export interface CategoryTotal {
+  category: string;
+  total: number;
+}
+
+// How category totals treat the hierarchy. With rollup every category's
+// total includes its descendants; with level, totals are collapsed onto the
+// ancestors at that depth (0 is top-level).
+export interface CategoryTotalsOptions {
+  rollup?: boolean;
+  level?: number;
+}
+
+export interface TransactionSummary {
+  income: number;
+  expenses: number;
+  incomeCount: number;
+  expenseCount: number;
+}
+
+export type TransactionSortField = 'date' | 'amount' | 'category' | 'type';
+
+// Position of the last row on a page: its sort value plus id as tiebreaker
+export interface TransactionCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface TransactionQuery {
+  limit: number;
+  cursor?: TransactionCursor;
+  sort: { field: TransactionSortField; direction: 'asc' | 'desc' };
+  type?: 'income' | 'expense' | 'transfer';
+  // Also matches transactions with a split line in this category
+  category?: string;
+  // Matches transfers on either side
+  accountId?: string;
+  tag?: string;
+  payeeId?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  from?: Date;
+  to?: Date;
+  q?: string;
+}
+
+export interface TransactionPage {
+  items: Transaction[];
+  nextCursor: string | null;
+}
+
+// Outcome of one transaction in a batch. Missing and other users'
+// transactions are skipped, mirroring the 404/403 of single-item routes, as
+// are those the operations would leave with a category of the other type.
+export interface BatchItemResult {
+  id: string;
+  status: 'updated' | 'deleted' | 'not_found' | 'forbidden' | 'invalid';
+}
+
+// The type of each of a user's categories, by id
+export type CategoryTypes = Map<string, Category['type']>;
+
+// Records rewritten when a category is deleted into, or merged with, another
+export interface CategoryReassignment {
+  transactionsMoved: number;
+  budgetsMoved: number;
+  // Budgets folded into a target budget for the same period
+  budgetsMerged: number;
+}
+
+// A category with more records than its store can move in one atomic write.
+// Nothing was changed.
+export class CategoryTooLargeError extends Error {
+  constructor() {
+    super("This category has too many records to move at once. Recategorize some of its transactions first.");
+    this.name = "CategoryTooLargeError";
+  }
+}
+
+// Every finance backend (Firestore, Postgres, in-memory) implements this
+// interface, so routes never depend on a concrete store.
+export interface FinanceRepository {
+  // User profiles. Creating one that exists leaves it as it is; returns
+  // whether this call created the profile.
+  createUserProfile(userProfile: UserProfile): Promise<boolean>;
+  getUserProfile(uid: string): Promise<UserProfile | null>;
+  updateUserProfile(uid: string, data: Partial<UserProfile>): Promise<void>;
+
+  // Transactions
+  getTransactions(userId: string): Promise<Transaction[]>;
+  queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage>;
+  getTransaction(id: string): Promise<Transaction | null>;
+  createTransaction(transaction: Transaction): Promise<string>;
+  updateTransaction(id: string, data: Partial<Transaction>): Promise<void>;
+  deleteTransaction(id: string): Promise<void>;
+  // Apply operations to the user's transactions in one atomic write
+  batchTransactions(
+    userId: string,
+    ids: string[],
+    operations: BatchOperation[],
+    categoryTypes: CategoryTypes
+  ): Promise<BatchItemResult[]>;
+
+  // Attachment records of a transaction, oldest first. Stored files are
+  // removed separately through the AttachmentStore.
+  getAttachments(transactionId: string): Promise<Attachment[]>;
+  getAttachment(id: string): Promise<Attachment | null>;
+  createAttachment(attachment: Attachment): Promise<string>;
+  deleteAttachment(id: string): Promise<void>;
+
+  // Accounts, oldest first
+  getAccounts(userId: string): Promise<Account[]>;
+  getAccount(id: string): Promise<Account | null>;
+  createAccount(account: Account): Promise<string>;
+  updateAccount(id: string, data: Partial<Account>): Promise<void>;
+  deleteAccount(id: string): Promise<void>;
+
+  // Payees, by name
+  getPayees(userId: string): Promise<Payee[]>;
+  getPayee(id: string): Promise<Payee | null>;
+  createPayee(payee: Payee): Promise<string>;
+  updatePayee(id: string, data: Partial<Payee>): Promise<void>;
+  // Clears the payee from its transactions and bills
+  deletePayee(id: string): Promise<void>;
+
+  // Recurring rules, oldest first
+  getRecurringRules(userId: string): Promise<RecurringRule[]>;
+  getRecurringRule(id: string): Promise<RecurringRule | null>;
+  createRecurringRule(rule: RecurringRule): Promise<string>;
+  updateRecurringRule(id: string, data: Partial<RecurringRule>): Promise<void>;
+  // Posted transactions and subscription reviews are kept but no longer
+  // linked to the rule
+  deleteRecurringRule(id: string): Promise<void>;
+  // Unpaused rules of every user whose next occurrence is on or before the date
+  getDueRecurringRules(before: Date): Promise<RecurringRule[]>;
+  // Create the transaction for one occurrence and move the rule on to the
+  // next, in one write. Returns false, still moving the rule on, when the
+  // occurrence was already posted.
+  postRecurringOccurrence(ruleId: string, transaction: Transaction, nextOccurrence: Date | null): Promise<boolean>;
+
+  // Decisions about detected subscriptions, at most one per key
+  getSubscriptionReviews(userId: string): Promise<SubscriptionReview[]>;
+  createSubscriptionReview(review: SubscriptionReview): Promise<string>;
+  updateSubscriptionReview(id: string, data: Partial<SubscriptionReview>): Promise<void>;
+  deleteSubscriptionReview(id: string): Promise<void>;
+
+  // Budgets
+  getBudgets(userId: string): Promise<Budget[]>;
+  getBudget(id: string): Promise<Budget | null>;
+  createBudget(budget: Budget): Promise<string>;
+  updateBudget(id: string, data: Partial<Budget>): Promise<void>;
+  deleteBudget(id: string): Promise<void>;
+
+  // Envelope ledger, oldest entry first
+  getEnvelopeAllocations(userId: string): Promise<EnvelopeAllocation[]>;
+  // Append entries in one write
+  createEnvelopeAllocations(allocations: EnvelopeAllocation[]): Promise<string[]>;
+
+  // Savings goals
+  getGoals(userId: string): Promise<SavingsGoal[]>;
+  getGoal(id: string): Promise<SavingsGoal | null>;
+  createGoal(goal: SavingsGoal): Promise<string>;
+  updateGoal(id: string, data: Partial<SavingsGoal>): Promise<void>;
+  // Deletes the goal's contributions with it
+  deleteGoal(id: string): Promise<void>;
+  // Every manual contribution to any of the user's goals, oldest first
+  getGoalContributions(userId: string): Promise<GoalContribution[]>;
+  createGoalContribution(contribution: GoalContribution): Promise<string>;
+  deleteGoalContribution(id: string): Promise<void>;
+
+  // Bills, oldest first
+  getBills(userId: string): Promise<Bill[]>;
+  // Bills of every user that have no end date or end on or after the date
+  getActiveBills(since: Date): Promise<Bill[]>;
+  getBill(id: string): Promise<Bill | null>;
+  createBill(bill: Bill): Promise<string>;
+  updateBill(id: string, data: Partial<Bill>): Promise<void>;
+  deleteBill(id: string): Promise<void>;
+
+  // Notifications, newest first
+  getNotifications(userId: string): Promise<Notification[]>;
+  createNotification(notification: Notification): Promise<string>;
+  // Mark the given notifications, or all of the user's, as read
+  markNotificationsRead(userId: string, ids?: string[]): Promise<void>;
+
+  // Categories
+  getCategories(userId: string): Promise<Category[]>;
+  getCategoriesByType(userId: string, type: 'income' | 'expense'): Promise<Category[]>;
+  getCategory(id: string): Promise<Category | null>;
+  createCategory(category: Category): Promise<string>;
+  updateCategory(id: string, data: Partial<Category>): Promise<void>;
+  deleteCategory(id: string): Promise<void>;
+  // Point the user's transactions, budgets and envelope allocations at
+  // another category, then delete the source category, all in one write.
+  // Throws CategoryTooLargeError when that write would be too large.
+  reassignCategory(userId: string, sourceId: string, targetId: string): Promise<CategoryReassignment>;
+
+  // Analytics
+  getTransactionsByPeriod(userId: string, startDate: Date, endDate: Date): Promise<Transaction[]>;
+  getTotalsByCategory(
+    userId: string,
+    type: 'income' | 'expense',
+    startDate: Date,
+    endDate: Date,
+    options?: CategoryTotalsOptions
+  ): Promise<CategoryTotal[]>;
+  getTransactionSummary(userId: string): Promise<TransactionSummary>;
+}
+
+// Operations that would turn a transfer into something it is not
+const TRANSFER_LOCKED: BatchOperation['action'][] = ['recategorize', 'setType', 'setAccount'];
+
+// Compute the fields a batch changes on one transaction. Transfers keep
+// their category, type and accounts.
+export const applyBatchOperations = (
+  transaction: Transaction,
+  operations: BatchOperation[]
+): Partial<Transaction> => {
+  const changes: Partial<Transaction> = {};
+
+  operations.forEach(operation => {
+    if (transaction.type === 'transfer' && TRANSFER_LOCKED.includes(operation.action)) return;
+    switch (operation.action) {
+      case 'recategorize':
+        // The whole amount moves to the new category
+        changes.category = operation.category;
+        changes.splits = null;
+        break;
+      case 'setType':
+        changes.type = operation.type;
+        break;
+      case 'addTags': {
+        const tags = changes.tags ?? transaction.tags ?? [];
+        changes.tags = Array.from(new Set([...tags, ...operation.tags]));
+        break;
+      }
+      case 'shiftDates':
+        changes.date = addDays(changes.date ?? transaction.date, operation.days);
+        break;
+      case 'setAccount':
+        changes.accountId = operation.accountId;
+        break;
+    }
+  });
+
+  return changes;
+};
+
+// Whether a transaction's category and split line categories are of its
+// type. Stand-in categories, which are not in categoryTypes, match any type.
+export const categoriesMatchType = (
+  transaction: Pick<Transaction, 'type' | 'category' | 'splits'>,
+  categoryTypes: CategoryTypes
+) =>
+  transaction.type === 'transfer'
+    || [transaction.category, ...(transaction.splits ?? []).map(split => split.category)]
+      .every(id => (categoryTypes.get(id) ?? transaction.type) === transaction.type);
+
+// Status for a batch id that cannot be changed by this user, if any
+export const batchItemError = (
+  transaction: Transaction | null | undefined,
+  userId: string,
+  operations: BatchOperation[],
+  categoryTypes: CategoryTypes
+): BatchItemResult['status'] | null => {
+  if (!transaction) return 'not_found';
+  if (transaction.userId !== userId) return 'forbidden';
+  const retyped = operations.some(operation => operation.action === 'recategorize' || operation.action === 'setType');
+  if (retyped && !categoriesMatchType({ ...transaction, ...applyBatchOperations(transaction, operations) }, categoryTypes)) {
+    return 'invalid';
+  }
+  return null;
+};
+
+export const isDeleteBatch = (operations: BatchOperation[]) =>
+  operations.some(operation => operation.action === 'delete');
+
+export const usesHierarchy = (options: CategoryTotalsOptions) =>
+  !!options.rollup || options.level !== undefined;
+
+// Re-key flat per-category totals according to the hierarchy options
+export const rollUpTotals = (
+  totals: CategoryTotal[],
+  categories: Category[],
+  options: CategoryTotalsOptions
+): CategoryTotal[] => {
+  if (!usesHierarchy(options)) return totals;
+  const rolled = new Map<string, number>();
+  const add = (category: string, amount: number) =>
+    rolled.set(category, (rolled.get(category) ?? 0) + amount);
+
+  totals.forEach(({ category, total }) => {
+    const path = ancestorPath(categories, category);
+    if (options.level !== undefined) {
+      add(path[Math.min(options.level, path.length - 1)], total);
+    } else {
+      path.forEach(id => add(id, total));
+    }
+  });
+
+  return Array.from(rolled, ([category, total]) => ({ category, total }));
+};
+
+export type RepositoryDriver = 'firestore' | 'postgres' | 'memory';
+
+// Group transactions of one type by category and sum their amounts. Split
+// lines count toward their own categories.
+export const sumByCategory = (
+  transactions: Transaction[],
+  type: 'income' | 'expense'
+): CategoryTotal[] => {
+  const categoryTotals: Record<string, number> = {};
+
+  transactions
+    .filter(t => t.type === type)
+    .flatMap(categoryShares)
+    .forEach(share => {
+      if (!categoryTotals[share.category]) {
+        categoryTotals[share.category] = 0;
+      }
+      categoryTotals[share.category] += share.amount;
+    });
+
+  return Object.entries(categoryTotals).map(([category, total]) => ({
+    category,
+    total
+  }));
+};
+
+// Cursors are opaque to clients: base64url-encoded JSON of the sort value
+// and id of the last transaction on the previous page
+export const encodeCursor = (transaction: Transaction, field: TransactionSortField): string => {
+  const raw = transaction[field];
+  const value = raw instanceof Date ? raw.toISOString() : raw;
+  return Buffer.from(JSON.stringify({ value, id: transaction.id })).toString('base64url');
+};
+
+export const decodeCursor = (cursor: string): TransactionCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const valid = typeof parsed?.id === 'string'
+      && (typeof parsed.value === 'string' || typeof parsed.value === 'number');
+    return valid ? { value: parsed.value, id: parsed.id } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Cursor values for the date field are ISO strings
+export const cursorValue = (cursor: TransactionCursor, field: TransactionSortField) =>
+  field === 'date' ? new Date(cursor.value) : cursor.value;
+
+// Split a free-text search into lowercase terms
+export const searchTerms = (q: string): string[] =>
+  q.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Apply every TransactionQuery filter except the cursor to one transaction.
+// Used by the in-memory store and for post-filtering Firestore batches.
+export const matchesTransactionQuery = (transaction: Transaction, query: TransactionQuery): boolean => {
+  if (query.type && transaction.type !== query.type) return false;
+  if (query.category && !categoryShares(transaction).some(share => share.category === query.category)) return false;
+  if (query.accountId && transaction.accountId !== query.accountId
+    && transaction.transferAccountId !== query.accountId) return false;
+  if (query.tag && !transaction.tags?.includes(query.tag)) return false;
+  if (query.payeeId && transaction.payeeId !== query.payeeId) return false;
+  if (query.minAmount !== undefined && transaction.amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && transaction.amount > query.maxAmount) return false;
+  if (query.from && transaction.date < query.from) return false;
+  if (query.to && transaction.date > query.to) return false;
+  if (query.q) {
+    const description = transaction.description.toLowerCase();
+    if (!searchTerms(query.q).every(term => description.includes(term))) return false;
+  }
+  return true;
+};
+
+// Build a page from up to limit + 1 rows fetched in sort order
+export const toTransactionPage = (
+  rows: Transaction[],
+  query: TransactionQuery
+): TransactionPage => {
+  const items = rows.slice(0, query.limit);
+  const hasMore = rows.length > query.limit;
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1], query.sort.field) : null
+  };
+};
+
+export const summarize = (transactions: Transaction[]): TransactionSummary =>
+  transactions.reduce<TransactionSummary>((summary, transaction) => {
+    if (transaction.type === 'income') {
+      summary.income += transaction.amount;
+      summary.incomeCount++;
+    } else if (transaction.type === 'expense') {
+      summary.expenses += transaction.amount;
+      summary.expenseCount++;
+    }
+    return summary;
+  }, { income: 0, expenses: 0, incomeCount: 0, expenseCount: 0 });
+
+// Create the repository selected by the FINANCE_STORE environment variable.
+// Backends are imported lazily because both firebaseAdmin.ts and db.ts fail
+// at import time when their credentials are missing.
+export const createFinanceRepository = async (
+  driver: string = process.env.FINANCE_STORE || 'firestore'
+): Promise<FinanceRepository> => {
+  switch (driver as RepositoryDriver) {
+    case 'firestore': {
+      const { FirestoreFinanceRepository } = await import('./firestore');
+      return new FirestoreFinanceRepository();
+    }
+    case 'postgres': {
+      const { PgFinanceRepository } = await import('./postgres');
+      return new PgFinanceRepository();
+    }
+    case 'memory': {
+      const { MemFinanceRepository } = await import('./memory');
+      return new MemFinanceRepository();
+    }
+    default:
+      throw new Error(
+        `Unknown FINANCE_STORE "${driver}". Expected one of: firestore, postgres, memory`
+      );
+  }
+};
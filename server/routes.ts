@@ -1,24 +1,151 @@
-import express, { type Request as ExpressRequest, Response, NextFunction } from "express";
+import express, { type Response, NextFunction } from "express";
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
+import { addMonths, format, min, parseISO, startOfDay } from "date-fns";
+import multer from "multer";
 import { insertUserSchema } from "@shared/schema";
-import { auth, firestore } from "./firebaseAdmin";
+import {
+  budgetSettings,
+  CategoryTooLargeError,
+  createFinanceRepository,
+  decodeCursor,
+  isDeleteBatch,
+  type Attachment,
+  type Bill,
+  type Budget,
+  type BudgetSettings,
+  type Category,
+  type EnvelopeAllocation,
+  type Payee,
+  type RecurringRule,
+  type SavingsGoal,
+  type Transaction,
+  type FinanceRepository,
+  type TransactionQuery
+} from "./repository";
+import {
+  budgetHistory,
+  budgetStatus,
+  historyStart,
+  periodWindow,
+  roundCents,
+  changedAmountHistory,
+  spendingByPeriod,
+  type BudgetPeriodRecord
+} from "./budget-periods";
+import { planBudgets } from "./budget-planner";
+import { accountOverview, accountRegister } from "./accounts";
+import { payeeTotals, tagTotals, tagUsage } from "./analytics";
+import { createAttachmentStore, type AttachmentStore } from "./attachment-store";
+import { createTokenVerifier, type TokenVerifier } from "./token-verifier";
+import {
+  attachmentKey,
+  contentDisposition,
+  createThumbnail,
+  publicAttachment,
+  sniffContentType,
+  thumbnailKey
+} from "./attachments";
+import {
+  isOccurrence,
+  postDueOccurrences,
+  resumeOccurrence,
+  startRecurringScheduler,
+  upcomingOccurrences,
+  withNextDate
+} from "./recurring";
+import {
+  affectsBills,
+  billCalendar,
+  billReminders,
+  isDueDate,
+  matchBillPayments,
+  paymentWindow,
+  recentReminders,
+  remindersSince,
+  withNextDue
+} from "./bills";
+import { detectSubscriptions, reviewSubscriptions, subscriptionRule } from "./subscriptions";
+import { goalProgress, goalTransactions, milestoneNotification, reachedMilestones, type GoalProgress } from "./goals";
+import { envelopeMonth, envelopeStart, monthKey, monthWindow, type EnvelopeMonth } from "./envelopes";
+import { seedDefaultCategories } from "./seed";
+import { descendantIds } from "@shared/category-tree";
+import { validateBody, validateQuery, requireOwnership, type Request } from "./middleware";
+import {
+  createTransactionSchema,
+  updateTransactionSchema,
+  transactionQuerySchema,
+  batchTransactionsSchema,
+  createTransferSchema,
+  updateTransferSchema,
+  createAccountSchema,
+  updateAccountSchema,
+  createBudgetSchema,
+  updateBudgetSchema,
+  budgetStatusQuerySchema,
+  updateBudgetSettingsSchema,
+  envelopeMonthQuerySchema,
+  assignEnvelopesSchema,
+  moveEnvelopeSchema,
+  coverOverspendingSchema,
+  createGoalSchema,
+  updateGoalSchema,
+  createContributionSchema,
+  markNotificationsReadSchema,
+  createCategorySchema,
+  updateCategorySchema,
+  deleteCategoryQuerySchema,
+  categoryTotalsQuerySchema,
+  mergeCategorySchema,
+  breakdownQuerySchema,
+  createPayeeSchema,
+  updatePayeeSchema,
+  normalizePayeeName,
+  createRecurringRuleSchema,
+  updateRecurringRuleSchema,
+  occurrenceQuerySchema,
+  skipOccurrenceSchema,
+  reviewSubscriptionSchema,
+  createBillSchema,
+  updateBillSchema,
+  billCalendarQuerySchema,
+  createBillPaymentSchema,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  budgetPlanQuerySchema,
+  createBudgetsSchema,
+  UNCATEGORIZED,
+  TRANSFER,
+  SPLIT,
+  splitsMatchAmount,
+  type BatchOperation,
+  type CreateBudgetInput
+} from "@shared/validation";
 
-// Extend the Request type to include user property
-interface Request extends ExpressRequest {
-  user?: {
-    uid: string;
-  };
+// What the routes run on. Each defaults to the one configured through the
+// environment; tests pass their own.
+export interface RouteServices {
+  repository: FinanceRepository;
+  attachmentStore: AttachmentStore;
+  tokenVerifier: TokenVerifier;
 }
 
-// Export Firestore for convenience
-export const db = firestore;
+export interface RegisteredRoutes {
+  server: Server;
+  // Start posting recurring rules' occurrences as they come due, following
+  // up on the transactions posted, and sending the bill reminders that come
+  // due. Returns a function that stops it. Tests leave it off.
+  startScheduler: () => () => void;
+}
 
-export async function registerRoutes(app: Express): Promise<Server> {
+export async function registerRoutes(app: Express, services: Partial<RouteServices> = {}): Promise<RegisteredRoutes> {
   const apiRouter = express.Router();
 
+  // Bearer token checks, selected by the AUTH_VERIFIER environment variable
+  const auth = services.tokenVerifier ?? await createTokenVerifier();
+
   // ----- User Authentication Routes -----
 
   // Create user route
@@ -96,7 +223,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ----- Firestore Finance Routes -----
+  // ----- Finance Routes -----
+
+  // Finance data store, selected by the FINANCE_STORE environment variable
+  const repository = services.repository ?? await createFinanceRepository();
+
+  // Attachment files, selected by the ATTACHMENT_STORE environment variable
+  const attachmentStore = services.attachmentStore ?? await createAttachmentStore();
+
+  // Profile setup per user, so the lookup runs once per process and
+  // concurrent first requests wait on the same one
+  const profileSetups = new Map<string, Promise<void>>();
+
+  // Create the profile and default categories on a user's first
+  // authenticated request. Finance records reference the profile, and
+  // Postgres enforces that with foreign keys. Only the request that created
+  // the profile seeds categories, even across processes.
+  const setUpUserProfile = async (uid: string, email?: string) => {
+    if (await repository.getUserProfile(uid)) return;
+    if (await repository.createUserProfile({ uid, email: email ?? '', createdAt: new Date() })) {
+      await seedDefaultCategories(repository, uid);
+    }
+  };
+
+  const ensureUserProfile = (uid: string, email?: string) => {
+    let setup = profileSetups.get(uid);
+    if (!setup) {
+      setup = setUpUserProfile(uid, email);
+      profileSetups.set(uid, setup);
+      // A failed setup is retried on the user's next request
+      setup.catch(() => profileSetups.delete(uid));
+    }
+    return setup;
+  };
 
   // Middleware to verify authentication for all finance routes
   const authenticateUser = async (req: Request, res: Response, next: NextFunction) => {
@@ -107,48 +266,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const token = authHeader.split(' ')[1];
+      let decodedToken;
       try {
-        const decodedToken = await auth.verifyIdToken(token);
-        req.user = { uid: decodedToken.uid }; // Attach user to request
-        next();
+        decodedToken = await auth.verifyIdToken(token);
       } catch (error: any) {
-        res.status(401).json({ message: "Invalid token", error: error.message });
+        return res.status(401).json({ message: "Invalid token", error: error.message });
       }
+
+      req.user = { uid: decodedToken.uid }; // Attach user to request
+      await ensureUserProfile(decodedToken.uid, decodedToken.email);
+      next();
     } catch (error: any) {
       res.status(500).json({ message: "Server error", error: error.message });
     }
   };
 
-  // Import Firestore functions
-  const {
-    getTransactions,
-    getTransaction,
-    createTransaction,
-    updateTransaction,
-    deleteTransaction,
-    getBudgets,
-    getBudget,
-    createBudget,
-    updateBudget,
-    deleteBudget,
-    getCategories,
-    getCategoriesByType,
-    createCategory,
-    updateCategory,
-    deleteCategory,
-    getTotalsByCategory,
-    getTransactionsByPeriod
-  } = await import('./firestore');
+  // Ownership guards for routes addressing a single resource by :id
+  const ownsTransaction = requireOwnership((id) => repository.getTransaction(id), "Transaction");
+  const ownsAccount = requireOwnership((id) => repository.getAccount(id), "Account");
+  const ownsBudget = requireOwnership((id) => repository.getBudget(id), "Budget");
+  const ownsCategory = requireOwnership((id) => repository.getCategory(id), "Category");
+  const ownsGoal = requireOwnership((id) => repository.getGoal(id), "Savings goal");
+  const ownsPayee = requireOwnership((id) => repository.getPayee(id), "Payee");
+  const ownsRecurringRule = requireOwnership((id) => repository.getRecurringRule(id), "Recurring rule");
+  const ownsBill = requireOwnership((id) => repository.getBill(id), "Bill");
+
+  // Accounts referenced by a request must be the user's own
+  const checkAccount = async (userId: string, accountId: string | null | undefined) => {
+    if (!accountId) return null;
+    const account = await repository.getAccount(accountId);
+    return account && account.userId === userId ? null : "Account not found";
+  };
+
+  const checkPayee = async (userId: string, payeeId: string | null | undefined) => {
+    if (!payeeId) return null;
+    const payee = await repository.getPayee(payeeId);
+    return payee && payee.userId === userId ? null : "Payee not found";
+  };
+
+  // Categories must be the user's own, or the "uncategorized" stand-in.
+  // Given a type, the category must be of that type too.
+  const checkCategory = async (userId: string, categoryId: string | null | undefined, type?: Transaction['type']) => {
+    if (!categoryId || categoryId === UNCATEGORIZED) return null;
+    const category = await repository.getCategory(categoryId);
+    if (!category || category.userId !== userId) return "Category not found";
+    return !type || type === 'transfer' || category.type === type ? null : `Choose ${type === 'income' ? 'an income' : 'an expense'} category`;
+  };
+
+  // The categories of a transaction and of its split lines, which must match
+  // its type. Only transactions take the split and transfer stand-ins.
+  const checkTransactionCategories = async (userId: string, transaction: Partial<Transaction>) => {
+    for (const categoryId of [transaction.category, ...(transaction.splits ?? []).map(split => split.category)]) {
+      if (categoryId === SPLIT || categoryId === TRANSFER) continue;
+      const problem = await checkCategory(userId, categoryId, transaction.type);
+      if (problem) return problem;
+    }
+    return null;
+  };
+
+  // Split transactions take the "split" category, and choosing a single
+  // category removes the split. Fills those fields into `data` and returns
+  // the problem when the result is inconsistent.
+  const resolveSplits = (data: Partial<Transaction>, existing?: Transaction) => {
+    if (data.splits) data.category = SPLIT;
+    else if (data.category !== undefined && data.category !== SPLIT) data.splits = null;
+
+    const merged = { ...existing, ...data };
+    if (merged.splits) {
+      return splitsMatchAmount(merged.amount!, merged.splits) ? null : "Split amounts must add up to the transaction amount";
+    }
+    return merged.category === SPLIT ? "Please select a category" : null;
+  };
+
+  // Delete stored files before the record, so a failed removal can be retried
+  const removeAttachments = async (attachments: Attachment[]) => {
+    for (const attachment of attachments) {
+      await attachmentStore.remove(attachment.storageKey);
+      if (attachment.thumbnailKey) await attachmentStore.remove(attachment.thumbnailKey);
+      await repository.deleteAttachment(attachment.id!);
+    }
+  };
+
+  // Follow-up work for writes to a user's transactions. It runs here rather
+  // than on reads, which the client polls. `written` has the transactions
+  // as they were before and after the write, when the route knows them, so
+  // work they cannot affect is skipped. Failures are only logged since the
+  // write itself has already succeeded.
+  const transactionsWritten = async (userId: string, written?: Transaction[]) => {
+    try {
+      await notifyLinkedGoalMilestones(userId, written);
+      await reconcileBills(userId, written);
+    } catch (error) {
+      console.error('Error following up transaction writes:', error);
+    }
+  };
 
   // ----- Transaction Routes -----
   
-  // Get all transactions for a user
-  apiRouter.get("/transactions", authenticateUser, async (req: Request, res: Response) => {
+  // Get a page of a user's transactions, filtered and sorted by query params
+  apiRouter.get("/transactions", authenticateUser, validateQuery(transactionQuerySchema), async (req: Request, res: Response) => {
     try {
+      const { cursor, ...params } = res.locals.query;
+      const query: TransactionQuery = { ...params };
+
+      if (cursor) {
+        query.cursor = decodeCursor(cursor) ?? undefined;
+        if (!query.cursor) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+      }
+
       console.log(`Fetching transactions for user: ${req.user!.uid}`);
-      const transactions = await getTransactions(req.user!.uid);
-      console.log(`Found ${transactions.length} transactions`);
-      res.json(transactions);
+      const page = await repository.queryTransactions(req.user!.uid, query);
+      console.log(`Found ${page.items.length} transactions`);
+      res.json(page);
     } catch (error: any) {
       console.error('Error fetching transactions:', error);
       res.status(500).json({ message: "Failed to fetch transactions", error: error.message });
@@ -156,40 +387,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get a specific transaction
-  apiRouter.get("/transactions/:id", authenticateUser, async (req: Request, res: Response) => {
-    try {
-      const transaction = await getTransaction(req.params.id);
-      
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-      
-      // Verify the transaction belongs to the user
-      if (transaction.userId !== req.user.uid) {
-        return res.status(403).json({ message: "Not authorized to access this transaction" });
-      }
-      
-      res.json(transaction);
-    } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch transaction", error: error.message });
-    }
+  apiRouter.get("/transactions/:id", authenticateUser, ownsTransaction, (_req: Request, res: Response) => {
+    res.json(res.locals.resource);
   });
 
   // Create a new transaction
-  apiRouter.post("/transactions", authenticateUser, async (req: Request, res: Response) => {
+  apiRouter.post("/transactions", authenticateUser, validateBody(createTransactionSchema), async (req: Request, res: Response) => {
     try {
       console.log(`Creating transaction for user: ${req.user!.uid}`);
       console.log('Transaction data:', req.body);
+      const data = { ...req.body };
+      const problem = await checkAccount(req.user!.uid, req.body.accountId)
+        ?? await checkPayee(req.user!.uid, req.body.payeeId)
+        ?? resolveSplits(data)
+        ?? await checkTransactionCategories(req.user!.uid, data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
       
       const transactionData = {
-        ...req.body,
-        userId: req.user!.uid,
-        date: new Date(req.body.date) // Convert string date to Date object
+        ...data,
+        userId: req.user!.uid
       };
       
       console.log('Processed transaction data:', transactionData);
-      const id = await createTransaction(transactionData);
+      const id = await repository.createTransaction(transactionData);
       console.log('Transaction created with ID:', id);
+      await transactionsWritten(req.user!.uid, [{ id, ...transactionData }]);
       
       res.status(201).json({ id, ...transactionData });
     } catch (error: any) {
@@ -198,26 +422,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update a transaction
-  apiRouter.put("/transactions/:id", authenticateUser, async (req: Request, res: Response) => {
+  // Apply one set of operations to many transactions at once
+  apiRouter.post("/transactions/batch", authenticateUser, validateBody(batchTransactionsSchema), async (req: Request, res: Response) => {
     try {
-      const transaction = await getTransaction(req.params.id);
-      
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
+      const ids: string[] = Array.from(new Set(req.body.ids));
+      for (const operation of req.body.operations) {
+        const problem = operation.action === 'setAccount' && await checkAccount(req.user!.uid, operation.accountId)
+          || operation.action === 'recategorize' && await checkCategory(req.user!.uid, operation.category);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
       }
-      
-      // Verify the transaction belongs to the user
-      if (transaction.userId !== req.user.uid) {
-        return res.status(403).json({ message: "Not authorized to update this transaction" });
+      // Attachments are looked up first since Postgres drops their records
+      // together with the transactions
+      const attached = isDeleteBatch(req.body.operations)
+        ? new Map(await Promise.all(ids.map(async id => [id, await repository.getAttachments(id)] as const)))
+        : new Map<string, Attachment[]>();
+      const categories = await repository.getCategories(req.user!.uid);
+      const categoryTypes = new Map(categories.map(category => [category.id!, category.type]));
+      const results = await repository.batchTransactions(req.user!.uid, ids, req.body.operations, categoryTypes);
+      for (const result of results.filter(result => result.status === 'deleted')) {
+        await removeAttachments(attached.get(result.id) ?? []);
       }
-      
-      // If date is provided, convert string to Date
-      if (req.body.date) {
-        req.body.date = new Date(req.body.date);
+      // Tags matter to neither bills nor goals
+      if (req.body.operations.some((operation: BatchOperation) => operation.action !== 'addTags')) {
+        await transactionsWritten(req.user!.uid);
       }
-      
-      await updateTransaction(req.params.id, req.body);
+
+      res.json({
+        results,
+        updated: results.filter(result => result.status === 'updated').length,
+        deleted: results.filter(result => result.status === 'deleted').length,
+        failed: results.filter(result => result.status !== 'updated' && result.status !== 'deleted').length
+      });
+    } catch (error: any) {
+      console.error('Error applying transaction batch:', error);
+      res.status(500).json({ message: "Failed to apply batch", error: error.message });
+    }
+  });
+
+  // Update a transaction
+  apiRouter.put("/transactions/:id", authenticateUser, ownsTransaction, validateBody(updateTransactionSchema), async (req: Request, res: Response) => {
+    try {
+      if (res.locals.resource.type === 'transfer') {
+        return res.status(400).json({ message: "Transfers are updated through /api/transfers/:id" });
+      }
+      const data = { ...req.body };
+      const problem = await checkAccount(req.user!.uid, req.body.accountId)
+        ?? await checkPayee(req.user!.uid, req.body.payeeId)
+        ?? resolveSplits(data, res.locals.resource)
+        ?? await checkTransactionCategories(req.user!.uid, { ...res.locals.resource, ...data });
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      await repository.updateTransaction(req.params.id, data);
+      await transactionsWritten(req.user!.uid, [res.locals.resource, { ...res.locals.resource, ...data }]);
       res.json({ message: "Transaction updated successfully" });
     } catch (error: any) {
       res.status(500).json({ message: "Failed to update transaction", error: error.message });
@@ -225,239 +484,1635 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a transaction
-  apiRouter.delete("/transactions/:id", authenticateUser, async (req: Request, res: Response) => {
+  apiRouter.delete("/transactions/:id", authenticateUser, ownsTransaction, async (req: Request, res: Response) => {
     try {
-      const transaction = await getTransaction(req.params.id);
-      
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
-      }
-      
-      // Verify the transaction belongs to the user
-      if (transaction.userId !== req.user.uid) {
-        return res.status(403).json({ message: "Not authorized to delete this transaction" });
-      }
-      
-      await deleteTransaction(req.params.id);
+      await removeAttachments(await repository.getAttachments(req.params.id));
+      await repository.deleteTransaction(req.params.id);
+      await transactionsWritten(req.user!.uid, [res.locals.resource]);
       res.json({ message: "Transaction deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: "Failed to delete transaction", error: error.message });
     }
   });
 
-  // ----- Budget Routes -----
-  
-  // Get all budgets for a user
-  apiRouter.get("/budgets", authenticateUser, async (req: Request, res: Response) => {
+  // ----- Attachment Routes -----
+
+  // Uploads are held in memory until their type is checked and the
+  // thumbnail is made, so nothing partial reaches the store
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 }
+  }).single("file");
+
+  const receiveFile = (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return error.code === "LIMIT_FILE_SIZE"
+          ? res.status(413).json({ message: `Files must be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB` })
+          : res.status(400).json({ message: error.message });
+      }
+      if (error) return next(error);
+      next();
+    });
+  };
+
+  // The attachment named by :attachmentId, when it belongs to the transaction in :id
+  const findAttachment = async (req: Request) => {
+    const attachment = await repository.getAttachment(req.params.attachmentId);
+    return attachment && attachment.transactionId === req.params.id ? attachment : null;
+  };
+
+  // List a transaction's attachments
+  apiRouter.get("/transactions/:id/attachments", authenticateUser, ownsTransaction, async (req: Request, res: Response) => {
     try {
-      const budgets = await getBudgets(req.user.uid);
-      res.json(budgets);
+      const attachments = await repository.getAttachments(req.params.id);
+      res.json(attachments.map(publicAttachment));
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch budgets", error: error.message });
+      res.status(500).json({ message: "Failed to fetch attachments", error: error.message });
     }
   });
 
-  // Get a specific budget
-  apiRouter.get("/budgets/:id", authenticateUser, async (req: Request, res: Response) => {
+  // Upload a receipt or document as the multipart field "file"
+  apiRouter.post("/transactions/:id/attachments", authenticateUser, ownsTransaction, receiveFile, async (req: Request, res: Response) => {
     try {
-      const budget = await getBudget(req.params.id);
-      
-      if (!budget) {
-        return res.status(404).json({ message: "Budget not found" });
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "Choose a file to upload" });
       }
-      
-      // Verify the budget belongs to the user
-      if (budget.userId !== req.user.uid) {
-        return res.status(403).json({ message: "Not authorized to access this budget" });
+
+      const contentType = sniffContentType(file.buffer);
+      if (!contentType) {
+        return res.status(415).json({ message: "Only JPEG, PNG, WebP or GIF images and PDF files can be attached" });
       }
-      
-      res.json(budget);
+
+      const existing = await repository.getAttachments(req.params.id);
+      if (existing.length >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+        return res.status(409).json({
+          message: `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`
+        });
+      }
+
+      let thumbnail: Buffer | null;
+      try {
+        thumbnail = await createThumbnail(file.buffer, contentType);
+      } catch {
+        return res.status(400).json({ message: "The image could not be read" });
+      }
+
+      const userId = req.user!.uid;
+      const storageKey = attachmentKey(userId, req.params.id);
+      await attachmentStore.save(storageKey, file.buffer, contentType);
+      if (thumbnail) {
+        await attachmentStore.save(thumbnailKey(storageKey), thumbnail, "image/jpeg");
+      }
+
+      const attachment: Attachment = {
+        userId,
+        transactionId: req.params.id,
+        // Multer decodes multipart file names as latin1
+        fileName: Buffer.from(file.originalname, "latin1").toString("utf8").slice(0, 200) || "attachment",
+        contentType,
+        size: file.size,
+        storageKey,
+        thumbnailKey: thumbnail ? thumbnailKey(storageKey) : null,
+        createdAt: new Date()
+      };
+      const id = await repository.createAttachment(attachment);
+      res.status(201).json(publicAttachment({ id, ...attachment }));
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch budget", error: error.message });
+      res.status(500).json({ message: "Failed to upload attachment", error: error.message });
     }
   });
 
-  // Create a new budget
-  apiRouter.post("/budgets", authenticateUser, async (req: Request, res: Response) => {
+  // Download an attachment
+  apiRouter.get("/transactions/:id/attachments/:attachmentId", authenticateUser, ownsTransaction, async (req: Request, res: Response) => {
     try {
-      const budgetData = {
-        ...req.body,
-        userId: req.user.uid
-      };
-      
-      const id = await createBudget(budgetData);
-      res.status(201).json({ id, ...budgetData });
+      const attachment = await findAttachment(req);
+      const data = attachment && await attachmentStore.read(attachment.storageKey);
+      if (!attachment || !data) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      res.set({
+        "Content-Type": attachment.contentType,
+        "Content-Disposition": contentDisposition(attachment.fileName),
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=3600"
+      });
+      res.send(data);
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to create budget", error: error.message });
+      res.status(500).json({ message: "Failed to download attachment", error: error.message });
     }
   });
 
-  // Update a budget
-  apiRouter.put("/budgets/:id", authenticateUser, async (req: Request, res: Response) => {
+  // Download the JPEG thumbnail of an image attachment
+  apiRouter.get("/transactions/:id/attachments/:attachmentId/thumbnail", authenticateUser, ownsTransaction, async (req: Request, res: Response) => {
     try {
-      const budget = await getBudget(req.params.id);
-      
-      if (!budget) {
-        return res.status(404).json({ message: "Budget not found" });
+      const attachment = await findAttachment(req);
+      const data = attachment?.thumbnailKey && await attachmentStore.read(attachment.thumbnailKey);
+      if (!data) {
+        return res.status(404).json({ message: "Thumbnail not found" });
       }
-      
-      // Verify the budget belongs to the user
-      if (budget.userId !== req.user.uid) {
-        return res.status(403).json({ message: "Not authorized to update this budget" });
+
+      res.set({ "Content-Type": "image/jpeg", "Cache-Control": "private, max-age=3600" });
+      res.send(data);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to download thumbnail", error: error.message });
+    }
+  });
+
+  // Delete an attachment and its stored files
+  apiRouter.delete("/transactions/:id/attachments/:attachmentId", authenticateUser, ownsTransaction, async (req: Request, res: Response) => {
+    try {
+      const attachment = await findAttachment(req);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
       }
-      
-      await updateBudget(req.params.id, req.body);
-      res.json({ message: "Budget updated successfully" });
+
+      await removeAttachments([attachment]);
+      res.json({ message: "Attachment deleted successfully" });
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to update budget", error: error.message });
+      res.status(500).json({ message: "Failed to delete attachment", error: error.message });
     }
   });
 
-  // Delete a budget
-  apiRouter.delete("/budgets/:id", authenticateUser, async (req: Request, res: Response) => {
+  // ----- Account Routes -----
+
+  // Every account with its balance, and the aggregate across accounts
+  apiRouter.get("/accounts", authenticateUser, async (req: Request, res: Response) => {
     try {
-      const budget = await getBudget(req.params.id);
-      
-      if (!budget) {
-        return res.status(404).json({ message: "Budget not found" });
+      const userId = req.user!.uid;
+      const [accounts, transactions] = await Promise.all([
+        repository.getAccounts(userId),
+        repository.getTransactions(userId)
+      ]);
+      res.json(accountOverview(accounts, transactions));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch accounts", error: error.message });
+    }
+  });
+
+  // Create an account
+  apiRouter.post("/accounts", authenticateUser, validateBody(createAccountSchema), async (req: Request, res: Response) => {
+    try {
+      const account = {
+        userId: req.user!.uid,
+        name: req.body.name,
+        type: req.body.type,
+        currency: req.body.currency,
+        openingBalance: req.body.openingBalance,
+        creditLimit: req.body.creditLimit ?? null,
+        archived: false,
+        createdAt: new Date()
+      };
+      const id = await repository.createAccount(account);
+      res.status(201).json({ id, ...account });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to create account", error: error.message });
+    }
+  });
+
+  // Update an account
+  apiRouter.put("/accounts/:id", authenticateUser, ownsAccount, validateBody(updateAccountSchema), async (req: Request, res: Response) => {
+    try {
+      await repository.updateAccount(req.params.id, req.body);
+      res.json({ message: "Account updated successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update account", error: error.message });
+    }
+  });
+
+  // Delete an account. Accounts with transactions would take part of the
+  // balance with them, so those must be moved or the account archived.
+  apiRouter.delete("/accounts/:id", authenticateUser, ownsAccount, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const [transactions, goals, rules, bills] = await Promise.all([
+        repository.queryTransactions(userId, { limit: 1, sort: { field: 'date', direction: 'desc' }, accountId: req.params.id }),
+        repository.getGoals(userId),
+        repository.getRecurringRules(userId),
+        repository.getBills(userId)
+      ]);
+      if (transactions.items.length > 0) {
+        return res.status(409).json({
+          message: "This account has transactions. Move them to another account or archive it instead."
+        });
       }
-      
-      // Verify the budget belongs to the user
-      if (budget.userId !== req.user.uid) {
-        return res.status(403).json({ message: "Not authorized to delete this budget" });
+
+      for (const goal of goals.filter(goal => goal.accountId === req.params.id)) {
+        await repository.updateGoal(goal.id!, { accountId: null });
       }
-      
-      await deleteBudget(req.params.id);
-      res.json({ message: "Budget deleted successfully" });
+      for (const rule of rules.filter(rule => rule.accountId === req.params.id)) {
+        await repository.updateRecurringRule(rule.id!, { accountId: null });
+      }
+      for (const bill of bills.filter(bill => bill.accountId === req.params.id)) {
+        await repository.updateBill(bill.id!, { accountId: null });
+      }
+      await repository.deleteAccount(req.params.id);
+      res.json({ message: "Account deleted successfully" });
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to delete budget", error: error.message });
+      res.status(500).json({ message: "Failed to delete account", error: error.message });
     }
   });
 
-  // ----- Category Routes -----
-  
-  // Get all categories for a user
-  apiRouter.get("/categories", authenticateUser, async (req: Request, res: Response) => {
+  // The account's transactions, newest first, with the balance after each
+  apiRouter.get("/accounts/:id/register", authenticateUser, ownsAccount, async (req: Request, res: Response) => {
     try {
-      const categories = await getCategories(req.user.uid);
-      res.json(categories);
+      const transactions = await repository.getTransactions(req.user!.uid);
+      res.json(accountRegister(res.locals.resource, transactions));
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch categories", error: error.message });
+      res.status(500).json({ message: "Failed to fetch account register", error: error.message });
     }
   });
 
-  // Get categories by type (income/expense)
-  apiRouter.get("/categories/type/:type", authenticateUser, async (req: Request, res: Response) => {
+  // ----- Transfer Routes -----
+
+  // Both sides of a transfer must be the user's accounts in one currency
+  const checkTransferAccounts = async (userId: string, fromAccountId?: string | null, toAccountId?: string | null) => {
+    if (!fromAccountId || !toAccountId) return "Choose the accounts to transfer between";
+    if (fromAccountId === toAccountId) return "Choose two different accounts";
+    const [from, to] = await Promise.all([repository.getAccount(fromAccountId), repository.getAccount(toAccountId)]);
+    if (!from || from.userId !== userId || !to || to.userId !== userId) return "Account not found";
+    return from.currency === to.currency ? null : "Transfers must be between accounts in the same currency";
+  };
+
+  // Move money from one account to another
+  apiRouter.post("/transfers", authenticateUser, validateBody(createTransferSchema), async (req: Request, res: Response) => {
     try {
-      const type = req.params.type as 'income' | 'expense';
-      
-      if (type !== 'income' && type !== 'expense') {
-        return res.status(400).json({ message: "Type must be either 'income' or 'expense'" });
+      const userId = req.user!.uid;
+      const problem = await checkTransferAccounts(userId, req.body.fromAccountId, req.body.toAccountId);
+      if (problem) {
+        return res.status(400).json({ message: problem });
       }
-      
-      const categories = await getCategoriesByType(req.user.uid, type);
-      res.json(categories);
+
+      const transfer: Transaction = {
+        userId,
+        amount: req.body.amount,
+        category: TRANSFER,
+        description: req.body.description,
+        date: req.body.date,
+        type: 'transfer',
+        tags: req.body.tags ?? [],
+        accountId: req.body.fromAccountId,
+        transferAccountId: req.body.toAccountId,
+        createdAt: new Date()
+      };
+      const id = await repository.createTransaction(transfer);
+      await transactionsWritten(userId, [{ ...transfer, id }]);
+      res.status(201).json({ id, ...transfer });
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch categories", error: error.message });
+      res.status(500).json({ message: "Failed to create transfer", error: error.message });
     }
   });
 
-  // Create a new category
-  apiRouter.post("/categories", authenticateUser, async (req: Request, res: Response) => {
+  // Update a transfer's amount, date, description or accounts
+  apiRouter.put("/transfers/:id", authenticateUser, ownsTransaction, validateBody(updateTransferSchema), async (req: Request, res: Response) => {
     try {
-      const categoryData = {
+      const existing: Transaction = res.locals.resource;
+      if (existing.type !== 'transfer') {
+        return res.status(400).json({ message: "Transaction is not a transfer" });
+      }
+
+      const { fromAccountId, toAccountId, ...fields } = req.body;
+      const changes: Partial<Transaction> = { ...fields };
+      if (fromAccountId !== undefined || toAccountId !== undefined) {
+        changes.accountId = fromAccountId ?? existing.accountId;
+        changes.transferAccountId = toAccountId ?? existing.transferAccountId;
+        const problem = await checkTransferAccounts(req.user!.uid, changes.accountId, changes.transferAccountId);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+
+      await repository.updateTransaction(req.params.id, changes);
+      await transactionsWritten(req.user!.uid, [existing, { ...existing, ...changes }]);
+      res.json({ message: "Transfer updated successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update transfer", error: error.message });
+    }
+  });
+
+  // ----- Recurring Rule Routes -----
+
+  // Changing any of these changes which dates the rule falls on
+  const scheduleFields = ["frequency", "interval", "startDate", "endDate"] as const;
+
+  const scheduleChanged = (existing: RecurringRule, data: Partial<RecurringRule>) => {
+    const value = (field: unknown) => field instanceof Date ? field.getTime() : field ?? null;
+    return scheduleFields.some(field => field in data && value(data[field]) !== value(existing[field]));
+  };
+
+  // Get all of the user's recurring rules
+  apiRouter.get("/recurring", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const rules = await repository.getRecurringRules(req.user!.uid);
+      res.json(rules.map(withNextDate));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch recurring rules", error: error.message });
+    }
+  });
+
+  // Create a recurring rule. Occurrences before today are not posted, and
+  // one due today is posted right away.
+  apiRouter.post("/recurring", authenticateUser, validateBody(createRecurringRuleSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const problem = await checkAccount(userId, req.body.accountId)
+        ?? await checkCategory(userId, req.body.category, req.body.type);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const rule: RecurringRule = {
         ...req.body,
-        userId: req.user.uid
+        userId,
+        accountId: req.body.accountId ?? null,
+        endDate: req.body.endDate ?? null,
+        skippedOccurrences: [],
+        nextOccurrence: null,
+        createdAt: new Date()
       };
-      
-      const id = await createCategory(categoryData);
-      res.status(201).json({ id, ...categoryData });
+      rule.nextOccurrence = resumeOccurrence(rule);
+      const id = await repository.createRecurringRule(rule);
+      if (await postDueOccurrences(repository, { ...rule, id }) > 0) {
+        await transactionsWritten(userId);
+      }
+
+      const created = await repository.getRecurringRule(id);
+      res.status(201).json(withNextDate(created!));
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to create category", error: error.message });
+      res.status(500).json({ message: "Failed to create recurring rule", error: error.message });
     }
   });
 
-  // Update a category
-  apiRouter.put("/categories/:id", authenticateUser, async (req: Request, res: Response) => {
+  // Update a recurring rule. Changes apply to every occurrence not posted
+  // yet; transactions already posted are left as they are.
+  apiRouter.put("/recurring/:id", authenticateUser, ownsRecurringRule, validateBody(updateRecurringRuleSchema), async (req: Request, res: Response) => {
     try {
-      // Implement category ownership check here
-      await updateCategory(req.params.id, req.body);
-      res.json({ message: "Category updated successfully" });
+      const existing: RecurringRule = res.locals.resource;
+      const data: Partial<RecurringRule> = { ...req.body };
+      const merged = { ...existing, ...data };
+      if (merged.endDate && merged.endDate < merged.startDate) {
+        return res.status(400).json({ message: "End date must not be before the start date" });
+      }
+      const problem = await checkAccount(req.user!.uid, data.accountId)
+        ?? await checkCategory(req.user!.uid, merged.category, merged.type);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const now = new Date();
+      if (scheduleChanged(existing, data)) {
+        // Pick up where posting left off, and keep only the skips that are
+        // still occurrences of the new schedule
+        data.nextOccurrence = resumeOccurrence(merged, min([existing.nextOccurrence ?? now, now]));
+        data.skippedOccurrences = existing.skippedOccurrences.filter(occurrence => isOccurrence(merged, parseISO(occurrence)));
+      } else if (existing.paused && data.paused === false) {
+        // Resuming skips whatever came due while paused
+        data.nextOccurrence = resumeOccurrence(merged, now);
+      }
+
+      await repository.updateRecurringRule(req.params.id, data);
+      if (await postDueOccurrences(repository, { ...merged, ...data }, now) > 0) {
+        await transactionsWritten(req.user!.uid);
+      }
+
+      const updated = await repository.getRecurringRule(req.params.id);
+      res.json(withNextDate(updated!));
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to update category", error: error.message });
+      res.status(500).json({ message: "Failed to update recurring rule", error: error.message });
     }
   });
 
-  // Delete a category
-  apiRouter.delete("/categories/:id", authenticateUser, async (req: Request, res: Response) => {
+  // Delete a recurring rule. Transactions it posted are kept.
+  apiRouter.delete("/recurring/:id", authenticateUser, ownsRecurringRule, async (req: Request, res: Response) => {
     try {
-      // Implement category ownership check here
-      await deleteCategory(req.params.id);
-      res.json({ message: "Category deleted successfully" });
+      await repository.deleteRecurringRule(req.params.id);
+      res.json({ message: "Recurring rule deleted successfully" });
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to delete category", error: error.message });
+      res.status(500).json({ message: "Failed to delete recurring rule", error: error.message });
     }
   });
 
-  // ----- Analytics Routes -----
-  
-  // Get transactions by period
-  apiRouter.get("/analytics/transactions", authenticateUser, async (req: Request, res: Response) => {
+  // Preview the rule's next occurrences, skipped ones included
+  apiRouter.get("/recurring/:id/occurrences", authenticateUser, ownsRecurringRule, validateQuery(occurrenceQuerySchema), (_req: Request, res: Response) => {
+    res.json(upcomingOccurrences(res.locals.resource, res.locals.query.count));
+  });
+
+  // Skip one upcoming occurrence without changing the rest of the schedule
+  apiRouter.post("/recurring/:id/skips", authenticateUser, ownsRecurringRule, validateBody(skipOccurrenceSchema), async (req: Request, res: Response) => {
     try {
-      const { startDate, endDate } = req.query;
-      
-      if (!startDate || !endDate) {
-        return res.status(400).json({ message: "Start date and end date are required" });
+      const rule: RecurringRule = res.locals.resource;
+      const date = parseISO(req.body.occurrence);
+      if (!rule.nextOccurrence || date < startOfDay(rule.nextOccurrence) || !isOccurrence(rule, date)) {
+        return res.status(400).json({ message: "That date is not an upcoming occurrence of this rule" });
       }
-      
-      const transactions = await getTransactionsByPeriod(
-        req.user.uid,
-        new Date(startDate as string),
-        new Date(endDate as string)
-      );
-      
-      res.json(transactions);
+
+      // Skips of occurrences already passed are no longer needed
+      const skippedOccurrences = rule.skippedOccurrences
+        .filter(occurrence => occurrence !== req.body.occurrence && parseISO(occurrence) >= startOfDay(rule.nextOccurrence!))
+        .concat(req.body.occurrence)
+        .sort();
+      await repository.updateRecurringRule(req.params.id, { skippedOccurrences });
+      res.json(withNextDate({ ...rule, skippedOccurrences }));
     } catch (error: any) {
-      res.status(500).json({ message: "Failed to fetch transactions", error: error.message });
+      res.status(500).json({ message: "Failed to skip occurrence", error: error.message });
     }
   });
 
-  // Get totals by category
-  apiRouter.get("/analytics/category-totals", authenticateUser, async (req: Request, res: Response) => {
+  // Post a skipped occurrence after all
+  apiRouter.delete("/recurring/:id/skips/:occurrence", authenticateUser, ownsRecurringRule, async (req: Request, res: Response) => {
     try {
-      const { type, startDate, endDate } = req.query;
-      
-      if (!type || !startDate || !endDate) {
-        return res.status(400).json({ 
-          message: "Type, start date, and end date are required" 
-        });
-      }
-      
-      if (type !== 'income' && type !== 'expense') {
-        return res.status(400).json({ 
-          message: "Type must be either 'income' or 'expense'" 
-        });
+      const rule: RecurringRule = res.locals.resource;
+      const skippedOccurrences = rule.skippedOccurrences.filter(occurrence => occurrence !== req.params.occurrence);
+      await repository.updateRecurringRule(req.params.id, { skippedOccurrences });
+      if (await postDueOccurrences(repository, { ...rule, skippedOccurrences }) > 0) {
+        await transactionsWritten(req.user!.uid);
       }
-      
-      const totals = await getTotalsByCategory(
-        req.user.uid,
-        type as 'income' | 'expense',
-        new Date(startDate as string),
-        new Date(endDate as string)
-      );
-      
-      res.json(totals);
+
+      const updated = await repository.getRecurringRule(req.params.id);
+      res.json(withNextDate(updated!));
     } catch (error: any) {
-      res.status(500).json({ 
-        message: "Failed to fetch category totals", 
-        error: error.message 
-      });
+      res.status(500).json({ message: "Failed to restore occurrence", error: error.message });
     }
   });
 
-  // Mount the API router
-  app.use("/api", apiRouter);
+  // ----- Subscription Routes -----
 
-  const httpServer = createServer(app);
-  return httpServer;
+  // Subscriptions detected in the user's history, with their decisions
+  const loadSubscriptions = async (userId: string) => {
+    const [transactions, payees, reviews, rules] = await Promise.all([
+      repository.getTransactions(userId),
+      repository.getPayees(userId),
+      repository.getSubscriptionReviews(userId),
+      repository.getRecurringRules(userId)
+    ]);
+    return { subscriptions: reviewSubscriptions(detectSubscriptions(transactions, payees), reviews, rules), reviews };
+  };
+
+  // Get the user's subscriptions, most expensive first
+  apiRouter.get("/subscriptions", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const { subscriptions } = await loadSubscriptions(req.user!.uid);
+      res.json(subscriptions);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch subscriptions", error: error.message });
+    }
+  });
+
+  // Confirm or ignore a subscription, or undo that with a null status. A
+  // subscription converted into a recurring rule keeps its review, which
+  // links the rule, so undoing returns it to confirmed instead.
+  apiRouter.put("/subscriptions/:key", authenticateUser, validateBody(reviewSubscriptionSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const { key } = req.params;
+      const { status } = req.body;
+      const { subscriptions, reviews } = await loadSubscriptions(userId);
+      const subscription = subscriptions.find(s => s.key === key);
+      if (!subscription) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+
+      const review = reviews.find(r => r.key === key);
+      const next = status === null && subscription.recurringRuleId ? "confirmed" : status;
+      if (next === null) {
+        if (review) await repository.deleteSubscriptionReview(review.id!);
+      } else if (review) {
+        await repository.updateSubscriptionReview(review.id!, { status: next });
+      } else {
+        await repository.createSubscriptionReview({ userId, key, status: next, recurringRuleId: null, createdAt: new Date() });
+      }
+      res.json({ ...subscription, status: next ?? "detected" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update subscription", error: error.message });
+    }
+  });
+
+  // Convert a subscription into a recurring rule that posts its future
+  // charges, which also confirms it
+  apiRouter.post("/subscriptions/:key/recurring", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const { key } = req.params;
+      const { subscriptions, reviews } = await loadSubscriptions(userId);
+      const subscription = subscriptions.find(s => s.key === key);
+      if (!subscription) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      if (subscription.recurringRuleId) {
+        return res.status(409).json({ message: "This subscription already has a recurring rule" });
+      }
+
+      const rule = subscriptionRule(subscription, userId);
+      const id = await repository.createRecurringRule(rule);
+      if (await postDueOccurrences(repository, { ...rule, id }) > 0) {
+        await transactionsWritten(userId);
+      }
+
+      const review = reviews.find(r => r.key === key);
+      if (review) {
+        await repository.updateSubscriptionReview(review.id!, { status: "confirmed", recurringRuleId: id });
+      } else {
+        await repository.createSubscriptionReview({ userId, key, status: "confirmed", recurringRuleId: id, createdAt: new Date() });
+      }
+
+      const created = await repository.getRecurringRule(id);
+      res.status(201).json(withNextDate(created!));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to convert subscription", error: error.message });
+    }
+  });
+
+  // ----- Bill Routes -----
+
+  // Mark the due dates of the user's bills that posted transactions paid.
+  // Runs after writes to transactions or bills, reading only the
+  // transactions that can still pay a due date, and only when the
+  // `written` transactions could change a payment.
+  const reconcileBills = async (userId: string, written?: Transaction[]) => {
+    const bills = await repository.getBills(userId);
+    if (bills.length === 0 || (written && !affectsBills(bills, written))) return;
+
+    const { from, to } = paymentWindow();
+    const transactions = await repository.getTransactionsByPeriod(userId, from, to);
+    for (const { bill, payments } of matchBillPayments(bills, transactions)) {
+      await repository.updateBill(bill.id!, { payments });
+    }
+  };
+
+  // Send the upcoming and overdue reminders every user's bills are owed.
+  // The recurring scheduler runs this, since reminders come due with time.
+  const sendBillReminders = async (now: Date) => {
+    for (const bill of await repository.getActiveBills(remindersSince(now))) {
+      const reminders = billReminders(bill, now);
+      if (reminders.length === 0) continue;
+      for (const { notification } of reminders) {
+        await repository.createNotification(notification);
+      }
+      const notifiedReminders = recentReminders([...bill.notifiedReminders, ...reminders.map(reminder => reminder.key)], now);
+      await repository.updateBill(bill.id!, { notifiedReminders });
+    }
+  };
+
+  // Get all of the user's bills with their next due date
+  apiRouter.get("/bills", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const bills = await repository.getBills(req.user!.uid);
+      res.json(bills.map(bill => withNextDue(bill)));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch bills", error: error.message });
+    }
+  });
+
+  // Every bill's due dates in a calendar month, paid or not
+  apiRouter.get("/bills/calendar", authenticateUser, validateQuery(billCalendarQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const bills = await repository.getBills(req.user!.uid);
+      res.json(billCalendar(bills, res.locals.query.month ?? format(new Date(), "yyyy-MM")));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch bill calendar", error: error.message });
+    }
+  });
+
+  // Create a bill
+  apiRouter.post("/bills", authenticateUser, validateBody(createBillSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const problem = await checkAccount(userId, req.body.accountId) ?? await checkPayee(userId, req.body.payeeId);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const bill: Bill = {
+        ...req.body,
+        userId,
+        accountId: req.body.accountId ?? null,
+        payeeId: req.body.payeeId ?? null,
+        endDate: req.body.endDate ?? null,
+        payments: [],
+        notifiedReminders: [],
+        createdAt: new Date()
+      };
+      const id = await repository.createBill(bill);
+      await reconcileBills(userId);
+
+      const created = await repository.getBill(id);
+      res.status(201).json(withNextDue(created!));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to create bill", error: error.message });
+    }
+  });
+
+  // Update a bill. Payments already recorded are kept.
+  apiRouter.put("/bills/:id", authenticateUser, ownsBill, validateBody(updateBillSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const merged: Bill = { ...res.locals.resource, ...req.body };
+      if (merged.endDate && merged.endDate < merged.dueDate) {
+        return res.status(400).json({ message: "End date must not be before the first due date" });
+      }
+      const problem = await checkAccount(userId, req.body.accountId) ?? await checkPayee(userId, req.body.payeeId);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      await repository.updateBill(req.params.id, req.body);
+      await reconcileBills(userId);
+
+      const updated = await repository.getBill(req.params.id);
+      res.json(withNextDue(updated!));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update bill", error: error.message });
+    }
+  });
+
+  // Delete a bill. Transactions that paid it are kept.
+  apiRouter.delete("/bills/:id", authenticateUser, ownsBill, async (req: Request, res: Response) => {
+    try {
+      await repository.deleteBill(req.params.id);
+      res.json({ message: "Bill deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to delete bill", error: error.message });
+    }
+  });
+
+  // Mark a due date paid without a matching transaction
+  apiRouter.post("/bills/:id/payments", authenticateUser, ownsBill, validateBody(createBillPaymentSchema), async (req: Request, res: Response) => {
+    try {
+      const bill: Bill = res.locals.resource;
+      const { dueDate, amount } = req.body;
+      if (!isDueDate(bill, dueDate)) {
+        return res.status(400).json({ message: "That date is not a due date of this bill" });
+      }
+      if (bill.payments.some(payment => payment.dueDate === dueDate)) {
+        return res.status(409).json({ message: "This due date is already paid" });
+      }
+
+      const payments = [...bill.payments, { dueDate, transactionId: null, amount: amount ?? bill.amount, paidAt: new Date() }];
+      await repository.updateBill(req.params.id, { payments });
+      res.status(201).json(withNextDue({ ...bill, payments }));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to mark bill paid", error: error.message });
+    }
+  });
+
+  // Mark a due date unpaid again. Payments matched to a transaction follow
+  // that transaction instead.
+  apiRouter.delete("/bills/:id/payments/:dueDate", authenticateUser, ownsBill, async (req: Request, res: Response) => {
+    try {
+      const bill: Bill = res.locals.resource;
+      const payment = bill.payments.find(payment => payment.dueDate === req.params.dueDate);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (payment.transactionId) {
+        return res.status(409).json({
+          message: "This due date was paid by a transaction. Delete or change the transaction instead."
+        });
+      }
+
+      const payments = bill.payments.filter(other => other !== payment);
+      await repository.updateBill(req.params.id, { payments });
+      res.json(withNextDue({ ...bill, payments }));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to mark bill unpaid", error: error.message });
+    }
+  });
+
+  // ----- Payee and Tag Routes -----
+
+  // Payee names are unique per user once normalized, and the default
+  // category must be one of the user's own
+  const checkPayeeFields = async (userId: string, payee: Pick<Payee, 'normalizedName' | 'defaultCategory'>, selfId?: string) => {
+    const payees = await repository.getPayees(userId);
+    if (payees.some(other => other.id !== selfId && other.normalizedName === payee.normalizedName)) {
+      return { status: 409, message: "A payee with this name already exists" };
+    }
+    if (payee.defaultCategory) {
+      const category = await repository.getCategory(payee.defaultCategory);
+      if (!category || category.userId !== userId) {
+        return { status: 400, message: "Default category not found" };
+      }
+    }
+    return null;
+  };
+
+  // Get all of the user's payees
+  apiRouter.get("/payees", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const payees = await repository.getPayees(req.user!.uid);
+      res.json(payees);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch payees", error: error.message });
+    }
+  });
+
+  // Create a payee
+  apiRouter.post("/payees", authenticateUser, validateBody(createPayeeSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const payee = {
+        userId,
+        name: req.body.name,
+        normalizedName: normalizePayeeName(req.body.name),
+        defaultCategory: req.body.defaultCategory ?? null,
+        createdAt: new Date()
+      };
+      const problem = await checkPayeeFields(userId, payee);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+
+      const id = await repository.createPayee(payee);
+      res.status(201).json({ id, ...payee });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to create payee", error: error.message });
+    }
+  });
+
+  // Update a payee
+  apiRouter.put("/payees/:id", authenticateUser, ownsPayee, validateBody(updatePayeeSchema), async (req: Request, res: Response) => {
+    try {
+      const data: Partial<Payee> = { ...req.body };
+      if (data.name !== undefined) data.normalizedName = normalizePayeeName(data.name);
+      const problem = await checkPayeeFields(req.user!.uid, { ...res.locals.resource, ...data }, req.params.id);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+
+      await repository.updatePayee(req.params.id, data);
+      res.json({ message: "Payee updated successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update payee", error: error.message });
+    }
+  });
+
+  // Delete a payee. Its transactions are kept without a payee.
+  apiRouter.delete("/payees/:id", authenticateUser, ownsPayee, async (req: Request, res: Response) => {
+    try {
+      await repository.deletePayee(req.params.id);
+      res.json({ message: "Payee deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to delete payee", error: error.message });
+    }
+  });
+
+  // Every tag the user has used, most used first
+  apiRouter.get("/tags", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const transactions = await repository.getTransactions(req.user!.uid);
+      res.json(tagUsage(transactions));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch tags", error: error.message });
+    }
+  });
+
+  // ----- Budget Routes -----
+  
+  // Get all budgets for a user
+  apiRouter.get("/budgets", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const budgets = await repository.getBudgets(req.user!.uid);
+      res.json(budgets);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch budgets", error: error.message });
+    }
+  });
+
+  // Period histories of the user's budgets through asOf. Budgets without
+  // rollover only need their current period unless the full history is asked for.
+  const loadBudgetHistories = async (userId: string, budgets: Budget[], asOf: Date, fullHistory: boolean) => {
+    const [profile, categories] = await Promise.all([
+      repository.getUserProfile(userId),
+      repository.getCategories(userId)
+    ]);
+    const settings = budgetSettings(profile);
+    const histories = new Map<string, BudgetPeriodRecord[]>();
+    if (budgets.length === 0) return { settings, histories };
+
+    const starts = budgets.map(budget => fullHistory || (budget.rollover ?? 'none') !== 'none'
+      ? historyStart(budget, settings, asOf)
+      : periodWindow(budget.period, asOf, settings).start);
+    const ends = budgets.map(budget => periodWindow(budget.period, asOf, settings).end.getTime());
+
+    // One read covers every budget's periods
+    const transactions = await repository.getTransactionsByPeriod(
+      userId,
+      new Date(Math.min(...starts.map(start => start.getTime()))),
+      new Date(Math.max(...ends) - 1)
+    );
+
+    budgets.forEach((budget, i) => {
+      const spending = spendingByPeriod(budget, transactions, categories, settings);
+      histories.set(budget.id!, budgetHistory(budget, spending, settings, asOf, starts[i]));
+    });
+    return { settings, histories };
+  };
+
+  // Spending against every budget for the period containing ?asOf (default now),
+  // including amounts carried over from earlier periods
+  apiRouter.get("/budgets/status", authenticateUser, validateQuery(budgetStatusQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const asOf: Date = res.locals.query.asOf ?? new Date();
+      const budgets = await repository.getBudgets(userId);
+      const { settings, histories } = await loadBudgetHistories(userId, budgets, asOf, false);
+
+      const statuses = budgets.map(budget => {
+        const history = histories.get(budget.id!)!;
+        return budgetStatus(budget, history[history.length - 1], asOf);
+      });
+
+      res.json({ asOf, settings, budgets: statuses });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch budget status", error: error.message });
+    }
+  });
+
+  // Get the user's budget period settings
+  apiRouter.get("/budgets/settings", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const profile = await repository.getUserProfile(req.user!.uid);
+      res.json(budgetSettings(profile));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch budget settings", error: error.message });
+    }
+  });
+
+  // Update when weekly and monthly budget periods begin
+  apiRouter.put("/budgets/settings", authenticateUser, validateBody(updateBudgetSettingsSchema), async (req: Request, res: Response) => {
+    try {
+      await repository.updateUserProfile(req.user!.uid, req.body);
+      const profile = await repository.getUserProfile(req.user!.uid);
+      res.json(budgetSettings(profile));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update budget settings", error: error.message });
+    }
+  });
+
+  // Propose monthly budgets from income, a savings target and the last
+  // ?months of spending. Nothing is saved; see POST /budgets/bulk.
+  apiRouter.get("/budgets/plan", authenticateUser, validateQuery(budgetPlanQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const query = res.locals.query;
+      const [profile, categories, budgets] = await Promise.all([
+        repository.getUserProfile(userId),
+        repository.getCategories(userId),
+        repository.getBudgets(userId)
+      ]);
+
+      // History covers the full monthly periods before the current one
+      const current = periodWindow('monthly', new Date(), budgetSettings(profile));
+      const history = await repository.getTransactionsByPeriod(
+        userId,
+        addMonths(current.start, -query.months),
+        new Date(current.start.getTime() - 1)
+      );
+
+      res.json(planBudgets(query, categories, history, budgets));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to plan budgets", error: error.message });
+    }
+  });
+
+  // Get a specific budget
+  apiRouter.get("/budgets/:id", authenticateUser, ownsBudget, (_req: Request, res: Response) => {
+    res.json(res.locals.resource);
+  });
+
+  // Per-period budgeted, spent and carried amounts of one budget through ?asOf
+  apiRouter.get("/budgets/:id/history", authenticateUser, ownsBudget, validateQuery(budgetStatusQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const budget: Budget = res.locals.resource;
+      const asOf: Date = res.locals.query.asOf ?? new Date();
+      const { histories } = await loadBudgetHistories(req.user!.uid, [budget], asOf, true);
+      res.json({ budget, periods: histories.get(budget.id!) });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch budget history", error: error.message });
+    }
+  });
+
+  // A budget as first stored, its amount applying from the current period
+  const newBudget = (userId: string, input: CreateBudgetInput, settings: BudgetSettings) => ({
+    rollover: 'none' as const,
+    ...input,
+    amountHistory: [{ effectiveFrom: periodWindow(input.period, new Date(), settings).start, amount: input.amount }],
+    userId,
+    createdAt: new Date()
+  });
+
+  // Create a new budget
+  apiRouter.post("/budgets", authenticateUser, validateBody(createBudgetSchema), async (req: Request, res: Response) => {
+    try {
+      const problem = await checkCategory(req.user!.uid, req.body.category);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const settings = budgetSettings(await repository.getUserProfile(req.user!.uid));
+      const budgetData = newBudget(req.user!.uid, req.body, settings);
+
+      const id = await repository.createBudget(budgetData);
+      res.status(201).json({ id, ...budgetData });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to create budget", error: error.message });
+    }
+  });
+
+  // Create several budgets at once, such as a reviewed plan. A budget for a
+  // category and period that already has one updates that budget's amount.
+  apiRouter.post("/budgets/bulk", authenticateUser, validateBody(createBudgetsSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      for (const input of req.body.budgets as CreateBudgetInput[]) {
+        const problem = await checkCategory(userId, input.category);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+
+      const [profile, existing] = await Promise.all([
+        repository.getUserProfile(userId),
+        repository.getBudgets(userId)
+      ]);
+      const settings = budgetSettings(profile);
+      let created = 0;
+      let updated = 0;
+
+      for (const input of req.body.budgets as CreateBudgetInput[]) {
+        const current = existing.find(budget => budget.category === input.category && budget.period === input.period);
+        if (current) {
+          const changes: Partial<Budget> = { ...input };
+          changes.amountHistory = changedAmountHistory(current, { ...current, ...changes }, settings);
+          await repository.updateBudget(current.id!, changes);
+          updated++;
+        } else {
+          await repository.createBudget(newBudget(userId, input, settings));
+          created++;
+        }
+      }
+
+      res.status(201).json({ created, updated });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to create budgets", error: error.message });
+    }
+  });
+
+  // Update a budget
+  apiRouter.put("/budgets/:id", authenticateUser, ownsBudget, validateBody(updateBudgetSchema), async (req: Request, res: Response) => {
+    try {
+      const current: Budget = res.locals.resource;
+      const changes: Partial<Budget> = { ...req.body };
+      const updated = { ...current, ...changes };
+
+      if (updated.rollover === 'capped' && (updated.rolloverCap ?? null) === null) {
+        return res.status(400).json({ message: "Capped rollover needs a cap" });
+      }
+      const problem = await checkCategory(req.user!.uid, changes.category);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      if (changes.amount !== undefined || changes.period !== undefined) {
+        const settings = budgetSettings(await repository.getUserProfile(req.user!.uid));
+        changes.amountHistory = changedAmountHistory(current, updated, settings);
+      }
+
+      await repository.updateBudget(req.params.id, changes);
+      res.json({ message: "Budget updated successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update budget", error: error.message });
+    }
+  });
+
+  // Delete a budget
+  apiRouter.delete("/budgets/:id", authenticateUser, ownsBudget, async (req: Request, res: Response) => {
+    try {
+      await repository.deleteBudget(req.params.id);
+      res.json({ message: "Budget deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to delete budget", error: error.message });
+    }
+  });
+
+  // ----- Envelope Routes -----
+
+  // Replay the user's envelope ledger through `month` (default: the current month)
+  const loadEnvelopeMonth = async (userId: string, month?: string): Promise<EnvelopeMonth> => {
+    const [profile, categories, allocations] = await Promise.all([
+      repository.getUserProfile(userId),
+      repository.getCategories(userId),
+      repository.getEnvelopeAllocations(userId)
+    ]);
+    const settings = budgetSettings(profile);
+    const target = month ?? monthKey(new Date(), settings);
+    const transactions = await repository.getTransactionsByPeriod(
+      userId,
+      monthWindow(envelopeStart(target, allocations), settings).start,
+      new Date(monthWindow(target, settings).end.getTime() - 1)
+    );
+    return envelopeMonth(target, allocations, transactions, categories, settings);
+  };
+
+  const findEnvelope = (summary: EnvelopeMonth, category: string) =>
+    summary.envelopes.find(envelope => envelope.category === category);
+
+  // Income, assignments and every envelope's balance for ?month=YYYY-MM
+  apiRouter.get("/envelopes", authenticateUser, validateQuery(envelopeMonthQuerySchema), async (req: Request, res: Response) => {
+    try {
+      res.json(await loadEnvelopeMonth(req.user!.uid, res.locals.query.month));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch envelopes", error: error.message });
+    }
+  });
+
+  // Ledger entries recorded for ?month=YYYY-MM, newest first
+  apiRouter.get("/envelopes/ledger", authenticateUser, validateQuery(envelopeMonthQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const month = res.locals.query.month
+        ?? monthKey(new Date(), budgetSettings(await repository.getUserProfile(userId)));
+      const allocations = await repository.getEnvelopeAllocations(userId);
+      res.json(allocations.filter(allocation => allocation.month === month).reverse());
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch envelope ledger", error: error.message });
+    }
+  });
+
+  // Set how much of the month's money each envelope is given. Only the
+  // difference from what was assigned before is recorded in the ledger.
+  apiRouter.put("/envelopes/assignments", authenticateUser, validateBody(assignEnvelopesSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const { month, assignments } = req.body as { month: string; assignments: { category: string; amount: number }[] };
+      const summary = await loadEnvelopeMonth(userId, month);
+
+      const unknown = assignments.find(({ category }) => !findEnvelope(summary, category));
+      if (unknown) {
+        return res.status(400).json({ message: `Unknown envelope ${unknown.category}` });
+      }
+
+      const entries: EnvelopeAllocation[] = assignments
+        .map(({ category, amount }) => ({
+          userId,
+          month,
+          category,
+          fromCategory: null,
+          amount: roundCents(amount - findEnvelope(summary, category)!.assigned),
+          kind: 'assign' as const,
+          createdAt: new Date()
+        }))
+        .filter(entry => entry.amount !== 0);
+
+      // Zero-based budgeting never assigns more money than there is
+      const increase = entries.reduce((total, entry) => total + entry.amount, 0);
+      if (increase > 0 && increase > summary.toBeBudgeted + 0.005) {
+        return res.status(400).json({
+          message: `Only $${Math.max(summary.toBeBudgeted, 0).toFixed(2)} is left to budget this month`
+        });
+      }
+
+      await repository.createEnvelopeAllocations(entries);
+      res.json(await loadEnvelopeMonth(userId, month));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to assign envelopes", error: error.message });
+    }
+  });
+
+  // Record a move between two envelopes after checking the source can afford it
+  const moveBetweenEnvelopes = async (
+    res: Response,
+    userId: string,
+    summary: EnvelopeMonth,
+    move: { month: string; from: string; to: string; amount: number },
+    kind: EnvelopeAllocation['kind']
+  ) => {
+    const source = findEnvelope(summary, move.from);
+    if (!source || !findEnvelope(summary, move.to)) {
+      return res.status(400).json({ message: "Unknown envelope" });
+    }
+    if (move.amount > source.available + 0.005) {
+      return res.status(400).json({
+        message: `Only $${Math.max(source.available, 0).toFixed(2)} is available in that envelope`
+      });
+    }
+
+    await repository.createEnvelopeAllocations([{
+      userId,
+      month: move.month,
+      category: move.to,
+      fromCategory: move.from,
+      amount: move.amount,
+      kind,
+      createdAt: new Date()
+    }]);
+    res.json(await loadEnvelopeMonth(userId, move.month));
+  };
+
+  // Move money from one envelope to another
+  apiRouter.post("/envelopes/moves", authenticateUser, validateBody(moveEnvelopeSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const summary = await loadEnvelopeMonth(userId, req.body.month);
+      await moveBetweenEnvelopes(res, userId, summary, req.body, 'move');
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to move money", error: error.message });
+    }
+  });
+
+  // Cover an overspent envelope from another one, by default in full
+  apiRouter.post("/envelopes/cover", authenticateUser, validateBody(coverOverspendingSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const summary = await loadEnvelopeMonth(userId, req.body.month);
+      const target = findEnvelope(summary, req.body.to);
+      if (!target || target.available >= 0) {
+        return res.status(400).json({ message: "That envelope is not overspent" });
+      }
+
+      const overspent = -target.available;
+      const amount: number = req.body.amount ?? overspent;
+      if (amount > overspent + 0.005) {
+        return res.status(400).json({ message: `Only $${overspent.toFixed(2)} needs covering` });
+      }
+      await moveBetweenEnvelopes(res, userId, summary, { ...req.body, amount }, 'cover');
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to cover overspending", error: error.message });
+    }
+  });
+
+  // ----- Savings Goal Routes -----
+
+  // Progress of the given goals, reading transactions only as far back as
+  // the earliest goal with a linked category or account needs
+  const loadGoalProgress = async (userId: string, goals: SavingsGoal[]): Promise<GoalProgress[]> => {
+    const linked = goals.filter(goal => goal.categoryId || goal.accountId);
+    const [profile, categories, contributions, transactions] = await Promise.all([
+      repository.getUserProfile(userId),
+      repository.getCategories(userId),
+      repository.getGoalContributions(userId),
+      linked.length > 0
+        ? repository.getTransactionsByPeriod(
+            userId,
+            new Date(Math.min(...linked.map(goal => goal.startDate.getTime()))),
+            new Date()
+          )
+        : Promise.resolve([])
+    ]);
+    const settings = budgetSettings(profile);
+
+    return goals.map(goal => goalProgress(
+      goal,
+      contributions.filter(contribution => contribution.goalId === goal.id),
+      goalTransactions(goal, transactions, categories),
+      settings
+    ));
+  };
+
+  // Notify the user of milestones their goals reached since last time
+  const notifyGoalMilestones = async (progress: GoalProgress[]) => {
+    for (const goal of progress) {
+      const notification = milestoneNotification(goal);
+      if (!notification) continue;
+      await repository.createNotification(notification);
+      await repository.updateGoal(goal.id!, { notifiedMilestones: reachedMilestones(goal.percent) });
+      goal.notifiedMilestones = reachedMilestones(goal.percent);
+    }
+  };
+
+  // Goals linked to a category or account move with the user's transactions.
+  // Given the `written` transactions, only the goals they count toward.
+  const notifyLinkedGoalMilestones = async (userId: string, written?: Transaction[]) => {
+    let goals = (await repository.getGoals(userId)).filter(goal => goal.categoryId || goal.accountId);
+    if (written && goals.length > 0) {
+      const categories = await repository.getCategories(userId);
+      goals = goals.filter(goal => goalTransactions(goal, written, categories).length > 0);
+    }
+    if (goals.length > 0) {
+      await notifyGoalMilestones(await loadGoalProgress(userId, goals));
+    }
+  };
+
+  // Milestones a goal already meets when it is created or edited are
+  // recorded without a notification
+  const settleGoalMilestones = async (userId: string, goalId: string) => {
+    const goal = await repository.getGoal(goalId);
+    const [progress] = await loadGoalProgress(userId, [goal!]);
+    await repository.updateGoal(goalId, { notifiedMilestones: reachedMilestones(progress.percent) });
+    return { ...progress, notifiedMilestones: reachedMilestones(progress.percent) };
+  };
+
+  // A goal is linked to at most one of the user's own categories or accounts
+  const checkGoalLinks = async (userId: string, goal: Pick<SavingsGoal, 'categoryId' | 'accountId'>) => {
+    if (goal.categoryId && goal.accountId) {
+      return "Link the goal to a category or an account, not both";
+    }
+    if (goal.categoryId) {
+      const category = await repository.getCategory(goal.categoryId);
+      if (!category || category.userId !== userId) return "Linked category not found";
+    }
+    return goal.accountId && await checkAccount(userId, goal.accountId) ? "Linked account not found" : null;
+  };
+
+  // Get all of the user's savings goals with their progress
+  apiRouter.get("/goals", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      res.json(await loadGoalProgress(userId, await repository.getGoals(userId)));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch savings goals", error: error.message });
+    }
+  });
+
+  // Create a savings goal
+  apiRouter.post("/goals", authenticateUser, validateBody(createGoalSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const problem = await checkGoalLinks(userId, req.body);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const id = await repository.createGoal({
+        userId,
+        name: req.body.name,
+        targetAmount: req.body.targetAmount,
+        deadline: req.body.deadline ?? null,
+        categoryId: req.body.categoryId ?? null,
+        accountId: req.body.accountId ?? null,
+        startDate: req.body.startDate ?? new Date(),
+        notifiedMilestones: [],
+        createdAt: new Date()
+      });
+      res.status(201).json(await settleGoalMilestones(userId, id));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to create savings goal", error: error.message });
+    }
+  });
+
+  // Update a savings goal
+  apiRouter.put("/goals/:id", authenticateUser, ownsGoal, validateBody(updateGoalSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const problem = await checkGoalLinks(userId, { ...res.locals.resource, ...req.body });
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      await repository.updateGoal(req.params.id, req.body);
+      res.json(await settleGoalMilestones(userId, req.params.id));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update savings goal", error: error.message });
+    }
+  });
+
+  // Delete a savings goal and its manual contributions
+  apiRouter.delete("/goals/:id", authenticateUser, ownsGoal, async (req: Request, res: Response) => {
+    try {
+      await repository.deleteGoal(req.params.id);
+      res.json({ message: "Savings goal deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to delete savings goal", error: error.message });
+    }
+  });
+
+  // Manual contributions and linked transactions of a goal, newest first
+  apiRouter.get("/goals/:id/contributions", authenticateUser, ownsGoal, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const goal: SavingsGoal = res.locals.resource;
+      const [contributions, categories, transactions] = await Promise.all([
+        repository.getGoalContributions(userId),
+        repository.getCategories(userId),
+        goal.categoryId || goal.accountId
+          ? repository.getTransactionsByPeriod(userId, goal.startDate, new Date())
+          : Promise.resolve([])
+      ]);
+
+      const entries = [
+        ...contributions
+          .filter(contribution => contribution.goalId === goal.id)
+          .map(contribution => ({
+            id: contribution.id,
+            source: 'manual' as const,
+            amount: contribution.amount,
+            date: contribution.date,
+            note: contribution.note ?? null
+          })),
+        ...goalTransactions(goal, transactions, categories).map(t => ({
+          id: t.id,
+          source: 'transaction' as const,
+          amount: t.amount,
+          date: t.date,
+          note: t.description
+        }))
+      ];
+      res.json(entries.sort((a, b) => b.date.getTime() - a.date.getTime()));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch contributions", error: error.message });
+    }
+  });
+
+  // Add money to, or with a negative amount take it out of, a goal
+  apiRouter.post("/goals/:id/contributions", authenticateUser, ownsGoal, validateBody(createContributionSchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      await repository.createGoalContribution({
+        userId,
+        goalId: req.params.id,
+        amount: req.body.amount,
+        date: req.body.date ?? new Date(),
+        note: req.body.note ?? null,
+        createdAt: new Date()
+      });
+
+      const [progress] = await loadGoalProgress(userId, [res.locals.resource]);
+      await notifyGoalMilestones([progress]);
+      res.status(201).json(progress);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to add contribution", error: error.message });
+    }
+  });
+
+  // Remove a manual contribution
+  apiRouter.delete("/goals/:id/contributions/:contributionId", authenticateUser, ownsGoal, async (req: Request, res: Response) => {
+    try {
+      const contributions = await repository.getGoalContributions(req.user!.uid);
+      const contribution = contributions.find(c => c.id === req.params.contributionId && c.goalId === req.params.id);
+      if (!contribution) {
+        return res.status(404).json({ message: "Contribution not found" });
+      }
+
+      await repository.deleteGoalContribution(contribution.id!);
+      res.json({ message: "Contribution deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to delete contribution", error: error.message });
+    }
+  });
+
+  // ----- Notification Routes -----
+
+  // Most recent notifications
+  apiRouter.get("/notifications", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const notifications = await repository.getNotifications(req.user!.uid);
+      res.json(notifications.slice(0, 50));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch notifications", error: error.message });
+    }
+  });
+
+  // Mark notifications as read
+  apiRouter.post("/notifications/read", authenticateUser, validateBody(markNotificationsReadSchema), async (req: Request, res: Response) => {
+    try {
+      await repository.markNotificationsRead(req.user!.uid, req.body.ids);
+      res.json({ message: "Notifications marked as read" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update notifications", error: error.message });
+    }
+  });
+
+  // ----- Category Routes -----
+  
+  // Get all categories for a user
+  apiRouter.get("/categories", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const categories = await repository.getCategories(req.user!.uid);
+      res.json(categories);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch categories", error: error.message });
+    }
+  });
+
+  // Get categories by type (income/expense)
+  apiRouter.get("/categories/type/:type", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const type = req.params.type as 'income' | 'expense';
+      
+      if (type !== 'income' && type !== 'expense') {
+        return res.status(400).json({ message: "Type must be either 'income' or 'expense'" });
+      }
+      
+      const categories = await repository.getCategoriesByType(req.user!.uid, type);
+      res.json(categories);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch categories", error: error.message });
+    }
+  });
+
+  // A parent must be another of the user's categories of the same type, and
+  // never the category itself or one of its descendants
+  const checkParent = async (parentId: string, type: Category['type'], userId: string, selfId?: string) => {
+    const categories = await repository.getCategories(userId);
+    const parent = categories.find(category => category.id === parentId);
+    if (!parent) {
+      return { status: 404, message: "Parent category not found" };
+    }
+    if (parent.type !== type) {
+      return { status: 400, message: "Parent category must have the same type" };
+    }
+    if (selfId && descendantIds(categories, selfId).has(parentId)) {
+      return { status: 400, message: "A category cannot be nested under itself or its subcategories" };
+    }
+    return null;
+  };
+
+  // Create a new category
+  apiRouter.post("/categories", authenticateUser, validateBody(createCategorySchema), async (req: Request, res: Response) => {
+    try {
+      const categoryData = {
+        ...req.body,
+        userId: req.user!.uid
+      };
+
+      if (categoryData.parentId) {
+        const problem = await checkParent(categoryData.parentId, categoryData.type, req.user!.uid);
+        if (problem) {
+          return res.status(problem.status).json({ message: problem.message });
+        }
+      }
+      
+      const id = await repository.createCategory(categoryData);
+      res.status(201).json({ id, ...categoryData });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to create category", error: error.message });
+    }
+  });
+
+  // Update a category
+  apiRouter.put("/categories/:id", authenticateUser, ownsCategory, validateBody(updateCategorySchema), async (req: Request, res: Response) => {
+    try {
+      const current: Category = res.locals.resource;
+      const type = req.body.type ?? current.type;
+      const parentId = req.body.parentId === undefined ? current.parentId : req.body.parentId;
+
+      if (type !== current.type) {
+        const categories = await repository.getCategories(req.user!.uid);
+        if (categories.some(category => category.parentId === current.id)) {
+          return res.status(400).json({ message: "Move its subcategories before changing a category's type" });
+        }
+      }
+      if (parentId && (req.body.parentId !== undefined || type !== current.type)) {
+        const problem = await checkParent(parentId, type, req.user!.uid, current.id);
+        if (problem) {
+          return res.status(problem.status).json({ message: problem.message });
+        }
+      }
+
+      await repository.updateCategory(req.params.id, req.body);
+      res.json({ message: "Category updated successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to update category", error: error.message });
+    }
+  });
+
+  // Records of a removed category can move to another of the user's
+  // categories of the same type, or to Uncategorized when allowed
+  const checkReplacement = async (source: Category, targetId: string, userId: string, allowUncategorized: boolean) => {
+    if (targetId === UNCATEGORIZED) {
+      return allowUncategorized ? null : { status: 400, message: "Cannot merge into Uncategorized" };
+    }
+    if (targetId === source.id) {
+      return { status: 400, message: "A category cannot be replaced by itself" };
+    }
+    const target = await repository.getCategory(targetId);
+    if (!target || target.userId !== userId) {
+      return { status: 404, message: "Replacement category not found" };
+    }
+    if (target.type !== source.type) {
+      return { status: 400, message: "Replacement category must have the same type" };
+    }
+    return null;
+  };
+
+  // Delete a category, moving its transactions and budgets to ?reassignTo
+  apiRouter.delete("/categories/:id", authenticateUser, ownsCategory, validateQuery(deleteCategoryQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const { reassignTo } = res.locals.query;
+      const problem = await checkReplacement(res.locals.resource, reassignTo, req.user!.uid, true);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+
+      const summary = await repository.reassignCategory(req.user!.uid, req.params.id, reassignTo);
+      if (summary.transactionsMoved > 0) await transactionsWritten(req.user!.uid);
+      res.json({ message: "Category deleted successfully", ...summary });
+    } catch (error: any) {
+      if (error instanceof CategoryTooLargeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete category", error: error.message });
+    }
+  });
+
+  // Merge a category into another, which keeps all of its records
+  apiRouter.post("/categories/:id/merge", authenticateUser, ownsCategory, validateBody(mergeCategorySchema), async (req: Request, res: Response) => {
+    try {
+      const { targetId } = req.body;
+      const problem = await checkReplacement(res.locals.resource, targetId, req.user!.uid, false);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+
+      const summary = await repository.reassignCategory(req.user!.uid, req.params.id, targetId);
+      if (summary.transactionsMoved > 0) await transactionsWritten(req.user!.uid);
+      res.json({ message: "Categories merged successfully", ...summary });
+    } catch (error: any) {
+      if (error instanceof CategoryTooLargeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to merge categories", error: error.message });
+    }
+  });
+
+  // ----- Analytics Routes -----
+  
+  // Get transactions by period
+  apiRouter.get("/analytics/transactions", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const { startDate, endDate } = req.query;
+      
+      if (!startDate || !endDate) {
+        return res.status(400).json({ message: "Start date and end date are required" });
+      }
+      
+      const transactions = await repository.getTransactionsByPeriod(
+        req.user!.uid,
+        new Date(startDate as string),
+        new Date(endDate as string)
+      );
+      
+      res.json(transactions);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch transactions", error: error.message });
+    }
+  });
+
+  // Get all-time income and expense totals
+  apiRouter.get("/analytics/summary", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const summary = await repository.getTransactionSummary(req.user!.uid);
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch summary", error: error.message });
+    }
+  });
+
+  // Get totals by category, optionally rolled up the category hierarchy
+  apiRouter.get("/analytics/category-totals", authenticateUser, validateQuery(categoryTotalsQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const { type, startDate, endDate, rollup, level } = res.locals.query;
+      const totals = await repository.getTotalsByCategory(
+        req.user!.uid,
+        type,
+        startDate,
+        endDate,
+        { rollup, level }
+      );
+      
+      res.json(totals);
+    } catch (error: any) {
+      res.status(500).json({ 
+        message: "Failed to fetch category totals", 
+        error: error.message 
+      });
+    }
+  });
+
+  // Get totals by tag for a period
+  apiRouter.get("/analytics/tag-totals", authenticateUser, validateQuery(breakdownQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const { type, startDate, endDate } = res.locals.query;
+      const transactions = await repository.getTransactionsByPeriod(req.user!.uid, startDate, endDate);
+      res.json(tagTotals(transactions, type));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch tag totals", error: error.message });
+    }
+  });
+
+  // Get totals by payee for a period
+  apiRouter.get("/analytics/payee-totals", authenticateUser, validateQuery(breakdownQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const { type, startDate, endDate } = res.locals.query;
+      const [transactions, payees] = await Promise.all([
+        repository.getTransactionsByPeriod(userId, startDate, endDate),
+        repository.getPayees(userId)
+      ]);
+      res.json(payeeTotals(transactions, type, payees));
+    } catch (error: any) {
+      res.status(500).json({ message: "Failed to fetch payee totals", error: error.message });
+    }
+  });
+
+  // Mount the API router
+  app.use("/api", apiRouter);
+
+  const httpServer = createServer(app);
+  return {
+    server: httpServer,
+    startScheduler: () => startRecurringScheduler(repository, { posted: transactionsWritten, ran: sendBillReminders })
+  };
 }
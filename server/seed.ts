@@ -0,0 +1,24 @@
+import type { Category, FinanceRepository } from './repository';
+
+type DefaultCategory = Pick<Category, 'name' | 'type' | 'color' | 'icon'>;
+
+// Starter categories every new user gets, editable from the settings screen
+export const DEFAULT_CATEGORIES: DefaultCategory[] = [
+  { name: 'Food', type: 'expense', color: '#f97316', icon: 'utensils' },
+  { name: 'Transportation', type: 'expense', color: '#3b82f6', icon: 'car' },
+  { name: 'Entertainment', type: 'expense', color: '#a855f7', icon: 'film' },
+  { name: 'Utilities', type: 'expense', color: '#eab308', icon: 'zap' },
+  { name: 'Rent', type: 'expense', color: '#ef4444', icon: 'home' },
+  { name: 'Shopping', type: 'expense', color: '#ec4899', icon: 'shopping-bag' },
+  { name: 'Health', type: 'expense', color: '#14b8a6', icon: 'heart-pulse' },
+  { name: 'Salary', type: 'income', color: '#22c55e', icon: 'briefcase' },
+  { name: 'Investment', type: 'income', color: '#10b981', icon: 'trending-up' },
+  { name: 'Gift', type: 'income', color: '#06b6d4', icon: 'gift' }
+];
+
+export async function seedDefaultCategories(repository: FinanceRepository, userId: string): Promise<void> {
+  const createdAt = new Date();
+  for (const category of DEFAULT_CATEGORIES) {
+    await repository.createCategory({ ...category, userId, archived: false, createdAt });
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { detectSubscriptions, reviewSubscriptions, subscriptionRule } from "./subscriptions";
+import type { Payee, Transaction } from "./repository";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+const now = day(2026, 4, 10);
+
+let nextId = 0;
+const charge = (amount: number, date: Date, fields: Partial<Transaction> = {}): Transaction => ({
+  id: String(++nextId),
+  userId: "alice",
+  amount,
+  category: "entertainment",
+  description: "STREAMFLIX",
+  date,
+  type: "expense",
+  tags: [],
+  createdAt: date,
+  ...fields
+});
+
+const monthly = (amounts: number[], fields: Partial<Transaction> = {}) =>
+  amounts.map((amount, i) => charge(amount, day(2026, 1 + i, 5), fields));
+
+describe("detectSubscriptions", () => {
+  it("finds monthly charges and when the next one is due", () => {
+    const [subscription, ...others] = detectSubscriptions(monthly([15.99, 15.99, 15.99]), [], now);
+
+    expect(others).toEqual([]);
+    expect(subscription).toMatchObject({
+      name: "STREAMFLIX",
+      cadence: "monthly",
+      amount: 15.99,
+      annualCost: 191.88,
+      chargeCount: 3,
+      nextCharge: day(2026, 4, 5),
+      lapsed: false,
+      priceChanges: []
+    });
+  });
+
+  it.each([
+    ["weekly", [day(2026, 3, 2), day(2026, 3, 9), day(2026, 3, 16)], 520],
+    ["yearly", [day(2024, 6, 1), day(2025, 6, 1)], 10]
+  ])("finds %s charges", (cadence, dates, annualCost) => {
+    const [subscription] = detectSubscriptions(dates.map(date => charge(10, date)), [], now);
+    expect(subscription).toMatchObject({ cadence, annualCost });
+  });
+
+  it("needs enough charges at regular gaps", () => {
+    expect(detectSubscriptions(monthly([15, 15]), [], now)).toEqual([]);
+    const irregular = [day(2025, 10, 5), day(2025, 11, 4), day(2026, 1, 3), day(2026, 3, 4), day(2026, 4, 3)];
+    expect(detectSubscriptions(irregular.map(date => charge(15, date)), [], now)).toEqual([]);
+  });
+
+  it("allows for a missed charge", () => {
+    const dates = [day(2025, 11, 5), day(2025, 12, 5), day(2026, 1, 5), day(2026, 3, 5), day(2026, 4, 5)];
+    expect(detectSubscriptions(dates.map(date => charge(15, date)), [], now)[0]?.cadence).toBe("monthly");
+  });
+
+  it("follows price changes within the tolerance", () => {
+    const charges = monthly([10, 10, 12]);
+    const [subscription] = detectSubscriptions(charges, [], now);
+
+    expect(subscription.amount).toBe(12);
+    expect(subscription.chargeCount).toBe(3);
+    expect(subscription.priceChanges).toEqual([{ date: day(2026, 3, 5), from: 10, to: 12 }]);
+  });
+
+  it("tells apart series of one merchant with very different amounts", () => {
+    const charges = [...monthly([10, 10, 10]), ...monthly([50, 50, 50])];
+    const detected = detectSubscriptions(charges, [], now);
+
+    expect(detected.map(subscription => subscription.amount)).toEqual([50, 10]);
+    expect(new Set(detected.map(subscription => subscription.key)).size).toBe(2);
+  });
+
+  it("groups by payee and names the subscription after it", () => {
+    const payees: Payee[] = [{ id: "p1", userId: "alice", name: "Streamflix", normalizedName: "streamflix", createdAt: day(2026, 1, 1) }];
+    const charges = monthly([15, 15, 15]).map((transaction, i) =>
+      ({ ...transaction, payeeId: "p1", description: `Card payment ${i}` }));
+
+    expect(detectSubscriptions(charges, payees, now)[0]).toMatchObject({ name: "Streamflix", payeeId: "p1" });
+  });
+
+  it("marks a subscription lapsed once its next charge is well overdue", () => {
+    const [subscription] = detectSubscriptions(monthly([15, 15, 15]), [], day(2026, 4, 16));
+    expect(subscription.lapsed).toBe(true);
+  });
+
+  it("passes over income, splits and charges a recurring rule posted", () => {
+    expect(detectSubscriptions(monthly([15, 15, 15], { type: "income" }), [], now)).toEqual([]);
+    expect(detectSubscriptions(monthly([15, 15, 15], { category: "split" }), [], now)).toEqual([]);
+    expect(detectSubscriptions(monthly([15, 15, 15], { recurringRuleId: "r1" }), [], now)).toEqual([]);
+  });
+});
+
+describe("converted subscriptions", () => {
+  it("start a rule at the next expected charge, which then sets the next date", () => {
+    const [detected] = detectSubscriptions(monthly([15, 15, 15], { accountId: "card" }), [], now);
+    const rule = { ...subscriptionRule(detected, "alice", day(2026, 4, 1)), id: "r1" };
+
+    expect(rule).toMatchObject({ amount: 15, frequency: "monthly", accountId: "card", nextOccurrence: day(2026, 4, 5) });
+
+    const review = { userId: "alice", key: detected.key, status: "confirmed" as const, recurringRuleId: "r1", createdAt: now };
+    const [subscription] = reviewSubscriptions([detected], [review], [{ ...rule, skippedOccurrences: ["2026-04-05"] }]);
+    expect(subscription).toMatchObject({ status: "confirmed", recurringRuleId: "r1", nextCharge: day(2026, 5, 5) });
+  });
+});
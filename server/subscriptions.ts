@@ -0,0 +1,218 @@
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarDays } from 'date-fns';
+import { roundCents } from './budget-periods';
+import { nextPostingDate, resumeOccurrence } from './recurring';
+import type { Payee, RecurringRule, SubscriptionReview, Transaction } from './repository';
+import { normalizePayeeName, SPLIT, type SubscriptionStatus } from '@shared/validation';
+
+export type SubscriptionCadence = 'weekly' | 'monthly' | 'yearly';
+
+export interface PriceChange {
+  date: Date;
+  from: number;
+  to: number;
+}
+
+// A series of charges that repeat on a cadence, found in the history
+export interface DetectedSubscription {
+  // Identifies the series across runs: the payee or normalized description,
+  // and the first charge
+  key: string;
+  name: string;
+  payeeId: string | null;
+  // Category and account of the latest charge
+  category: string;
+  accountId: string | null;
+  cadence: SubscriptionCadence;
+  // The latest charge's amount
+  amount: number;
+  annualCost: number;
+  chargeCount: number;
+  firstCharge: Date;
+  lastCharge: Date;
+  nextCharge: Date;
+  // The next charge is overdue by more than a grace period, so the
+  // subscription was probably cancelled
+  lapsed: boolean;
+  priceChanges: PriceChange[];
+  transactionIds: string[];
+}
+
+// A detection with the user's decision about it
+export interface Subscription extends DetectedSubscription {
+  status: SubscriptionStatus | 'detected';
+  // The recurring rule it was converted into, while that rule exists
+  recurringRuleId: string | null;
+}
+
+interface CadenceSpec {
+  // Range of days between charges
+  minDays: number;
+  maxDays: number;
+  perYear: number;
+  // Fewest charges needed before the series counts as a subscription
+  minCharges: number;
+  // Days past the expected charge before the subscription counts as lapsed
+  graceDays: number;
+  step: (date: Date, amount: number) => Date;
+}
+
+const CADENCES: Record<SubscriptionCadence, CadenceSpec> = {
+  weekly: { minDays: 5, maxDays: 9, perYear: 52, minCharges: 3, graceDays: 3, step: addWeeks },
+  monthly: { minDays: 26, maxDays: 35, perYear: 12, minCharges: 3, graceDays: 10, step: addMonths },
+  yearly: { minDays: 350, maxDays: 380, perYear: 1, minCharges: 2, graceDays: 30, step: addYears }
+};
+
+// A charge within this fraction of the previous one continues the series,
+// so price changes do not split a subscription in two
+export const AMOUNT_TOLERANCE = 0.25;
+
+// Share of the gaps between charges that must match the cadence; the rest
+// allows for a missed or doubled charge
+const MIN_REGULARITY = 2 / 3;
+
+// Subscriptions are expenses charged as a whole; transactions posted by a
+// recurring rule are already known to repeat
+const isCandidate = (transaction: Transaction) =>
+  transaction.type === 'expense' && transaction.category !== SPLIT && !transaction.recurringRuleId;
+
+// Charges to the same payee, or with the same description once reference
+// codes and punctuation are removed
+const groupKey = (transaction: Transaction) => {
+  if (transaction.payeeId) return `payee:${transaction.payeeId}`;
+  const name = normalizePayeeName(transaction.description);
+  return name ? `name:${name}` : null;
+};
+
+// Splits date-ordered charges into series whose amounts stay within
+// AMOUNT_TOLERANCE of the previous charge
+const seriesByAmount = (charges: Transaction[]): Transaction[][] => {
+  const series: Transaction[][] = [];
+  for (const charge of charges) {
+    const match = series.find(s => {
+      const previous = s[s.length - 1].amount;
+      return Math.abs(charge.amount - previous) <= previous * AMOUNT_TOLERANCE;
+    });
+    if (match) match.push(charge);
+    else series.push([charge]);
+  }
+  return series;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// The cadence the gaps between charges follow, if any
+const inferCadence = (charges: Transaction[]): SubscriptionCadence | null => {
+  if (charges.length < 2) return null;
+  const gaps = charges.slice(1).map((charge, i) => differenceInCalendarDays(charge.date, charges[i].date));
+  const typical = median(gaps);
+
+  const cadence = (Object.keys(CADENCES) as SubscriptionCadence[])
+    .find(c => typical >= CADENCES[c].minDays && typical <= CADENCES[c].maxDays);
+  if (!cadence || charges.length < CADENCES[cadence].minCharges) return null;
+
+  const { minDays, maxDays } = CADENCES[cadence];
+  const regular = gaps.filter(gap => gap >= minDays && gap <= maxDays).length;
+  return regular / gaps.length >= MIN_REGULARITY ? cadence : null;
+};
+
+const priceChanges = (charges: Transaction[]): PriceChange[] =>
+  charges.slice(1)
+    .map((charge, i) => ({ date: charge.date, from: charges[i].amount, to: charge.amount }))
+    .filter(change => roundCents(change.to - change.from) !== 0);
+
+// Subscriptions found in the user's transactions, most expensive first
+export const detectSubscriptions = (
+  transactions: Transaction[],
+  payees: Payee[],
+  now: Date = new Date()
+): DetectedSubscription[] => {
+  const payeeNames = new Map(payees.map(payee => [payee.id!, payee.name]));
+  const groups = new Map<string, Transaction[]>();
+  for (const transaction of transactions.filter(isCandidate)) {
+    const key = groupKey(transaction);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), transaction]);
+  }
+
+  const detected: DetectedSubscription[] = [];
+  groups.forEach((group, key) => {
+    const charges = [...group].sort((a, b) => a.date.getTime() - b.date.getTime());
+    for (const series of seriesByAmount(charges)) {
+      const cadence = inferCadence(series);
+      if (!cadence) continue;
+
+      const spec = CADENCES[cadence];
+      const first = series[0];
+      const last = series[series.length - 1];
+      const nextCharge = spec.step(last.date, 1);
+      detected.push({
+        key: `${key}:${first.id}`,
+        name: (last.payeeId && payeeNames.get(last.payeeId)) || last.description,
+        payeeId: last.payeeId ?? null,
+        category: last.category,
+        accountId: last.accountId ?? null,
+        cadence,
+        amount: last.amount,
+        annualCost: roundCents(last.amount * spec.perYear),
+        chargeCount: series.length,
+        firstCharge: first.date,
+        lastCharge: last.date,
+        nextCharge,
+        lapsed: now > addDays(nextCharge, spec.graceDays),
+        priceChanges: priceChanges(series),
+        transactionIds: series.map(charge => charge.id!)
+      });
+    }
+  });
+
+  return detected.sort((a, b) => b.annualCost - a.annualCost);
+};
+
+// Attach the user's decisions. A subscription converted into a recurring
+// rule is charged by the rule from then on, so the rule sets the next date.
+export const reviewSubscriptions = (
+  detected: DetectedSubscription[],
+  reviews: SubscriptionReview[],
+  rules: RecurringRule[]
+): Subscription[] => {
+  const reviewsByKey = new Map(reviews.map(review => [review.key, review]));
+  const rulesById = new Map(rules.map(rule => [rule.id!, rule]));
+
+  return detected.map(subscription => {
+    const review = reviewsByKey.get(subscription.key);
+    const rule = review?.recurringRuleId ? rulesById.get(review.recurringRuleId) : undefined;
+    return {
+      ...subscription,
+      status: review?.status ?? 'detected',
+      recurringRuleId: rule?.id ?? null,
+      ...(rule && { nextCharge: nextPostingDate(rule) ?? subscription.nextCharge, lapsed: false })
+    };
+  });
+};
+
+// A recurring rule that posts the subscription's future charges, starting
+// with the next expected one
+export const subscriptionRule = (subscription: DetectedSubscription, userId: string, now: Date = new Date()): RecurringRule => {
+  const rule: RecurringRule = {
+    userId,
+    description: subscription.name,
+    amount: subscription.amount,
+    type: 'expense',
+    category: subscription.category,
+    accountId: subscription.accountId,
+    frequency: subscription.cadence,
+    interval: 1,
+    startDate: subscription.nextCharge,
+    endDate: null,
+    weekendAdjustment: 'none',
+    paused: false,
+    skippedOccurrences: [],
+    nextOccurrence: null,
+    createdAt: now
+  };
+  return { ...rule, nextOccurrence: resumeOccurrence(rule, now) };
+};
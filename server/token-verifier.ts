@@ -0,0 +1,58 @@
+import type { Auth } from 'firebase-admin/auth';
+
+// The user a bearer token was issued to
+export interface VerifiedToken {
+  uid: string;
+  email?: string;
+}
+
+// Checks the bearer tokens of API requests. Throws when a token is invalid.
+export interface TokenVerifier {
+  verifyIdToken(token: string): Promise<VerifiedToken>;
+}
+
+export type TokenVerifierDriver = 'firebase' | 'dev';
+
+// ID tokens issued by Firebase Auth when the client signs in
+export class FirebaseTokenVerifier implements TokenVerifier {
+  constructor(private auth: Auth) {}
+
+  async verifyIdToken(token: string): Promise<VerifiedToken> {
+    const decoded = await this.auth.verifyIdToken(token);
+    return { uid: decoded.uid, email: decoded.email };
+  }
+}
+
+// For offline development and tests: the token is the user id itself, so
+// any caller can act as any user
+export class DevTokenVerifier implements TokenVerifier {
+  async verifyIdToken(token: string): Promise<VerifiedToken> {
+    if (!/^[\w-]{1,128}$/.test(token)) {
+      throw new Error('Dev tokens must be a user id of letters, digits, "_" or "-"');
+    }
+    return { uid: token };
+  }
+}
+
+// Create the verifier selected by the AUTH_VERIFIER environment variable.
+// The in-memory store defaults to dev tokens so it runs without Firebase
+// credentials; firebaseAdmin.ts is imported lazily for the same reason.
+export const createTokenVerifier = async (
+  driver: string = process.env.AUTH_VERIFIER || (process.env.FINANCE_STORE === 'memory' ? 'dev' : 'firebase')
+): Promise<TokenVerifier> => {
+  switch (driver as TokenVerifierDriver) {
+    case 'firebase': {
+      const { auth } = await import('./firebaseAdmin');
+      return new FirebaseTokenVerifier(auth);
+    }
+    case 'dev':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('AUTH_VERIFIER "dev" accepts any user id and cannot be used in production');
+      }
+      return new DevTokenVerifier();
+    default:
+      throw new Error(
+        `Unknown AUTH_VERIFIER "${driver}". Expected one of: firebase, dev`
+      );
+  }
+};
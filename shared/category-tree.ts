@@ -0,0 +1,66 @@
+// Helpers for the category hierarchy, shared by server rollups and the
+// client tree editor. Categories point at their parent through parentId.
+
+interface TreeNode {
+  id?: string;
+  name: string;
+  parentId?: string | null;
+}
+
+// Group categories under their parent id. Categories whose parent is
+// missing are treated as top-level so they never disappear from the tree.
+export function childrenByParent<T extends TreeNode>(categories: T[]): Map<string | null, T[]> {
+  const ids = new Set(categories.map((category) => category.id));
+  const children = new Map<string | null, T[]>();
+
+  categories.forEach((category) => {
+    const parentId = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), category]);
+  });
+
+  return children;
+}
+
+// The category itself and every category nested below it
+export function descendantIds<T extends TreeNode>(categories: T[], id: string): Set<string> {
+  const children = childrenByParent(categories);
+  const found = new Set<string>();
+  const visit = (current: string) => {
+    if (found.has(current)) return;
+    found.add(current);
+    (children.get(current) ?? []).forEach((child) => visit(child.id!));
+  };
+  visit(id);
+  return found;
+}
+
+// Ids from the top-level ancestor down to the category itself. Unknown ids
+// are returned on their own, and a corrupt cycle stops the walk.
+export function ancestorPath<T extends TreeNode>(categories: T[], id: string): string[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: string[] = [];
+  let current: string | null | undefined = id;
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = byId.get(current)?.parentId;
+  }
+
+  return path;
+}
+
+// Depth-first order with each category's depth, siblings sorted by name
+export function flattenTree<T extends TreeNode>(categories: T[]): { category: T; depth: number }[] {
+  const children = childrenByParent(categories);
+  const rows: { category: T; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    [...(children.get(parentId) ?? [])]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((category) => {
+        rows.push({ category, depth });
+        visit(category.id!, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return rows;
+}
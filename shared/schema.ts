@@ -1,5 +1,6 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { sql } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, uuid, numeric, index, uniqueIndex, check, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = pgTable("users", {
@@ -20,3 +21,375 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// ----- Finance tables -----
+
+// One row per Firebase user; every finance table references it by uid
+export const userProfiles = pgTable("user_profiles", {
+  uid: text("uid").primaryKey(),
+  email: text("email").notNull(),
+  displayName: text("display_name"),
+  photoURL: text("photo_url"),
+  // Budget period settings: 0 = Sunday, and the day of the month periods begin
+  weekStartsOn: integer("week_starts_on").default(0).notNull(),
+  monthStartDay: integer("month_start_day").default(1).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  check("user_profiles_week_starts_on_range", sql`${table.weekStartsOn} between 0 and 6`),
+  check("user_profiles_month_start_day_range", sql`${table.monthStartDay} between 1 and 28`),
+]);
+
+export const accounts = pgTable("accounts", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  type: text("type", { enum: ["bank", "savings", "credit_card", "cash", "wallet"] }).notNull(),
+  currency: text("currency").default("USD").notNull(),
+  // Balance before the first transaction; negative for money owed
+  openingBalance: numeric("opening_balance", { precision: 14, scale: 2 }).default("0").notNull(),
+  creditLimit: numeric("credit_limit", { precision: 14, scale: 2 }),
+  archived: boolean("archived").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("accounts_user_id_idx").on(table.userId),
+  check("accounts_credit_limit_positive", sql`${table.creditLimit} > 0`),
+]);
+
+// Merchants and people money is paid to or received from. The normalized
+// name is unique per user so statement variants map to one payee.
+export const payees = pgTable("payees", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  normalizedName: text("normalized_name").notNull(),
+  defaultCategory: text("default_category"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("payees_user_id_normalized_name_idx").on(table.userId, table.normalizedName),
+]);
+
+// Schedules that post the same transaction repeatedly. next_occurrence is
+// the unadjusted date of the next occurrence to post, null once ended.
+export const recurringRules = pgTable("recurring_rules", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
+  type: text("type", { enum: ["income", "expense"] }).notNull(),
+  category: text("category").notNull(),
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "set null" }),
+  frequency: text("frequency", { enum: ["daily", "weekly", "monthly", "yearly"] }).notNull(),
+  interval: integer("interval").default(1).notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  weekendAdjustment: text("weekend_adjustment", { enum: ["none", "previous", "next"] }).default("none").notNull(),
+  paused: boolean("paused").default(false).notNull(),
+  // Occurrences, as yyyy-MM-dd, that the user chose not to post
+  skippedOccurrences: text("skipped_occurrences").array().notNull().default(sql`'{}'::text[]`),
+  nextOccurrence: timestamp("next_occurrence"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("recurring_rules_user_id_idx").on(table.userId),
+  index("recurring_rules_next_occurrence_idx").on(table.nextOccurrence),
+  check("recurring_rules_amount_positive", sql`${table.amount} > 0`),
+  check("recurring_rules_interval_positive", sql`${table.interval} > 0`),
+]);
+
+// What the user decided about a detected subscription. Detections are not
+// stored; `key` identifies one across runs of the detector.
+export const subscriptionReviews = pgTable("subscription_reviews", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  status: text("status", { enum: ["confirmed", "ignored"] }).notNull(),
+  // The rule a confirmed subscription was converted into
+  recurringRuleId: uuid("recurring_rule_id").references(() => recurringRules.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("subscription_reviews_user_id_key_idx").on(table.userId, table.key),
+]);
+
+export const transactions = pgTable("transactions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
+  category: text("category").notNull(),
+  description: text("description").notNull(),
+  date: timestamp("date").notNull(),
+  type: text("type", { enum: ["income", "expense", "transfer"] }).notNull(),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  // For transfers this is the source and transfer_account_id the destination
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "set null" }),
+  transferAccountId: uuid("transfer_account_id").references(() => accounts.id, { onDelete: "set null" }),
+  payeeId: uuid("payee_id").references(() => payees.id, { onDelete: "set null" }),
+  // Split lines, each with its own category; category is "split" when set
+  splits: jsonb("splits").$type<{ category: string; amount: number; memo?: string }[]>(),
+  // Rule and occurrence (yyyy-MM-dd) this transaction was posted for
+  recurringRuleId: uuid("recurring_rule_id").references(() => recurringRules.id, { onDelete: "set null" }),
+  occurrence: text("occurrence"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("transactions_user_id_date_idx").on(table.userId, table.date),
+  index("transactions_account_id_date_idx").on(table.accountId, table.date),
+  index("transactions_transfer_account_id_date_idx").on(table.transferAccountId, table.date),
+  index("transactions_payee_id_date_idx").on(table.payeeId, table.date),
+  index("transactions_tags_idx").using("gin", table.tags),
+  // Posting an occurrence twice is a no-op
+  uniqueIndex("transactions_recurring_rule_id_occurrence_idx").on(table.recurringRuleId, table.occurrence),
+  index("transactions_user_id_amount_idx").on(table.userId, table.amount),
+  index("transactions_user_id_category_date_idx").on(table.userId, table.category, table.date),
+  index("transactions_user_id_type_date_idx").on(table.userId, table.type, table.date),
+  // Trigram index for free-text search; requires the pg_trgm extension
+  index("transactions_description_trgm_idx").using("gin", sql`${table.description} gin_trgm_ops`),
+  check("transactions_amount_positive", sql`${table.amount} > 0`),
+  check("transactions_transfer_account_only_on_transfers", sql`${table.transferAccountId} is null or ${table.type} = 'transfer'`),
+]);
+
+// Receipts and documents attached to a transaction. The file and its
+// thumbnail live in the attachment store under the given keys.
+export const attachments = pgTable("attachments", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  transactionId: uuid("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("attachments_transaction_id_idx").on(table.transactionId),
+]);
+
+export const budgets = pgTable("budgets", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  category: text("category").notNull(),
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
+  period: text("period", { enum: ["daily", "weekly", "monthly", "yearly"] }).notNull(),
+  rollover: text("rollover", { enum: ["none", "surplus", "surplus_and_deficit", "capped"] }).default("none").notNull(),
+  rolloverCap: numeric("rollover_cap", { precision: 14, scale: 2 }),
+  // Budgeted amount over time: each entry applies from its period onward
+  amountHistory: jsonb("amount_history").$type<{ effectiveFrom: string; amount: number }[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("budgets_user_id_category_idx").on(table.userId, table.category),
+  check("budgets_amount_positive", sql`${table.amount} > 0`),
+  check("budgets_rollover_cap_positive", sql`${table.rolloverCap} > 0`),
+]);
+
+// Envelope ledger: each row moves `amount` into `category` for a month, from
+// `from_category`, or from the month's unassigned income when that is null
+export const envelopeAllocations = pgTable("envelope_allocations", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  month: text("month").notNull(),
+  category: text("category").notNull(),
+  fromCategory: text("from_category"),
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
+  kind: text("kind", { enum: ["assign", "move", "cover"] }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("envelope_allocations_user_id_month_idx").on(table.userId, table.month),
+]);
+
+// Bills due on a schedule. Payments record which due dates were paid, by
+// a matched transaction or by hand.
+export const bills = pgTable("bills", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
+  estimated: boolean("estimated").default(false).notNull(),
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "set null" }),
+  payeeId: uuid("payee_id").references(() => payees.id, { onDelete: "set null" }),
+  autopay: boolean("autopay").default(false).notNull(),
+  frequency: text("frequency", { enum: ["once", "weekly", "monthly", "yearly"] }).notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  endDate: timestamp("end_date"),
+  reminderDays: integer("reminder_days").default(3).notNull(),
+  payments: jsonb("payments")
+    .$type<{ dueDate: string; transactionId: string | null; amount: number; paidAt: string }[]>()
+    .default([])
+    .notNull(),
+  // Reminders already sent, as "<kind>:<due date>"
+  notifiedReminders: text("notified_reminders").array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("bills_user_id_idx").on(table.userId),
+  check("bills_amount_positive", sql`${table.amount} > 0`),
+  check("bills_reminder_days_range", sql`${table.reminderDays} between 0 and 30`),
+]);
+
+export const savingsGoals = pgTable("savings_goals", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  targetAmount: numeric("target_amount", { precision: 14, scale: 2 }).notNull(),
+  deadline: timestamp("deadline"),
+  // Transactions in this category from start_date on count toward the goal
+  categoryId: text("category_id"),
+  // Or the net of transactions in and out of this account
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "set null" }),
+  startDate: timestamp("start_date").defaultNow().notNull(),
+  notifiedMilestones: integer("notified_milestones").array().notNull().default(sql`'{}'::integer[]`),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("savings_goals_user_id_idx").on(table.userId),
+  check("savings_goals_target_amount_positive", sql`${table.targetAmount} > 0`),
+]);
+
+export const goalContributions = pgTable("goal_contributions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  goalId: uuid("goal_id").notNull().references(() => savingsGoals.id, { onDelete: "cascade" }),
+  // Negative for withdrawals
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(),
+  date: timestamp("date").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("goal_contributions_user_id_idx").on(table.userId),
+  index("goal_contributions_goal_id_idx").on(table.goalId),
+]);
+
+export const notifications = pgTable("notifications", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  kind: text("kind", { enum: ["goal_milestone", "bill_upcoming", "bill_overdue"] }).notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"),
+  read: boolean("read").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notifications_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
+export const categories = pgTable("categories", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull().references(() => userProfiles.uid, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  type: text("type", { enum: ["income", "expense"] }).notNull(),
+  color: text("color"),
+  icon: text("icon"),
+  archived: boolean("archived").default(false).notNull(),
+  // Optional parent for nesting (Food > Groceries); top-level when null
+  parentId: uuid("parent_id").references((): AnyPgColumn => categories.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("categories_user_id_type_idx").on(table.userId, table.type),
+  index("categories_parent_id_idx").on(table.parentId),
+]);
+
+export const insertUserProfileSchema = createInsertSchema(userProfiles).omit({
+  createdAt: true,
+});
+export const selectUserProfileSchema = createSelectSchema(userProfiles);
+
+export const insertAccountSchema = createInsertSchema(accounts).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectAccountSchema = createSelectSchema(accounts);
+
+export const insertPayeeSchema = createInsertSchema(payees).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectPayeeSchema = createSelectSchema(payees);
+
+export const insertRecurringRuleSchema = createInsertSchema(recurringRules).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectRecurringRuleSchema = createSelectSchema(recurringRules);
+
+export const insertSubscriptionReviewSchema = createInsertSchema(subscriptionReviews).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectSubscriptionReviewSchema = createSelectSchema(subscriptionReviews);
+
+export const insertTransactionSchema = createInsertSchema(transactions).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectTransactionSchema = createSelectSchema(transactions);
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectAttachmentSchema = createSelectSchema(attachments);
+
+export const insertBudgetSchema = createInsertSchema(budgets).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectBudgetSchema = createSelectSchema(budgets);
+
+export const insertCategorySchema = createInsertSchema(categories).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectCategorySchema = createSelectSchema(categories);
+
+export const insertEnvelopeAllocationSchema = createInsertSchema(envelopeAllocations).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectEnvelopeAllocationSchema = createSelectSchema(envelopeAllocations);
+
+export const insertBillSchema = createInsertSchema(bills).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectBillSchema = createSelectSchema(bills);
+
+export const insertSavingsGoalSchema = createInsertSchema(savingsGoals).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectSavingsGoalSchema = createSelectSchema(savingsGoals);
+
+export const insertGoalContributionSchema = createInsertSchema(goalContributions).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectGoalContributionSchema = createSelectSchema(goalContributions);
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+});
+export const selectNotificationSchema = createSelectSchema(notifications);
+
+export type InsertUserProfile = z.infer<typeof insertUserProfileSchema>;
+export type UserProfileRecord = typeof userProfiles.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type AccountRecord = typeof accounts.$inferSelect;
+export type InsertPayee = z.infer<typeof insertPayeeSchema>;
+export type PayeeRecord = typeof payees.$inferSelect;
+export type InsertRecurringRule = z.infer<typeof insertRecurringRuleSchema>;
+export type RecurringRuleRecord = typeof recurringRules.$inferSelect;
+export type InsertSubscriptionReview = z.infer<typeof insertSubscriptionReviewSchema>;
+export type SubscriptionReviewRecord = typeof subscriptionReviews.$inferSelect;
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type TransactionRecord = typeof transactions.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type AttachmentRecord = typeof attachments.$inferSelect;
+export type InsertBudget = z.infer<typeof insertBudgetSchema>;
+export type BudgetRecord = typeof budgets.$inferSelect;
+export type InsertEnvelopeAllocation = z.infer<typeof insertEnvelopeAllocationSchema>;
+export type EnvelopeAllocationRecord = typeof envelopeAllocations.$inferSelect;
+export type InsertBill = z.infer<typeof insertBillSchema>;
+export type BillRecord = typeof bills.$inferSelect;
+export type InsertSavingsGoal = z.infer<typeof insertSavingsGoalSchema>;
+export type SavingsGoalRecord = typeof savingsGoals.$inferSelect;
+export type InsertGoalContribution = z.infer<typeof insertGoalContributionSchema>;
+export type GoalContributionRecord = typeof goalContributions.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationRecord = typeof notifications.$inferSelect;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type CategoryRecord = typeof categories.$inferSelect;
@@ -0,0 +1,522 @@
+import { z } from "zod";
+
+// Request payload schemas shared by the client forms and the API. Unknown
+// keys are rejected so clients cannot set server-owned fields like userId.
+
+export const transactionTypes = ["income", "expense"] as const;
+// Transfers move money between two accounts and have no category
+export const TRANSFER = "transfer";
+export const allTransactionTypes = [...transactionTypes, TRANSFER] as const;
+export const budgetPeriods = ["daily", "weekly", "monthly", "yearly"] as const;
+export const accountTypes = ["bank", "savings", "credit_card", "cash", "wallet"] as const;
+
+// Tags are short lowercase labels like "vacation-2026" or "reimbursable"
+export const tagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, { message: "Tags cannot be empty" })
+  .max(40, { message: "Tags must be at most 40 characters" });
+
+// Update payloads must change at least one field
+const nonEmpty = <T extends z.ZodRawShape>(schema: z.ZodObject<T, "strict">) =>
+  schema.refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+// ----- Transactions -----
+
+// Category stored on split transactions; totals use the split lines instead
+export const SPLIT = "split";
+
+// One part of a split transaction, attributed to its own category
+export const splitLineSchema = z.object({
+  category: z.string().min(1, { message: "Please select a category" }),
+  amount: z.coerce.number().positive({ message: "Amount must be positive" }).finite(),
+  memo: z.string().trim().max(100).optional(),
+}).strict();
+
+// Split lines must add up to the transaction amount, to the cent
+export const splitsMatchAmount = (amount: number, splits: { amount: number }[]) =>
+  Math.round(splits.reduce((total, split) => total + split.amount, 0) * 100) === Math.round(amount * 100);
+
+const transactionFields = z.object({
+  description: z.string().trim().min(3, { message: "Description must be at least 3 characters" }).max(200),
+  amount: z.coerce.number().positive({ message: "Amount must be positive" }).finite(),
+  category: z.string().min(1, { message: "Please select a category" }),
+  date: z.coerce.date({ message: "Please provide a valid date" }),
+  type: z.enum(transactionTypes, { message: "Please select a transaction type" }),
+  tags: z.array(tagSchema).max(20).optional(),
+  // null leaves the transaction outside every account
+  accountId: z.string().min(1).nullable().optional(),
+  // null clears the payee
+  payeeId: z.string().min(1).nullable().optional(),
+  // null removes the split
+  splits: z.array(splitLineSchema).min(2, { message: "A split needs at least two lines" }).max(20).nullable().optional(),
+}).strict();
+
+export const createTransactionSchema = transactionFields.refine(
+  (transaction) => !transaction.splits || splitsMatchAmount(transaction.amount, transaction.splits),
+  { message: "Split amounts must add up to the transaction amount", path: ["splits"] },
+);
+
+// Split totals are checked against the stored amount by the server
+export const updateTransactionSchema = nonEmpty(transactionFields.partial());
+
+export const transactionSortFields = ["date", "amount", "category", "type"] as const;
+
+// Query string for GET /api/transactions. `sort` is a field name, prefixed
+// with "-" for descending order.
+export const transactionQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().min(1).optional(),
+  sort: z
+    .string()
+    .regex(/^-?(date|amount|category|type)$/, { message: "Invalid sort field" })
+    .default("-date")
+    .transform((sort) => ({
+      field: sort.replace(/^-/, "") as (typeof transactionSortFields)[number],
+      direction: sort.startsWith("-") ? ("desc" as const) : ("asc" as const),
+    })),
+  type: z.enum(allTransactionTypes).optional(),
+  category: z.string().min(1).optional(),
+  accountId: z.string().min(1).optional(),
+  tag: tagSchema.optional(),
+  payeeId: z.string().min(1).optional(),
+  minAmount: z.coerce.number().nonnegative().optional(),
+  maxAmount: z.coerce.number().nonnegative().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  q: z.string().trim().min(1).max(100).optional(),
+})
+  .refine((query) => query.minAmount === undefined || query.maxAmount === undefined || query.minAmount <= query.maxAmount, {
+    message: "minAmount must not exceed maxAmount",
+    path: ["minAmount"],
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must not be after to",
+    path: ["from"],
+  });
+
+// Transfers are stored as one transaction: amount leaves fromAccountId and
+// arrives in toAccountId
+const transferFields = z.object({
+  description: z.string().trim().min(3, { message: "Description must be at least 3 characters" }).max(200).default("Transfer"),
+  amount: z.coerce.number().positive({ message: "Amount must be positive" }).finite(),
+  date: z.coerce.date({ message: "Please provide a valid date" }),
+  fromAccountId: z.string().min(1, { message: "Please select the account to transfer from" }),
+  toAccountId: z.string().min(1, { message: "Please select the account to transfer to" }),
+  tags: z.array(tagSchema).max(20).optional(),
+}).strict();
+
+const distinctAccounts = (transfer: { fromAccountId?: string; toAccountId?: string }) =>
+  !transfer.fromAccountId || transfer.fromAccountId !== transfer.toAccountId;
+
+export const createTransferSchema = transferFields.refine(distinctAccounts, {
+  message: "Choose two different accounts",
+  path: ["toAccountId"],
+});
+
+export const updateTransferSchema = nonEmpty(
+  transferFields.extend({ description: transferFields.shape.description.removeDefault() }).partial(),
+).refine(distinctAccounts, {
+  message: "Choose two different accounts",
+  path: ["toAccountId"],
+});
+
+// A single change applied to every transaction in a batch
+export const batchOperationSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("recategorize"), category: z.string().min(1) }).strict(),
+  z.object({ action: z.literal("setType"), type: z.enum(transactionTypes) }).strict(),
+  z.object({ action: z.literal("addTags"), tags: z.array(tagSchema).min(1).max(20) }).strict(),
+  z.object({
+    action: z.literal("shiftDates"),
+    days: z.number().int().refine((days) => days !== 0, { message: "Shift must be at least one day" }),
+  }).strict(),
+  z.object({ action: z.literal("setAccount"), accountId: z.string().min(1).nullable() }).strict(),
+  z.object({ action: z.literal("delete") }).strict(),
+]);
+
+// Body of POST /api/transactions/batch. Operations run in order on each
+// transaction; delete cannot be combined with other operations.
+export const batchTransactionsSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(500),
+  operations: z.array(batchOperationSchema).min(1).max(5),
+}).strict()
+  .refine((batch) => batch.operations.length === 1 || batch.operations.every((op) => op.action !== "delete"), {
+    message: "Delete cannot be combined with other operations",
+    path: ["operations"],
+  });
+
+// ----- Accounts -----
+
+const accountFields = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(50),
+  type: z.enum(accountTypes, { message: "Please select an account type" }),
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, { message: "Currency must be a code like USD" }).default("USD"),
+  // Balance before the first recorded transaction; negative for money owed
+  openingBalance: z.coerce.number().finite().default(0),
+  creditLimit: z.coerce.number().positive({ message: "Credit limit must be positive" }).finite().nullable().optional(),
+}).strict();
+
+export const createAccountSchema = accountFields;
+
+export const updateAccountSchema = nonEmpty(
+  accountFields.extend({ archived: z.boolean() }).partial(),
+);
+
+// ----- Payees -----
+
+// Payee names are compared in a normalized form: lowercase, without
+// punctuation or the reference codes card statements append, so
+// "AMAZON.COM*2K4L7" and "Amazon.com" are the same payee
+export const normalizePayeeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[*#]\s*[a-z0-9]*\d[a-z0-9]*/g, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const payeeFields = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(100)
+    .refine((name) => normalizePayeeName(name).length > 0, { message: "Name must contain letters or numbers" }),
+  // Suggested for new transactions with this payee; null for none
+  defaultCategory: z.string().min(1).nullable().optional(),
+}).strict();
+
+export const createPayeeSchema = payeeFields;
+
+export const updatePayeeSchema = nonEmpty(payeeFields.partial());
+
+// ----- Recurring rules -----
+
+export const recurringFrequencies = ["daily", "weekly", "monthly", "yearly"] as const;
+// Occurrences falling on a weekend move to the Friday before or the Monday after
+export const weekendAdjustments = ["none", "previous", "next"] as const;
+
+// Occurrences are named by their unadjusted date
+export const occurrenceDateSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, {
+  message: "Date must look like 2026-01-31",
+});
+
+// Like an RRULE: every `interval` days, weeks, months or years from
+// startDate. Monthly and yearly rules keep startDate's day of the month,
+// using the last day in shorter months.
+const recurringRuleFields = z.object({
+  description: z.string().trim().min(3, { message: "Description must be at least 3 characters" }).max(200),
+  amount: z.coerce.number().positive({ message: "Amount must be positive" }).finite(),
+  type: z.enum(transactionTypes, { message: "Please select a transaction type" }),
+  category: z.string().min(1, { message: "Please select a category" }),
+  accountId: z.string().min(1).nullable().optional(),
+  frequency: z.enum(recurringFrequencies, { message: "Please select how often it repeats" }),
+  interval: z.coerce.number().int().min(1, { message: "Interval must be at least 1" }).max(366),
+  startDate: z.coerce.date({ message: "Please provide a valid start date" }),
+  // null repeats without end
+  endDate: z.coerce.date({ message: "Please provide a valid end date" }).nullable().optional(),
+  weekendAdjustment: z.enum(weekendAdjustments),
+  paused: z.boolean(),
+}).strict();
+
+const endsAfterStart = (rule: { startDate?: Date; endDate?: Date | null }) =>
+  !rule.startDate || !rule.endDate || rule.endDate >= rule.startDate;
+
+export const createRecurringRuleSchema = recurringRuleFields.extend({
+  interval: recurringRuleFields.shape.interval.default(1),
+  weekendAdjustment: recurringRuleFields.shape.weekendAdjustment.default("none"),
+  paused: recurringRuleFields.shape.paused.default(false),
+}).refine(endsAfterStart, { message: "End date must not be before the start date", path: ["endDate"] });
+
+// Changes apply to occurrences that have not been posted yet
+export const updateRecurringRuleSchema = nonEmpty(recurringRuleFields.partial())
+  .refine(endsAfterStart, { message: "End date must not be before the start date", path: ["endDate"] });
+
+export const occurrenceQuerySchema = z.object({
+  count: z.coerce.number().int().min(1).max(60).default(12),
+});
+
+export const skipOccurrenceSchema = z.object({
+  occurrence: occurrenceDateSchema,
+}).strict();
+
+// ----- Subscriptions -----
+
+export const subscriptionStatuses = ["confirmed", "ignored"] as const;
+
+// null clears the decision, showing the subscription as detected again
+export const reviewSubscriptionSchema = z.object({
+  status: z.enum(subscriptionStatuses, { message: "Status must be confirmed or ignored" }).nullable(),
+}).strict();
+
+// ----- Attachments -----
+
+// Receipts and invoices: photos or PDFs of up to 10 MB, at most 10 per transaction
+export const attachmentTypes = ["image/jpeg", "image/png", "image/webp", "image/gif", "application/pdf"] as const;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+// ----- Budgets -----
+
+// How a budget's leftover moves into its next period
+export const rolloverModes = ["none", "surplus", "surplus_and_deficit", "capped"] as const;
+
+const budgetFields = z.object({
+  category: z.string().min(1, { message: "Please select a category" }),
+  amount: z.coerce.number().positive({ message: "Amount must be positive" }).finite(),
+  period: z.enum(budgetPeriods, { message: "Please select a budget period" }),
+  rollover: z.enum(rolloverModes).optional(),
+  // Most surplus a capped budget carries forward
+  rolloverCap: z.coerce.number().positive({ message: "Cap must be positive" }).finite().nullable().optional(),
+}).strict();
+
+export const createBudgetSchema = budgetFields.refine(
+  (budget) => budget.rollover !== "capped" || (budget.rolloverCap ?? null) !== null,
+  { message: "Capped rollover needs a cap", path: ["rolloverCap"] },
+);
+
+export const updateBudgetSchema = nonEmpty(budgetFields.partial());
+
+export const budgetStatusQuerySchema = z.object({
+  asOf: z.coerce.date().optional(),
+});
+
+export const updateBudgetSettingsSchema = nonEmpty(z.object({
+  weekStartsOn: z.number().int().min(0).max(6, { message: "Week start must be a weekday from 0 (Sunday) to 6" }),
+  monthStartDay: z.number().int().min(1).max(28, { message: "Month start day must be between 1 and 28" }),
+}).strict().partial());
+
+// How the budget planner divides income: the 50/30/20 or 70/20/10 split of
+// needs, wants and savings, or past spending
+export const planRules = ["50_30_20", "70_20_10", "historical"] as const;
+
+// Query string for GET /api/budgets/plan
+export const budgetPlanQuerySchema = z.object({
+  rule: z.enum(planRules, { message: "Please choose a planning rule" }).default("50_30_20"),
+  // Full months of history to average
+  months: z.coerce.number().int().min(1).max(12).default(3),
+  income: z.coerce.number().positive({ message: "Income must be positive" }).finite().optional(),
+  savingsTarget: z.coerce.number().nonnegative({ message: "Savings target cannot be negative" }).finite().optional(),
+  // Comma-separated ids of the categories to treat as needs
+  needs: z.string().transform((ids) => ids.split(",").filter(Boolean)).optional(),
+})
+  .refine((plan) => plan.income === undefined || plan.savingsTarget === undefined || plan.savingsTarget <= plan.income, {
+    message: "Savings target cannot exceed income",
+    path: ["savingsTarget"],
+  });
+
+// Body of POST /api/budgets/bulk. Budgets for a category and period that
+// already has one replace its amount.
+export const createBudgetsSchema = z.object({
+  budgets: z.array(createBudgetSchema).min(1).max(100),
+}).strict();
+
+// ----- Envelopes -----
+
+// Envelope months are named by the calendar month their period starts in
+export const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, { message: "Month must look like 2026-01" });
+
+export const envelopeMonthQuerySchema = z.object({
+  month: monthSchema.optional(),
+});
+
+// Body of PUT /api/envelopes/assignments: the total assigned to each
+// category for the month, replacing what was assigned before
+export const assignEnvelopesSchema = z.object({
+  month: monthSchema,
+  assignments: z.array(z.object({
+    category: z.string().min(1, { message: "Please select a category" }),
+    amount: z.coerce.number().nonnegative({ message: "Assigned amount cannot be negative" }).finite(),
+  }).strict()).min(1).max(200),
+}).strict();
+
+const envelopeMoveFields = z.object({
+  month: monthSchema,
+  from: z.string().min(1, { message: "Choose an envelope to take money from" }),
+  to: z.string().min(1, { message: "Choose an envelope to move money to" }),
+  amount: z.coerce.number().positive({ message: "Amount must be positive" }).finite(),
+}).strict();
+
+const distinctEnvelopes = { message: "Choose two different envelopes", path: ["to"] };
+
+export const moveEnvelopeSchema = envelopeMoveFields
+  .refine((move) => move.from !== move.to, distinctEnvelopes);
+
+// Without an amount the whole overspending of `to` is covered
+export const coverOverspendingSchema = envelopeMoveFields.partial({ amount: true })
+  .refine((move) => move.from !== move.to, distinctEnvelopes);
+
+// ----- Savings goals -----
+
+const goalFields = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(80),
+  targetAmount: z.coerce.number().positive({ message: "Target must be positive" }).finite(),
+  deadline: z.coerce.date({ message: "Please provide a valid date" }).nullable().optional(),
+  // Transactions in this category, or in and out of this account, count
+  // toward the goal automatically
+  categoryId: z.string().min(1).nullable().optional(),
+  accountId: z.string().min(1).nullable().optional(),
+  // Automatic contributions count from this date; defaults to now
+  startDate: z.coerce.date({ message: "Please provide a valid date" }).optional(),
+}).strict();
+
+// A goal follows either a category or an account, not both
+export const createGoalSchema = goalFields.refine((goal) => !goal.categoryId || !goal.accountId, {
+  message: "Link the goal to a category or an account, not both",
+  path: ["accountId"],
+});
+
+export const updateGoalSchema = nonEmpty(goalFields.partial());
+
+// Negative amounts withdraw money from the goal
+export const createContributionSchema = z.object({
+  amount: z.coerce.number().finite().refine((amount) => amount !== 0, { message: "Amount cannot be zero" }),
+  date: z.coerce.date({ message: "Please provide a valid date" }).optional(),
+  note: z.string().trim().max(200).optional(),
+}).strict();
+
+// ----- Bills -----
+
+// "once" is a single bill; the others repeat from the first due date,
+// keeping its day of the month like recurring rules do
+export const billFrequencies = ["once", "weekly", "monthly", "yearly"] as const;
+
+const billFields = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(100)
+    .refine((name) => normalizePayeeName(name).length > 0, { message: "Name must contain letters or numbers" }),
+  amount: z.coerce.number().positive({ message: "Amount must be positive" }).finite(),
+  // Estimated amounts change from bill to bill, like utilities
+  estimated: z.boolean(),
+  accountId: z.string().min(1).nullable().optional(),
+  payeeId: z.string().min(1).nullable().optional(),
+  autopay: z.boolean(),
+  frequency: z.enum(billFrequencies, { message: "Please select how often the bill is due" }),
+  dueDate: z.coerce.date({ message: "Please provide a valid due date" }),
+  // null repeats without end
+  endDate: z.coerce.date({ message: "Please provide a valid end date" }).nullable().optional(),
+  // Days before the due date to send a reminder; 0 reminds on the day
+  reminderDays: z.coerce.number().int().min(0).max(30, { message: "Reminders can be at most 30 days ahead" }),
+}).strict();
+
+const endsAfterDue = (bill: { dueDate?: Date; endDate?: Date | null }) =>
+  !bill.dueDate || !bill.endDate || bill.endDate >= bill.dueDate;
+
+export const createBillSchema = billFields.extend({
+  estimated: billFields.shape.estimated.default(false),
+  autopay: billFields.shape.autopay.default(false),
+  reminderDays: billFields.shape.reminderDays.default(3),
+}).refine(endsAfterDue, { message: "End date must not be before the first due date", path: ["endDate"] });
+
+export const updateBillSchema = nonEmpty(billFields.partial())
+  .refine(endsAfterDue, { message: "End date must not be before the first due date", path: ["endDate"] });
+
+export const billCalendarQuerySchema = z.object({
+  month: monthSchema.optional(),
+});
+
+// Mark one due date paid by hand, for bills paid outside the tracked accounts
+export const createBillPaymentSchema = z.object({
+  dueDate: occurrenceDateSchema,
+  // Defaults to the bill's amount
+  amount: z.coerce.number().positive({ message: "Amount must be positive" }).finite().optional(),
+}).strict();
+
+// ----- Notifications -----
+
+export const notificationKinds = ["goal_milestone", "bill_upcoming", "bill_overdue"] as const;
+
+// Without ids every notification is marked as read
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().min(1)).max(200).optional(),
+}).strict();
+
+// ----- Categories -----
+
+// Icon names the client knows how to render
+export const categoryIcons = [
+  "utensils", "shopping-cart", "car", "film", "zap", "home", "shopping-bag", "heart-pulse",
+  "graduation-cap", "plane", "coffee", "gift", "briefcase", "trending-up", "wallet", "piggy-bank", "tag",
+] as const;
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, { message: "Color must be a hex value like #22c55e" });
+
+export const createCategorySchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(50),
+  type: z.enum(transactionTypes, { message: "Type must be either 'income' or 'expense'" }),
+  color: hexColorSchema.optional(),
+  icon: z.enum(categoryIcons).optional(),
+  // null places the category at the top level
+  parentId: z.string().min(1).nullable().optional(),
+}).strict();
+
+export const updateCategorySchema = nonEmpty(
+  createCategorySchema.extend({ archived: z.boolean() }).partial(),
+);
+
+// Stand-in category for records whose category was deleted without a replacement
+export const UNCATEGORIZED = "uncategorized";
+
+export const categoryTotalsQuerySchema = z.object({
+  type: z.enum(transactionTypes, { message: "Type must be either 'income' or 'expense'" }),
+  startDate: z.coerce.date({ message: "Start date is required" }),
+  endDate: z.coerce.date({ message: "End date is required" }),
+  rollup: z.enum(["true", "false"]).transform((rollup) => rollup === "true").optional(),
+  level: z.coerce.number().int().min(0).optional(),
+});
+
+// Query string for the tag and payee breakdowns
+export const breakdownQuerySchema = z.object({
+  type: z.enum(transactionTypes, { message: "Type must be either 'income' or 'expense'" }),
+  startDate: z.coerce.date({ message: "Start date is required" }),
+  endDate: z.coerce.date({ message: "End date is required" }),
+});
+
+export const deleteCategoryQuerySchema = z.object({
+  reassignTo: z.string().min(1, { message: "Choose a category to move existing records to" }),
+});
+
+export const mergeCategorySchema = z.object({
+  targetId: z.string().min(1, { message: "Choose a category to merge into" }),
+}).strict();
+
+export type SplitLine = z.infer<typeof splitLineSchema>;
+export type CreateTransactionInput = z.infer<typeof createTransactionSchema>;
+export type UpdateTransactionInput = z.infer<typeof updateTransactionSchema>;
+export type CreateTransferInput = z.infer<typeof createTransferSchema>;
+export type UpdateTransferInput = z.infer<typeof updateTransferSchema>;
+export type BatchOperation = z.infer<typeof batchOperationSchema>;
+export type BatchTransactionsInput = z.infer<typeof batchTransactionsSchema>;
+export type TransactionQueryInput = z.input<typeof transactionQuerySchema>;
+export type TransactionQueryParams = z.infer<typeof transactionQuerySchema>;
+export type AccountType = (typeof accountTypes)[number];
+export type RecurringFrequency = (typeof recurringFrequencies)[number];
+export type WeekendAdjustment = (typeof weekendAdjustments)[number];
+export type CreateRecurringRuleInput = z.infer<typeof createRecurringRuleSchema>;
+export type UpdateRecurringRuleInput = z.infer<typeof updateRecurringRuleSchema>;
+export type SubscriptionStatus = typeof subscriptionStatuses[number];
+export type ReviewSubscriptionInput = z.infer<typeof reviewSubscriptionSchema>;
+export type BillFrequency = typeof billFrequencies[number];
+export type CreateBillInput = z.infer<typeof createBillSchema>;
+export type UpdateBillInput = z.infer<typeof updateBillSchema>;
+export type CreateBillPaymentInput = z.infer<typeof createBillPaymentSchema>;
+export type NotificationKind = typeof notificationKinds[number];
+export type AttachmentType = (typeof attachmentTypes)[number];
+export type CreatePayeeInput = z.infer<typeof createPayeeSchema>;
+export type UpdatePayeeInput = z.infer<typeof updatePayeeSchema>;
+export type CreateAccountInput = z.infer<typeof createAccountSchema>;
+export type UpdateAccountInput = z.infer<typeof updateAccountSchema>;
+export type CreateBudgetInput = z.infer<typeof createBudgetSchema>;
+export type UpdateBudgetInput = z.infer<typeof updateBudgetSchema>;
+export type RolloverMode = (typeof rolloverModes)[number];
+export type PlanRule = (typeof planRules)[number];
+export type BudgetPlanQuery = z.input<typeof budgetPlanQuerySchema>;
+export type CreateBudgetsInput = z.infer<typeof createBudgetsSchema>;
+export type UpdateBudgetSettingsInput = z.infer<typeof updateBudgetSettingsSchema>;
+export type AssignEnvelopesInput = z.infer<typeof assignEnvelopesSchema>;
+export type MoveEnvelopeInput = z.infer<typeof moveEnvelopeSchema>;
+export type CoverOverspendingInput = z.infer<typeof coverOverspendingSchema>;
+export type CreateGoalInput = z.infer<typeof createGoalSchema>;
+export type UpdateGoalInput = z.infer<typeof updateGoalSchema>;
+export type CreateContributionInput = z.infer<typeof createContributionSchema>;
+export type CategoryIcon = (typeof categoryIcons)[number];
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type MergeCategoryInput = z.infer<typeof mergeCategorySchema>;